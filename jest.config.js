@@ -13,6 +13,8 @@ module.exports = {
     '^obsidian$': '<rootDir>/tests/mocks/obsidian.ts',
     // Mock the plugin instance to avoid circular dependencies
     '\.\./core/plugin-instance': '<rootDir>/tests/mocks/plugin-instance.ts',
+    // Use the CommonJS build of yaml rather than its browser ES module build
+    '^yaml$': '<rootDir>/node_modules/yaml/dist/index.js',
   },
   setupFilesAfterEnv: ['<rootDir>/tests/setup.ts'],
   collectCoverage: true,
@@ -0,0 +1,142 @@
+/**
+ * Plain-text rendering of CVs for applicant tracking systems (ATS)
+ * ATS parsers ignore layout, so the text keeps only structure: headings, entries, bullets and dates
+ */
+
+import { InlineToken, MarkdownBlock, parseInline, parseMarkdownBlocks } from './markdown-blocks';
+import { formatResumeDate } from './json-resume';
+import { parseCVDate } from './cv-model';
+
+/** Proficiency words for \cvskill levels, highest first */
+const SKILL_LEVELS: { min: number; label: string }[] = [
+  { min: 90, label: 'Expert' },
+  { min: 70, label: 'Advanced' },
+  { min: 50, label: 'Intermediate' },
+  { min: 0, label: 'Beginner' }
+];
+
+/**
+ * Convert CV Markdown into ATS-friendly plain text
+ * @param markdown The CV content, with or without frontmatter
+ * @returns The plain text
+ */
+export function toATSPlainText(markdown: string): string {
+  const lines: string[] = [];
+
+  parseMarkdownBlocks(markdown).forEach(block => {
+    lines.push(...blockToText(block));
+  });
+
+  return lines.join('\n').replace(/\n{3,}/g, '\n\n').trim() + '\n';
+}
+
+/**
+ * Convert a block into lines of text
+ * @param block The block
+ * @returns The lines
+ */
+function blockToText(block: MarkdownBlock): string[] {
+  switch (block.type) {
+    case 'heading': {
+      const text = inlineToText(parseInline(block.text));
+      if (block.level === 1) {
+        return [text];
+      }
+      // Section headings are upper-cased so parsers recognise them
+      return block.level === 2 ? ['', text.toUpperCase()] : ['', text];
+    }
+
+    case 'paragraph':
+      return [...inlineToText(parseInline(block.text)).split('\n'), ''];
+
+    case 'list':
+      return [...block.items.map(item => `- ${inlineToText(parseInline(item)).replace(/\n/g, ' ')}`), ''];
+
+    case 'table':
+      return [...[block.header, ...block.rows].map(row => row.map(cell => inlineToText(parseInline(cell))).join(' | ')), ''];
+
+    default:
+      // Page breaks, rules and spacers carry no content
+      return [];
+  }
+}
+
+/**
+ * Convert inline tokens into text
+ * Tags next to each other are joined with commas
+ * @param tokens The tokens
+ * @returns The text
+ */
+function inlineToText(tokens: InlineToken[]): string {
+  let text = '';
+  let previousWasTag = false;
+
+  tokens.forEach(token => {
+    // Whitespace between two tags is replaced by the comma separator
+    if (token.type === 'text' && previousWasTag && !token.text.trim()) {
+      return;
+    }
+
+    switch (token.type) {
+      case 'text':
+        text += token.text;
+        break;
+      case 'link':
+        text += linkToText(token.text, token.url);
+        break;
+      case 'tag':
+        text += previousWasTag ? `, ${token.text}` : token.text;
+        break;
+      case 'daterange':
+        text += `${normalizeDate(token.start)} - ${normalizeDate(token.end)}`;
+        break;
+      case 'skill':
+        text += `${token.name} (${getSkillLevelLabel(token.level)})`;
+        break;
+      case 'break':
+        text += '\n';
+        break;
+    }
+
+    previousWasTag = token.type === 'tag';
+  });
+
+  return text.replace(/[ \t]+/g, ' ').split('\n').map(line => line.trim()).join('\n');
+}
+
+/**
+ * Write a link so its target survives in plain text
+ * @param text The link text
+ * @param url The link target
+ * @returns The text
+ */
+function linkToText(text: string, url: string): string {
+  const target = url.replace(/^mailto:/, '');
+  if (!text || text === url || text === target || target.replace(/^https?:\/\//, '').replace(/\/$/, '') === text) {
+    return target;
+  }
+  return `${text} (${target})`;
+}
+
+/**
+ * Write dates in one consistent format
+ * @param date The date as written in the CV
+ * @returns E.g. "Jan 2020", "2019" or "Present"
+ */
+export function normalizeDate(date: string): string {
+  const value = date.trim();
+  if (/^(present|now|current|today|ongoing)$/i.test(value)) {
+    return 'Present';
+  }
+  const iso = parseCVDate(value);
+  return iso ? formatResumeDate(iso) : value;
+}
+
+/**
+ * Describe a skill level in words
+ * @param level The level in percent
+ * @returns E.g. "Advanced"
+ */
+export function getSkillLevelLabel(level: number): string {
+  return (SKILL_LEVELS.find(entry => level >= entry.min) || SKILL_LEVELS[SKILL_LEVELS.length - 1]).label;
+}
@@ -1,7 +1,7 @@
 /**
  * Constants for the Oh My CV Obsidian plugin
  */
-import { OhMyCVSettings, CVTemplate, CVTemplateStyle, CVTheme } from './types';
+import { OhMyCVSettings, CVTemplate, CVTemplateStyle, CVTheme, CVMetadata } from './types';
 
 /** Plugin ID */
 export const PLUGIN_ID = 'obsidian-oh-my-cv';
@@ -20,6 +20,36 @@ export const CV_FILE_EXTENSION = '.cv.md';
 /** Folder name for CV files */
 export const DEFAULT_CV_FOLDER = 'CVs';
 
+/** Extension of the file that holds a CV's snapshots, next to the CV */
+export const CV_HISTORY_EXTENSION = '.cv-history.json';
+
+/** Folder for crash-recovery drafts, inside the plugin's folder */
+export const DRAFTS_FOLDER = 'drafts';
+
+/** Delay before unsaved changes are written to a draft (ms) */
+export const DRAFT_SAVE_DELAY = 1000;
+
+/** Delay after typing stops before the preview is rendered (ms) */
+export const PREVIEW_RENDER_DELAY = 250;
+
+/** Delay after a file in the templates folder changes before the folder is reloaded (ms) */
+export const TEMPLATES_FOLDER_RELOAD_DELAY = 500;
+
+/** Value of the format field that marks a template package */
+export const TEMPLATE_PACKAGE_FORMAT = 'oh-my-cv-template-package';
+
+/** Version of the template package layout this plugin writes and reads */
+export const TEMPLATE_PACKAGE_VERSION = 1;
+
+/** Name of the manifest inside a zipped template package */
+export const TEMPLATE_PACKAGE_MANIFEST = 'template-package.json';
+
+/** Width of the thumbnails generated for templates (px) */
+export const THUMBNAIL_WIDTH = 240;
+
+/** Preview render time above which the status bar flags rendering as slow (ms) */
+export const PREVIEW_RENDER_BUDGET = 100;
+
 /** Common terms for auto-casing */
 export const CASING_RULES: Record<string, string> = {
   'github': 'GitHub',
@@ -360,6 +390,33 @@ Product Design, User Research, Wireframing, Prototyping, Figma, Sketch, Adobe Cr
  */
 export const FRONTMATTER_REGEX = /^---\n([\s\S]*?)\n---/;
 
+/**
+ * Paper dimensions in millimetres (portrait orientation)
+ */
+export const PAGE_SIZES_MM: Record<CVMetadata['pageSize'], { width: number; height: number }> = {
+  A4: { width: 210, height: 297 },
+  LETTER: { width: 215.9, height: 279.4 },
+  LEGAL: { width: 215.9, height: 355.6 },
+  TABLOID: { width: 279.4, height: 431.8 }
+};
+
+/**
+ * Font stacks offered by the style panel, by name
+ */
+export const FONT_FAMILIES: Record<string, string> = {
+  'Inter': 'Inter, sans-serif',
+  'Helvetica': 'Helvetica, Arial, sans-serif',
+  'Arial': 'Arial, sans-serif',
+  'Roboto': 'Roboto, sans-serif',
+  'Open Sans': '"Open Sans", sans-serif',
+  'Lato': 'Lato, sans-serif',
+  'Georgia': 'Georgia, serif',
+  'Garamond': 'Garamond, "Times New Roman", serif',
+  'Times New Roman': '"Times New Roman", Times, serif',
+  'Source Serif': '"Source Serif Pro", Georgia, serif',
+  'Menlo': 'Menlo, Consolas, monospace'
+};
+
 /**
  * Initialize and export DEFAULT_SETTINGS after all dependencies are defined
  */
@@ -383,7 +440,14 @@ export const DEFAULT_SETTINGS: OhMyCVSettings = {
   iconSupport: true,
   googleFontsApiKey: '',
   recentlyUsedFonts: ['Inter', 'Roboto', 'Open Sans', 'Lato', 'Montserrat'],
-  templates: getDefaultTemplates()
+  templates: getDefaultTemplates(),
+  templatesFolder: '',
+  exportFolder: '',
+  exportFilenameTemplate: '{title}',
+  exportConflictPolicy: 'overwrite',
+  openCVFilesInEditor: true,
+  autosave: false,
+  autosaveInterval: 2
 };
 
 /**
@@ -394,5 +458,13 @@ export const COMMANDS = {
   OPEN_CV_SIDE_PANEL: 'open-cv-side-panel',
   CREATE_NEW_CV: 'create-new-cv',
   EXPORT_TO_PDF: 'export-to-pdf',
-  FORMAT_AS_CV_HEADING: 'format-as-cv-heading'
+  EXPORT_TO_DOCX: 'export-to-docx',
+  EXPORT_TO_HTML: 'export-to-html',
+  EXPORT_TO_PLAIN_TEXT: 'export-to-plain-text',
+  EXPORT_TO_LATEX: 'export-to-latex',
+  IMPORT_JSON_RESUME: 'import-json-resume',
+  EXPORT_TO_JSON_RESUME: 'export-to-json-resume',
+  FORMAT_AS_CV_HEADING: 'format-as-cv-heading',
+  CREATE_VARIANT: 'create-cv-variant',
+  SAVE_AS_TEMPLATE: 'save-cv-as-template'
 };
@@ -0,0 +1,662 @@
+/**
+ * Structured model of CV Markdown
+ * Parses the body into header, sections, entries and skills, and writes the model back to Markdown.
+ * Unedited parts are written back exactly as they were read, so formatting survives a round trip.
+ */
+
+import { CVContactItem, CVDocument, CVEntry, CVHeader, CVIssue, CVModel, CVSection, CVSectionKind, CVSkill } from './types';
+
+/** Month abbreviations, as used in written dates */
+export const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+/** Words used for an open-ended date range */
+const PRESENT_REGEX = /^(present|now|current|today|ongoing)$/i;
+
+/** A single date like "Jan 2020", "January 2020", "01/2020", "2020-01" or "2020" */
+const DATE_PATTERN = '(?:[A-Za-z]{3,9}\\.? \\d{4}|\\d{1,2}/\\d{4}|\\d{4}(?:-\\d{2}){0,2}|present|now|current)';
+
+/** A date range like "Jan 2020 - Present" */
+const DATE_RANGE_REGEX = new RegExp(`^(${DATE_PATTERN})\\s*(?:-|–|—|to)\\s*(${DATE_PATTERN})$`, 'i');
+
+/** A single date on its own */
+const SINGLE_DATE_REGEX = new RegExp(`^(${DATE_PATTERN})$`, 'i');
+
+/** Profile networks recognised from link hosts */
+const PROFILE_NETWORKS: Record<string, string> = {
+  'linkedin.com': 'LinkedIn',
+  'github.com': 'GitHub',
+  'gitlab.com': 'GitLab',
+  'twitter.com': 'Twitter',
+  'x.com': 'X',
+  'stackoverflow.com': 'Stack Overflow',
+  'orcid.org': 'ORCID',
+  'scholar.google.com': 'Google Scholar',
+  'researchgate.net': 'ResearchGate',
+  'dribbble.com': 'Dribbble',
+  'behance.net': 'Behance',
+  'medium.com': 'Medium'
+};
+
+/** Section headings mapped to the kind of section they hold */
+const SECTION_ALIASES: Record<string, CVSectionKind> = {
+  'summary': 'summary',
+  'profile': 'summary',
+  'about': 'summary',
+  'about me': 'summary',
+  'objective': 'summary',
+  'experience': 'work',
+  'work': 'work',
+  'work experience': 'work',
+  'professional experience': 'work',
+  'employment': 'work',
+  'employment history': 'work',
+  'academic positions': 'work',
+  'education': 'education',
+  'skills': 'skills',
+  'technical skills': 'skills',
+  'projects': 'projects',
+  'volunteer': 'volunteer',
+  'volunteering': 'volunteer',
+  'volunteer experience': 'volunteer',
+  'awards': 'awards',
+  'honors': 'awards',
+  'honours': 'awards',
+  'honors and awards': 'awards',
+  'certifications': 'certificates',
+  'certificates': 'certificates',
+  'publications': 'publications',
+  'languages': 'languages',
+  'interests': 'interests',
+  'hobbies': 'interests'
+};
+
+/** Section kinds whose entries are expected to be dated */
+const DATED_SECTION_KINDS: CVSectionKind[] = ['work', 'volunteer', 'education'];
+
+/** Placeholders for the personal details in a CV's header */
+const PERSONAL_PLACEHOLDERS = {
+  name: 'Your Name',
+  email: 'your.name@example.com',
+  phone: '+1 555 000 0000',
+  location: 'City, Country'
+};
+
+const SECTION_HEADING_REGEX = /^##\s+(.*?)\s*$/;
+const ENTRY_HEADING_REGEX = /^###\s+(.*?)\s*$/;
+const BOLD_ENTRY_REGEX = /^\*\*[^*]+\*\*\s*\|/;
+const LIST_ITEM_REGEX = /^\s*(?:[-*+]|\d+\.)\s+(.*)$/;
+const DATERANGE_REGEX = /\\daterange\{([^}]*)\}\{([^}]*)\}/;
+
+/**
+ * Parse a displayed date into an ISO date
+ * @param text E.g. "Jan 2020", "01/2020" or "2020"
+ * @returns ISO date (YYYY or YYYY-MM), or undefined for open-ended or unrecognised dates
+ */
+export function parseCVDate(text: string): string | undefined {
+  const value = text.trim().replace(/\.$/, '');
+
+  if (!value || PRESENT_REGEX.test(value)) {
+    return undefined;
+  }
+
+  let match = value.match(/^(\d{4})(?:-(\d{2}))?(?:-(\d{2}))?$/);
+  if (match) {
+    return value;
+  }
+
+  match = value.match(/^(\d{1,2})\/(\d{4})$/);
+  if (match) {
+    return `${match[2]}-${match[1].padStart(2, '0')}`;
+  }
+
+  match = value.match(/^([A-Za-z]{3,9})\.? (\d{4})$/);
+  if (match) {
+    const monthIndex = MONTHS.findIndex(month => match && match[1].toLowerCase().startsWith(month.toLowerCase()));
+    if (monthIndex >= 0) {
+      return `${match[2]}-${String(monthIndex + 1).padStart(2, '0')}`;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Split a written date range like "Jan 2020 - Present"
+ * @param text The text
+ * @returns The start and end as written, or null if the text is not a date range
+ */
+export function parseDateRange(text: string): { start: string; end: string } | null {
+  const match = text.trim().match(DATE_RANGE_REGEX);
+  return match ? { start: match[1], end: match[2] } : null;
+}
+
+/**
+ * Remove Markdown and CV command formatting from text
+ * @param text The text
+ * @returns Plain text
+ */
+export function stripInline(text: string): string {
+  return text
+    .replace(/\\daterange\{([^}]*)\}\{([^}]*)\}/g, '$1 – $2')
+    .replace(/\\cvskill\{([^}]*)\}\{([^}]*)\}/g, '$1')
+    .replace(/\\(?:textbf|textit|textsc|underline|cvtag)\{([^}]*)\}/g, '$1')
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, '')
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/(\*\*|__)(.+?)\1/g, '$2')
+    .replace(/(\*|_)(.+?)\1/g, '$2')
+    .replace(/`([^`]*)`/g, '$1')
+    .replace(/<[^>]+>/g, '')
+    .trim();
+}
+
+/**
+ * Find what kind of section a heading introduces
+ * @param title The heading text
+ * @returns The section kind, or undefined if not recognised
+ */
+export function getSectionKind(title: string): CVSectionKind | undefined {
+  return SECTION_ALIASES[stripInline(title).toLowerCase()];
+}
+
+/**
+ * Parse CV Markdown into a model
+ * @param content The CV content (without frontmatter)
+ * @returns The model
+ */
+export function parseCV(content: string): CVModel {
+  const lines = content.split('\n');
+  const headerLines: string[] = [];
+  const sections: CVSection[] = [];
+  let sectionLines: string[] = [];
+  let inCodeBlock = false;
+
+  const flush = () => {
+    const section = sections[sections.length - 1];
+    if (section) {
+      fillSection(section, sectionLines);
+    }
+    sectionLines = [];
+  };
+
+  lines.forEach((line, index) => {
+    if (/^\s*(```|~~~)/.test(line)) {
+      inCodeBlock = !inCodeBlock;
+    }
+
+    const heading = inCodeBlock ? null : line.match(SECTION_HEADING_REGEX);
+    if (heading) {
+      flush();
+      sections.push({
+        title: heading[1],
+        kind: getSectionKind(heading[1]),
+        line: index,
+        heading: line,
+        intro: [],
+        entries: [],
+        items: [],
+        skills: []
+      });
+    } else if (sections.length > 0) {
+      sectionLines.push(line);
+    } else {
+      headerLines.push(line);
+    }
+  });
+  flush();
+
+  return { header: parseHeader(headerLines), sections, content };
+}
+
+/**
+ * Parse the header lines before the first section
+ * @param lines The header lines
+ * @returns The header
+ */
+function parseHeader(lines: string[]): CVHeader {
+  const header: CVHeader = { contact: [], source: lines };
+
+  lines.forEach(line => {
+    const heading = line.match(/^#\s+(.*)$/);
+    if (heading) {
+      header.name = stripInline(heading[1]);
+    } else if (line.trim() && !/^#/.test(line)) {
+      header.contact.push(...parseContactLine(line));
+    }
+  });
+
+  return header;
+}
+
+/**
+ * Read a contact line under the name
+ * @param line The line, with parts separated by '|' or '·'
+ * @returns The contact items
+ */
+export function parseContactLine(line: string): CVContactItem[] {
+  const items: CVContactItem[] = [];
+
+  line.split(/\s+[|·•]\s+/).forEach(rawPart => {
+    const part = rawPart.trim();
+    const bold = part.match(/^\*\*(.+)\*\*$/);
+    const link = part.match(/^\[([^\]]*)\]\(([^)]+)\)$/);
+
+    if (bold) {
+      items.push({ kind: 'label', text: part, value: stripInline(bold[1]) });
+    } else if (link && link[2].startsWith('mailto:')) {
+      items.push({ kind: 'email', text: part, value: link[2].replace(/^mailto:/, '') });
+    } else if (link) {
+      items.push({ kind: 'link', text: part, value: link[2], network: getProfileNetwork(link[2]) });
+    } else if (/^[^@\s]+@[^@\s]+\.[^@\s]+$/.test(part)) {
+      items.push({ kind: 'email', text: part, value: part });
+    } else if (/^\+?[\d\s().-]{7,}$/.test(part)) {
+      items.push({ kind: 'phone', text: part, value: part });
+    } else if (part) {
+      items.push({ kind: 'location', text: part, value: stripInline(part) });
+    }
+  });
+
+  return items;
+}
+
+/**
+ * Find the profile network for a link
+ * @param url The link URL
+ * @returns The network name, or undefined if not recognised
+ */
+function getProfileNetwork(url: string): string | undefined {
+  const host = url.replace(/^https?:\/\//, '').replace(/^www\./, '').split('/')[0].toLowerCase();
+  return PROFILE_NETWORKS[host];
+}
+
+/**
+ * Split a section's body into its intro and entries, and collect its items and skills
+ * Entries start with a ### heading or a bold line like "**Title** | Company | 2019 - 2020"
+ * @param section The section, filled in place
+ * @param lines The lines after the section heading
+ */
+function fillSection(section: CVSection, lines: string[]): void {
+  let entryStart = -1;
+  let inCodeBlock = false;
+
+  lines.forEach((line, index) => {
+    if (/^\s*(```|~~~)/.test(line)) {
+      inCodeBlock = !inCodeBlock;
+    }
+    if (inCodeBlock || !(ENTRY_HEADING_REGEX.test(line) || BOLD_ENTRY_REGEX.test(line))) {
+      return;
+    }
+
+    if (entryStart < 0) {
+      section.intro = lines.slice(0, index);
+    } else {
+      section.entries.push(parseEntry(lines.slice(entryStart, index), section.line + 1 + entryStart));
+    }
+    entryStart = index;
+  });
+
+  if (entryStart < 0) {
+    section.intro = lines;
+  } else {
+    section.entries.push(parseEntry(lines.slice(entryStart), section.line + 1 + entryStart));
+  }
+
+  section.items = listItems(lines);
+  section.skills = section.kind === 'skills' ? parseSkills(lines) : [];
+}
+
+/**
+ * Parse an entry from its lines
+ * @param source The entry's lines, starting with its title
+ * @param line Zero-based line of the title in the content
+ * @returns The entry
+ */
+export function parseEntry(source: string[], line: number): CVEntry {
+  const entry: CVEntry = { parts: [], summary: [], bullets: [], keywords: [], line, source };
+
+  const [titleLine, ...body] = source;
+  const heading = titleLine.match(ENTRY_HEADING_REGEX);
+  parseEntryTitle(entry, heading ? heading[1] : titleLine.trim());
+
+  body.forEach(rawLine => {
+    let text = rawLine;
+    const dateRange = text.match(DATERANGE_REGEX);
+    if (dateRange) {
+      entry.startDate = dateRange[1];
+      entry.endDate = dateRange[2];
+      text = text.replace(dateRange[0], '');
+    }
+
+    const item = text.match(LIST_ITEM_REGEX);
+    const tagsOnly = item && /^(\s*\\cvtag\{[^}]*\})+\s*$/.test(item[1]);
+    const linkOnly = item && item[1].trim().match(/^\[[^\]]*\]\(([^)]+)\)$/);
+
+    if (tagsOnly && item) {
+      Array.from(item[1].matchAll(/\\cvtag\{([^}]*)\}/g)).forEach(match => entry.keywords.push(match[1]));
+    } else if (linkOnly) {
+      entry.url = linkOnly[1];
+    } else if (item) {
+      entry.bullets.push(item[1].trim());
+    } else if (text.trim()) {
+      entry.summary.push(text.trim());
+    }
+  });
+
+  return entry;
+}
+
+/**
+ * Split an entry title into parts, pulling out any dates
+ * @param entry The entry, filled in place
+ * @param title The title text
+ */
+function parseEntryTitle(entry: CVEntry, title: string): void {
+  title.split(/\s+\|\s+/).forEach(rawPart => {
+    const part = rawPart.trim();
+    const plain = stripInline(part);
+    const range = plain.match(DATE_RANGE_REGEX);
+    const single = plain.match(SINGLE_DATE_REGEX);
+
+    if (range) {
+      entry.startDate = range[1];
+      entry.endDate = range[2];
+    } else if (single) {
+      entry.endDate = single[1];
+    } else if (plain) {
+      entry.parts.push(part);
+    }
+  });
+}
+
+/**
+ * Read the skills in a section
+ * Supports "- **Category**: a, b", "- **Category**: \cvtag{a} \cvtag{b}", "\cvskill{name}{level}"
+ * and plain comma-separated paragraphs
+ * @param lines The section lines
+ * @returns The skills
+ */
+function parseSkills(lines: string[]): CVSkill[] {
+  const skills: CVSkill[] = [];
+
+  lines.forEach(rawLine => {
+    const line = rawLine.replace(/^\s*(?:[-*+]|\d+\.)\s+/, '').trim();
+    if (!line || line.startsWith('#')) {
+      return;
+    }
+
+    const skillBars = Array.from(line.matchAll(/\\cvskill\{([^}]*)\}\{([^}]*)\}/g));
+    if (skillBars.length > 0) {
+      skillBars.forEach(match => skills.push({ name: match[1], level: `${match[2]}%`, keywords: [] }));
+      return;
+    }
+
+    const label = line.match(/^\*\*(.+?)\*\*\s*(?:\(([^)]*)\))?\s*:\s*(.*)$/) || line.match(/^([^:\\]+?)\s*(?:\(([^)]*)\))?:\s*(.*)$/);
+    const tags = Array.from(line.matchAll(/\\cvtag\{([^}]*)\}/g)).map(match => match[1]);
+
+    if (label) {
+      const keywords = tags.length > 0
+        ? tags
+        : stripInline(label[3]).split(',').map(keyword => keyword.trim()).filter(Boolean);
+      skills.push({ name: stripInline(label[1]), level: label[2], keywords });
+    } else if (tags.length > 0) {
+      const level = line.match(/\}\s*\(([^)]*)\)\s*$/);
+      tags.forEach(tag => skills.push({ name: tag, level: level && tags.length === 1 ? level[1] : undefined, keywords: [] }));
+    } else {
+      stripInline(line).split(',').map(name => name.trim()).filter(Boolean).forEach(name => skills.push({ name, keywords: [] }));
+    }
+  });
+
+  return skills;
+}
+
+/**
+ * Get the list items in some lines
+ * @param lines The lines
+ * @returns The item texts (with inline formatting kept)
+ */
+function listItems(lines: string[]): string[] {
+  return lines
+    .map(line => line.match(LIST_ITEM_REGEX))
+    .filter((match): match is RegExpMatchArray => match !== null)
+    .map(match => match[1].trim());
+}
+
+/**
+ * Get an entry's title as plain text
+ * @param entry The entry
+ * @returns E.g. "Senior Engineer | Acme"
+ */
+export function getEntryTitle(entry: CVEntry): string {
+  return entry.parts.map(part => stripInline(part)).join(' | ');
+}
+
+/**
+ * Write a model back to Markdown
+ * Parts whose fields still match their source are written as they were read; edited parts are regenerated
+ * @param model The model
+ * @returns The CV content
+ */
+export function serializeCV(model: CVModel): string {
+  const lines = serializeHeader(model.header);
+  model.sections.forEach(section => lines.push(...serializeSection(section)));
+  return lines.join('\n');
+}
+
+/**
+ * Write the header back to Markdown
+ * @param header The header
+ * @returns The lines
+ */
+function serializeHeader(header: CVHeader): string[] {
+  const parsed = parseHeader(header.source);
+  const unchanged = parsed.name === header.name
+    && JSON.stringify(parsed.contact.map(item => item.text)) === JSON.stringify(header.contact.map(item => item.text));
+  if (unchanged) {
+    return [...header.source];
+  }
+
+  const lines: string[] = [];
+  if (header.name) {
+    lines.push(`# ${header.name}`, '');
+  }
+  if (header.contact.length > 0) {
+    lines.push(header.contact.map(item => item.text).join(' | '), '');
+  }
+  return lines;
+}
+
+/**
+ * Move a section to another position and write the CV back to Markdown
+ * @param model The CV model
+ * @param from The section's index
+ * @param to The index it should end up at
+ * @returns The CV content with the section moved
+ */
+export function moveSection(model: CVModel, from: number, to: number): string {
+  const sections = [...model.sections];
+  const [section] = sections.splice(from, 1);
+  sections.splice(Math.max(0, Math.min(to, sections.length)), 0, section);
+
+  const lines = serializeHeader(model.header);
+  sections.forEach((item, index) => {
+    const sectionLines = serializeSection(item);
+    // Keep a blank line between sections, wherever the last one ends up
+    if (index < sections.length - 1 && sectionLines[sectionLines.length - 1].trim()) {
+      sectionLines.push('');
+    }
+    lines.push(...sectionLines);
+  });
+  return lines.join('\n');
+}
+
+/**
+ * Write a section back to Markdown
+ * @param section The section
+ * @returns The lines, including the heading
+ */
+export function serializeSection(section: CVSection): string[] {
+  const headingMatch = section.heading.match(SECTION_HEADING_REGEX);
+  const heading = headingMatch && headingMatch[1] === section.title ? section.heading : `## ${section.title}`;
+
+  const lines = [heading, ...section.intro];
+  section.entries.forEach(entry => lines.push(...serializeEntry(entry)));
+  return lines;
+}
+
+/**
+ * Write an entry back to Markdown
+ * @param entry The entry
+ * @returns The lines, starting with the title
+ */
+export function serializeEntry(entry: CVEntry): string[] {
+  if (entry.source.length > 0 && getEntryFields(parseEntry(entry.source, entry.line)) === getEntryFields(entry)) {
+    return [...entry.source];
+  }
+
+  const title = [...entry.parts];
+  if (entry.endDate && !entry.startDate) {
+    title.push(entry.endDate);
+  }
+
+  const lines = [`### ${title.join(' | ')}`];
+  if (entry.startDate) {
+    lines.push(`\\daterange{${entry.startDate}}{${entry.endDate || 'Present'}}`);
+  }
+  lines.push('');
+
+  if (entry.summary.length > 0) {
+    lines.push(...entry.summary, '');
+  }
+
+  const bullets = entry.bullets.map(bullet => `- ${bullet}`);
+  if (entry.keywords.length > 0) {
+    bullets.push(`- ${entry.keywords.map(keyword => `\\cvtag{${keyword}}`).join(' ')}`);
+  }
+  if (entry.url) {
+    bullets.push(`- [Link](${entry.url})`);
+  }
+  if (bullets.length > 0) {
+    lines.push(...bullets, '');
+  }
+
+  return lines;
+}
+
+/**
+ * Get the fields of an entry that are written to Markdown, for telling edited entries apart
+ * @param entry The entry
+ * @returns The fields, serialized
+ */
+function getEntryFields(entry: CVEntry): string {
+  const { parts, startDate, endDate, summary, bullets, keywords, url } = entry;
+  return JSON.stringify({ parts, startDate, endDate, summary, bullets, keywords, url });
+}
+
+/**
+ * Get the model of a CV document, parsing it again only if the content changed
+ * @param document The CV document (its model is cached on it)
+ * @returns The model
+ */
+export function getCVModel(document: CVDocument): CVModel {
+  if (!document.model || document.model.content !== document.content) {
+    document.model = parseCV(document.content);
+  }
+  return document.model;
+}
+
+/**
+ * Check a CV for common problems
+ * @param model The CV model
+ * @returns The problems found, in document order
+ */
+export function validateCV(model: CVModel): CVIssue[] {
+  const issues: CVIssue[] = [];
+
+  if (!model.header.name) {
+    issues.push({ message: 'The CV has no name heading (# Name)', line: 0 });
+  }
+  if (!model.header.contact.some(item => item.kind === 'email' || item.kind === 'phone')) {
+    issues.push({ message: 'There is no email address or phone number under the name', line: 0 });
+  }
+
+  model.sections.forEach(section => {
+    const title = stripInline(section.title);
+    if (section.entries.length === 0 && section.intro.every(line => !line.trim())) {
+      issues.push({ message: `Section '${title}' is empty`, line: section.line });
+    }
+
+    section.entries.forEach(entry => {
+      const entryTitle = getEntryTitle(entry) || title;
+      if (section.kind && DATED_SECTION_KINDS.includes(section.kind) && !entry.startDate && !entry.endDate) {
+        issues.push({ message: `'${entryTitle}' has no dates`, line: entry.line });
+      }
+
+      const start = entry.startDate ? parseCVDate(entry.startDate) : undefined;
+      const end = entry.endDate ? parseCVDate(entry.endDate) : undefined;
+      if (start && end && start > end) {
+        issues.push({ message: `'${entryTitle}' ends before it starts`, line: entry.line });
+      }
+    });
+  });
+
+  return issues;
+}
+
+/**
+ * Replace the personal details in a CV with placeholders, e.g. to share it as a template
+ * The name and the header's contact details are replaced, and so are email addresses and the name elsewhere
+ * @param content The CV content
+ * @returns The content with placeholders
+ */
+export function blankPersonalDetails(content: string): string {
+  const { header } = parseCV(content);
+  const lines = content.split('\n');
+
+  const headerLines = header.source.map(line => {
+    if (/^#\s+/.test(line)) {
+      return `# ${PERSONAL_PLACEHOLDERS.name}`;
+    }
+    if (!line.trim() || /^#/.test(line)) {
+      return line;
+    }
+    // Rewrite each contact part, keeping the separators
+    return line.split(/(\s+[|·•]\s+)/).map((part, index) => index % 2 === 1 ? part : blankContactPart(part)).join('');
+  });
+
+  let body = lines.slice(header.source.length).join('\n');
+  body = body.replace(/[\w.+-]+@[\w-]+\.[\w.-]+/g, PERSONAL_PLACEHOLDERS.email);
+  if (header.name) {
+    body = body.split(header.name).join(PERSONAL_PLACEHOLDERS.name);
+  }
+
+  return [...headerLines, ...(lines.length > header.source.length ? [body] : [])].join('\n');
+}
+
+/**
+ * Replace the personal detail in one part of a contact line
+ * @param part The part, e.g. "[GitHub](https://github.com/janedoe)"
+ * @returns The part with a placeholder, or unchanged if it is not personal
+ */
+function blankContactPart(part: string): string {
+  const [item] = parseContactLine(part);
+  if (!item) {
+    return part;
+  }
+
+  const leading = part.match(/^\s*/)?.[0] || '';
+  switch (item.kind) {
+    case 'email':
+      return item.text.startsWith('[')
+        ? `${leading}[${PERSONAL_PLACEHOLDERS.email}](mailto:${PERSONAL_PLACEHOLDERS.email})`
+        : `${leading}${PERSONAL_PLACEHOLDERS.email}`;
+    case 'phone':
+      return `${leading}${PERSONAL_PLACEHOLDERS.phone}`;
+    case 'location':
+      return `${leading}${PERSONAL_PLACEHOLDERS.location}`;
+    case 'link': {
+      const host = item.value.match(/^(https?:\/\/[^/]+)/)?.[1] || 'https://example.com';
+      return `${leading}[${item.network || 'Website'}](${host}/your-name)`;
+    }
+    default:
+      return part;
+  }
+}
@@ -0,0 +1,159 @@
+/**
+ * Block-level diffing of CV Markdown
+ * Used to compare snapshots side by side in their rendered form
+ */
+
+import { FRONTMATTER_REGEX } from './constants';
+
+/**
+ * One step of a diff between two sequences
+ */
+export interface DiffOp {
+  type: 'equal' | 'added' | 'removed';
+  text: string;
+}
+
+/**
+ * A row of a side-by-side diff
+ * Changed rows pair a removed block with the block that replaced it
+ */
+export interface DiffRow {
+  type: 'equal' | 'changed' | 'added' | 'removed';
+
+  /** Block on the old side, if any */
+  left?: string;
+
+  /** Block on the new side, if any */
+  right?: string;
+}
+
+/**
+ * Split CV Markdown into top-level blocks
+ * Blocks are separated by blank lines; headings always start a new block
+ * @param markdown The Markdown, with or without frontmatter
+ * @returns The blocks' source text
+ */
+export function splitMarkdownBlocks(markdown: string): string[] {
+  const blocks: string[] = [];
+  let current: string[] = [];
+
+  const flush = () => {
+    if (current.length > 0) {
+      blocks.push(current.join('\n'));
+      current = [];
+    }
+  };
+
+  markdown.replace(FRONTMATTER_REGEX, '').split('\n').forEach(line => {
+    const trimmed = line.trimEnd();
+    if (!trimmed.trim()) {
+      flush();
+    } else if (/^#{1,6}\s/.test(trimmed)) {
+      flush();
+      blocks.push(trimmed);
+    } else {
+      current.push(trimmed);
+    }
+  });
+  flush();
+
+  return blocks;
+}
+
+/**
+ * Diff two sequences with a longest common subsequence
+ * @param oldItems The old sequence
+ * @param newItems The new sequence
+ * @returns The diff, in order
+ */
+export function diffSequences(oldItems: string[], newItems: string[]): DiffOp[] {
+  const rows = oldItems.length;
+  const cols = newItems.length;
+
+  // lengths[i][j] is the LCS length of oldItems[i..] and newItems[j..]
+  const lengths: number[][] = Array.from({ length: rows + 1 }, () => new Array<number>(cols + 1).fill(0));
+  for (let i = rows - 1; i >= 0; i--) {
+    for (let j = cols - 1; j >= 0; j--) {
+      lengths[i][j] = oldItems[i] === newItems[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const ops: DiffOp[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < rows && j < cols) {
+    if (oldItems[i] === newItems[j]) {
+      ops.push({ type: 'equal', text: oldItems[i] });
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      ops.push({ type: 'removed', text: oldItems[i++] });
+    } else {
+      ops.push({ type: 'added', text: newItems[j++] });
+    }
+  }
+  while (i < rows) {
+    ops.push({ type: 'removed', text: oldItems[i++] });
+  }
+  while (j < cols) {
+    ops.push({ type: 'added', text: newItems[j++] });
+  }
+
+  return ops;
+}
+
+/**
+ * Arrange a diff into side-by-side rows
+ * Runs of removed blocks are paired with the added blocks that follow them
+ * @param ops The diff
+ * @returns The rows
+ */
+export function alignDiff(ops: DiffOp[]): DiffRow[] {
+  const rows: DiffRow[] = [];
+  let removed: string[] = [];
+  let added: string[] = [];
+
+  const flush = () => {
+    for (let index = 0; index < Math.max(removed.length, added.length); index++) {
+      const left = removed[index];
+      const right = added[index];
+      rows.push({
+        type: left !== undefined && right !== undefined ? 'changed' : left !== undefined ? 'removed' : 'added',
+        left,
+        right
+      });
+    }
+    removed = [];
+    added = [];
+  };
+
+  ops.forEach(op => {
+    if (op.type === 'equal') {
+      flush();
+      rows.push({ type: 'equal', left: op.text, right: op.text });
+    } else if (op.type === 'removed') {
+      // A removal after additions starts a new change
+      if (added.length > 0) {
+        flush();
+      }
+      removed.push(op.text);
+    } else {
+      added.push(op.text);
+    }
+  });
+  flush();
+
+  return rows;
+}
+
+/**
+ * Compare two versions of a CV block by block
+ * @param oldMarkdown The old version
+ * @param newMarkdown The new version
+ * @returns Side-by-side rows
+ */
+export function diffMarkdown(oldMarkdown: string, newMarkdown: string): DiffRow[] {
+  return alignDiff(diffSequences(splitMarkdownBlocks(oldMarkdown), splitMarkdownBlocks(newMarkdown)));
+}
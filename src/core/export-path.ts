@@ -0,0 +1,102 @@
+/**
+ * Export destination helpers for the Oh My CV plugin
+ * Resolves filename templates and picks vault paths for exported files
+ */
+
+/** Characters that are not allowed in file names on at least one platform, or that break Obsidian links */
+const INVALID_FILENAME_CHARS = /[\\/:*?"<>|#^[\]]/g;
+
+/**
+ * Values available to export filename templates
+ */
+export interface FilenameTemplateValues {
+  /** CV title */
+  title: string;
+
+  /** Export date */
+  date: Date;
+
+  /** Page size, e.g. 'A4' */
+  pageSize: string;
+}
+
+/**
+ * Fill in a filename template
+ * Supports {title}, {date} (YYYY-MM-DD) and {pageSize}; characters that are invalid in file names are removed
+ * @param template The template, e.g. '{title} - {date}'
+ * @param values The values to fill in
+ * @returns The file name without an extension
+ */
+export function resolveFilenameTemplate(template: string, values: FilenameTemplateValues): string {
+  const name = (template || '{title}')
+    .replace(/\{title\}/gi, values.title || 'CV')
+    .replace(/\{date\}/gi, formatExportDate(values.date))
+    .replace(/\{pageSize\}/gi, values.pageSize)
+    .replace(INVALID_FILENAME_CHARS, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  return name || values.title || 'CV';
+}
+
+/**
+ * Format a date for use in file names
+ * @param date The date
+ * @returns The date as YYYY-MM-DD
+ */
+export function formatExportDate(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * Get the folder part of a vault path
+ * @param path The vault path
+ * @returns The folder, or '' for the vault root
+ */
+export function getParentFolder(path: string): string {
+  return path.includes('/') ? path.substring(0, path.lastIndexOf('/')) : '';
+}
+
+/**
+ * Normalize a folder typed by the user into a vault folder path
+ * @param folder The folder, e.g. '/Exports/CVs/' ('' or '/' for the vault root)
+ * @returns The folder without leading or trailing slashes
+ */
+export function normalizeFolderPath(folder: string): string {
+  return folder.trim().replace(/\\/g, '/').replace(/\/{2,}/g, '/').replace(/^\/+|\/+$/g, '');
+}
+
+/**
+ * Join a folder and a file name into a vault path
+ * @param folder The folder ('' or '/' for the vault root)
+ * @param filename The file name
+ * @returns The vault path
+ */
+export function joinVaultPath(folder: string, filename: string): string {
+  const cleanFolder = normalizeFolderPath(folder);
+  return cleanFolder ? `${cleanFolder}/${filename}` : filename;
+}
+
+/**
+ * Find a path that is not taken by adding a version number, e.g. 'CV (2).pdf'
+ * @param path The preferred vault path
+ * @param exists Check whether a path is already taken
+ * @returns The preferred path if it is free, otherwise the first free numbered path
+ */
+export async function getVersionedPath(path: string, exists: (path: string) => Promise<boolean>): Promise<string> {
+  if (!(await exists(path))) {
+    return path;
+  }
+
+  const dot = path.lastIndexOf('.');
+  const hasExtension = dot > path.lastIndexOf('/') + 1;
+  const base = hasExtension ? path.substring(0, dot) : path;
+  const extension = hasExtension ? path.substring(dot) : '';
+
+  let version = 2;
+  while (await exists(`${base} (${version})${extension}`)) {
+    version++;
+  }
+  return `${base} (${version})${extension}`;
+}
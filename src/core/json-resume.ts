@@ -0,0 +1,517 @@
+/**
+ * Conversion between CV Markdown and the JSON Resume format (https://jsonresume.org/schema)
+ */
+
+import { CVEntry, CVModel, JSONResume } from './types';
+import { MONTHS, parseCV, parseCVDate, stripInline } from './cv-model';
+
+// Date and text helpers moved to the CV model; re-exported for existing callers
+export { parseCVDate, parseDateRange, stripInline } from './cv-model';
+
+/** Schema URL written to exported résumés */
+export const JSON_RESUME_SCHEMA_URL = 'https://raw.githubusercontent.com/jsonresume/resume-schema/v1.0.0/schema.json';
+
+/**
+ * Format a JSON Resume ISO date for display
+ * @param date ISO 8601 date (YYYY, YYYY-MM or YYYY-MM-DD)
+ * @returns E.g. "Jan 2020", or the input if it is not an ISO date
+ */
+export function formatResumeDate(date?: string): string {
+  if (!date) {
+    return '';
+  }
+
+  const match = date.match(/^(\d{4})(?:-(\d{2}))?/);
+  if (!match) {
+    return date;
+  }
+
+  const month = match[2] ? parseInt(match[2], 10) : 0;
+  return month >= 1 && month <= 12 ? `${MONTHS[month - 1]} ${match[1]}` : match[1];
+}
+
+/**
+ * Convert a JSON Resume object into CV Markdown
+ * @param resume The résumé
+ * @returns Markdown content for a .cv.md document
+ */
+export function jsonResumeToMarkdown(resume: JSONResume): string {
+  const lines: string[] = [];
+  const basics = resume.basics || {};
+
+  if (basics.name) {
+    lines.push(`# ${basics.name}`, '');
+  }
+
+  // Contact line
+  const contact: string[] = [];
+  if (basics.label) {
+    contact.push(`**${basics.label}**`);
+  }
+  if (basics.email) {
+    contact.push(`[${basics.email}](mailto:${basics.email})`);
+  }
+  if (basics.phone) {
+    contact.push(basics.phone);
+  }
+  const location = [basics.location?.city, basics.location?.region, basics.location?.countryCode]
+    .filter(Boolean)
+    .join(', ');
+  if (location) {
+    contact.push(location);
+  }
+  if (basics.url) {
+    contact.push(`[${basics.url.replace(/^https?:\/\//, '').replace(/\/$/, '')}](${basics.url})`);
+  }
+  (basics.profiles || []).forEach(profile => {
+    if (profile.url) {
+      contact.push(`[${profile.network || profile.username || profile.url}](${profile.url})`);
+    }
+  });
+  if (contact.length > 0) {
+    lines.push(contact.join(' | '), '');
+  }
+
+  if (basics.summary) {
+    lines.push('## Summary', '', basics.summary, '');
+  }
+
+  if (resume.work?.length) {
+    lines.push('## Experience', '');
+    resume.work.forEach(job => {
+      pushEntry(lines, [job.position, job.name, job.location], job.startDate, job.endDate, job.summary, job.highlights);
+    });
+  }
+
+  if (resume.volunteer?.length) {
+    lines.push('## Volunteering', '');
+    resume.volunteer.forEach(item => {
+      pushEntry(lines, [item.position, item.organization], item.startDate, item.endDate, item.summary, item.highlights);
+    });
+  }
+
+  if (resume.education?.length) {
+    lines.push('## Education', '');
+    resume.education.forEach(item => {
+      const degree = item.studyType && item.area ? `${item.studyType} in ${item.area}` : (item.studyType || item.area);
+      const highlights: string[] = [];
+      if (item.score) {
+        highlights.push(`Score: ${item.score}`);
+      }
+      if (item.courses?.length) {
+        highlights.push(`Courses: ${item.courses.join(', ')}`);
+      }
+      pushEntry(lines, [degree, item.institution], item.startDate, item.endDate, undefined, highlights);
+    });
+  }
+
+  if (resume.projects?.length) {
+    lines.push('## Projects', '');
+    resume.projects.forEach(project => {
+      const highlights = [...(project.highlights || [])];
+      if (project.keywords?.length) {
+        highlights.push(project.keywords.map(keyword => `\\cvtag{${keyword}}`).join(' '));
+      }
+      if (project.url) {
+        highlights.push(`[View project](${project.url})`);
+      }
+      pushEntry(lines, [project.name], project.startDate, project.endDate, project.description, highlights);
+    });
+  }
+
+  if (resume.skills?.length) {
+    lines.push('## Skills', '');
+    resume.skills.forEach(skill => {
+      const name = skill.name || '';
+      const level = skill.level ? ` (${skill.level})` : '';
+      if (skill.keywords?.length) {
+        lines.push(`- **${name}**${level}: ${skill.keywords.map(keyword => `\\cvtag{${keyword}}`).join(' ')}`);
+      } else if (name) {
+        lines.push(`- \\cvtag{${name}}${level}`);
+      }
+    });
+    lines.push('');
+  }
+
+  if (resume.languages?.length) {
+    lines.push('## Languages', '');
+    resume.languages.forEach(language => {
+      lines.push(`- ${language.language || ''}${language.fluency ? ` (${language.fluency})` : ''}`);
+    });
+    lines.push('');
+  }
+
+  if (resume.awards?.length) {
+    lines.push('## Awards', '');
+    resume.awards.forEach(award => {
+      const awarder = award.awarder ? ` — ${award.awarder}` : '';
+      const date = award.date ? ` (${formatResumeDate(award.date)})` : '';
+      const summary = award.summary ? `: ${award.summary}` : '';
+      lines.push(`- **${award.title || ''}**${awarder}${date}${summary}`);
+    });
+    lines.push('');
+  }
+
+  if (resume.certificates?.length) {
+    lines.push('## Certifications', '');
+    resume.certificates.forEach(certificate => {
+      const name = certificate.url ? `[${certificate.name || certificate.url}](${certificate.url})` : certificate.name || '';
+      const issuer = certificate.issuer ? ` — ${certificate.issuer}` : '';
+      const date = certificate.date ? ` (${formatResumeDate(certificate.date)})` : '';
+      lines.push(`- ${name}${issuer}${date}`);
+    });
+    lines.push('');
+  }
+
+  if (resume.publications?.length) {
+    lines.push('## Publications', '');
+    resume.publications.forEach(publication => {
+      const name = publication.url ? `[${publication.name || publication.url}](${publication.url})` : publication.name || '';
+      const publisher = publication.publisher ? ` — *${publication.publisher}*` : '';
+      const date = publication.releaseDate ? ` (${formatResumeDate(publication.releaseDate)})` : '';
+      lines.push(`- **${name}**${publisher}${date}`);
+    });
+    lines.push('');
+  }
+
+  if (resume.interests?.length) {
+    lines.push('## Interests', '');
+    resume.interests.forEach(interest => {
+      const keywords = interest.keywords?.length ? `: ${interest.keywords.join(', ')}` : '';
+      lines.push(`- **${interest.name || ''}**${keywords}`);
+    });
+    lines.push('');
+  }
+
+  return lines.join('\n').replace(/\n{3,}/g, '\n\n').trim() + '\n';
+}
+
+/**
+ * Append an entry (### heading, date range, summary and highlights)
+ * @param lines The output lines
+ * @param titleParts Heading parts, joined with ' | '
+ * @param startDate ISO start date
+ * @param endDate ISO end date (omitted means present)
+ * @param summary Optional summary paragraph
+ * @param highlights Optional bullet points
+ */
+function pushEntry(
+  lines: string[],
+  titleParts: (string | undefined)[],
+  startDate?: string,
+  endDate?: string,
+  summary?: string,
+  highlights?: string[]
+): void {
+  lines.push(`### ${titleParts.filter(Boolean).join(' | ')}`);
+
+  if (startDate || endDate) {
+    lines.push(`\\daterange{${formatResumeDate(startDate) || '?'}}{${endDate ? formatResumeDate(endDate) : 'Present'}}`);
+  }
+  lines.push('');
+
+  if (summary) {
+    lines.push(summary, '');
+  }
+
+  if (highlights?.length) {
+    highlights.forEach(highlight => lines.push(`- ${highlight}`));
+    lines.push('');
+  }
+}
+
+/**
+ * An entry's fields as plain text, with ISO dates
+ */
+interface ResumeEntry {
+  parts: string[];
+  startDate?: string;
+  endDate?: string;
+  summary?: string;
+  highlights: string[];
+  keywords: string[];
+  url?: string;
+}
+
+/**
+ * Convert CV Markdown into a JSON Resume object
+ * Sections are recognised by their heading (e.g. "Experience", "Education", "Skills")
+ * @param markdown The CV content
+ * @returns The résumé
+ */
+export function markdownToJsonResume(markdown: string): JSONResume {
+  return modelToJsonResume(parseCV(markdown));
+}
+
+/**
+ * Convert a CV model into a JSON Resume object
+ * @param model The CV model
+ * @returns The résumé
+ */
+export function modelToJsonResume(model: CVModel): JSONResume {
+  const resume: JSONResume = { $schema: JSON_RESUME_SCHEMA_URL, basics: {} };
+  const basics = resume.basics as NonNullable<JSONResume['basics']>;
+
+  // The H1 is the name; the lines after it are the contact details
+  basics.name = model.header.name;
+  model.header.contact.forEach(item => {
+    switch (item.kind) {
+      case 'label':
+        basics.label = item.value;
+        break;
+      case 'email':
+        basics.email = item.value;
+        break;
+      case 'phone':
+        basics.phone = item.value;
+        break;
+      case 'link':
+        if (item.network) {
+          basics.profiles = basics.profiles || [];
+          basics.profiles.push({
+            network: item.network,
+            username: item.value.replace(/\/$/, '').split('/').pop(),
+            url: item.value
+          });
+        } else if (!basics.url) {
+          basics.url = item.value;
+        } else {
+          basics.profiles = basics.profiles || [];
+          basics.profiles.push({ network: stripInline(item.text), url: item.value });
+        }
+        break;
+      case 'location': {
+        const [city, region] = item.value.split(/,\s*/);
+        basics.location = { city, region };
+        break;
+      }
+    }
+  });
+
+  model.sections.forEach(section => {
+    const entries = section.entries.map(entry => toResumeEntry(entry));
+
+    switch (section.kind) {
+      case 'summary':
+        basics.summary = [...section.intro, ...section.entries.flatMap(entry => entry.source)]
+          .map(line => stripInline(line))
+          .filter(Boolean)
+          .join(' ');
+        break;
+      case 'work':
+        resume.work = entries.map(entry => ({
+          position: entry.parts[0],
+          name: entry.parts[1],
+          location: entry.parts[2],
+          startDate: entry.startDate,
+          endDate: entry.endDate,
+          summary: entry.summary,
+          highlights: entry.highlights
+        }));
+        break;
+      case 'volunteer':
+        resume.volunteer = entries.map(entry => ({
+          position: entry.parts[0],
+          organization: entry.parts[1],
+          startDate: entry.startDate,
+          endDate: entry.endDate,
+          summary: entry.summary,
+          highlights: entry.highlights
+        }));
+        break;
+      case 'education':
+        resume.education = entries.map(entry => parseEducation(entry));
+        break;
+      case 'projects':
+        resume.projects = entries.map(entry => parseProject(entry));
+        break;
+      case 'skills':
+        resume.skills = section.skills.map(skill => ({ ...skill }));
+        break;
+      case 'languages':
+        resume.languages = section.items.map(item => {
+          const match = stripInline(item).match(/^(.*?)\s*(?:\((.*)\)|[:—–-]\s*(.*))?$/);
+          return {
+            language: match ? match[1] : stripInline(item),
+            fluency: match ? match[2] || match[3] : undefined
+          };
+        });
+        break;
+      case 'interests':
+        resume.interests = section.items.map(item => {
+          const [name, keywords] = splitLabel(item);
+          return {
+            name,
+            keywords: keywords ? keywords.split(',').map(keyword => keyword.trim()).filter(Boolean) : undefined
+          };
+        });
+        break;
+      case 'awards':
+        resume.awards = section.items.map(item => {
+          const { text, date } = extractDate(item);
+          const [heading, summary] = stripInline(text).split(/:\s+(.*)/);
+          const [title, awarder] = heading.split(/\s+—\s+/);
+          return { title, awarder, date, summary };
+        });
+        break;
+      case 'certificates':
+        resume.certificates = section.items.map(item => {
+          const { text, date } = extractDate(item);
+          const [name, issuer] = stripInline(text).split(/\s+—\s+/);
+          return { name, issuer, date, url: findLink(item) };
+        });
+        break;
+      case 'publications':
+        resume.publications = section.items.map(item => {
+          const { text, date } = extractDate(item);
+          const quoted = text.match(/"([^"]+)"/);
+          const [name, publisher] = stripInline(text).split(/\s+—\s+/);
+          return {
+            name: quoted ? quoted[1] : name,
+            publisher: quoted ? undefined : publisher,
+            releaseDate: date,
+            url: findLink(item)
+          };
+        });
+        break;
+    }
+  });
+
+  resume.meta = {
+    version: 'v1.0.0',
+    lastModified: new Date().toISOString()
+  };
+
+  return compact(resume) as JSONResume;
+}
+
+/**
+ * Convert a CV entry into plain text fields with ISO dates
+ * @param entry The CV entry
+ * @returns The résumé entry
+ */
+function toResumeEntry(entry: CVEntry): ResumeEntry {
+  return {
+    parts: entry.parts.map(part => stripInline(part)),
+    startDate: entry.startDate ? parseCVDate(entry.startDate) : undefined,
+    endDate: entry.endDate ? parseCVDate(entry.endDate) : undefined,
+    summary: entry.summary.map(line => stripInline(line)).join(' ') || undefined,
+    highlights: entry.bullets.map(bullet => stripInline(bullet)),
+    keywords: entry.keywords,
+    url: entry.url
+  };
+}
+
+/**
+ * Convert an entry into a JSON Resume education item
+ * @param entry The entry
+ * @returns The education item
+ */
+function parseEducation(entry: ResumeEntry): NonNullable<JSONResume['education']>[number] {
+  const [degree, institution] = entry.parts;
+  const degreeMatch = (degree || '').match(/^(.*?)\s+in\s+(.*)$/);
+  let score: string | undefined;
+  let courses: string[] | undefined;
+
+  entry.highlights.forEach(highlight => {
+    const [label, value] = splitLabel(highlight);
+    if (/^(score|gpa|grade)$/i.test(label) && value) {
+      score = value;
+    } else if (/course/i.test(label) && value) {
+      courses = value.split(',').map(course => course.trim()).filter(Boolean);
+    }
+  });
+
+  return {
+    institution,
+    studyType: degreeMatch ? degreeMatch[1] : degree,
+    area: degreeMatch ? degreeMatch[2] : undefined,
+    startDate: entry.startDate,
+    endDate: entry.endDate,
+    score,
+    courses
+  };
+}
+
+/**
+ * Convert an entry into a JSON Resume project
+ * @param entry The entry
+ * @returns The project
+ */
+function parseProject(entry: ResumeEntry): NonNullable<JSONResume['projects']>[number] {
+  return {
+    name: entry.parts[0],
+    description: entry.summary,
+    startDate: entry.startDate,
+    endDate: entry.endDate,
+    highlights: entry.highlights,
+    keywords: entry.keywords,
+    url: entry.url
+  };
+}
+
+/**
+ * Split "**Label**: value" or "Label: value"
+ * @param text The text
+ * @returns The label and the value
+ */
+function splitLabel(text: string): [string, string | undefined] {
+  const plain = stripInline(text);
+  const index = plain.indexOf(':');
+  if (index < 0) {
+    return [plain, undefined];
+  }
+  return [plain.slice(0, index).trim(), plain.slice(index + 1).trim()];
+}
+
+/**
+ * Pull a "(date)" out of an item
+ * @param text The item text
+ * @returns The remaining text and the ISO date
+ */
+function extractDate(text: string): { text: string; date?: string } {
+  for (const match of Array.from(text.matchAll(/\s*\(([^)]*)\)/g))) {
+    const date = parseCVDate(match[1]);
+    if (date) {
+      return { text: text.replace(match[0], ''), date };
+    }
+  }
+  return { text };
+}
+
+/**
+ * Find the first link URL in a piece of text
+ * @param text The text
+ * @returns The URL, or undefined
+ */
+function findLink(text: string): string | undefined {
+  const match = text.match(/\[[^\]]*\]\(([^)]+)\)/);
+  return match ? match[1] : undefined;
+}
+/**
+ * Remove undefined values, empty strings and empty arrays/objects
+ * @param value The value to clean
+ * @returns The cleaned value
+ */
+function compact(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(item => compact(item)).filter(item => item !== undefined);
+  }
+
+  if (value && typeof value === 'object') {
+    const result: Record<string, unknown> = {};
+    Object.entries(value as Record<string, unknown>).forEach(([key, item]) => {
+      const cleaned = compact(item);
+      const isEmpty = cleaned === undefined ||
+        cleaned === '' ||
+        (Array.isArray(cleaned) && cleaned.length === 0) ||
+        (typeof cleaned === 'object' && cleaned !== null && !Array.isArray(cleaned) && Object.keys(cleaned).length === 0);
+      if (!isEmpty) {
+        result[key] = cleaned;
+      }
+    });
+    return result;
+  }
+
+  return value;
+}
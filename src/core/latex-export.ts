@@ -0,0 +1,655 @@
+/**
+ * LaTeX source generation for CVs
+ * Maps CV sections, entries and commands onto the macros of the moderncv or awesome-cv classes
+ */
+
+import { CVMetadata, CVModel, JSONResume, LatexCVClass } from './types';
+import { PAGE_SIZES_MM } from './constants';
+import { InlineToken, MarkdownBlock, parseInline, parseMarkdownBlocks } from './markdown-blocks';
+import { modelToJsonResume } from './json-resume';
+import { parseCV, parseDateRange } from './cv-model';
+import { getSkillLevelLabel } from './ats-text';
+
+/**
+ * A dated entry in a section (e.g. a job), started by a ### heading
+ */
+interface LatexEntry {
+  kind: 'entry';
+  title: string;
+  organization: string;
+  location: string;
+  dates: string;
+  description: string[];
+  items: string[];
+}
+
+/**
+ * A block of loose content in a section
+ */
+interface LatexLooseBlock {
+  kind: 'block';
+  block: MarkdownBlock;
+}
+
+/**
+ * A top-level (##) section
+ */
+interface LatexSection {
+  title: string;
+  parts: (LatexEntry | LatexLooseBlock)[];
+}
+
+/** The name, headline and contact details from the CV header */
+type LatexBasics = NonNullable<JSONResume['basics']>;
+
+/** Characters with a special meaning in LaTeX */
+const LATEX_SPECIAL_CHARS: Record<string, string> = {
+  '\\': '\\textbackslash{}',
+  '&': '\\&',
+  '%': '\\%',
+  '$': '\\$',
+  '#': '\\#',
+  '_': '\\_',
+  '{': '\\{',
+  '}': '\\}',
+  '~': '\\textasciitilde{}',
+  '^': '\\textasciicircum{}'
+};
+
+/**
+ * Convert a CV into a compilable LaTeX document
+ * moderncv compiles with pdflatex; awesome-cv needs xelatex or lualatex
+ * @param content The CV Markdown
+ * @param metadata The CV metadata (page size, margins, font size and theme color are used)
+ * @param latexClass The document class to target
+ * @returns The LaTeX source
+ */
+export function toLatexSource(content: string, metadata: CVMetadata, latexClass: LatexCVClass): string {
+  const basics = getBasics(parseCV(content));
+  const sections = collectSections(parseMarkdownBlocks(content));
+  const [firstName, lastName] = splitName(basics.name || metadata.title || '');
+
+  const lines = latexClass === 'awesome-cv'
+    ? buildAwesomeCVPreamble(metadata, firstName, lastName, basics)
+    : buildModernCVPreamble(metadata, firstName, lastName, basics);
+
+  sections.forEach(section => {
+    lines.push('');
+    lines.push(...(latexClass === 'awesome-cv' ? renderAwesomeCVSection(section) : renderModernCVSection(section)));
+  });
+
+  lines.push('', '\\end{document}', '');
+  return lines.join('\n');
+}
+
+/**
+ * Read the name, headline and contact details from the CV header
+ * A plain line of its own under the name (e.g. "Senior Engineer") is the headline, not a location
+ * @param model The CV model
+ * @returns The details
+ */
+function getBasics(model: CVModel): LatexBasics {
+  const basics = modelToJsonResume(model).basics || {};
+  const [first, ...rest] = model.header.contact;
+  const firstLine = model.header.source.find(line => line.trim() && !/^#/.test(line));
+  if (basics.label || first?.kind !== 'location' || firstLine?.trim() !== first.text) {
+    return basics;
+  }
+
+  const others = modelToJsonResume({ ...model, header: { ...model.header, contact: rest } }).basics || {};
+  return { ...others, label: first.value };
+}
+
+/**
+ * Split a name into first names and the family name
+ * Post-nominals like ", Ph.D." are split off first and kept after the family name
+ * @param name The full name
+ * @returns The first names and the family name
+ */
+function splitName(name: string): [string, string] {
+  const [fullName, ...postNominals] = name.split(',').map(part => part.trim());
+  const nameParts = fullName.split(/\s+/);
+  const lastName = nameParts.length > 1 ? nameParts.pop() as string : '';
+  return [nameParts.join(' '), [lastName, ...postNominals].filter(Boolean).join(', ')];
+}
+
+/**
+ * Get the network a profile is on, as LaTeX macro names spell it
+ * @param profile The profile
+ * @returns The network in lower case without spaces (e.g. "stackoverflow")
+ */
+function getNetwork(profile: NonNullable<LatexBasics['profiles']>[number]): string {
+  return (profile.network || '').toLowerCase().replace(/\s+/g, '');
+}
+
+/**
+ * Read the user ID and name from a Stack Overflow profile URL
+ * @param url The profile URL (e.g. "https://stackoverflow.com/users/12345/jane-doe")
+ * @returns The ID and name, or null if the URL has no user ID
+ */
+function getStackOverflowUser(url = ''): { id: string; name: string } | null {
+  const match = url.match(/stackoverflow\.com\/users\/(\d+)(?:\/([^/?#]+))?/);
+  return match ? { id: match[1], name: match[2] || match[1] } : null;
+}
+
+/**
+ * Build the moderncv preamble and title
+ * @param metadata The CV metadata
+ * @param firstName The first name(s)
+ * @param lastName The last name
+ * @param basics Contact details
+ * @returns The lines
+ */
+function buildModernCVPreamble(
+  metadata: CVMetadata,
+  firstName: string,
+  lastName: string,
+  basics: LatexBasics
+): string[] {
+  const lines = [
+    `\\documentclass[${getFontSizeOption(metadata)},sans]{moderncv}`,
+    '\\moderncvstyle{classic}',
+    '\\moderncvcolor{blue}',
+    `\\definecolor{color1}{HTML}{${toLatexColor(metadata.themeColor)}}`,
+    '\\usepackage[utf8]{inputenc}',
+    `\\usepackage[${getGeometryOptions(metadata)}]{geometry}`,
+    '',
+    `\\name{${escapeLatex(firstName)}}{${escapeLatex(lastName)}}`
+  ];
+
+  if (basics.label) {
+    lines.push(`\\title{${escapeLatex(basics.label)}}`);
+  }
+  if (basics.location?.city) {
+    lines.push(`\\address{${escapeLatex(basics.location.city)}}{${escapeLatex(basics.location.region || '')}}{}`);
+  }
+  if (basics.phone) {
+    lines.push(`\\phone[mobile]{${escapeLatex(basics.phone)}}`);
+  }
+  if (basics.email) {
+    lines.push(`\\email{${escapeLatex(basics.email)}}`);
+  }
+  if (basics.url) {
+    lines.push(`\\homepage{${escapeLatex(basics.url.replace(/^https?:\/\//, ''))}}`);
+  }
+  (basics.profiles || []).forEach(profile => {
+    const network = getNetwork(profile);
+    if (network === 'stackoverflow') {
+      // moderncv links Stack Overflow profiles by user ID
+      const user = getStackOverflowUser(profile.url);
+      if (user) {
+        lines.push(`\\social[stackoverflow]{${user.id}}`);
+      } else if (profile.url && !basics.url) {
+        lines.push(`\\homepage{${escapeLatex(profile.url.replace(/^https?:\/\//, ''))}}`);
+      }
+    } else if (['linkedin', 'github', 'gitlab', 'twitter', 'orcid'].includes(network) && profile.username) {
+      lines.push(`\\social[${network}]{${escapeLatex(profile.username)}}`);
+    }
+  });
+
+  lines.push('', '\\begin{document}', '\\makecvtitle');
+  return lines;
+}
+
+/**
+ * Build the awesome-cv preamble and header
+ * @param metadata The CV metadata
+ * @param firstName The first name(s)
+ * @param lastName The last name
+ * @param basics Contact details
+ * @returns The lines
+ */
+function buildAwesomeCVPreamble(
+  metadata: CVMetadata,
+  firstName: string,
+  lastName: string,
+  basics: LatexBasics
+): string[] {
+  const lines = [
+    `\\documentclass[${getFontSizeOption(metadata)}]{awesome-cv}`,
+    `\\geometry{${getGeometryOptions(metadata)},footskip=.5cm}`,
+    `\\definecolor{awesome}{HTML}{${toLatexColor(metadata.themeColor)}}`,
+    '\\colorlet{awesome}{awesome}',
+    '',
+    `\\name{${escapeLatex(firstName)}}{${escapeLatex(lastName)}}`
+  ];
+
+  if (basics.label) {
+    lines.push(`\\position{${escapeLatex(basics.label)}}`);
+  }
+  if (basics.location?.city) {
+    lines.push(`\\address{${escapeLatex([basics.location.city, basics.location.region].filter(Boolean).join(', '))}}`);
+  }
+  if (basics.phone) {
+    lines.push(`\\mobile{${escapeLatex(basics.phone)}}`);
+  }
+  if (basics.email) {
+    lines.push(`\\email{${escapeLatex(basics.email)}}`);
+  }
+  if (basics.url) {
+    lines.push(`\\homepage{${escapeLatex(basics.url.replace(/^https?:\/\//, ''))}}`);
+  }
+  (basics.profiles || []).forEach(profile => {
+    const network = getNetwork(profile);
+    if (network === 'stackoverflow') {
+      // awesome-cv's \stackoverflow takes the user ID for the link and a name to show
+      const user = getStackOverflowUser(profile.url);
+      if (user) {
+        lines.push(`\\stackoverflow{${user.id}}{${escapeLatex(user.name)}}`);
+      } else if (profile.url && !basics.url) {
+        lines.push(`\\homepage{${escapeLatex(profile.url.replace(/^https?:\/\//, ''))}}`);
+      }
+    } else if (['linkedin', 'github', 'gitlab', 'twitter', 'orcid'].includes(network) && profile.username) {
+      lines.push(`\\${network}{${escapeLatex(profile.username)}}`);
+    }
+  });
+
+  lines.push('', '\\begin{document}', '\\makecvheader');
+  return lines;
+}
+
+/**
+ * Group the blocks after the header into sections and entries
+ * The H1 and the contact lines before the first ## heading form the CV title and are skipped
+ * @param blocks The CV blocks
+ * @returns The sections
+ */
+function collectSections(blocks: MarkdownBlock[]): LatexSection[] {
+  const sections: LatexSection[] = [];
+  let entry: LatexEntry | null = null;
+
+  blocks.forEach(block => {
+    if (block.type === 'heading' && block.level <= 2) {
+      entry = null;
+      if (block.level === 2) {
+        sections.push({ title: inlineToLatex(parseInline(block.text)), parts: [] });
+      }
+      return;
+    }
+
+    const section = sections[sections.length - 1];
+    if (!section) {
+      return;
+    }
+
+    // Entries start with a ### heading or a bold line like "**Title** | Company | 2019 - 2020"
+    if (block.type === 'heading' && block.level === 3) {
+      entry = createEntry(block.text);
+      section.parts.push(entry);
+      return;
+    }
+    if (block.type === 'paragraph' && /^\*\*[^*]+\*\*\s*\|/.test(block.text)) {
+      const [heading, ...rest] = block.text.split('\n');
+      entry = createEntry(heading);
+      section.parts.push(entry);
+      if (rest.length > 0) {
+        entry.description.push(rest.map(line => inlineToLatex(parseInline(line))).join(' \\\\\n'));
+      }
+      return;
+    }
+
+    const current: LatexEntry | null = entry;
+    if (!current) {
+      section.parts.push({ kind: 'block', block });
+      return;
+    }
+
+    if (block.type === 'paragraph') {
+      const tokens = parseInline(block.text);
+      const dateRange = tokens.find(token => token.type === 'daterange');
+      if (dateRange && dateRange.type === 'daterange') {
+        current.dates = `${escapeLatex(dateRange.start)}--${escapeLatex(dateRange.end)}`;
+      }
+
+      const text = inlineToLatex(tokens.filter(token => token.type !== 'daterange')).trim();
+      if (!text) {
+        return;
+      }
+
+      // A short line under a single-part title names the organization (e.g. "University, City")
+      if (!current.organization && !text.includes('\n') && text.length <= 80) {
+        const [organization, ...location] = text.split(/,\s*/);
+        current.organization = organization;
+        current.location = current.location || location.join(', ');
+      } else {
+        current.description.push(text.replace(/\n/g, ' \\\\\n'));
+      }
+    } else if (block.type === 'list') {
+      current.items.push(...block.items.map(item => inlineToLatex(parseInline(item)).replace(/\n/g, ' ')));
+    } else {
+      section.parts.push({ kind: 'block', block });
+    }
+  });
+
+  return sections;
+}
+
+/**
+ * Create an entry from its heading
+ * Supports "Title | Organization | Location | Dates" and "Title at Organization"
+ * @param heading The heading text
+ * @returns The entry
+ */
+function createEntry(heading: string): LatexEntry {
+  const entry: LatexEntry = { kind: 'entry', title: '', organization: '', location: '', dates: '', description: [], items: [] };
+  const parts: string[] = [];
+
+  heading.split(/\s+\|\s+/).forEach(part => {
+    const plain = part.replace(/\*\*/g, '').trim();
+    const range = parseDateRange(plain);
+    if (range) {
+      entry.dates = `${escapeLatex(range.start)}--${escapeLatex(range.end)}`;
+    } else if (/^\d{4}$/.test(plain)) {
+      entry.dates = plain;
+    } else {
+      parts.push(plain);
+    }
+  });
+
+  if (parts.length === 1) {
+    const at = parts[0].match(/^(.*?)\s+at\s+(.*)$/);
+    if (at) {
+      parts.splice(0, 1, at[1], at[2]);
+    }
+  }
+
+  [entry.title, entry.organization, entry.location] = parts.map(part => inlineToLatex(parseInline(part)));
+  entry.organization = entry.organization || '';
+  entry.location = entry.location || '';
+  return entry;
+}
+
+/**
+ * Render a section with moderncv macros
+ * @param section The section
+ * @returns The lines
+ */
+function renderModernCVSection(section: LatexSection): string[] {
+  const lines = [`\\section{${section.title}}`];
+
+  section.parts.forEach(part => {
+    if (part.kind === 'entry') {
+      const description = [...part.description];
+      if (part.items.length > 0) {
+        description.push(['\\begin{itemize}', ...part.items.map(item => `\\item {${item}}`), '\\end{itemize}'].join('\n'));
+      }
+      lines.push(`\\cventry{${part.dates}}{${part.title}}{${part.organization}}{${part.location}}{}{${description.join('\n')}}`);
+      return;
+    }
+
+    const block = part.block;
+    switch (block.type) {
+      case 'heading':
+        lines.push(`\\subsection{${inlineToLatex(parseInline(block.text))}}`);
+        break;
+      case 'paragraph':
+        block.text.split('\n').forEach(line => {
+          const skill = getSkillOnly(line);
+          const latex = inlineToLatex(parseInline(line));
+          if (skill) {
+            lines.push(`\\cvitem{${skill.name}}{${skill.level}}`);
+          } else if (latex.trim()) {
+            lines.push(`\\cvitem{}{${latex}}`);
+          }
+        });
+        break;
+      case 'list':
+        block.items.forEach(item => {
+          const labelled = splitLabelledItem(item);
+          lines.push(labelled ? `\\cvitem{${labelled.label}}{${labelled.text}}` : `\\cvlistitem{${inlineToLatex(parseInline(item))}}`);
+        });
+        break;
+      case 'table':
+        [block.header, ...block.rows].forEach(row => {
+          lines.push(`\\cvitem{}{${row.map(cell => inlineToLatex(parseInline(cell))).join(' \\textbar{} ')}}`);
+        });
+        break;
+      default:
+        lines.push(...layoutBlockToLatex(block));
+    }
+  });
+
+  return lines;
+}
+
+/**
+ * Render a section with awesome-cv macros
+ * Consecutive entries share one cventries environment
+ * @param section The section
+ * @returns The lines
+ */
+function renderAwesomeCVSection(section: LatexSection): string[] {
+  const lines = [`\\cvsection{${section.title}}`];
+  let inEntries = false;
+
+  const closeEntries = () => {
+    if (inEntries) {
+      lines.push('\\end{cventries}');
+      inEntries = false;
+    }
+  };
+
+  section.parts.forEach(part => {
+    if (part.kind === 'entry') {
+      if (!inEntries) {
+        lines.push('\\begin{cventries}');
+        inEntries = true;
+      }
+      const description = [...part.description];
+      if (part.items.length > 0) {
+        description.push(['\\begin{cvitems}', ...part.items.map(item => `\\item {${item}}`), '\\end{cvitems}'].join('\n'));
+      }
+      lines.push(`\\cventry{${part.title}}{${part.organization}}{${part.location}}{${part.dates}}{${description.join('\n')}}`);
+      return;
+    }
+
+    closeEntries();
+    const block = part.block;
+    switch (block.type) {
+      case 'heading':
+        lines.push(`\\cvsubsection{${inlineToLatex(parseInline(block.text))}}`);
+        break;
+      case 'paragraph': {
+        const skills = block.text.split('\n').map(line => getSkillOnly(line));
+        if (skills.every(skill => skill !== null)) {
+          lines.push('\\begin{cvskills}', ...skills.map(skill => `\\cvskill{${skill?.name}}{${skill?.level}}`), '\\end{cvskills}');
+        } else {
+          lines.push('\\begin{cvparagraph}', paragraphLines(block.text).join(' \\\\\n'), '\\end{cvparagraph}');
+        }
+        break;
+      }
+      case 'list': {
+        const labelled = block.items.map(item => splitLabelledItem(item));
+        if (labelled.every(item => item !== null)) {
+          lines.push('\\begin{cvskills}', ...labelled.map(item => `\\cvskill{${item?.label}}{${item?.text}}`), '\\end{cvskills}');
+        } else {
+          lines.push('\\begin{cvitems}', ...block.items.map(item => `\\item {${inlineToLatex(parseInline(item))}}`), '\\end{cvitems}');
+        }
+        break;
+      }
+      case 'table':
+        lines.push(
+          '\\begin{cvparagraph}',
+          [block.header, ...block.rows].map(row => row.map(cell => inlineToLatex(parseInline(cell))).join(' \\textbar{} ')).join(' \\\\\n'),
+          '\\end{cvparagraph}'
+        );
+        break;
+      default:
+        lines.push(...layoutBlockToLatex(block));
+    }
+  });
+
+  closeEntries();
+  return lines;
+}
+
+/**
+ * Convert page breaks and spacers
+ * @param block The block
+ * @returns The lines
+ */
+function layoutBlockToLatex(block: MarkdownBlock): string[] {
+  if (block.type === 'pagebreak') {
+    return ['\\clearpage'];
+  }
+  if (block.type === 'spacer') {
+    // 1px = 0.75pt
+    return [`\\vspace{${block.pixels * 0.75}pt}`];
+  }
+  return [];
+}
+
+/**
+ * Convert a paragraph into LaTeX lines
+ * @param text The paragraph text
+ * @returns One LaTeX string per source line
+ */
+function paragraphLines(text: string): string[] {
+  return text.split('\n').map(line => inlineToLatex(parseInline(line))).filter(line => line.trim());
+}
+
+/**
+ * Check whether a Markdown line holds only a skill bar
+ * @param line The Markdown line
+ * @returns The escaped skill name and its level in words, or null
+ */
+function getSkillOnly(line: string): { name: string; level: string } | null {
+  const tokens = parseInline(line).filter(token => token.type !== 'text' || token.text.trim());
+  const skill = tokens[0];
+  return tokens.length === 1 && skill.type === 'skill'
+    ? { name: escapeLatex(skill.name), level: getSkillLevelLabel(skill.level) }
+    : null;
+}
+
+/**
+ * Split a "**Label:** text" or "Label: text" list item
+ * @param item The item Markdown
+ * @returns The label and text, or null if the item has no label
+ */
+function splitLabelledItem(item: string): { label: string; text: string } | null {
+  const match = item.match(/^\*\*([^*]+?):?\*\*:?\s*(.+)$/) || item.match(/^([^:*\\[]{1,30}):\s+(.+)$/);
+  if (!match) {
+    return null;
+  }
+  return { label: inlineToLatex(parseInline(match[1])), text: inlineToLatex(parseInline(match[2])) };
+}
+
+/**
+ * Convert inline tokens into LaTeX
+ * @param tokens The tokens
+ * @returns The LaTeX text
+ */
+function inlineToLatex(tokens: InlineToken[]): string {
+  let latex = '';
+  let previousWasTag = false;
+
+  tokens.forEach(token => {
+    // Tags next to each other become a comma-separated list
+    if (token.type === 'text' && previousWasTag && !token.text.trim()) {
+      return;
+    }
+
+    switch (token.type) {
+      case 'text':
+        latex += styleLatex(escapeLatex(token.text), token);
+        break;
+      case 'link':
+        latex += `\\href{${token.url.replace(/([%#])/g, '\\$1')}}{${styleLatex(escapeLatex(token.text), token)}}`;
+        break;
+      case 'tag':
+        latex += previousWasTag ? `, ${escapeLatex(token.text)}` : escapeLatex(token.text);
+        break;
+      case 'daterange':
+        latex += `${escapeLatex(token.start)}--${escapeLatex(token.end)}`;
+        break;
+      case 'skill':
+        latex += `${escapeLatex(token.name)} (${getSkillLevelLabel(token.level)})`;
+        break;
+      case 'break':
+        latex += '\n';
+        break;
+    }
+
+    previousWasTag = token.type === 'tag';
+  });
+
+  return latex;
+}
+
+/**
+ * Wrap LaTeX text in formatting commands
+ * @param latex The escaped text
+ * @param style The formatting
+ * @returns The formatted text
+ */
+function styleLatex(latex: string, style: { bold?: boolean; italic?: boolean; underline?: boolean; smallCaps?: boolean; code?: boolean }): string {
+  let result = latex;
+  if (style.code) {
+    result = `\\texttt{${result}}`;
+  }
+  if (style.smallCaps) {
+    result = `\\textsc{${result}}`;
+  }
+  if (style.underline) {
+    result = `\\underline{${result}}`;
+  }
+  if (style.italic) {
+    result = `\\textit{${result}}`;
+  }
+  if (style.bold) {
+    result = `\\textbf{${result}}`;
+  }
+  return result;
+}
+
+/**
+ * Escape text for LaTeX
+ * @param text The text
+ * @returns The escaped text
+ */
+export function escapeLatex(text: string): string {
+  return text.replace(/[\\&%$#_{}~^]/g, char => LATEX_SPECIAL_CHARS[char]);
+}
+
+/**
+ * Pick the document class font size option
+ * @param metadata The CV metadata
+ * @returns '10pt', '11pt' or '12pt'
+ */
+function getFontSizeOption(metadata: CVMetadata): string {
+  const size = Math.min(12, Math.max(10, Math.round(metadata.fontSize || 11)));
+  return `${size}pt`;
+}
+
+/**
+ * Build geometry options for the page size, orientation and margins
+ * @param metadata The CV metadata
+ * @returns The options
+ */
+function getGeometryOptions(metadata: CVMetadata): string {
+  const size = PAGE_SIZES_MM[metadata.pageSize] || PAGE_SIZES_MM.A4;
+  const isLandscape = metadata.orientation === 'landscape';
+  const { top, right, bottom, left } = metadata.margins;
+
+  return [
+    `paperwidth=${isLandscape ? size.height : size.width}mm`,
+    `paperheight=${isLandscape ? size.width : size.height}mm`,
+    `top=${top}mm`,
+    `right=${right}mm`,
+    `bottom=${bottom}mm`,
+    `left=${left}mm`
+  ].join(',');
+}
+
+/**
+ * Convert a CSS hex color for \definecolor
+ * @param color The CSS color
+ * @returns Six upper-case hex digits
+ */
+function toLatexColor(color?: string): string {
+  let hex = (color || '').trim().replace(/^#/, '');
+  if (/^[0-9a-f]{3}$/i.test(hex)) {
+    hex = hex.split('').map(char => char + char).join('');
+  }
+  return /^[0-9a-f]{6}$/i.test(hex) ? hex.toUpperCase() : '4051B5';
+}
@@ -0,0 +1,347 @@
+/**
+ * Block and inline lexer for CV Markdown
+ * Used by the exporters that do not go through the HTML renderer (e.g. DOCX), and by the preview to map blocks to source lines
+ */
+
+import { FRONTMATTER_REGEX } from './constants';
+
+/**
+ * Character formatting applied to a run of text
+ */
+export interface InlineStyle {
+  bold?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+  smallCaps?: boolean;
+  code?: boolean;
+}
+
+/**
+ * A piece of inline content
+ */
+export type InlineToken =
+  | ({ type: 'text'; text: string } & InlineStyle)
+  | ({ type: 'link'; text: string; url: string } & InlineStyle)
+  | { type: 'tag'; text: string }
+  | { type: 'daterange'; start: string; end: string }
+  | { type: 'skill'; name: string; level: number }
+  | { type: 'break' };
+
+/**
+ * A block of CV Markdown
+ * `line` is the zero-based line the block starts on (frontmatter lines included)
+ */
+export type MarkdownBlock =
+  | { type: 'heading'; level: number; text: string; line: number }
+  | { type: 'paragraph'; text: string; line: number }
+  | { type: 'list'; ordered: boolean; items: string[]; line: number }
+  | { type: 'table'; header: string[]; rows: string[][]; line: number }
+  | { type: 'pagebreak'; line: number }
+  | { type: 'rule'; line: number }
+  | { type: 'spacer'; pixels: number; line: number };
+
+/**
+ * A run of source lines that renders to one or more blocks
+ * `line` and `endLine` are zero-based and inclusive (frontmatter lines included)
+ */
+export interface SourceChunk {
+  text: string;
+  line: number;
+  endLine: number;
+}
+
+/** Inline constructs, in order of precedence */
+const INLINE_REGEX = new RegExp([
+  '\\\\daterange\\{([^}]*)\\}\\{([^}]*)\\}',
+  '\\\\cvskill\\{([^}]*)\\}\\{([^}]*)\\}',
+  '\\\\cvtag\\{([^}]*)\\}',
+  '\\\\(textbf|textit|underline|textsc)\\{([^}]*)\\}',
+  '!\\[[^\\]]*\\]\\([^)]*\\)',
+  '\\[([^\\]]*)\\]\\(([^)\\s]*)[^)]*\\)',
+  '\\*\\*(.+?)\\*\\*',
+  '(?<!\\w)__(.+?)__(?!\\w)',
+  '\\*(.+?)\\*',
+  '(?<!\\w)_(.+?)_(?!\\w)',
+  '`([^`]+)`',
+  '<br\\s*/?>',
+  '<[^>]+>'
+].join('|'), 'g');
+
+/** Styles applied by the LaTeX-style formatting commands */
+const COMMAND_STYLES: Record<string, InlineStyle> = {
+  textbf: { bold: true },
+  textit: { italic: true },
+  underline: { underline: true },
+  textsc: { smallCaps: true }
+};
+
+const LIST_ITEM_REGEX = /^(\s*)([-*+]|\d+\.)\s+(.*)$/;
+const TABLE_ROW_REGEX = /^\s*\|.*\|\s*$/;
+const TABLE_SEPARATOR_REGEX = /^\s*\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)*\|?\s*$/;
+
+/**
+ * Split CV Markdown into blocks
+ * @param markdown The CV content, with or without frontmatter
+ * @returns The blocks in document order
+ */
+export function parseMarkdownBlocks(markdown: string): MarkdownBlock[] {
+  const frontmatter = markdown.match(FRONTMATTER_REGEX);
+  const offset = frontmatter && markdown.startsWith(frontmatter[0]) ? frontmatter[0].split('\n').length - 1 : 0;
+  const lines = (offset > 0 && frontmatter ? markdown.slice(frontmatter[0].length) : markdown).split('\n');
+
+  const blocks: MarkdownBlock[] = [];
+  let current: MarkdownBlock | null = null;
+
+  lines.forEach((rawLine, index) => {
+    const line = rawLine.replace(/\s+$/, '');
+    const lineNumber = index + offset;
+    const trimmed = line.trim();
+
+    // Blank lines and comments end the current block
+    if (!trimmed || /^<!--.*-->$/.test(trimmed)) {
+      current = null;
+      return;
+    }
+
+    if (trimmed === '\\newpage') {
+      blocks.push({ type: 'pagebreak', line: lineNumber });
+      current = null;
+      return;
+    }
+
+    const spacer = trimmed.match(/^\\\\(?:\[(\d+)px\])?$/);
+    if (spacer) {
+      blocks.push({ type: 'spacer', pixels: spacer[1] ? parseInt(spacer[1], 10) : 10, line: lineNumber });
+      current = null;
+      return;
+    }
+
+    const heading = line.match(/^(#{1,6})\s+(.*?)\s*#*$/);
+    if (heading) {
+      blocks.push({ type: 'heading', level: heading[1].length, text: heading[2], line: lineNumber });
+      current = null;
+      return;
+    }
+
+    if (/^(-{3,}|\*{3,}|_{3,})$/.test(trimmed)) {
+      blocks.push({ type: 'rule', line: lineNumber });
+      current = null;
+      return;
+    }
+
+    const listItem = line.match(LIST_ITEM_REGEX);
+    if (listItem) {
+      const ordered = /\d/.test(listItem[2]);
+      const block: MarkdownBlock | null = current;
+      if (block && block.type === 'list' && block.ordered === ordered) {
+        block.items.push(listItem[3]);
+      } else {
+        current = { type: 'list', ordered, items: [listItem[3]], line: lineNumber };
+        blocks.push(current);
+      }
+      return;
+    }
+
+    if (TABLE_ROW_REGEX.test(line)) {
+      const block: MarkdownBlock | null = current;
+      if (block && block.type === 'table') {
+        if (!TABLE_SEPARATOR_REGEX.test(line)) {
+          block.rows.push(splitTableRow(line));
+        }
+      } else {
+        current = { type: 'table', header: splitTableRow(line), rows: [], line: lineNumber };
+        blocks.push(current);
+      }
+      return;
+    }
+
+    const block: MarkdownBlock | null = current;
+    if (block && block.type === 'list' && /^\s+/.test(rawLine)) {
+      // Indented continuation of a list item
+      block.items[block.items.length - 1] += `\n${trimmed}`;
+    } else if (block && block.type === 'paragraph') {
+      block.text += `\n${trimmed}`;
+    } else {
+      current = { type: 'paragraph', text: trimmed, line: lineNumber };
+      blocks.push(current);
+    }
+  });
+
+  return blocks;
+}
+
+/**
+ * Split a table row into cells
+ * @param line The row, e.g. "| a | b |"
+ * @returns The cell texts
+ */
+function splitTableRow(line: string): string[] {
+  return line.trim().replace(/^\|/, '').replace(/\|$/, '').split('|').map(cell => cell.trim());
+}
+
+/**
+ * Split CV Markdown into source chunks that can be rendered on their own
+ * Used by the preview to map rendered blocks back to editor lines
+ * @param markdown The CV content, with or without frontmatter
+ * @returns The chunks in document order, without blank lines between them
+ */
+export function splitMarkdownSource(markdown: string): SourceChunk[] {
+  const frontmatter = markdown.match(FRONTMATTER_REGEX);
+  const offset = frontmatter && markdown.startsWith(frontmatter[0]) ? frontmatter[0].split('\n').length - 1 : 0;
+  const lines = (offset > 0 && frontmatter ? markdown.slice(frontmatter[0].length) : markdown).split('\n');
+
+  const chunks: SourceChunk[] = [];
+  let current: string[] = [];
+  let start = 0;
+  let fence: string | null = null;
+  let openDivs = 0;
+
+  const flush = () => {
+    // Blank lines kept inside a list are not part of its end
+    while (current.length > 0 && !current[current.length - 1].trim()) {
+      current.pop();
+    }
+    if (current.length > 0) {
+      chunks.push({ text: current.join('\n'), line: start + offset, endLine: start + offset + current.length - 1 });
+    }
+    current = [];
+  };
+
+  const add = (line: string, index: number) => {
+    if (current.length === 0) {
+      start = index;
+    }
+    current.push(line);
+  };
+
+  lines.forEach((line, index) => {
+    const trimmed = line.trim();
+
+    // Code blocks are kept whole
+    const fenceMatch = trimmed.match(/^(`{3,}|~{3,})/);
+    if (fence) {
+      add(line, index);
+      if (fenceMatch && fenceMatch[1][0] === fence[0] && fenceMatch[1].length >= fence.length) {
+        fence = null;
+        flush();
+      }
+      return;
+    }
+    if (fenceMatch) {
+      flush();
+      add(line, index);
+      fence = fenceMatch[1];
+      return;
+    }
+
+    // So are HTML containers, which may hold blank lines
+    if (openDivs > 0) {
+      add(line, index);
+      openDivs = Math.max(0, openDivs + countDivs(line));
+      return;
+    }
+
+    if (!trimmed) {
+      // A list carries on past a blank line when it is followed by another item or an indented line
+      const next = lines.slice(index + 1).find(nextLine => nextLine.trim());
+      const inList = current.length > 0 && LIST_ITEM_REGEX.test(current[0]);
+      if (inList && next !== undefined && (LIST_ITEM_REGEX.test(next) || /^\s+\S/.test(next))) {
+        current.push(line);
+      } else {
+        flush();
+      }
+      return;
+    }
+
+    // Headings and page breaks stand alone
+    if (/^#{1,6}\s/.test(line) || trimmed === '\\newpage') {
+      flush();
+      add(line, index);
+      flush();
+      return;
+    }
+
+    add(line, index);
+    openDivs = Math.max(0, countDivs(line));
+  });
+
+  flush();
+  return chunks;
+}
+
+/**
+ * Count the div elements a line leaves open
+ * @param line The line
+ * @returns Opening minus closing div tags
+ */
+function countDivs(line: string): number {
+  return (line.match(/<div[\s>]/gi) || []).length - (line.match(/<\/div>/gi) || []).length;
+}
+
+/**
+ * Split the text of a block into inline tokens
+ * Line breaks inside the text become break tokens
+ * @param text The text
+ * @param style Formatting inherited from an enclosing construct
+ * @returns The tokens
+ */
+export function parseInline(text: string, style: InlineStyle = {}): InlineToken[] {
+  const tokens: InlineToken[] = [];
+  let lastIndex = 0;
+
+  const pushText = (value: string) => {
+    value.split('\n').forEach((part, index) => {
+      if (index > 0) {
+        tokens.push({ type: 'break' });
+      }
+      if (part) {
+        tokens.push({ type: 'text', text: decodeEntities(part), ...style });
+      }
+    });
+  };
+
+  for (const match of Array.from(text.matchAll(INLINE_REGEX))) {
+    const index = match.index || 0;
+    pushText(text.slice(lastIndex, index));
+    lastIndex = index + match[0].length;
+
+    if (match[1] !== undefined) {
+      tokens.push({ type: 'daterange', start: match[1], end: match[2] });
+    } else if (match[3] !== undefined) {
+      tokens.push({ type: 'skill', name: match[3], level: Math.max(0, Math.min(100, parseInt(match[4], 10) || 0)) });
+    } else if (match[5] !== undefined) {
+      tokens.push({ type: 'tag', text: match[5] });
+    } else if (match[6] !== undefined) {
+      tokens.push(...parseInline(match[7], { ...style, ...COMMAND_STYLES[match[6]] }));
+    } else if (match[8] !== undefined) {
+      tokens.push({ type: 'link', text: decodeEntities(match[8]) || match[9], url: match[9], ...style });
+    } else if (match[10] !== undefined || match[11] !== undefined) {
+      tokens.push(...parseInline(match[10] ?? match[11], { ...style, bold: true }));
+    } else if (match[12] !== undefined || match[13] !== undefined) {
+      tokens.push(...parseInline(match[12] ?? match[13], { ...style, italic: true }));
+    } else if (match[14] !== undefined) {
+      tokens.push({ type: 'text', text: match[14], ...style, code: true });
+    } else if (/^<br/i.test(match[0])) {
+      tokens.push({ type: 'break' });
+    }
+    // Images and other HTML tags are dropped
+  }
+
+  pushText(text.slice(lastIndex));
+  return tokens;
+}
+
+/**
+ * Decode the HTML entities that commonly appear in Markdown
+ * @param text The text
+ * @returns The decoded text
+ */
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, '\'')
+    .replace(/&amp;/g, '&');
+}
@@ -0,0 +1,110 @@
+/**
+ * Per-page header, footer and page number text for PDF export
+ */
+
+import { PDFExportOptions } from './types';
+
+/** Default page number text */
+export const DEFAULT_PAGE_NUMBER_FORMAT = 'Page {page} of {pages}';
+
+/**
+ * Values available to header/footer placeholders
+ */
+export interface PageDecorationContext {
+  /** 1-based page number */
+  page: number;
+
+  /** Total number of pages */
+  pages: number;
+
+  /** Document title */
+  title: string;
+
+  /** Export date, already formatted */
+  date: string;
+}
+
+/**
+ * Text to stamp on a single page
+ */
+export interface PageDecorations {
+  header?: string;
+  footer?: string;
+  pageNumber?: string;
+}
+
+/**
+ * Replace {page}, {pages}, {title} and {date} placeholders
+ * @param template The text containing placeholders
+ * @param context Placeholder values
+ * @returns The resolved text
+ */
+export function resolvePagePlaceholders(template: string, context: PageDecorationContext): string {
+  return template.replace(/\{(page|pages|title|date)\}/g, (match, key: keyof PageDecorationContext) => {
+    return String(context[key]);
+  });
+}
+
+/**
+ * Reduce header/footer content to a single line of plain text
+ * Content entered in the export dialog may contain HTML tags
+ * @param content The raw content
+ * @returns Plain text
+ */
+export function toPlainDecorationText(content: string): string {
+  return content
+    .replace(/<[^>]*>/g, ' ')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Work out what to stamp on a page
+ * @param options Export options
+ * @param context Placeholder values for the page
+ * @returns The decorations for the page (empty on a suppressed first page)
+ */
+export function getPageDecorations(
+  options: Pick<PDFExportOptions, 'includeHeader' | 'headerContent' | 'includeFooter' | 'footerContent' | 'includePageNumbers' | 'pageNumberFormat' | 'suppressOnFirstPage'>,
+  context: PageDecorationContext
+): PageDecorations {
+  const decorations: PageDecorations = {};
+
+  if (options.suppressOnFirstPage && context.page === 1) {
+    return decorations;
+  }
+
+  if (options.includeHeader && options.headerContent) {
+    decorations.header = resolvePagePlaceholders(toPlainDecorationText(options.headerContent), context);
+  }
+
+  if (options.includeFooter && options.footerContent) {
+    decorations.footer = resolvePagePlaceholders(toPlainDecorationText(options.footerContent), context);
+  }
+
+  if (options.includePageNumbers) {
+    decorations.pageNumber = resolvePagePlaceholders(
+      options.pageNumberFormat || DEFAULT_PAGE_NUMBER_FORMAT,
+      context
+    );
+  }
+
+  return decorations;
+}
+
+/**
+ * Check whether any decorations are enabled
+ * @param options Export options
+ * @returns True if pages need to be stamped
+ */
+export function hasPageDecorations(options: Pick<PDFExportOptions, 'includeHeader' | 'headerContent' | 'includeFooter' | 'footerContent' | 'includePageNumbers'>): boolean {
+  return Boolean(
+    (options.includeHeader && options.headerContent) ||
+    (options.includeFooter && options.footerContent) ||
+    options.includePageNumbers
+  );
+}
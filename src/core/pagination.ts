@@ -0,0 +1,128 @@
+/**
+ * Page geometry and pagination helpers for the CV preview
+ */
+
+import { CVMetadata } from './types';
+import { PAGE_SIZES_MM } from './constants';
+
+/** CSS pixels per millimetre (96 dpi) */
+export const PX_PER_MM = 96 / 25.4;
+
+/**
+ * Page geometry in CSS pixels
+ */
+export interface PageDimensions {
+  width: number;
+  height: number;
+  contentWidth: number;
+  contentHeight: number;
+}
+
+/**
+ * A block of content to place on pages
+ */
+export interface PaginationBlock {
+  /** Height of the block including its margins, in px */
+  height: number;
+
+  /** Whether a manual page break precedes the block */
+  breakBefore?: boolean;
+
+  /** Whether the block should stay on the same page as the next one (e.g. headings) */
+  keepWithNext?: boolean;
+}
+
+/**
+ * Result of paginating a list of blocks
+ */
+export interface PaginationResult {
+  /** Block indices for each page */
+  pages: number[][];
+
+  /** Indices of keep-with-next blocks left at the bottom of a page */
+  orphans: number[];
+}
+
+/**
+ * Calculate page geometry for a CV
+ * @param pageSize The paper size
+ * @param orientation The page orientation
+ * @param margins Margins in mm
+ * @returns Page dimensions in px
+ */
+export function getPageDimensions(
+  pageSize: CVMetadata['pageSize'],
+  orientation: CVMetadata['orientation'],
+  margins: CVMetadata['margins']
+): PageDimensions {
+  const size = PAGE_SIZES_MM[pageSize] || PAGE_SIZES_MM.A4;
+  const isLandscape = orientation === 'landscape';
+  const widthMm = isLandscape ? size.height : size.width;
+  const heightMm = isLandscape ? size.width : size.height;
+
+  return {
+    width: widthMm * PX_PER_MM,
+    height: heightMm * PX_PER_MM,
+    contentWidth: (widthMm - margins.left - margins.right) * PX_PER_MM,
+    contentHeight: (heightMm - margins.top - margins.bottom) * PX_PER_MM
+  };
+}
+
+/**
+ * Build the CSS @page rule for a CV
+ * @param pageSize The paper size
+ * @param orientation The page orientation
+ * @param margins Margins in mm
+ * @returns The @page rule
+ */
+export function buildPageRule(
+  pageSize: CVMetadata['pageSize'],
+  orientation: CVMetadata['orientation'],
+  margins: CVMetadata['margins']
+): string {
+  const size = PAGE_SIZES_MM[pageSize] || PAGE_SIZES_MM.A4;
+  const isLandscape = orientation === 'landscape';
+  const width = isLandscape ? size.height : size.width;
+  const height = isLandscape ? size.width : size.height;
+
+  return `@page {
+  size: ${width}mm ${height}mm;
+  margin: ${margins.top}mm ${margins.right}mm ${margins.bottom}mm ${margins.left}mm;
+}`;
+}
+
+/**
+ * Distribute blocks over pages
+ * Blocks are never split; a block taller than a page gets a page of its own.
+ * @param blocks The blocks in document order
+ * @param pageHeight Available content height per page, in px
+ * @returns The blocks on each page and any orphaned headings
+ */
+export function paginateBlocks(blocks: PaginationBlock[], pageHeight: number): PaginationResult {
+  const pages: number[][] = [[]];
+  const orphans: number[] = [];
+  let usedHeight = 0;
+
+  blocks.forEach((block, index) => {
+    const currentPage = pages[pages.length - 1];
+    const overflows = usedHeight + block.height > pageHeight && currentPage.length > 0;
+
+    if (block.breakBefore || overflows) {
+      // A heading left at the bottom of the page is separated from its content
+      const lastIndex = currentPage[currentPage.length - 1];
+      if (overflows && !block.breakBefore && lastIndex !== undefined && blocks[lastIndex].keepWithNext) {
+        orphans.push(lastIndex);
+      }
+
+      if (currentPage.length > 0) {
+        pages.push([]);
+      }
+      usedHeight = 0;
+    }
+
+    pages[pages.length - 1].push(index);
+    usedHeight += block.height;
+  });
+
+  return { pages, orphans };
+}
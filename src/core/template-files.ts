@@ -0,0 +1,133 @@
+/**
+ * Template files for the Oh My CV plugin
+ * A template file is a Markdown note whose frontmatter describes the template and its style, and whose body is the template's content
+ */
+
+import * as YAML from 'yaml';
+import { CVTemplate, CVTemplateStyle, CVTheme } from './types';
+import { FRONTMATTER_REGEX } from './constants';
+import { DEFAULT_TEMPLATE_STYLE } from './templates';
+
+/**
+ * Turn a template file into a template
+ * The ID defaults to one derived from the path and the name to the file name, and style fields left out use the default style
+ * @param path The file's vault path
+ * @param text The file's contents
+ * @returns The template
+ * @throws If the frontmatter is not valid YAML or not a set of fields
+ */
+export function parseTemplateFile(path: string, text: string): CVTemplate {
+  const frontmatter = text.match(FRONTMATTER_REGEX);
+  const data = frontmatter && text.startsWith(frontmatter[0]) ? YAML.parse(frontmatter[1]) ?? {} : {};
+  if (typeof data !== 'object' || Array.isArray(data)) {
+    throw new Error('The frontmatter must be a set of fields');
+  }
+
+  const body = frontmatter && text.startsWith(frontmatter[0]) ? text.slice(frontmatter[0].length) : text;
+  const basename = (path.split('/').pop() || path).replace(/\.md$/i, '');
+  const style = isRecord(data.style) ? data.style : {};
+
+  const template: CVTemplate = {
+    id: data.id ? String(data.id) : `vault-${path.replace(/\.md$/i, '').toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '')}`,
+    name: data.name ? String(data.name) : basename,
+    description: data.description ? String(data.description) : '',
+    content: body.replace(/^\s*\n/, ''),
+    style: {
+      theme: { ...DEFAULT_TEMPLATE_STYLE.theme, ...readStrings(style.theme) } as CVTheme,
+      margins: { ...DEFAULT_TEMPLATE_STYLE.margins, ...readNumbers(style.margins) },
+      spacing: typeof style.spacing === 'number' ? style.spacing : DEFAULT_TEMPLATE_STYLE.spacing
+    }
+  };
+
+  if (typeof style.customCSS === 'string' && style.customCSS.trim()) {
+    template.style.customCSS = style.customCSS;
+  }
+  if (data.category) {
+    template.category = String(data.category);
+  }
+
+  // Tags may be a list or a comma-separated string
+  const tags = Array.isArray(data.tags) ? data.tags.map(String) : typeof data.tags === 'string' ? data.tags.split(',') : [];
+  const cleanTags = tags.map((tag: string) => tag.trim()).filter(Boolean);
+  if (cleanTags.length > 0) {
+    template.tags = cleanTags;
+  }
+  if (data.previewImage) {
+    template.previewImage = String(data.previewImage);
+  }
+
+  return template;
+}
+
+/**
+ * Turn a template into the contents of a template file
+ * @param template The template
+ * @returns Frontmatter with the template's details and style, followed by its content
+ */
+export function serializeTemplateFile(template: CVTemplate): string {
+  const style: CVTemplateStyle = {
+    theme: template.style.theme,
+    margins: template.style.margins,
+    spacing: template.style.spacing
+  };
+  if (template.style.customCSS) {
+    style.customCSS = template.style.customCSS;
+  }
+
+  const data: Record<string, unknown> = { id: template.id, name: template.name, description: template.description };
+  if (template.category) {
+    data.category = template.category;
+  }
+  if (template.tags && template.tags.length > 0) {
+    data.tags = template.tags;
+  }
+  if (template.previewImage) {
+    data.previewImage = template.previewImage;
+  }
+  data.style = style;
+
+  return `---\n${YAML.stringify(data).trimEnd()}\n---\n\n${template.content}`;
+}
+
+/**
+ * Check whether a value is a set of YAML fields
+ * @param value The value
+ * @returns Whether it is a non-array object
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Read the fields of a YAML mapping as strings, e.g. a line height written as 1.5
+ * @param value The mapping
+ * @returns The fields that have a value
+ */
+function readStrings(value: unknown): Record<string, string> {
+  const result: Record<string, string> = {};
+  if (isRecord(value)) {
+    Object.entries(value).forEach(([key, field]) => {
+      if (field !== null && field !== undefined && field !== '') {
+        result[key] = String(field);
+      }
+    });
+  }
+  return result;
+}
+
+/**
+ * Read the numeric fields of a YAML mapping
+ * @param value The mapping
+ * @returns The fields that are numbers
+ */
+function readNumbers(value: unknown): Record<string, number> {
+  const result: Record<string, number> = {};
+  if (isRecord(value)) {
+    Object.entries(value).forEach(([key, field]) => {
+      if (typeof field === 'number') {
+        result[key] = field;
+      }
+    });
+  }
+  return result;
+}
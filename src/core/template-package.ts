@@ -0,0 +1,331 @@
+/**
+ * Template packages for the Oh My CV plugin
+ * Turns templates into a shareable package, as one JSON file or as the files of a zip archive, and plans how an imported package joins the existing templates
+ */
+
+import { CVTemplate, TemplateCollisionPolicy, TemplatePackage } from './types';
+import { TEMPLATE_PACKAGE_FORMAT, TEMPLATE_PACKAGE_MANIFEST, TEMPLATE_PACKAGE_VERSION } from './constants';
+import { validateTemplate } from './templates';
+
+/**
+ * How an imported package joins the existing templates
+ */
+export interface TemplateImportPlan {
+  /** Templates to add, with new IDs and names where theirs were taken */
+  added: CVTemplate[];
+
+  /** Templates that replace an existing template with the same ID */
+  replaced: CVTemplate[];
+
+  /** Templates left out because their ID or name is taken */
+  skipped: CVTemplate[];
+}
+
+/**
+ * A template in the manifest of a zipped package, with its content, custom CSS and preview image in separate files
+ */
+interface PackagedTemplate extends Omit<CVTemplate, 'content'> {
+  files: {
+    content: string;
+    css?: string;
+    preview?: string;
+  };
+}
+
+/** Generic font families, which every system has */
+const GENERIC_FONTS = ['serif', 'sans-serif', 'monospace', 'cursive', 'fantasy', 'system-ui'];
+
+/** Preview image types kept as files in a zipped package, by file extension */
+const IMAGE_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp'
+};
+
+/**
+ * Get the font families a set of templates uses
+ * @param templates The templates
+ * @returns The first family of each heading and body font stack, without generic families or duplicates
+ */
+export function getTemplateFonts(templates: CVTemplate[]): string[] {
+  const fonts: string[] = [];
+  templates.forEach(template => {
+    [template.style.theme.headingFont, template.style.theme.bodyFont].forEach(stack => {
+      const family = (stack || '').split(',')[0].trim().replace(/^['"]|['"]$/g, '');
+      if (family && !GENERIC_FONTS.includes(family.toLowerCase()) && !fonts.includes(family)) {
+        fonts.push(family);
+      }
+    });
+  });
+  return fonts;
+}
+
+/**
+ * Make a template package
+ * @param templates The templates to share
+ * @param exportedAt When the package is made
+ * @returns The package
+ */
+export function createTemplatePackage(templates: CVTemplate[], exportedAt: Date = new Date()): TemplatePackage {
+  return {
+    format: TEMPLATE_PACKAGE_FORMAT,
+    schemaVersion: TEMPLATE_PACKAGE_VERSION,
+    exportedAt: exportedAt.toISOString(),
+    fonts: getTemplateFonts(templates),
+    templates
+  };
+}
+
+/**
+ * Check and read a parsed template package file
+ * @param data The parsed JSON
+ * @returns The package
+ * @throws If the data is not a package, was made for a newer schema version, or holds an invalid template
+ */
+export function parseTemplatePackage(data: unknown): TemplatePackage {
+  checkPackageHeader(data);
+  const { exportedAt, fonts, templates } = data;
+  if (!Array.isArray(templates) || templates.length === 0) {
+    throw new Error('The package has no templates');
+  }
+
+  return {
+    format: TEMPLATE_PACKAGE_FORMAT,
+    schemaVersion: TEMPLATE_PACKAGE_VERSION,
+    exportedAt: typeof exportedAt === 'string' ? exportedAt : '',
+    fonts: Array.isArray(fonts) ? fonts.filter((font): font is string => typeof font === 'string') : [],
+    templates: templates.map((entry: unknown, index) => {
+      if (
+        !isRecord(entry) || typeof entry.id !== 'string' || typeof entry.name !== 'string' || typeof entry.content !== 'string'
+        || !isRecord(entry.style) || !isRecord(entry.style.theme) || !isRecord(entry.style.margins)
+      ) {
+        throw new Error(`Template ${index + 1} in the package is incomplete`);
+      }
+
+      const template = { ...entry, description: typeof entry.description === 'string' ? entry.description : '' } as unknown as CVTemplate;
+      const errors = validateTemplate(template);
+      if (errors.length > 0) {
+        throw new Error(`Template '${template.name}' in the package is invalid: ${errors.join('; ')}`);
+      }
+      return template;
+    })
+  };
+}
+
+/**
+ * Lay a template package out as the files of a zip archive
+ * The manifest lists the templates, and each template's content, custom CSS and preview image get their own file
+ * @param templatePackage The package
+ * @returns File contents by path; preview images are base64-encoded (see isBinaryPackageFile)
+ */
+export function templatePackageToFiles(templatePackage: TemplatePackage): Record<string, string> {
+  const files: Record<string, string> = {};
+  const folders: string[] = [];
+
+  const templates = templatePackage.templates.map(template => {
+    // One folder per template, named after it
+    const slug = template.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'template';
+    let folder = `templates/${slug}`;
+    for (let version = 2; folders.includes(folder); version++) {
+      folder = `templates/${slug}-${version}`;
+    }
+    folders.push(folder);
+
+    const { content, ...details } = template;
+    const entry: PackagedTemplate = { ...details, style: { ...template.style }, files: { content: `${folder}/content.md` } };
+    files[entry.files.content] = content;
+
+    if (template.style.customCSS) {
+      delete entry.style.customCSS;
+      entry.files.css = `${folder}/style.css`;
+      files[entry.files.css] = template.style.customCSS;
+    }
+
+    // Preview images that are data URIs become image files; web addresses stay in the manifest
+    const image = (template.previewImage || '').match(/^data:(image\/[\w.+-]+);base64,(.*)$/s);
+    const extension = image ? Object.keys(IMAGE_TYPES).find(key => IMAGE_TYPES[key] === image[1]) : undefined;
+    if (image && extension) {
+      delete entry.previewImage;
+      entry.files.preview = `${folder}/preview.${extension}`;
+      files[entry.files.preview] = image[2];
+    }
+
+    return entry;
+  });
+
+  files[TEMPLATE_PACKAGE_MANIFEST] = JSON.stringify({ ...templatePackage, templates }, null, 2);
+  return files;
+}
+
+/**
+ * Check whether a file in a zipped package holds binary data
+ * @param path The file's path in the archive
+ * @returns True for preview images, which templatePackageToFiles gives as base64
+ */
+export function isBinaryPackageFile(path: string): boolean {
+  return (path.split('.').pop() || '').toLowerCase() in IMAGE_TYPES;
+}
+
+/**
+ * Read a template package from the files of a zip archive
+ * @param files File contents by path, with binary files base64-encoded
+ * @returns The package
+ * @throws If the manifest or a file it lists is missing, or the package is invalid
+ */
+export function filesToTemplatePackage(files: Record<string, string>): TemplatePackage {
+  const manifest = files[TEMPLATE_PACKAGE_MANIFEST];
+  if (manifest === undefined) {
+    throw new Error(`The zip file has no ${TEMPLATE_PACKAGE_MANIFEST}`);
+  }
+
+  // Checked before the files are read, as other schema versions may lay them out differently
+  const data: unknown = JSON.parse(manifest);
+  checkPackageHeader(data);
+
+  const readFile = (path: unknown): string => {
+    if (typeof path !== 'string' || files[path] === undefined) {
+      throw new Error(`The zip file is missing ${path}`);
+    }
+    return files[path];
+  };
+
+  if (Array.isArray(data.templates)) {
+    data.templates = data.templates.map((entry: unknown) => {
+      if (!isRecord(entry) || !isRecord(entry.files)) {
+        return entry;
+      }
+
+      const { files: paths, ...template } = entry;
+      template.content = readFile(paths.content);
+      if (paths.css !== undefined && isRecord(template.style)) {
+        template.style = { ...template.style, customCSS: readFile(paths.css) };
+      }
+      if (typeof paths.preview === 'string') {
+        const type = IMAGE_TYPES[(paths.preview.split('.').pop() || '').toLowerCase()];
+        template.previewImage = `data:${type};base64,${readFile(paths.preview)}`;
+      }
+      return template;
+    });
+  }
+
+  return parseTemplatePackage(data);
+}
+
+/**
+ * Work out how imported templates join the existing ones
+ * @param incoming The templates from the package
+ * @param existing All existing templates
+ * @param replaceableIds IDs of the existing templates that may be replaced, i.e. those kept in the settings
+ * @param policy What to do with templates whose ID or name is taken
+ * @returns The templates to add, replace and skip
+ */
+export function planTemplateImport(
+  incoming: CVTemplate[],
+  existing: CVTemplate[],
+  replaceableIds: string[],
+  policy: TemplateCollisionPolicy
+): TemplateImportPlan {
+  const plan: TemplateImportPlan = { added: [], replaced: [], skipped: [] };
+  let taken = [...existing];
+
+  incoming.forEach(template => {
+    const sameId = taken.find(other => other.id === template.id);
+    const sameName = taken.find(other => other.id !== template.id && sameTemplateName(other.name, template.name));
+
+    if (!sameId && !sameName) {
+      plan.added.push(template);
+      taken.push(template);
+    } else if (policy === 'skip') {
+      plan.skipped.push(template);
+    } else if (policy === 'replace' && sameId && !sameName && replaceableIds.includes(template.id)) {
+      plan.replaced.push(template);
+      taken = taken.map(other => other.id === template.id ? template : other);
+    } else {
+      // Kept alongside the existing template, including when it cannot be replaced
+      const copy = { ...template, id: getFreeId(template.id, taken), name: getFreeName(template.name, taken) };
+      plan.added.push(copy);
+      taken.push(copy);
+    }
+  });
+
+  return plan;
+}
+
+/**
+ * Find the templates in a package whose ID or name is taken
+ * @param incoming The templates from the package
+ * @param existing All existing templates
+ * @returns The templates that collide with an existing one
+ */
+export function findTemplateCollisions(incoming: CVTemplate[], existing: CVTemplate[]): CVTemplate[] {
+  return incoming.filter(template =>
+    existing.some(other => other.id === template.id || sameTemplateName(other.name, template.name))
+  );
+}
+
+/**
+ * Check the format and schema version of a parsed package
+ * @param data The parsed JSON
+ * @throws If the data is not a package or was made for a schema version this plugin cannot read
+ */
+function checkPackageHeader(data: unknown): asserts data is Record<string, unknown> {
+  if (!isRecord(data) || data.format !== TEMPLATE_PACKAGE_FORMAT) {
+    throw new Error('The file is not an Oh My CV template package');
+  }
+
+  const version = data.schemaVersion;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    throw new Error('The package has no valid schema version');
+  }
+  if (version > TEMPLATE_PACKAGE_VERSION) {
+    throw new Error(`The package uses schema version ${version}, but this plugin reads up to version ${TEMPLATE_PACKAGE_VERSION}; update the plugin to import it`);
+  }
+}
+
+/**
+ * Check whether two template names are the same, ignoring case and surrounding spaces
+ * @param a A name
+ * @param b Another name
+ * @returns Whether they match
+ */
+function sameTemplateName(a: string, b: string): boolean {
+  return a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+/**
+ * Find an ID no template uses, by adding a number
+ * @param id The preferred ID
+ * @param taken The templates whose IDs are taken
+ * @returns The ID, e.g. 'minimal-2'
+ */
+function getFreeId(id: string, taken: CVTemplate[]): string {
+  let candidate = id;
+  for (let version = 2; taken.some(other => other.id === candidate); version++) {
+    candidate = `${id}-${version}`;
+  }
+  return candidate;
+}
+
+/**
+ * Find a name no template uses, by adding a number
+ * @param name The preferred name
+ * @param taken The templates whose names are taken
+ * @returns The name, e.g. 'Minimal (2)'
+ */
+function getFreeName(name: string, taken: CVTemplate[]): string {
+  let candidate = name;
+  for (let version = 2; taken.some(other => sameTemplateName(other.name, candidate)); version++) {
+    candidate = `${name} (${version})`;
+  }
+  return candidate;
+}
+
+/**
+ * Check whether a value is a JSON object
+ * @param value The value
+ * @returns Whether it is a non-array object
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -3,7 +3,7 @@
  * Based on the original Oh My CV project: https://github.com/Renovamen/oh-my-cv
  */
 
-import { CVTemplate, CVTheme, CVTemplateStyle } from './types';
+import { CVMetadata, CVTemplate, CVTheme, CVTemplateStyle } from './types';
 
 /**
  * Default theme colors
@@ -98,6 +98,28 @@ export const DEFAULT_MARGINS = {
   },
 };
 
+/**
+ * Style of a new template, and of the fields a template file leaves out
+ */
+export const DEFAULT_TEMPLATE_STYLE: CVTemplateStyle = {
+  theme: {
+    primaryColor: '#4051b5',
+    textColor: '#333333',
+    backgroundColor: '#ffffff',
+    headingFont: 'Inter, sans-serif',
+    bodyFont: 'Inter, sans-serif',
+    fontSize: '11pt',
+    lineHeight: '1.5'
+  },
+  margins: {
+    top: 20,
+    right: 20,
+    bottom: 20,
+    left: 20
+  },
+  spacing: 1.2
+};
+
 /**
  * Classic Professional CV Template
  */
@@ -452,3 +474,134 @@ export function getTemplatesByCategory(category: string): CVTemplate[] {
 export function getTemplatesByTag(tag: string): CVTemplate[] {
   return DEFAULT_TEMPLATES.filter(template => template.tags?.includes(tag));
 }
+
+/**
+ * Convert a CV's styling into a template style
+ * Colors the CV does not set take the values the preview uses for it
+ * @param metadata The CV's metadata
+ * @returns The template style
+ */
+export function metadataToTemplateStyle(metadata: CVMetadata): CVTemplateStyle {
+  const style: CVTemplateStyle = {
+    theme: {
+      primaryColor: metadata.themeColor,
+      textColor: '#000000',
+      linkColor: metadata.themeColor,
+      backgroundColor: '#ffffff',
+      headingFont: metadata.fontFamily,
+      bodyFont: metadata.fontFamily,
+      fontSize: `${metadata.fontSize}pt`,
+      lineHeight: `${metadata.lineHeight}`
+    },
+    margins: { ...metadata.margins },
+    spacing: metadata.lineHeight
+  };
+  if (metadata.customCss) {
+    style.customCSS = metadata.customCss;
+  }
+  return style;
+}
+
+/**
+ * Convert a template style into the styling a CV keeps in its metadata
+ * A CV has one theme color and one font, so the template's other colors and its heading font are left out
+ * @param style The template style
+ * @returns The metadata fields to change; the custom CSS is cleared when the template has none
+ */
+export function templateStyleToMetadata(style: CVTemplateStyle): Partial<CVMetadata> {
+  const { theme } = style;
+  const metadata: Partial<CVMetadata> = {
+    themeColor: theme.primaryColor,
+    margins: { ...style.margins },
+    customCss: style.customCSS || undefined
+  };
+
+  const font = theme.bodyFont || theme.headingFont;
+  if (font) {
+    metadata.fontFamily = font;
+  }
+
+  // Font sizes in pt or px; relative sizes leave the CV's size as it is
+  const size = (theme.fontSize || '').match(/^(\d+(?:\.\d+)?)(pt|px)$/);
+  if (size) {
+    metadata.fontSize = size[2] === 'px' ? parseFloat(size[1]) * 0.75 : parseFloat(size[1]);
+  }
+
+  const lineHeight = parseFloat(theme.lineHeight || '');
+  metadata.lineHeight = isNaN(lineHeight) ? style.spacing : lineHeight;
+
+  return metadata;
+}
+
+/** Colors a template may use: hex, rgb()/hsl() or a named color */
+const COLOR_REGEX = /^(#([0-9a-f]{3}|[0-9a-f]{4}|[0-9a-f]{6}|[0-9a-f]{8})|(rgb|rgba|hsl|hsla)\([^)]*\)|[a-z]+)$/i;
+
+/** CSS font sizes a template may use, e.g. 11pt */
+const FONT_SIZE_REGEX = /^\d+(\.\d+)?(pt|px|em|rem)$/;
+
+/**
+ * Check a template before it is saved
+ * @param template The template
+ * @param others The other templates, whose IDs and names it must not reuse
+ * @returns A message for each problem found, empty if the template can be saved
+ */
+export function validateTemplate(template: CVTemplate, others: CVTemplate[] = []): string[] {
+  const errors: string[] = [];
+  const { theme, margins } = template.style;
+
+  if (!template.id.trim()) {
+    errors.push('The template has no ID');
+  } else if (others.some(other => other.id === template.id)) {
+    errors.push(`Another template already has the ID '${template.id}'`);
+  }
+
+  if (!template.name.trim()) {
+    errors.push('Give the template a name');
+  } else if (others.some(other => other.name.trim().toLowerCase() === template.name.trim().toLowerCase())) {
+    errors.push(`Another template is already called '${template.name.trim()}'`);
+  }
+
+  if (!template.content.trim()) {
+    errors.push('Add the template\'s Markdown content');
+  }
+
+  const colors: [string, string | undefined][] = [
+    ['Primary color', theme.primaryColor],
+    ['Secondary color', theme.secondaryColor],
+    ['Accent color', theme.accentColor],
+    ['Text color', theme.textColor],
+    ['Link color', theme.linkColor],
+    ['Background color', theme.backgroundColor]
+  ];
+  colors.forEach(([name, value]) => {
+    if (name === 'Primary color' && !value) {
+      errors.push('Choose a primary color');
+    } else if (value && !COLOR_REGEX.test(value.trim())) {
+      errors.push(`${name} '${value}' is not a color`);
+    }
+  });
+
+  if (theme.fontSize && !FONT_SIZE_REGEX.test(theme.fontSize.trim())) {
+    errors.push(`Font size '${theme.fontSize}' should be a size like 11pt`);
+  }
+  if (theme.lineHeight && !(parseFloat(theme.lineHeight) > 0 && /^\d+(\.\d+)?$/.test(theme.lineHeight.trim()))) {
+    errors.push(`Line height '${theme.lineHeight}' should be a number like 1.5`);
+  }
+
+  (['top', 'right', 'bottom', 'left'] as const).forEach(side => {
+    const value = margins[side];
+    if (typeof value !== 'number' || isNaN(value) || value < 0 || value > 100) {
+      errors.push(`The ${side} margin should be between 0 and 100 mm`);
+    }
+  });
+
+  if (typeof template.style.spacing !== 'number' || isNaN(template.style.spacing) || template.style.spacing <= 0) {
+    errors.push('Spacing should be a number above 0');
+  }
+
+  if (template.previewImage && !/^(https?:\/\/|data:image\/)/.test(template.previewImage.trim())) {
+    errors.push('The preview image should be a web address or a data:image URI');
+  }
+
+  return errors;
+}
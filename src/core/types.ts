@@ -55,8 +55,34 @@ export interface OhMyCVSettings {
 
   /** CV templates */
   templates: CVTemplate[];
+
+  /** Vault folder whose Markdown files are loaded as templates ('' for none) */
+  templatesFolder: string;
+
+  /** Vault folder for exported files ('' exports next to the CV) */
+  exportFolder: string;
+
+  /** Exported file name, supports {title}, {date} and {pageSize} */
+  exportFilenameTemplate: string;
+
+  /** What to do when an exported file already exists */
+  exportConflictPolicy: ExportConflictPolicy;
+
+  /** Whether .cv.md files open in the CV editor instead of the Markdown editor */
+  openCVFilesInEditor: boolean;
+
+  /** Whether the CV editor saves changes automatically */
+  autosave: boolean;
+
+  /** Seconds without typing before an autosave */
+  autosaveInterval: number;
 }
 
+/**
+ * How exports handle existing files: replace them, or add a version number to the new file
+ */
+export type ExportConflictPolicy = 'overwrite' | 'version';
+
 /**
  * Represents a CV theme
  */
@@ -117,6 +143,41 @@ export interface CVTemplate {
   tags?: string[];
 }
 
+/**
+ * What applying a template changes: the content and style, only the style (kept in the CV's metadata), or only the content
+ */
+export type TemplateApplyMode = 'all' | 'style' | 'content';
+
+/**
+ * A set of templates in one file, for sharing them between vaults
+ */
+export interface TemplatePackage {
+  /** Marks the file as a template package */
+  format: string;
+
+  /** Version of the package layout, raised when it changes incompatibly */
+  schemaVersion: number;
+
+  /** When the package was made (ISO 8601) */
+  exportedAt: string;
+
+  /** Names of the font families the templates use (the font files are not included) */
+  fonts: string[];
+
+  /** The templates */
+  templates: CVTemplate[];
+}
+
+/**
+ * How imported templates whose ID or name is taken are handled: skipped, replacing the existing template, or added under a new ID and name
+ */
+export type TemplateCollisionPolicy = 'skip' | 'replace' | 'copy';
+
+/**
+ * File type of a template package: one JSON file, or a zip archive with each template's files kept apart
+ */
+export type TemplatePackageFormat = 'json' | 'zip';
+
 /**
  * Represents CV metadata, stored in frontmatter
  */
@@ -158,6 +219,18 @@ export interface CVMetadata {
   
   /** Tags for categorizing CVs */
   tags?: string[];
+
+  /** Vault folder for this CV's exports (overrides the global setting) */
+  exportFolder?: string;
+
+  /** File name template for this CV's exports (overrides the global setting) */
+  exportFilename?: string;
+
+  /** Master CV this CV is a variant of, as a vault path, a path relative to this CV or a [[link]] */
+  master?: string;
+
+  /** Tags selecting the master's sections and entries for this variant */
+  variantTags?: string[];
 }
 
 /**
@@ -170,8 +243,217 @@ export interface CVDocument {
   /** CV metadata */
   metadata: CVMetadata;
 
+  /** CV content in Markdown (for variants, the filtered content of the master) */
+  content: string;
+
+  /** Resolved path of the master CV, for variants */
+  masterPath?: string;
+
+  /** Structured model of the content, parsed on demand by getCVModel */
+  model?: CVModel;
+}
+
+/**
+ * What the workspace keeps for a CV editor view, to restore it
+ */
+export interface CVEditorViewState {
+  /** Path of the open CV file */
+  file?: string;
+
+  /** Whether the view was opened in the side panel */
+  isSidePanel?: boolean;
+}
+
+/**
+ * Kinds of CV sections recognised from their heading
+ */
+export type CVSectionKind =
+  | 'summary'
+  | 'work'
+  | 'volunteer'
+  | 'education'
+  | 'skills'
+  | 'projects'
+  | 'awards'
+  | 'certificates'
+  | 'publications'
+  | 'languages'
+  | 'interests';
+
+/**
+ * A part of the contact line under the name, e.g. an email link
+ */
+export interface CVContactItem {
+  kind: 'label' | 'email' | 'phone' | 'link' | 'location';
+
+  /** The part as written, in Markdown */
+  text: string;
+
+  /** The plain value: the address, number, URL or place */
+  value: string;
+
+  /** Profile network recognised from a link's host, e.g. 'GitHub' */
+  network?: string;
+}
+
+/**
+ * The name and contact details before the first section
+ */
+export interface CVHeader {
+  /** The name from the # heading, in plain text */
+  name?: string;
+
+  /** The contact details, in order */
+  contact: CVContactItem[];
+
+  /** The header's Markdown lines */
+  source: string[];
+}
+
+/**
+ * A titled entry in a section, e.g. a job or a degree
+ * Text fields keep their Markdown formatting; dates are kept as written
+ */
+export interface CVEntry {
+  /** Title parts split on '|' without dates, e.g. ['Senior Engineer', 'Acme', 'Berlin'] */
+  parts: string[];
+
+  /** Start date as written, e.g. 'Jan 2020' */
+  startDate?: string;
+
+  /** End date as written, e.g. 'Present' (the only date for single-date entries) */
+  endDate?: string;
+
+  /** Paragraph lines under the title */
+  summary: string[];
+
+  /** Bullet points */
+  bullets: string[];
+
+  /** Keywords from a bullet made only of \cvtag commands */
+  keywords: string[];
+
+  /** Target of a bullet made only of a link */
+  url?: string;
+
+  /** Zero-based line of the title in the content */
+  line: number;
+
+  /** The entry's Markdown lines, written back unchanged unless the entry was edited */
+  source: string[];
+}
+
+/**
+ * A skill, possibly with a level and keywords
+ */
+export interface CVSkill {
+  name: string;
+
+  /** Level as written, or a percentage for \cvskill bars */
+  level?: string;
+
+  keywords: string[];
+}
+
+/**
+ * A ## section of a CV
+ */
+export interface CVSection {
+  /** The heading text, in Markdown */
+  title: string;
+
+  /** What the section holds, if recognised from the title */
+  kind?: CVSectionKind;
+
+  /** Zero-based line of the heading in the content */
+  line: number;
+
+  /** The heading line as written */
+  heading: string;
+
+  /** Lines between the heading and the first entry */
+  intro: string[];
+
+  /** The section's entries */
+  entries: CVEntry[];
+
+  /** List items anywhere in the section, in Markdown (derived from the source) */
+  items: string[];
+
+  /** Skills, for skills sections (derived from the source) */
+  skills: CVSkill[];
+}
+
+/**
+ * A CV's content parsed into header, sections and entries
+ */
+export interface CVModel {
+  header: CVHeader;
+  sections: CVSection[];
+
+  /** The content the model was parsed from */
+  content: string;
+}
+
+/**
+ * A problem found when checking a CV, e.g. an entry without dates
+ */
+export interface CVIssue {
+  message: string;
+
+  /** Zero-based line the problem is on */
+  line: number;
+}
+
+/**
+ * Options for rendering CV Markdown to HTML
+ */
+export interface CVRenderOptions {
+  /** CV metadata used for styling, page size and margins */
+  metadata?: CVMetadata;
+
+  /** Template styling, takes precedence over the metadata's theme */
+  templateStyle?: CVTemplateStyle;
+
+  /** Whether to lay the content out on page-sized sheets (defaults to the plugin setting) */
+  paginate?: boolean;
+}
+
+/**
+ * A named version of a CV, e.g. the one sent with a job application
+ */
+export interface CVSnapshot {
+  /** Unique identifier */
+  id: string;
+
+  /** Name given by the user */
+  name: string;
+
+  /** When the snapshot was taken (ms since epoch) */
+  createdAt: number;
+
   /** CV content in Markdown */
   content: string;
+
+  /** CV metadata */
+  metadata: CVMetadata;
+}
+
+/**
+ * Unsaved editor changes kept outside the vault so they survive a crash
+ */
+export interface CVDraft {
+  /** Path of the CV the draft belongs to */
+  path: string;
+
+  /** Editor content */
+  content: string;
+
+  /** CV metadata at the time of the draft */
+  metadata: CVMetadata;
+
+  /** When the draft was written (ms since epoch) */
+  savedAt: number;
 }
 
 /**
@@ -181,6 +463,9 @@ export interface PDFExportOptions {
   /** Output filename */
   filename: string;
 
+  /** Vault folder to export to (defaults to the CV's or the global export folder) */
+  folder?: string;
+
   /** Page size (A4, Letter, Legal, Tabloid) */
   pageSize: 'A4' | 'LETTER' | 'LEGAL' | 'TABLOID';
   
@@ -198,23 +483,171 @@ export interface PDFExportOptions {
   /** Whether to include a header */
   includeHeader: boolean;
 
-  /** Header content (if includeHeader is true) */
+  /** Header content (if includeHeader is true), supports {page}, {pages}, {title} and {date} */
   headerContent?: string;
 
   /** Whether to include a footer */
   includeFooter: boolean;
 
-  /** Footer content (if includeFooter is true) */
+  /** Footer content (if includeFooter is true), supports {page}, {pages}, {title} and {date} */
   footerContent?: string;
 
   /** Whether to include page numbers */
   includePageNumbers: boolean;
-  
+
+  /** Page number text, e.g. 'Page {page} of {pages}' */
+  pageNumberFormat?: string;
+
+  /** Whether to leave the header, footer and page number off the first page */
+  suppressOnFirstPage?: boolean;
+
   /** Whether to embed fonts in the PDF */
   embedFonts?: boolean;
-  
-  /** Image quality (60-100) */
+
+  /** Image quality (60-100), only used by the raster renderer */
   imageQuality?: number;
+
+  /**
+   * PDF backend: 'vector' lays out real, selectable text with embedded fonts and links,
+   * 'raster' renders each page to an image (used as a fallback when vector is unavailable)
+   */
+  renderer?: 'vector' | 'raster';
+
+  /** Output format chosen in the export dialog (defaults to 'pdf') */
+  format?: 'pdf' | 'docx' | 'html' | 'txt' | 'tex';
+
+  /** LaTeX document class used by LaTeX exports */
+  latexClass?: LatexCVClass;
+
+  /** Whether HTML exports embed web fonts and images so they work offline */
+  inlineAssets?: boolean;
+}
+
+/**
+ * LaTeX CV document classes supported by the LaTeX export
+ */
+export type LatexCVClass = 'moderncv' | 'awesome-cv';
+
+/**
+ * Standalone HTML export options
+ */
+export interface HTMLExportOptions {
+  /** Output filename */
+  filename: string;
+
+  /** Vault folder to export to (defaults to the CV's or the global export folder) */
+  folder?: string;
+
+  /** Whether to embed web fonts as data URIs */
+  inlineFonts: boolean;
+
+  /** Whether to embed images as data URIs */
+  inlineImages: boolean;
+}
+
+/**
+ * A résumé in the JSON Resume format (https://jsonresume.org/schema)
+ * Only the sections the plugin reads or writes are typed
+ */
+export interface JSONResume {
+  $schema?: string;
+  basics?: {
+    name?: string;
+    label?: string;
+    image?: string;
+    email?: string;
+    phone?: string;
+    url?: string;
+    summary?: string;
+    location?: {
+      address?: string;
+      postalCode?: string;
+      city?: string;
+      countryCode?: string;
+      region?: string;
+    };
+    profiles?: {
+      network?: string;
+      username?: string;
+      url?: string;
+    }[];
+  };
+  work?: {
+    name?: string;
+    position?: string;
+    location?: string;
+    url?: string;
+    startDate?: string;
+    endDate?: string;
+    summary?: string;
+    highlights?: string[];
+  }[];
+  volunteer?: {
+    organization?: string;
+    position?: string;
+    url?: string;
+    startDate?: string;
+    endDate?: string;
+    summary?: string;
+    highlights?: string[];
+  }[];
+  education?: {
+    institution?: string;
+    url?: string;
+    area?: string;
+    studyType?: string;
+    startDate?: string;
+    endDate?: string;
+    score?: string;
+    courses?: string[];
+  }[];
+  awards?: {
+    title?: string;
+    date?: string;
+    awarder?: string;
+    summary?: string;
+  }[];
+  certificates?: {
+    name?: string;
+    date?: string;
+    issuer?: string;
+    url?: string;
+  }[];
+  publications?: {
+    name?: string;
+    publisher?: string;
+    releaseDate?: string;
+    url?: string;
+    summary?: string;
+  }[];
+  skills?: {
+    name?: string;
+    level?: string;
+    keywords?: string[];
+  }[];
+  languages?: {
+    language?: string;
+    fluency?: string;
+  }[];
+  interests?: {
+    name?: string;
+    keywords?: string[];
+  }[];
+  projects?: {
+    name?: string;
+    description?: string;
+    highlights?: string[];
+    keywords?: string[];
+    startDate?: string;
+    endDate?: string;
+    url?: string;
+    roles?: string[];
+  }[];
+  meta?: {
+    canonical?: string;
+    version?: string;
+    lastModified?: string;
+  };
 }
 
 /**
@@ -0,0 +1,146 @@
+/**
+ * Tailored CV variants for the Oh My CV plugin
+ * A master CV marks sections and entries with tag annotations; variants keep only what matches their tags
+ *
+ * Annotations go at the end of a line:
+ *   ## Publications {.only: research}    the section is only in variants tagged research
+ *   ### Frontend Lead {.except: backend} the entry is left out of variants tagged backend
+ *   - Built the billing API {.only: backend, fintech}
+ * On a heading, the annotation covers everything up to the next heading of the same or a higher level;
+ * on any other line, it covers that line only.
+ */
+
+/** An annotation at the end of a line, e.g. {.only: backend, ml} */
+const ANNOTATION_PATTERN = /\s*\{\.(only|except):\s*([^}]*)\}\s*$/;
+
+/** A Markdown heading */
+const HEADING_PATTERN = /^(#{1,6})\s/;
+
+/**
+ * A line with its variant annotation removed
+ */
+export interface AnnotatedLine {
+  /** The line without the annotation */
+  text: string;
+
+  /** Tags the line is limited to, if annotated with .only */
+  only?: string[];
+
+  /** Tags the line is left out of, if annotated with .except */
+  except?: string[];
+}
+
+/**
+ * Split a line into its text and variant annotation
+ * @param line The line
+ * @returns The text and the annotation's tags
+ */
+export function parseVariantAnnotation(line: string): AnnotatedLine {
+  const match = line.match(ANNOTATION_PATTERN);
+  if (!match) {
+    return { text: line };
+  }
+
+  const tags = parseTagList(match[2]);
+  const text = line.slice(0, match.index);
+  return match[1] === 'only' ? { text, only: tags } : { text, except: tags };
+}
+
+/**
+ * Parse a comma- or space-separated list of tags
+ * @param value The list, e.g. 'backend, ml' or "[backend, ml]"
+ * @returns Lower-cased tags
+ */
+export function parseTagList(value: string): string[] {
+  return value
+    .replace(/[[\]"']/g, '')
+    .split(/[,\s]+/)
+    .map(tag => tag.trim().toLowerCase())
+    .filter(tag => tag.length > 0);
+}
+
+/**
+ * Check whether an annotated line belongs in a variant
+ * @param line The parsed line
+ * @param tags The variant's tags
+ * @returns True if the line is kept
+ */
+function isIncluded(line: AnnotatedLine, tags: string[]): boolean {
+  if (line.only) {
+    return line.only.some(tag => tags.includes(tag));
+  }
+  if (line.except) {
+    return !line.except.some(tag => tags.includes(tag));
+  }
+  return true;
+}
+
+/**
+ * Build a variant from master CV content
+ * @param markdown The master CV content (without frontmatter)
+ * @param tags The variant's tags, or null to keep everything (the master itself)
+ * @returns The content with excluded sections, entries and lines removed and annotations stripped
+ */
+export function filterVariantContent(markdown: string, tags: string[] | null): string {
+  const variantTags = tags ? tags.map(tag => tag.toLowerCase()) : null;
+  const output: string[] = [];
+  let inCodeBlock = false;
+
+  // Heading level of an excluded section, or 0 when not inside one
+  let skippedLevel = 0;
+
+  markdown.split('\n').forEach(line => {
+    if (/^\s*(```|~~~)/.test(line)) {
+      inCodeBlock = !inCodeBlock;
+    }
+    if (inCodeBlock) {
+      if (!skippedLevel) {
+        output.push(line);
+      }
+      return;
+    }
+
+    const heading = line.match(HEADING_PATTERN);
+    if (heading && skippedLevel && heading[1].length <= skippedLevel) {
+      skippedLevel = 0;
+    }
+    if (skippedLevel) {
+      return;
+    }
+
+    const parsed = parseVariantAnnotation(line);
+    if (variantTags && !isIncluded(parsed, variantTags)) {
+      if (heading) {
+        skippedLevel = heading[1].length;
+      }
+      return;
+    }
+
+    output.push(parsed.text);
+  });
+
+  return output.join('\n').replace(/\n{3,}/g, '\n\n');
+}
+
+/**
+ * Remove variant annotations without filtering anything
+ * @param markdown The CV content
+ * @returns The content as the master renders it
+ */
+export function stripVariantAnnotations(markdown: string): string {
+  return filterVariantContent(markdown, null);
+}
+
+/**
+ * List the tags used by annotations in a master CV
+ * @param markdown The master CV content
+ * @returns The tags, sorted
+ */
+export function getVariantTags(markdown: string): string[] {
+  const tags = new Set<string>();
+  markdown.split('\n').forEach(line => {
+    const parsed = parseVariantAnnotation(line);
+    [...(parsed.only || []), ...(parsed.except || [])].forEach(tag => tags.add(tag));
+  });
+  return Array.from(tags).sort();
+}
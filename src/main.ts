@@ -16,14 +16,19 @@ import {
 
 // Core imports
 import { CV_EDITOR_VIEW_TYPE, COMMANDS, PLUGIN_ID, PLUGIN_NAME } from './core/constants';
+import { PDFExportOptions } from './core/types';
 import { setPluginInstance } from './core/plugin-instance';
 
 // Service imports
 import { SettingsService } from './services/settings-service';
 import { StorageService } from './services/storage-service';
+import { ImportService } from './services/import-service';
+import { TemplateLibraryService } from './services/template-library-service';
+import { TemplatePackageService } from './services/template-package-service';
 
 // UI imports
 import { OhMyCVSettingsTab } from './ui/settings-tab';
+import { JsonFileSuggestModal } from './ui/import-modal';
 
 // Import the actual view class to avoid type mismatches
 import { CVEditorView } from './ui/cv-editor-view';
@@ -41,6 +46,12 @@ export default class OhMyCVPlugin extends Plugin {
   // Services
   settings: SettingsService;
   storage: StorageService;
+  importer: ImportService;
+  templateLibrary: TemplateLibraryService;
+  templatePackages: TemplatePackageService;
+
+  // Leaves where the user chose to edit a CV file as plain Markdown, with the file's path
+  private markdownLeaves = new WeakMap<WorkspaceLeaf, string>();
 
   /**
    * Plugin load lifecycle hook
@@ -57,6 +68,13 @@ export default class OhMyCVPlugin extends Plugin {
     await this.settings.loadSettings();
 
     this.storage = new StorageService(this);
+    this.importer = new ImportService(this);
+
+    // Load the templates folder once the vault is indexed, then follow its changes
+    this.templateLibrary = new TemplateLibraryService(this);
+    this.templateLibrary.registerEvents();
+    this.app.workspace.onLayoutReady(() => this.templateLibrary.reload());
+    this.templatePackages = new TemplatePackageService(this);
 
     // Register the CV editor view type
     // We need to dynamically import the view to avoid circular dependencies
@@ -68,6 +86,18 @@ export default class OhMyCVPlugin extends Plugin {
       ((leaf: WorkspaceLeaf) => new CVEditorView(leaf)) as ViewCreator
     );
 
+    // Open CV files in the CV editor when they are opened from the file explorer or links
+    this.registerEvent(this.app.workspace.on('file-open', (file) => this.handleFileOpen(file)));
+
+    // Keep drafts and snapshots with their CV, and variants pointing at it, when it is renamed or moved
+    this.registerEvent(this.app.vault.on('rename', async (file, oldPath) => {
+      if (file instanceof TFile && this.storage.isCVFile(file)) {
+        await this.storage.moveDraft(oldPath, file.path);
+        await this.storage.moveSnapshots(oldPath, file.path);
+        await this.storage.updateVariantMasters(oldPath, file.path);
+      }
+    }));
+
     // Register plugin commands
     this.registerCommands();
 
@@ -127,6 +157,20 @@ export default class OhMyCVPlugin extends Plugin {
       }
     });
 
+    // Command to import a JSON Resume file as a new CV
+    this.addCommand({
+      id: COMMANDS.IMPORT_JSON_RESUME,
+      name: 'Import CV from JSON Resume',
+      callback: () => {
+        new JsonFileSuggestModal(this.app, async (file: TFile) => {
+          const document = await this.importer.importJsonResume(file);
+          if (document) {
+            await this.openCVFile(document.path);
+          }
+        }).open();
+      }
+    });
+
     // Command to format selected text as CV heading
     this.addCommand({
       id: COMMANDS.FORMAT_AS_CV_HEADING,
@@ -137,18 +181,77 @@ export default class OhMyCVPlugin extends Plugin {
       }
     });
 
-    // Command to export current CV to PDF
+    // Commands to export the current CV, through the export dialog with the format selected
+    this.addExportCommand(COMMANDS.EXPORT_TO_PDF, 'Export Current CV to PDF', 'pdf');
+    this.addExportCommand(COMMANDS.EXPORT_TO_DOCX, 'Export Current CV to Word', 'docx');
+    this.addExportCommand(COMMANDS.EXPORT_TO_HTML, 'Export Current CV to HTML', 'html');
+    this.addExportCommand(COMMANDS.EXPORT_TO_PLAIN_TEXT, 'Export Current CV as ATS Plain Text', 'txt');
+    this.addExportCommand(COMMANDS.EXPORT_TO_LATEX, 'Export Current CV to LaTeX', 'tex');
+
+    // Command to create a tailored variant of the current CV
     this.addCommand({
-      id: COMMANDS.EXPORT_TO_PDF,
-      name: 'Export Current CV to PDF',
+      id: COMMANDS.CREATE_VARIANT,
+      name: 'Create Variant of Current CV',
       checkCallback: (checking: boolean) => {
-        // Check if we're in a CV editor view
-        const view = this.app.workspace.getActiveViewOfType(CVEditorView);
-        // Cast to CVEditorView to avoid TypeScript errors
-        const activeView = view as CVEditorView | null;
+        const activeView = this.app.workspace.getActiveViewOfType(CVEditorView) as CVEditorView | null;
+        if (activeView && activeView.getCurrentDocument()) {
+          if (!checking) {
+            activeView.createVariant();
+          }
+          return true;
+        }
+        return false;
+      }
+    });
+
+    // Command to save the current CV as a template
+    this.addCommand({
+      id: COMMANDS.SAVE_AS_TEMPLATE,
+      name: 'Save Current CV as Template',
+      checkCallback: (checking: boolean) => {
+        const activeView = this.app.workspace.getActiveViewOfType(CVEditorView) as CVEditorView | null;
+        if (activeView && activeView.getCurrentDocument()) {
+          if (!checking) {
+            activeView.saveAsTemplate();
+          }
+          return true;
+        }
+        return false;
+      }
+    });
+
+    // Command to export current CV to JSON Resume
+    this.addCommand({
+      id: COMMANDS.EXPORT_TO_JSON_RESUME,
+      name: 'Export Current CV to JSON Resume',
+      checkCallback: (checking: boolean) => {
+        const activeView = this.app.workspace.getActiveViewOfType(CVEditorView) as CVEditorView | null;
         if (activeView) {
           if (!checking) {
-            activeView.exportToPDF();
+            activeView.exportToJsonResume();
+          }
+          return true;
+        }
+        return false;
+      }
+    });
+  }
+
+  /**
+   * Register a command that opens the export dialog for the current CV
+   * @param id The command ID
+   * @param name The command name
+   * @param format The format selected in the dialog
+   */
+  private addExportCommand(id: string, name: string, format: PDFExportOptions['format']) {
+    this.addCommand({
+      id,
+      name,
+      checkCallback: (checking: boolean) => {
+        const activeView = this.app.workspace.getActiveViewOfType(CVEditorView) as CVEditorView | null;
+        if (activeView && activeView.getCurrentDocument()) {
+          if (!checking) {
+            activeView.showExportDialog(format);
           }
           return true;
         }
@@ -203,21 +306,68 @@ export default class OhMyCVPlugin extends Plugin {
    * @param file The file to load
    */
   async loadCVFile(file: TFile): Promise<void> {
+    await this.openCVFile(file.path);
+  }
+
+  /**
+   * Open a CV file in its own CV editor leaf, or reveal the leaf already showing it
+   * @param path The CV file path
+   */
+  async openCVFile(path: string): Promise<void> {
     try {
-      // Activate or create CV editor view
-      const view = await this.activateCVEditorView();
-      
-      if (!view) {
-        throw new Error('Failed to open CV editor view');
+      const existing = this.app.workspace.getLeavesOfType(CV_EDITOR_VIEW_TYPE)
+        .find(leaf => leaf.view.getState().file === path);
+
+      if (existing) {
+        this.app.workspace.revealLeaf(existing);
+        return;
       }
-      
-      // Load the document
-      const document = await this.storage.loadCV(file.path);
-      // Use dynamically loaded view to avoid circular dependency
-      await view.loadDocument(document);
+
+      const leaf = this.app.workspace.getLeaf('tab');
+      await leaf.setViewState({
+        type: CV_EDITOR_VIEW_TYPE,
+        active: true,
+        state: { file: path }
+      });
+      this.app.workspace.revealLeaf(leaf);
     } catch (error) {
       console.error('Error loading CV file:', error);
       new Notice(`Error loading CV file: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
+
+  /**
+   * Switch a Markdown leaf that opened a CV file over to the CV editor
+   * @param file The opened file
+   */
+  private async handleFileOpen(file: TFile | null): Promise<void> {
+    if (!file || !this.storage.isCVFile(file) || !this.settings.getSettings().openCVFilesInEditor) {
+      return;
+    }
+
+    const view = this.app.workspace.getActiveViewOfType(MarkdownView);
+    if (!view || view.file !== file || this.markdownLeaves.get(view.leaf) === file.path) {
+      return;
+    }
+
+    await view.leaf.setViewState({
+      type: CV_EDITOR_VIEW_TYPE,
+      active: true,
+      state: { file: file.path }
+    });
+  }
+
+  /**
+   * Show a CV file in the Markdown editor, without switching back to the CV editor
+   * @param leaf The leaf to use
+   * @param path The CV file path
+   */
+  async openAsMarkdown(leaf: WorkspaceLeaf, path: string): Promise<void> {
+    this.markdownLeaves.set(leaf, path);
+    await leaf.setViewState({
+      type: 'markdown',
+      active: true,
+      state: { file: path }
+    });
+  }
 }
@@ -0,0 +1,292 @@
+/**
+ * DOCX export service for the Oh My CV plugin
+ * Builds Word documents from CV Markdown
+ */
+
+import {
+  AlignmentType,
+  BorderStyle,
+  convertMillimetersToTwip,
+  Document,
+  ExternalHyperlink,
+  HeadingLevel,
+  LevelFormat,
+  PageBreak,
+  PageOrientation,
+  Packer,
+  Paragraph,
+  ParagraphChild,
+  ShadingType,
+  Table,
+  TableCell,
+  TableRow,
+  TextRun,
+  WidthType
+} from 'docx';
+import { base64ToArrayBuffer } from 'obsidian';
+import { CVDocument, CVMetadata } from '../core/types';
+import { PAGE_SIZES_MM } from '../core/constants';
+import { InlineToken, MarkdownBlock, parseInline, parseMarkdownBlocks } from '../core/markdown-blocks';
+
+/** Numbering reference used for ordered lists */
+const ORDERED_LIST_REFERENCE = 'oh-my-cv-ordered';
+
+/** Character style used for \cvtag */
+const TAG_STYLE = 'CVTag';
+
+/** Character style used for \daterange */
+const DATE_RANGE_STYLE = 'CVDateRange';
+
+/** Number of cells in a \cvskill bar */
+const SKILL_BAR_CELLS = 10;
+
+/** Word heading levels for Markdown heading levels */
+const HEADING_LEVELS = [
+  HeadingLevel.HEADING_1,
+  HeadingLevel.HEADING_2,
+  HeadingLevel.HEADING_3,
+  HeadingLevel.HEADING_4,
+  HeadingLevel.HEADING_5,
+  HeadingLevel.HEADING_6
+];
+
+/**
+ * Service for converting CV documents into Word documents
+ */
+export class DocxExportService {
+  /**
+   * Render a CV document as a .docx file
+   * @param document The CV document (its metadata sets fonts, margins and page size)
+   * @returns The file contents
+   */
+  async renderToDocx(document: CVDocument): Promise<ArrayBuffer> {
+    const metadata = document.metadata;
+    const themeColor = this.toWordColor(metadata.themeColor || '#4051b5');
+    const fontSize = (metadata.fontSize || 11) * 2;
+    let orderedLists = 0;
+
+    const children: (Paragraph | Table)[] = [];
+    parseMarkdownBlocks(document.content).forEach(block => {
+      if (block.type === 'list' && block.ordered) {
+        orderedLists++;
+      }
+      children.push(...this.convertBlock(block, themeColor, orderedLists));
+    });
+
+    const file = new Document({
+      title: metadata.title,
+      creator: metadata.title,
+      styles: {
+        default: {
+          document: {
+            run: { font: this.toWordFont(metadata.fontFamily), size: fontSize },
+            paragraph: { spacing: { line: Math.round((metadata.lineHeight || 1.5) * 240), after: 80 } }
+          },
+          heading1: { run: { size: fontSize * 2, bold: true, color: themeColor }, paragraph: { spacing: { after: 120 } } },
+          heading2: { run: { size: Math.round(fontSize * 1.4), bold: true, color: themeColor }, paragraph: { spacing: { before: 240, after: 120 } } },
+          heading3: { run: { size: Math.round(fontSize * 1.15), bold: true }, paragraph: { spacing: { before: 160, after: 40 } } },
+          hyperlink: { run: { color: themeColor, underline: {} } }
+        },
+        characterStyles: [
+          {
+            id: TAG_STYLE,
+            name: 'CV Tag',
+            run: { color: themeColor, shading: { type: ShadingType.CLEAR, fill: 'EEF0F8', color: 'auto' } }
+          },
+          {
+            id: DATE_RANGE_STYLE,
+            name: 'CV Date Range',
+            run: { italics: true, color: '666666' }
+          }
+        ]
+      },
+      numbering: {
+        config: [{
+          reference: ORDERED_LIST_REFERENCE,
+          levels: [{ level: 0, format: LevelFormat.DECIMAL, text: '%1.', alignment: AlignmentType.START }]
+        }]
+      },
+      sections: [{
+        properties: { page: this.getPageProperties(metadata) },
+        children
+      }]
+    });
+
+    return base64ToArrayBuffer(await Packer.toBase64String(file));
+  }
+
+  /**
+   * Get the page size and margins for a CV
+   * @param metadata The CV metadata
+   * @returns Section page properties
+   */
+  private getPageProperties(metadata: CVMetadata) {
+    const size = PAGE_SIZES_MM[metadata.pageSize] || PAGE_SIZES_MM.A4;
+
+    return {
+      // Word swaps width and height itself for landscape pages
+      size: {
+        width: convertMillimetersToTwip(size.width),
+        height: convertMillimetersToTwip(size.height),
+        orientation: metadata.orientation === 'landscape' ? PageOrientation.LANDSCAPE : PageOrientation.PORTRAIT
+      },
+      margin: {
+        top: convertMillimetersToTwip(metadata.margins.top),
+        right: convertMillimetersToTwip(metadata.margins.right),
+        bottom: convertMillimetersToTwip(metadata.margins.bottom),
+        left: convertMillimetersToTwip(metadata.margins.left)
+      }
+    };
+  }
+
+  /**
+   * Convert a Markdown block into Word paragraphs or tables
+   * @param block The block
+   * @param themeColor Theme color as a Word hex value
+   * @param orderedLists Number of ordered lists so far (each one restarts its numbering)
+   * @returns The Word elements
+   */
+  private convertBlock(block: MarkdownBlock, themeColor: string, orderedLists: number): (Paragraph | Table)[] {
+    switch (block.type) {
+      case 'heading':
+        return [new Paragraph({
+          heading: HEADING_LEVELS[block.level - 1],
+          keepNext: true,
+          // Section headings are underlined in the theme color, as in the preview
+          border: block.level === 2
+            ? { bottom: { style: BorderStyle.SINGLE, size: 6, color: themeColor, space: 1 } }
+            : undefined,
+          children: this.convertInline(parseInline(block.text), themeColor)
+        })];
+
+      case 'paragraph': {
+        const tokens = parseInline(block.text);
+        const isDateLine = tokens.length > 0 && tokens.every(token => token.type === 'daterange');
+        return [new Paragraph({
+          alignment: isDateLine ? AlignmentType.RIGHT : undefined,
+          children: this.convertInline(tokens, themeColor)
+        })];
+      }
+
+      case 'list':
+        return block.items.map(item => new Paragraph({
+          bullet: block.ordered ? undefined : { level: 0 },
+          numbering: block.ordered
+            ? { reference: ORDERED_LIST_REFERENCE, level: 0, instance: orderedLists }
+            : undefined,
+          children: this.convertInline(parseInline(item), themeColor)
+        }));
+
+      case 'table':
+        return [new Table({
+          width: { size: 100, type: WidthType.PERCENTAGE },
+          rows: [block.header, ...block.rows].map((cells, rowIndex) => new TableRow({
+            tableHeader: rowIndex === 0,
+            children: cells.map(cell => new TableCell({
+              children: [new Paragraph({
+                children: this.convertInline(parseInline(cell, { bold: rowIndex === 0 }), themeColor)
+              })]
+            }))
+          }))
+        })];
+
+      case 'pagebreak':
+        return [new Paragraph({ children: [new PageBreak()] })];
+
+      case 'rule':
+        return [new Paragraph({
+          border: { bottom: { style: BorderStyle.SINGLE, size: 6, color: 'CCCCCC', space: 1 } }
+        })];
+
+      case 'spacer':
+        // 1px = 0.75pt = 15 twips
+        return [new Paragraph({ spacing: { before: 0, after: block.pixels * 15, line: 240 } })];
+    }
+  }
+
+  /**
+   * Convert inline tokens into Word runs
+   * @param tokens The tokens
+   * @param themeColor Theme color as a Word hex value
+   * @returns The runs and hyperlinks
+   */
+  private convertInline(tokens: InlineToken[], themeColor: string): ParagraphChild[] {
+    const children: ParagraphChild[] = [];
+
+    tokens.forEach((token, index) => {
+      switch (token.type) {
+        case 'text':
+          children.push(new TextRun({
+            text: token.text,
+            bold: token.bold,
+            italics: token.italic,
+            underline: token.underline ? {} : undefined,
+            smallCaps: token.smallCaps,
+            font: token.code ? 'Consolas' : undefined
+          }));
+          break;
+
+        case 'link':
+          children.push(new ExternalHyperlink({
+            link: token.url,
+            children: [new TextRun({ text: token.text, style: 'Hyperlink', bold: token.bold, italics: token.italic })]
+          }));
+          break;
+
+        case 'tag': {
+          // Keep a gap between adjacent tags
+          const next = tokens[index + 1];
+          children.push(new TextRun({ text: `\u00A0${token.text}\u00A0`, style: TAG_STYLE }));
+          if (next && next.type === 'tag') {
+            children.push(new TextRun({ text: ' ' }));
+          }
+          break;
+        }
+
+        case 'daterange':
+          children.push(new TextRun({ text: `${token.start} – ${token.end}`, style: DATE_RANGE_STYLE }));
+          break;
+
+        case 'skill': {
+          const filled = Math.round((token.level / 100) * SKILL_BAR_CELLS);
+          children.push(
+            new TextRun({ text: `${token.name} ` }),
+            new TextRun({ text: '■'.repeat(filled), color: themeColor }),
+            new TextRun({ text: '■'.repeat(SKILL_BAR_CELLS - filled), color: 'DDDDDD' })
+          );
+          break;
+        }
+
+        case 'break':
+          children.push(new TextRun({ text: '', break: 1 }));
+          break;
+      }
+    });
+
+    return children;
+  }
+
+  /**
+   * Convert a CSS color to a Word hex color
+   * @param color The CSS color (e.g. '#4051b5' or '#45b')
+   * @returns The color without '#', e.g. '4051B5'
+   */
+  private toWordColor(color: string): string {
+    let hex = color.trim().replace(/^#/, '');
+    if (/^[0-9a-f]{3}$/i.test(hex)) {
+      hex = hex.split('').map(char => char + char).join('');
+    }
+    return /^[0-9a-f]{6}$/i.test(hex) ? hex.toUpperCase() : '4051B5';
+  }
+
+  /**
+   * Pick the first family from a CSS font stack
+   * @param fontFamily The CSS font-family value
+   * @returns A font name Word can use
+   */
+  private toWordFont(fontFamily?: string): string {
+    const first = (fontFamily || '').split(',')[0].trim().replace(/^["']|["']$/g, '');
+    const generic: Record<string, string> = { 'sans-serif': 'Arial', 'serif': 'Times New Roman', 'monospace': 'Consolas' };
+    return generic[first] || first || 'Arial';
+  }
+}
@@ -4,10 +4,23 @@
  */
 
 import { Notice, TFile, Modal, Setting } from 'obsidian';
-import { PDFExportOptions, CVDocument, CVMetadata, CVTemplate, CVTheme } from '../core/types';
+import { PDFExportOptions, HTMLExportOptions, CVDocument, CVMetadata, CVTemplate, JSONResume, LatexCVClass } from '../core/types';
 import { getPluginInstance } from '../core/plugin-instance';
 import { getTemplateById } from '../core/templates';
+import { modelToJsonResume } from '../core/json-resume';
+import { parseCV } from '../core/cv-model';
+import { toATSPlainText } from '../core/ats-text';
+import { toLatexSource } from '../core/latex-export';
+import { getParentFolder, getVersionedPath, joinVaultPath, normalizeFolderPath, resolveFilenameTemplate } from '../core/export-path';
+import { stripVariantAnnotations } from '../core/variants';
+import { getPageDimensions } from '../core/pagination';
+import { THUMBNAIL_WIDTH } from '../core/constants';
 import { PDFExportOptionsModal } from '../ui/export-modal';
+import { VectorPDFService } from './vector-pdf-service';
+import { MarkdownService } from './markdown-service';
+import { PDFDecorationService } from './pdf-decoration-service';
+import { DocxExportService } from './docx-export-service';
+import { HTMLExportService } from './html-export-service';
 import html2pdf from 'html2pdf.js';
 
 /**
@@ -15,6 +28,11 @@ import html2pdf from 'html2pdf.js';
  */
 export class ExportService {
   private plugin: any;
+  private vectorPDFService: VectorPDFService;
+  private pdfDecorationService: PDFDecorationService;
+  private markdownService: MarkdownService;
+  private docxExportService: DocxExportService;
+  private htmlExportService: HTMLExportService;
 
   /**
    * Create a new export service
@@ -22,6 +40,11 @@ export class ExportService {
    */
   constructor(plugin?: any) {
     this.plugin = plugin || getPluginInstance();
+    this.vectorPDFService = new VectorPDFService();
+    this.pdfDecorationService = new PDFDecorationService();
+    this.markdownService = new MarkdownService(this.plugin);
+    this.docxExportService = new DocxExportService();
+    this.htmlExportService = new HTMLExportService();
   }
 
   /**
@@ -46,9 +69,8 @@ export class ExportService {
       this.applyExportStyling(clone, document.metadata);
 
       // Merge export options
-      const defaultFilename = `${document.metadata.title || 'CV'}.pdf`;
       const exportOptions: PDFExportOptions = {
-        filename: defaultFilename,
+        filename: this.getDefaultFilename(document, 'pdf'),
         pageSize: document.metadata.pageSize,
         orientation: document.metadata.orientation || 'portrait',
         margins: document.metadata.margins,
@@ -57,63 +79,95 @@ export class ExportService {
         includePageNumbers: true,
         embedFonts: true,
         imageQuality: 90,
+        renderer: 'vector',
         ...options
       };
 
-      // Apply header and footer if needed
-      if (exportOptions.includeHeader && exportOptions.headerContent) {
-        this.addHeader(clone, exportOptions.headerContent);
-      }
-
-      if (exportOptions.includeFooter && exportOptions.footerContent) {
-        this.addFooter(clone, exportOptions.footerContent);
-      }
-
-      if (exportOptions.includePageNumbers) {
-        this.addPageNumbers(clone);
+      if (exportOptions.renderer === 'vector') {
+        if (this.vectorPDFService.isAvailable()) {
+          try {
+            await this.exportVectorPDF(clone, exportOptions, document);
+            return;
+          } catch (error) {
+            console.error('Vector PDF export failed, falling back to raster export:', error);
+          }
+        }
+        new Notice('Text-based PDF export is unavailable, using image-based export instead');
       }
 
-      // Configure html2pdf options
-      const html2pdfOptions = {
-        margin: [
-          exportOptions.margins.top,
-          exportOptions.margins.right,
-          exportOptions.margins.bottom,
-          exportOptions.margins.left
-        ],
-        filename: exportOptions.filename,
-        image: { 
-          type: 'jpeg', 
-          quality: (exportOptions.imageQuality || 90) / 100 
-        },
-        html2canvas: { 
-          scale: 2,
-          logging: false,
-          dpi: 192,
-          letterRendering: true
-        },
-        jsPDF: {
-          unit: 'mm',
-          format: exportOptions.pageSize,
-          orientation: exportOptions.orientation || 'portrait' as 'portrait' | 'landscape'
-        },
-        // Handle font embedding
-        fontFaces: exportOptions.embedFonts ? true : false
-      };
-
-      // Generate the PDF
-      await html2pdf()
-        .set(html2pdfOptions)
-        .from(clone)
-        .save();
-
-      new Notice('PDF export completed successfully!');
+      await this.exportRasterPDF(clone, exportOptions, document);
     } catch (error) {
       console.error('PDF export error:', error);
       new Notice(`PDF export failed: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
 
+  /**
+   * Export a PDF with real text through the vector backend and write it to the vault
+   * @param element The styled element to export
+   * @param options Export options
+   * @param document The CV document (its title is used in headers and footers)
+   */
+  private async exportVectorPDF(element: HTMLElement, options: PDFExportOptions, document: CVDocument): Promise<void> {
+    const rendered = await this.vectorPDFService.renderToPDF(element, options);
+    const data = await this.pdfDecorationService.decoratePDF(rendered, options, document.metadata.title || 'CV');
+
+    const savePath = await this.getSavePath(document, options.filename, options.folder);
+    await this.plugin.app.vault.adapter.writeBinary(savePath, data);
+    new Notice(`PDF exported to ${savePath}`);
+  }
+
+  /**
+   * Export a PDF by rasterizing the pages with html2canvas and write it to the vault
+   * @param element The styled element to export
+   * @param options Export options
+   * @param document The CV document (its title is used in headers and footers)
+   */
+  private async exportRasterPDF(element: HTMLElement, options: PDFExportOptions, document: CVDocument): Promise<void> {
+    const title = document.metadata.title || 'CV';
+
+    // Configure html2pdf options
+    const html2pdfOptions = {
+      margin: [
+        options.margins.top,
+        options.margins.right,
+        options.margins.bottom,
+        options.margins.left
+      ],
+      filename: options.filename,
+      image: { 
+        type: 'jpeg', 
+        quality: (options.imageQuality || 90) / 100 
+      },
+      html2canvas: { 
+        scale: 2,
+        logging: false,
+        dpi: 192,
+        letterRendering: true
+      },
+      jsPDF: {
+        unit: 'mm',
+        format: options.pageSize,
+        orientation: options.orientation || 'portrait' as 'portrait' | 'landscape'
+      },
+      // Handle font embedding
+      fontFaces: options.embedFonts ? true : false
+    };
+
+    // Generate the PDF, stamping headers, footers and page numbers onto each page
+    const data: ArrayBuffer = await html2pdf()
+      .set(html2pdfOptions)
+      .from(element)
+      .toPdf()
+      .get('pdf')
+      .then((pdf: any) => this.pdfDecorationService.decorateJsPDF(pdf, options, title))
+      .output('arraybuffer');
+
+    const savePath = await this.getSavePath(document, options.filename, options.folder);
+    await this.plugin.app.vault.adapter.writeBinary(savePath, data);
+    new Notice(`PDF exported to ${savePath}`);
+  }
+
   /**
    * Apply styling for PDF export
    * @param element The element to style
@@ -123,53 +177,15 @@ export class ExportService {
   private applyExportStyling(element: HTMLElement, metadata: CVMetadata, template?: CVTemplate): void {
     // Add export-specific classes
     element.classList.add('oh-my-cv-export');
+
+    // Unwrap paginated preview sheets, keeping their boundaries as page breaks
+    this.flattenPreviewSheets(element);
     
-    // Check if we have a template with styling
-    const templateStyle = template?.style;
-    const theme: CVTheme = templateStyle?.theme || {
-      primaryColor: metadata.themeColor || '#4051b5',
-      textColor: '#000000',
-      backgroundColor: '#ffffff',
-      headingFont: metadata.fontFamily || 'Arial, sans-serif',
-      bodyFont: metadata.fontFamily || 'Arial, sans-serif',
-      fontSize: `${metadata.fontSize || 11}pt`,
-      lineHeight: `${metadata.lineHeight || 1.5}`
-    };
-    
-    // Apply template or metadata styling
-    const fontFamily = theme.bodyFont || metadata.fontFamily || 'Arial, sans-serif';
-    const fontSize = theme.fontSize || `${metadata.fontSize || 11}pt`;
-    const lineHeight = theme.lineHeight || `${metadata.lineHeight || 1.5}`;
-    const textColor = theme.textColor || '#000';
-    const bgColor = theme.backgroundColor || '#fff';
-    const themeColor = theme.primaryColor || metadata.themeColor || '#4051b5';
-    
-    element.style.fontFamily = fontFamily;
-    element.style.fontSize = fontSize;
-    element.style.lineHeight = lineHeight;
-    element.style.color = textColor;
-    element.style.backgroundColor = bgColor;
-
-    // Set theme color as a CSS variable
-    element.style.setProperty('--theme-color', themeColor);
-
-    // Apply custom CSS if available
-    if (metadata.customCss) {
-      // Create a style element for the custom CSS
-      const styleElement = document.createElement('style');
-      styleElement.textContent = metadata.customCss;
-      element.appendChild(styleElement);
-    }
+    // Apply the same theme styling as the preview
+    this.markdownService.applyCVStyle(element, metadata, template?.style);
 
-    // Ensure all links are absolute and styled correctly
+    // Ensure all links are absolute
     element.querySelectorAll('a').forEach(link => {
-      // Style links with theme color
-      const linkEl = link as HTMLElement;
-      const linkColor = templateStyle?.theme.linkColor || templateStyle?.theme.primaryColor || metadata.themeColor;
-      linkEl.style.color = linkColor;
-      linkEl.style.textDecoration = 'none';
-
-      // Convert relative URLs to absolute
       const href = link.getAttribute('href');
       if (href && !href.startsWith('http') && !href.startsWith('mailto:') && !href.startsWith('#')) {
         link.setAttribute('href', `https://${href}`);
@@ -178,7 +194,7 @@ export class ExportService {
 
     // Add page break elements styling
     element.querySelectorAll('.oh-my-cv-page-break').forEach(pageBreak => {
-      pageBreak.setAttribute('style', 'page-break-after: always; break-after: page;');
+      pageBreak.setAttribute('style', 'display: block; height: 0; page-break-after: always; break-after: page;');
       
       // Remove any indicator elements
       pageBreak.querySelectorAll('.oh-my-cv-page-break-indicator').forEach(indicator => {
@@ -205,62 +221,35 @@ export class ExportService {
   }
 
   /**
-   * Add a header to the document
+   * Replace the preview's page-sized sheets with their content
+   * A page break is inserted at every sheet boundary so the PDF breaks where the preview does
    * @param element The container element
-   * @param headerContent The header content
    */
-  private addHeader(element: HTMLElement, headerContent: string): void {
-    const headerElement = document.createElement('div');
-    headerElement.classList.add('oh-my-cv-header');
-    headerElement.innerHTML = headerContent;
-    element.prepend(headerElement);
-  }
+  private flattenPreviewSheets(element: HTMLElement): void {
+    element.querySelectorAll('.oh-my-cv-sheets').forEach(sheetsEl => {
+      const fragment = document.createDocumentFragment();
 
-  /**
-   * Add a footer to the document
-   * @param element The container element
-   * @param footerContent The footer content
-   */
-  private addFooter(element: HTMLElement, footerContent: string): void {
-    const footerElement = document.createElement('div');
-    footerElement.classList.add('oh-my-cv-footer');
-    footerElement.innerHTML = footerContent;
-    element.appendChild(footerElement);
-  }
+      sheetsEl.querySelectorAll(':scope > .oh-my-cv-sheet').forEach((sheetEl, index) => {
+        sheetEl.querySelectorAll(':scope > .oh-my-cv-sheet-number').forEach(el => el.remove());
 
-  /**
-   * Add page numbers to the document
-   * @param element The container element
-   */
-  private addPageNumbers(element: HTMLElement): void {
-    // Note: This is a basic implementation. Real page numbers require special handling
-    // during the PDF generation process, which html2pdf.js doesn't directly support.
-    // For a more robust solution, we would need to use a different PDF library
-    // or implement a custom solution.
-    
-    const pageNumberStyle = document.createElement('style');
-    pageNumberStyle.textContent = `
-      .oh-my-cv-page-number::after {
-        content: counter(page);
-        counter-increment: page;
-      }
-    `;
-    element.appendChild(pageNumberStyle);
-    
-    const pageNumberElement = document.createElement('div');
-    pageNumberElement.classList.add('oh-my-cv-page-number');
-    pageNumberElement.innerHTML = 'Page ';
-    
-    // Add to footer if it exists, otherwise append to the document
-    const footer = element.querySelector('.oh-my-cv-footer') as HTMLElement | null;
-    if (footer) {
-      footer.appendChild(pageNumberElement);
-    } else {
-      const footerElement = document.createElement('div');
-      footerElement.classList.add('oh-my-cv-footer');
-      footerElement.appendChild(pageNumberElement);
-      element.appendChild(footerElement);
-    }
+        if (index > 0) {
+          const pageBreak = document.createElement('div');
+          pageBreak.classList.add('oh-my-cv-page-break');
+          fragment.appendChild(pageBreak);
+        }
+
+        while (sheetEl.firstChild) {
+          fragment.appendChild(sheetEl.firstChild);
+        }
+      });
+
+      sheetsEl.replaceWith(fragment);
+    });
+
+    element.querySelectorAll('.oh-my-cv-orphaned').forEach(el => {
+      el.classList.remove('oh-my-cv-orphaned');
+      el.removeAttribute('title');
+    });
   }
 
   /**
@@ -269,80 +258,44 @@ export class ExportService {
    * @param template Optional template to use for styling
    * @returns HTML string ready for export
    */
-  generateHTML(document: CVDocument | string, template?: CVTemplate): string {
+  async generateHTML(document: CVDocument | string, template?: CVTemplate): Promise<string> {
     // Create a container for the export content
     const content = typeof document === 'string' ? document : document.content;
-    const metadata = typeof document === 'string' ? null : document.metadata;
+    const metadata = typeof document === 'string' ? undefined : document.metadata;
     
-    // Create a div with the content
+    // Render through the same pipeline as the preview
     const container = window.document.createElement('div');
     container.className = 'oh-my-cv-export-container';
-    container.innerHTML = this.processMarkdown(content);
+    await this.markdownService.renderMarkdown(content, container, {
+      metadata,
+      templateStyle: template?.style,
+      paginate: false
+    });
     
-    // Apply styling
+    // Apply export styling
     if (metadata) {
-      this.applyExportStyling(container as HTMLElement, metadata, template);
-    } else if (template) {
-      // Apply basic template styling without metadata
-      const containerEl = container as HTMLElement;
-      if (template.style && template.style.theme) {
-        containerEl.style.fontFamily = template.style.theme.bodyFont || 'sans-serif';
-        containerEl.style.color = template.style.theme.textColor || '#000';
-        containerEl.style.backgroundColor = template.style.theme.backgroundColor || '#fff';
-        containerEl.style.setProperty('--theme-color', template.style.theme.primaryColor || '#4051b5');
-      } else {
-        containerEl.style.fontFamily = 'sans-serif';
-        containerEl.style.color = '#000';
-        containerEl.style.backgroundColor = '#fff';
-        containerEl.style.setProperty('--theme-color', '#4051b5');
-      }
+      this.applyExportStyling(container, metadata, template);
     }
     
     return container.outerHTML;
   }
   
   /**
-   * Process markdown for export
-   * @param markdown The markdown content
-   * @returns Processed HTML
+   * Show Export Dialog
+   * @param document The CV document to export
+   * @param format The format to select at first, instead of the last one used
+   * @param onSaveFolder Called with the export folder when the user chooses to keep it for this CV
    */
-  private processMarkdown(markdown: string): string {
-    // Process custom CV markers - this is a simplified version
-    // In a full implementation, use a proper markdown processor
-    let html = markdown
-      .replace(/^# (.*$)/gm, '<h1>$1</h1>')
-      .replace(/^## (.*$)/gm, '<h2>$1</h2>')
-      .replace(/^### (.*$)/gm, '<h3>$1</h3>')
-      .replace(/\*\*(.*?)\*\*/g, '<strong>$1</strong>')
-      .replace(/\*(.*?)\*/g, '<em>$1</em>')
-      .replace(/- (.*$)/gm, '<li>$1</li>')
-      .replace(/\cvtag\{(.*?)\}/g, '<span class="oh-my-cv-tag">$1</span>')
-      .replace(/\cvskill\{(.*?)\}\{(.*?)\}/g, 
-        '<div class="oh-my-cv-skill"><div class="oh-my-cv-skill-name">$1</div>' +
-        '<div class="oh-my-cv-skill-level" style="width: $2%;"></div></div>')
-      .replace(/\daterange\{(.*?)\}\{(.*?)\}/g, 
-        '<div class="oh-my-cv-date-range"><span class="oh-my-cv-date-start">$1</span> – ' +
-        '<span class="oh-my-cv-date-end">$2</span></div>')
-      .replace(/\\newpage/g, '<div class="oh-my-cv-page-break"></div>')
-      .replace(/\textbf\{(.*?)\}/g, '<strong>$1</strong>')
-      .replace(/\textit\{(.*?)\}/g, '<em>$1</em>')
-      .replace(/\textsc\{(.*?)\}/g, '<span class="small-caps">$1</span>');
-    
-    // Wrap lists
-    html = html.replace(/<li>.*?<\/li>(\s*<li>.*?<\/li>)*/g, (match) => {
-      return `<ul class="oh-my-cv-list">${match}</ul>`;
-    });
-    
-    return html;
+  showExportDialog(document: CVDocument, format?: PDFExportOptions['format'], onSaveFolder?: (folder: string) => void): void {
+    new PDFExportOptionsModal(document, this, format, onSaveFolder).open();
   }
-  
+
   /**
-   * Show Export Dialog
-   * @param document The CV document to export
+   * Check whether PDFs can be exported with real text in this app
+   * @returns False where the text-based engine cannot run, e.g. on mobile
    */
-  showExportDialog(document: CVDocument): void {
-    // We'll implement the ExportDialog class later
-    new PDFExportOptionsModal(document, this).open();
+  isVectorPDFAvailable(): boolean {
+    return this.vectorPDFService.isAvailable();
   }
   
   /**
@@ -352,11 +305,11 @@ export class ExportService {
    * @param options Export options
    */
   async exportWithOptions(document: CVDocument, options: Partial<PDFExportOptions>): Promise<void> {
-    // Find the preview element
-    const containerEl = window.document.createElement('div');
-    containerEl.innerHTML = this.generateHTML(document);
-    
     try {
+      // Render the document through the shared pipeline
+      const containerEl = window.document.createElement('div');
+      containerEl.innerHTML = await this.generateHTML(document);
+      
       await this.exportToPDF(containerEl as HTMLElement, document, options);
     } catch (error) {
       console.error('Export error:', error);
@@ -384,19 +337,12 @@ export class ExportService {
         .join('\n')}
 ---`;
 
-      const markdownContent = `${frontmatter}\n\n${document.content}`;
-
-      // Set filename
-      const outputFilename = filename || `${document.metadata.title || 'CV'}.md`;
+      const markdownContent = `${frontmatter}\n\n${stripVariantAnnotations(document.content)}`;
 
       // Save to file
-      const adapter = this.plugin.app.vault.adapter;
-      const savePath = await this.getSavePath(outputFilename);
-      
-      if (savePath) {
-        await adapter.write(savePath, markdownContent);
-        new Notice(`Markdown exported to ${savePath}`);
-      }
+      const savePath = await this.getSavePath(document, filename || this.getDefaultFilename(document, 'md'));
+      await this.plugin.app.vault.adapter.write(savePath, markdownContent);
+      new Notice(`Markdown exported to ${savePath}`);
     } catch (error) {
       console.error('Markdown export error:', error);
       new Notice(`Markdown export failed: ${error instanceof Error ? error.message : String(error)}`);
@@ -404,13 +350,215 @@ export class ExportService {
   }
 
   /**
-   * Get a save path for the exported file
-   * @param filename The suggested filename
-   * @returns The full save path, or null if cancelled
+   * Export CV to a Word document in the vault
+   * @param document The CV document (its metadata sets fonts, margins and page size)
+   * @param filename The target filename
+   * @param folder The target folder (defaults to the configured export folder)
+   */
+  async exportToDocx(document: CVDocument, filename?: string, folder?: string): Promise<void> {
+    try {
+      new Notice('Preparing DOCX export...');
+
+      const data = await this.docxExportService.renderToDocx({
+        ...document,
+        content: stripVariantAnnotations(document.content)
+      });
+      const savePath = await this.getSavePath(document, filename || this.getDefaultFilename(document, 'docx'), folder);
+
+      await this.plugin.app.vault.adapter.writeBinary(savePath, data);
+      new Notice(`DOCX exported to ${savePath}`);
+    } catch (error) {
+      console.error('DOCX export error:', error);
+      new Notice(`DOCX export failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Export CV to a standalone HTML file in the vault
+   * @param document The CV document
+   * @param options Export options
+   */
+  async exportToHTML(document: CVDocument, options?: Partial<HTMLExportOptions>): Promise<void> {
+    try {
+      new Notice('Preparing HTML export...');
+
+      const exportOptions: HTMLExportOptions = {
+        filename: this.getDefaultFilename(document, 'html'),
+        inlineFonts: true,
+        inlineImages: true,
+        ...options
+      };
+
+      // Render through the shared pipeline
+      const containerEl = window.document.createElement('div');
+      containerEl.innerHTML = await this.generateHTML(document);
+      const element = (containerEl.firstElementChild || containerEl) as HTMLElement;
+
+      const html = await this.htmlExportService.buildStandaloneHTML(element, document.metadata, exportOptions);
+      const savePath = await this.getSavePath(document, exportOptions.filename, exportOptions.folder);
+
+      await this.plugin.app.vault.adapter.write(savePath, html);
+      new Notice(`HTML exported to ${savePath}`);
+    } catch (error) {
+      console.error('HTML export error:', error);
+      new Notice(`HTML export failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Export CV as ATS-friendly plain text in the vault
+   * @param document The CV document
+   * @param filename The target filename
+   * @param folder The target folder (defaults to the configured export folder)
    */
-  private async getSavePath(filename: string): Promise<string | null> {
-    // In a real implementation, this would show a file picker dialog
-    // For now, we'll just save to the root of the vault
-    return `${filename}`;
+  async exportToPlainText(document: CVDocument, filename?: string, folder?: string): Promise<void> {
+    try {
+      const savePath = await this.getSavePath(document, filename || this.getDefaultFilename(document, 'txt'), folder);
+
+      await this.plugin.app.vault.adapter.write(savePath, toATSPlainText(stripVariantAnnotations(document.content)));
+      new Notice(`Plain text exported to ${savePath}`);
+    } catch (error) {
+      console.error('Plain text export error:', error);
+      new Notice(`Plain text export failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Export CV as LaTeX source in the vault
+   * @param document The CV document
+   * @param latexClass The LaTeX CV class to target
+   * @param filename The target filename
+   * @param folder The target folder (defaults to the configured export folder)
+   */
+  async exportToLatex(document: CVDocument, latexClass: LatexCVClass = 'moderncv', filename?: string, folder?: string): Promise<void> {
+    try {
+      const savePath = await this.getSavePath(document, filename || this.getDefaultFilename(document, 'tex'), folder);
+
+      await this.plugin.app.vault.adapter.write(savePath, toLatexSource(stripVariantAnnotations(document.content), document.metadata, latexClass));
+      new Notice(`LaTeX source exported to ${savePath}`);
+    } catch (error) {
+      console.error('LaTeX export error:', error);
+      new Notice(`LaTeX export failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Convert a CV document into a JSON Resume object
+   * @param document The CV document
+   * @returns The résumé
+   */
+  toJsonResume(document: CVDocument): JSONResume {
+    const resume = modelToJsonResume(parseCV(stripVariantAnnotations(document.content)));
+
+    if (resume.meta) {
+      resume.meta.lastModified = new Date(document.metadata.lastModified || Date.now()).toISOString();
+    }
+
+    return resume;
+  }
+
+  /**
+   * Export CV to a JSON Resume file
+   * @param document The CV document
+   * @param filename The target filename
+   */
+  async exportToJsonResume(document: CVDocument, filename?: string): Promise<void> {
+    try {
+      const resume = this.toJsonResume(document);
+      const savePath = await this.getSavePath(document, filename || this.getDefaultFilename(document, 'json'));
+
+      await this.plugin.app.vault.adapter.write(savePath, JSON.stringify(resume, null, 2));
+      new Notice(`JSON Resume exported to ${savePath}`);
+    } catch (error) {
+      console.error('JSON Resume export error:', error);
+      new Notice(`JSON Resume export failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Render the first page of a CV to a small image, e.g. for a template's preview
+   * @param content The CV content
+   * @param metadata The CV metadata, for its styling and page setup
+   * @returns The image as a JPEG data URI
+   */
+  async createThumbnail(content: string, metadata: CVMetadata): Promise<string> {
+    const dimensions = getPageDimensions(metadata.pageSize, metadata.orientation, metadata.margins);
+    const { margins } = metadata;
+
+    // Lay the page out off screen, where html2canvas can still measure it
+    const pageEl = document.body.createDiv({ cls: 'oh-my-cv-thumbnail-page' });
+    pageEl.style.width = `${dimensions.width}px`;
+    pageEl.style.height = `${dimensions.height}px`;
+    pageEl.style.padding = `${margins.top}mm ${margins.right}mm ${margins.bottom}mm ${margins.left}mm`;
+
+    try {
+      await this.markdownService.renderMarkdown(content, pageEl, { metadata, paginate: false });
+      const canvas: HTMLCanvasElement = await html2pdf()
+        .set({ html2canvas: { scale: 1, logging: false } })
+        .from(pageEl)
+        .toCanvas()
+        .get('canvas');
+
+      const thumbnail = document.createElement('canvas');
+      thumbnail.width = THUMBNAIL_WIDTH;
+      thumbnail.height = Math.round(THUMBNAIL_WIDTH * canvas.height / canvas.width);
+      thumbnail.getContext('2d')?.drawImage(canvas, 0, 0, thumbnail.width, thumbnail.height);
+      return thumbnail.toDataURL('image/jpeg', 0.8);
+    } finally {
+      pageEl.remove();
+    }
+  }
+
+  /**
+   * Get the folder a CV exports to
+   * The CV's own export folder wins over the global setting; with neither, exports go next to the CV
+   * @param document The CV document
+   * @returns The vault folder ('' for the vault root)
+   */
+  getExportFolder(document: CVDocument): string {
+    if (document.metadata.exportFolder !== undefined) {
+      return normalizeFolderPath(document.metadata.exportFolder);
+    }
+    const folder = this.plugin.settings.getSettings().exportFolder;
+    return folder ? normalizeFolderPath(folder) : getParentFolder(document.path);
+  }
+
+  /**
+   * Get the default file name for an export from the filename template
+   * @param document The CV document
+   * @param extension The file extension without a dot, e.g. 'pdf'
+   * @returns The file name
+   */
+  getDefaultFilename(document: CVDocument, extension: string): string {
+    const settings = this.plugin.settings.getSettings();
+    const name = resolveFilenameTemplate(document.metadata.exportFilename || settings.exportFilenameTemplate, {
+      title: document.metadata.title || 'CV',
+      date: new Date(),
+      pageSize: document.metadata.pageSize
+    });
+    return `${name}.${extension}`;
+  }
+
+  /**
+   * Get the vault path to write an export to
+   * Creates the folder if needed and applies the conflict policy when the file already exists
+   * @param document The CV document
+   * @param filename The exported file's name
+   * @param folder The target folder (defaults to the CV's export folder)
+   * @returns The vault path
+   */
+  private async getSavePath(document: CVDocument, filename: string, folder?: string): Promise<string> {
+    const vault = this.plugin.app.vault;
+    const targetFolder = folder !== undefined ? normalizeFolderPath(folder) : this.getExportFolder(document);
+
+    if (targetFolder && !vault.getAbstractFileByPath(targetFolder)) {
+      await vault.createFolder(targetFolder);
+    }
+
+    const path = joinVaultPath(targetFolder, filename);
+    if (this.plugin.settings.getSettings().exportConflictPolicy === 'version') {
+      return getVersionedPath(path, candidate => vault.adapter.exists(candidate));
+    }
+    return path;
   }
 }
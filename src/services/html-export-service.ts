@@ -0,0 +1,284 @@
+/**
+ * HTML export service for the Oh My CV plugin
+ * Builds self-contained HTML files that can be hosted on a personal site
+ */
+
+import { arrayBufferToBase64, requestUrl } from 'obsidian';
+import { CVMetadata, HTMLExportOptions } from '../core/types';
+import { buildPageRule, getPageDimensions } from '../core/pagination';
+import { VectorPDFService } from './vector-pdf-service';
+
+/** MIME types for assets whose server does not send one */
+const MIME_TYPES: Record<string, string> = {
+  woff2: 'font/woff2',
+  woff: 'font/woff',
+  ttf: 'font/ttf',
+  otf: 'font/otf',
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  svg: 'image/svg+xml',
+  webp: 'image/webp'
+};
+
+/**
+ * Service for generating standalone HTML documents
+ */
+export class HTMLExportService {
+  private vectorPDFService: VectorPDFService;
+
+  /**
+   * Create a new HTML export service
+   */
+  constructor() {
+    this.vectorPDFService = new VectorPDFService();
+  }
+
+  /**
+   * Build a single HTML file containing the CV, its styles and a print stylesheet
+   * @param element The styled element containing the CV content
+   * @param metadata The CV metadata (page size and margins are used)
+   * @param options Export options
+   * @returns A complete HTML document
+   */
+  async buildStandaloneHTML(element: HTMLElement, metadata: CVMetadata, options: HTMLExportOptions): Promise<string> {
+    const clone = element.cloneNode(true) as HTMLElement;
+    let css = this.vectorPDFService.collectCVStyles();
+
+    if (options.inlineFonts) {
+      css = await this.inlineCSSUrls(css);
+
+      // Custom CSS travels inside the CV element and may import its own fonts
+      for (const styleEl of Array.from(clone.querySelectorAll('style'))) {
+        styleEl.textContent = await this.inlineCSSUrls(styleEl.textContent || '');
+      }
+    }
+
+    if (options.inlineImages) {
+      await this.inlineImages(clone);
+    }
+
+    const title = options.filename.replace(/\.html?$/i, '');
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${this.escapeHtml(title)}</title>
+<style>${css}</style>
+<style>${this.getPageStyles(metadata)}</style>
+</head>
+<body>
+<main class="oh-my-cv-standalone">${clone.outerHTML}</main>
+</body>
+</html>`;
+  }
+
+  /**
+   * Get the styles that lay the CV out as a sheet on screen and as pages in print
+   * @param metadata The CV metadata
+   * @returns CSS text
+   */
+  private getPageStyles(metadata: CVMetadata): string {
+    const orientation = metadata.orientation || 'portrait';
+    const page = getPageDimensions(metadata.pageSize, orientation, metadata.margins);
+    const { top, right, bottom, left } = metadata.margins;
+
+    return `
+${buildPageRule(metadata.pageSize, orientation, metadata.margins)}
+html {
+  background: #f0f0f0;
+}
+body {
+  margin: 0;
+}
+.oh-my-cv-standalone {
+  box-sizing: border-box;
+  width: ${page.width}px;
+  min-height: ${page.height}px;
+  margin: 24px auto;
+  padding: ${top}mm ${right}mm ${bottom}mm ${left}mm;
+  background: #fff;
+  box-shadow: 0 2px 12px rgba(0, 0, 0, 0.15);
+}
+@media screen and (max-width: ${Math.ceil(page.width)}px) {
+  .oh-my-cv-standalone {
+    width: auto;
+    min-height: 0;
+    margin: 0;
+    padding: 16px;
+    box-shadow: none;
+  }
+}
+@media print {
+  html {
+    background: none;
+  }
+  .oh-my-cv-standalone {
+    width: auto;
+    min-height: 0;
+    margin: 0;
+    padding: 0;
+    box-shadow: none;
+  }
+}`;
+  }
+
+  /**
+   * Replace imported stylesheets and url() references in CSS with their contents
+   * Assets that cannot be fetched are left as links
+   * @param css The CSS text
+   * @param baseUrl The stylesheet's URL, which relative references are resolved against
+   * @returns CSS with assets embedded as data URIs
+   */
+  private async inlineCSSUrls(css: string, baseUrl?: string): Promise<string> {
+    // Odd segments are @import statements; the rest is the stylesheet's own CSS
+    const segments = css.split(/(@import\s+(?:url\(\s*)?["']?[^"')\s;]+["']?\s*\)?[^;]*;)/);
+
+    for (let index = 0; index < segments.length; index++) {
+      if (index % 2 === 0) {
+        segments[index] = await this.inlineAssetUrls(segments[index], baseUrl);
+        continue;
+      }
+
+      // Pull in imported stylesheets (e.g. Google Fonts) so their font files can be embedded too;
+      // their own references are relative to them, not to the stylesheet importing them
+      const url = this.resolveURL(segments[index].match(/@import\s+(?:url\(\s*)?["']?([^"')\s;]+)/)?.[1] ?? '', baseUrl);
+      const imported = await this.fetchText(url);
+      if (imported !== null) {
+        segments[index] = await this.inlineCSSUrls(imported, url);
+      }
+    }
+
+    return segments.join('');
+  }
+
+  /**
+   * Replace the url() references in CSS with data URIs
+   * @param css The CSS text, without @import statements
+   * @param baseUrl The stylesheet's URL, which relative references are resolved against
+   * @returns CSS with assets embedded as data URIs
+   */
+  private async inlineAssetUrls(css: string, baseUrl?: string): Promise<string> {
+    const references = new Set(
+      Array.from(css.matchAll(/url\(\s*["']?([^"')]+)["']?\s*\)/g))
+        .map(match => match[0])
+        .filter(reference => !/url\(\s*["']?(data:|#)/.test(reference))
+    );
+
+    let result = css;
+    for (const reference of Array.from(references)) {
+      const url = reference.match(/url\(\s*["']?([^"')]+)/)?.[1] ?? '';
+      const dataUri = await this.fetchDataURI(this.resolveURL(url, baseUrl));
+      if (dataUri) {
+        result = result.split(reference).join(`url("${dataUri}")`);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Resolve a reference against the URL of the stylesheet it appears in
+   * @param url The reference
+   * @param baseUrl The stylesheet's URL, if it has one
+   * @returns The absolute URL, or the reference itself if it cannot be resolved
+   */
+  private resolveURL(url: string, baseUrl?: string): string {
+    if (!baseUrl) {
+      return url;
+    }
+    try {
+      return new URL(url, baseUrl).href;
+    } catch (error) {
+      return url;
+    }
+  }
+
+  /**
+   * Embed the images in an element as data URIs
+   * @param element The element
+   */
+  private async inlineImages(element: HTMLElement): Promise<void> {
+    for (const image of Array.from(element.querySelectorAll('img'))) {
+      const src = image.getAttribute('src');
+      if (!src || src.startsWith('data:')) {
+        continue;
+      }
+
+      const dataUri = await this.fetchDataURI(src);
+      if (dataUri) {
+        image.setAttribute('src', dataUri);
+        image.removeAttribute('srcset');
+      }
+    }
+  }
+
+  /**
+   * Fetch an asset as a data URI
+   * Remote assets go through Obsidian's request API to avoid CORS restrictions;
+   * vault resources (app:// URLs) are fetched directly
+   * @param url The asset URL
+   * @returns The data URI, or null if the asset could not be fetched
+   */
+  private async fetchDataURI(url: string): Promise<string | null> {
+    try {
+      let buffer: ArrayBuffer;
+      let contentType: string | null | undefined;
+
+      if (/^https?:/i.test(url)) {
+        const response = await requestUrl({ url });
+        buffer = response.arrayBuffer;
+        contentType = response.headers['content-type'];
+      } else {
+        const response = await fetch(url);
+        buffer = await response.arrayBuffer();
+        contentType = response.headers.get('content-type');
+      }
+
+      const mimeType = (contentType || this.guessMimeType(url)).split(';')[0];
+      return `data:${mimeType};base64,${arrayBufferToBase64(buffer)}`;
+    } catch (error) {
+      console.error(`Could not embed ${url}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Fetch a text resource
+   * @param url The resource URL
+   * @returns The text, or null if it could not be fetched
+   */
+  private async fetchText(url: string): Promise<string | null> {
+    try {
+      return /^https?:/i.test(url) ? (await requestUrl({ url })).text : await (await fetch(url)).text();
+    } catch (error) {
+      console.error(`Could not embed ${url}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Guess a MIME type from a URL's extension
+   * @param url The URL
+   * @returns The MIME type
+   */
+  private guessMimeType(url: string): string {
+    const extension = url.split(/[?#]/)[0].split('.').pop()?.toLowerCase() || '';
+    return MIME_TYPES[extension] || 'application/octet-stream';
+  }
+
+  /**
+   * Escape text for use in HTML
+   * @param text The text to escape
+   * @returns Escaped text
+   */
+  private escapeHtml(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;');
+  }
+}
@@ -0,0 +1,54 @@
+/**
+ * Import service for the Oh My CV plugin
+ * Converts résumés from other formats into CV documents
+ */
+
+import { Notice, Plugin, TFile } from 'obsidian';
+import { CVDocument, JSONResume } from '../core/types';
+import { jsonResumeToMarkdown } from '../core/json-resume';
+import type { StorageService } from './storage-service';
+
+// Use type declaration to avoid circular dependencies
+declare class OhMyCVPlugin extends Plugin {
+  storage: StorageService;
+}
+
+/**
+ * Service for importing CVs into the vault
+ */
+export class ImportService {
+  private plugin: OhMyCVPlugin;
+
+  /**
+   * Create a new import service
+   * @param plugin The Oh My CV plugin instance
+   */
+  constructor(plugin: OhMyCVPlugin) {
+    this.plugin = plugin;
+  }
+
+  /**
+   * Import a JSON Resume file as a new CV document
+   * @param file The .json file in the vault
+   * @returns The created CV document, or null if the file could not be imported
+   */
+  async importJsonResume(file: TFile): Promise<CVDocument | null> {
+    try {
+      const resume = JSON.parse(await this.plugin.app.vault.read(file)) as JSONResume;
+
+      if (!resume || typeof resume !== 'object' || Array.isArray(resume)) {
+        throw new Error('File is not a JSON Resume object');
+      }
+
+      const title = resume.basics?.name ? `${resume.basics.name} CV` : file.basename;
+      const document = await this.plugin.storage.createCV(title, jsonResumeToMarkdown(resume), { title });
+
+      new Notice(`Imported ${file.name} as ${document.path}`);
+      return document;
+    } catch (error) {
+      console.error('JSON Resume import error:', error);
+      new Notice(`JSON Resume import failed: ${error instanceof Error ? error.message : String(error)}`);
+      return null;
+    }
+  }
+}
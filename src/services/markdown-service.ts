@@ -6,6 +6,10 @@
 import { MarkdownRenderer, MarkdownView, Component } from 'obsidian';
 import { CASING_RULES } from '../core/constants';
 import { getPluginInstance } from '../core/plugin-instance';
+import { CVMetadata, CVRenderOptions, CVTemplateStyle, CVTheme } from '../core/types';
+import { getPageDimensions, paginateBlocks, PaginationBlock } from '../core/pagination';
+import { stripVariantAnnotations } from '../core/variants';
+import { splitMarkdownSource } from '../core/markdown-blocks';
 
 /**
  * Service for processing Markdown with specialized extensions for CVs
@@ -14,6 +18,13 @@ export class MarkdownService {
   private plugin: any; // Using plugin instance
   private component: Component;
 
+  // Blocks rendered into each container, by the processed source they came from,
+  // so an unchanged chunk of source is not rendered again
+  private renderedBlocks = new WeakMap<HTMLElement, Map<string, Element[][]>>();
+
+  // Latest render into each container, so an older render that is still running gives way
+  private renderGenerations = new WeakMap<HTMLElement, number>();
+
   /**
    * Create a new Markdown service
    * @param plugin The Oh My CV plugin instance
@@ -26,35 +37,52 @@ export class MarkdownService {
 
   /**
    * Render Markdown content to HTML
+   * This is the single rendering pipeline used by the preview, the template picker and all exports
+   * Chunks of source that are unchanged since the last render into the same container reuse its blocks
    * @param markdown The markdown content to render
    * @param container The container element to render into
+   * @param options Rendering options
    */
-  async renderMarkdown(markdown: string, container: HTMLElement): Promise<void> {
+  async renderMarkdown(markdown: string, container: HTMLElement, options: CVRenderOptions = {}): Promise<void> {
     try {
-      // Apply pre-processing
-      let processedMarkdown = markdown;
-      
-      // Apply auto-casing if enabled
-      if (this.plugin.settings.isAutoCasingEnabled()) {
-        processedMarkdown = this.applyCasingRules(processedMarkdown);
+      const generation = (this.renderGenerations.get(container) || 0) + 1;
+      this.renderGenerations.set(container, generation);
+
+      // Render each chunk of the source on its own so rendered blocks can be mapped back to
+      // their lines, dropping any frontmatter (template content includes it)
+      const previousBlocks = this.renderedBlocks.get(container) || new Map<string, Element[][]>();
+      const blocks = new Map<string, Element[][]>();
+      const rendered: Element[] = [];
+
+      for (const chunk of splitMarkdownSource(markdown)) {
+        const processed = this.preprocessMarkdown(chunk.text);
+
+        // Reuse the blocks of an unchanged chunk, or render it
+        let elements = previousBlocks.get(processed)?.shift();
+        if (!elements) {
+          const chunkEl = document.createElement('div');
+          await MarkdownRenderer.renderMarkdown(processed, chunkEl, '', this.component);
+          if (this.renderGenerations.get(container) !== generation) {
+            return;
+          }
+          elements = Array.from(chunkEl.children);
+        }
+
+        blocks.set(processed, [...(blocks.get(processed) || []), elements]);
+        elements.forEach(el => {
+          el.setAttribute('data-line', String(chunk.line));
+          el.setAttribute('data-line-end', String(chunk.endLine));
+          rendered.push(el);
+        });
       }
-      
-      // Process custom LaTeX-style commands
-      processedMarkdown = this.processLatexStyleCommands(processedMarkdown);
-      
-      // Clear the container
+      this.renderedBlocks.set(container, blocks);
+
+      // Swap the content in at once so overlapping renders do not interleave
       container.empty();
-      
-      // Use Obsidian's Markdown renderer
-      await MarkdownRenderer.renderMarkdown(
-        processedMarkdown,
-        container,
-        '',
-        this.component
-      );
+      rendered.forEach(el => container.appendChild(el));
       
       // Apply post-processing to the rendered content
-      this.postProcessRenderedContent(container);
+      this.postProcessRenderedContent(container, options);
       
     } catch (error) {
       console.error('Error rendering markdown:', error);
@@ -62,6 +90,82 @@ export class MarkdownService {
     }
   }
 
+  /**
+   * Apply the CV extensions to Markdown before it is rendered
+   * @param markdown The markdown to process
+   * @returns Markdown ready for Obsidian's renderer
+   */
+  private preprocessMarkdown(markdown: string): string {
+    // A master CV shows everything, without its variant annotations
+    let processedMarkdown = stripVariantAnnotations(markdown);
+    
+    // Apply auto-casing if enabled
+    if (this.plugin.settings.isAutoCasingEnabled()) {
+      processedMarkdown = this.applyCasingRules(processedMarkdown);
+    }
+    
+    // Process custom LaTeX-style commands
+    return this.processLatexStyleCommands(processedMarkdown);
+  }
+
+  /**
+   * Render Markdown content to an HTML string
+   * @param markdown The markdown content to render
+   * @param options Rendering options (pagination is not applied to detached markup)
+   * @returns The rendered HTML
+   */
+  async renderToHTML(markdown: string, options: CVRenderOptions = {}): Promise<string> {
+    const container = document.createElement('div');
+    await this.renderMarkdown(markdown, container, { ...options, paginate: false });
+    return container.innerHTML;
+  }
+
+  /**
+   * Apply CV theme styling to a rendered container
+   * @param element The container element
+   * @param metadata Optional CV metadata
+   * @param templateStyle Optional template styling, takes precedence over the metadata
+   */
+  applyCVStyle(element: HTMLElement, metadata?: CVMetadata, templateStyle?: CVTemplateStyle): void {
+    const theme: CVTheme = templateStyle?.theme || {
+      primaryColor: metadata?.themeColor || '#4051b5',
+      textColor: '#000000',
+      backgroundColor: '#ffffff',
+      headingFont: metadata?.fontFamily || 'Arial, sans-serif',
+      bodyFont: metadata?.fontFamily || 'Arial, sans-serif',
+      fontSize: `${metadata?.fontSize || 11}pt`,
+      lineHeight: `${metadata?.lineHeight || 1.5}`
+    };
+
+    const themeColor = theme.primaryColor || metadata?.themeColor || '#4051b5';
+
+    element.style.fontFamily = theme.bodyFont || metadata?.fontFamily || 'Arial, sans-serif';
+    element.style.fontSize = theme.fontSize || `${metadata?.fontSize || 11}pt`;
+    element.style.lineHeight = theme.lineHeight || `${metadata?.lineHeight || 1.5}`;
+    element.style.color = theme.textColor || '#000';
+    element.style.backgroundColor = theme.backgroundColor || '#fff';
+
+    // Set theme color as a CSS variable
+    element.style.setProperty('--theme-color', themeColor);
+
+    // Apply custom CSS if available, replacing any previously applied
+    element.querySelectorAll(':scope > style.oh-my-cv-custom-css').forEach(el => el.remove());
+    const customCss = templateStyle?.customCSS || metadata?.customCss;
+    if (customCss) {
+      const styleElement = document.createElement('style');
+      styleElement.classList.add('oh-my-cv-custom-css');
+      styleElement.textContent = customCss;
+      element.appendChild(styleElement);
+    }
+
+    // Style links with theme color
+    const linkColor = theme.linkColor || themeColor;
+    element.querySelectorAll('a').forEach(link => {
+      link.style.color = linkColor;
+      link.style.textDecoration = 'none';
+    });
+  }
+
   /**
    * Apply auto-casing rules to correct common terms
    * @param content The content to process
@@ -121,8 +225,9 @@ export class MarkdownService {
   /**
    * Post-process the rendered content for additional styling and features
    * @param container The container with the rendered content
+   * @param options Rendering options
    */
-  private postProcessRenderedContent(container: HTMLElement): void {
+  private postProcessRenderedContent(container: HTMLElement, options: CVRenderOptions): void {
     // Add classes to elements for styling
     this.addClassesToElements(container);
     
@@ -131,9 +236,14 @@ export class MarkdownService {
       this.processCrossReferences(container);
     }
     
+    // Apply theme styling before pagination so pages are measured with the final fonts
+    if (options.metadata || options.templateStyle) {
+      this.applyCVStyle(container, options.metadata, options.templateStyle);
+    }
+    
     // Visualize page breaks if enabled
-    if (this.plugin.settings.isPageBreaksEnabled()) {
-      this.visualizePageBreaks(container);
+    if (options.paginate !== false && this.plugin.settings.isPageBreaksEnabled()) {
+      this.visualizePageBreaks(container, options.metadata);
     }
   }
 
@@ -189,21 +299,92 @@ export class MarkdownService {
 
   /**
    * Visualize page breaks in the rendered content
+   * Lays the content out on page-sized sheets so the preview breaks where the PDF will,
+   * and flags headings that end up alone at the bottom of a page
    * @param container The container with the rendered content
+   * @param metadata Optional CV metadata with page size, orientation and margins
    */
-  private visualizePageBreaks(container: HTMLElement): void {
-    // Find existing page breaks
-    container.querySelectorAll('.oh-my-cv-page-break').forEach(pageBreak => {
-      // Add a visual indicator
-      const indicator = document.createElement('div');
-      indicator.classList.add('oh-my-cv-page-break-indicator');
-      indicator.textContent = 'Page Break';
-      pageBreak.prepend(indicator);
+  private visualizePageBreaks(container: HTMLElement, metadata?: CVMetadata): void {
+    const pageSize = metadata?.pageSize || this.plugin.settings.getDefaultPageSize();
+    const margins = metadata?.margins || this.plugin.settings.getDefaultMargins();
+    const dimensions = getPageDimensions(pageSize, metadata?.orientation, margins);
+
+    // Lay the blocks out at the page's content width so they can be measured
+    const measureEl = container.createDiv({ cls: 'oh-my-cv-sheet-measure' });
+    measureEl.style.width = `${dimensions.contentWidth}px`;
+
+    const elements = Array.from(container.children).filter(el => el !== measureEl) as HTMLElement[];
+    elements.forEach(el => measureEl.appendChild(el));
+
+    // Manual page breaks become breaks before the following block
+    const blockElements: HTMLElement[] = [];
+    const blocks: PaginationBlock[] = [];
+    let pendingBreak = false;
+
+    elements.forEach(el => {
+      // Blocks reused from the last render may carry its flags
+      if (el.hasClass('oh-my-cv-orphaned')) {
+        el.removeClass('oh-my-cv-orphaned');
+        el.removeAttribute('title');
+      }
+
+      if (el.classList.contains('oh-my-cv-page-break') || el.querySelector(':scope > .oh-my-cv-page-break')) {
+        pendingBreak = true;
+        return;
+      }
+
+      blockElements.push(el);
+      blocks.push({
+        height: this.measureOuterHeight(el),
+        breakBefore: pendingBreak,
+        keepWithNext: /^H[1-6]$/.test(el.tagName) || el.querySelector(':scope > h1, :scope > h2, :scope > h3, :scope > h4, :scope > h5, :scope > h6') !== null
+      });
+      pendingBreak = false;
     });
-    
-    // TODO: Implement auto page break detection based on content height
-    // This will require calculating the height of the content and inserting
-    // page breaks at appropriate positions based on the page size
+
+    const { pages, orphans } = paginateBlocks(blocks, dimensions.contentHeight);
+
+    // Build the sheets
+    measureEl.remove();
+    const sheetsEl = container.createDiv({ cls: 'oh-my-cv-sheets' });
+
+    pages.forEach((blockIndices, pageIndex) => {
+      const sheetEl = sheetsEl.createDiv({ cls: 'oh-my-cv-sheet' });
+      sheetEl.style.width = `${dimensions.width}px`;
+      sheetEl.style.height = `${dimensions.height}px`;
+      sheetEl.style.padding = `${margins.top}mm ${margins.right}mm ${margins.bottom}mm ${margins.left}mm`;
+
+      blockIndices.forEach(index => sheetEl.appendChild(blockElements[index]));
+
+      sheetEl.createDiv({
+        cls: 'oh-my-cv-sheet-number',
+        text: `Page ${pageIndex + 1} of ${pages.length}`
+      });
+    });
+
+    orphans.forEach(index => {
+      const el = blockElements[index];
+      el.addClass('oh-my-cv-orphaned');
+      el.setAttribute('title', 'This heading is separated from its content by a page break');
+    });
+
+    // Scale the sheets down to fit narrow panes
+    const availableWidth = container.clientWidth;
+    if (availableWidth > 0 && availableWidth < dimensions.width) {
+      sheetsEl.style.setProperty('zoom', String(availableWidth / dimensions.width));
+    }
+  }
+
+  /**
+   * Measure an element's height including its vertical margins
+   * @param el The element to measure
+   * @returns Height in px
+   */
+  private measureOuterHeight(el: HTMLElement): number {
+    const style = window.getComputedStyle(el);
+    const marginTop = parseFloat(style.marginTop) || 0;
+    const marginBottom = parseFloat(style.marginBottom) || 0;
+    return el.getBoundingClientRect().height + marginTop + marginBottom;
   }
 
   /**
@@ -0,0 +1,172 @@
+/**
+ * PDF decoration service for the Oh My CV plugin
+ * Stamps headers, footers and page numbers onto every physical page of an exported PDF
+ */
+
+import { PDFDocument, PDFFont, PDFPage, StandardFonts, rgb } from 'pdf-lib';
+import { PDFExportOptions } from '../core/types';
+import { getPageDecorations, hasPageDecorations, PageDecorations } from '../core/page-decorations';
+
+/** Millimetres to PDF points */
+const MM_TO_PT = 72 / 25.4;
+
+/** Font size used for decorations, in pt */
+const DECORATION_FONT_SIZE = 9;
+
+/**
+ * Minimal subset of the jsPDF API used by the raster export path
+ */
+interface JsPDFDocument {
+  internal: {
+    getNumberOfPages(): number;
+    pageSize: {
+      getWidth(): number;
+      getHeight(): number;
+    };
+  };
+  setPage(page: number): void;
+  setFontSize(size: number): void;
+  setTextColor(gray: number): void;
+  text(text: string, x: number, y: number, options?: { align?: 'left' | 'center' | 'right' }): void;
+}
+
+/**
+ * Where a piece of text goes on the page
+ */
+interface StampPosition {
+  text: string;
+  /** 'top' for the header band, 'bottom' for the footer band */
+  band: 'top' | 'bottom';
+  align: 'center' | 'right';
+}
+
+/**
+ * Service for adding per-page headers, footers and page numbers to PDFs
+ */
+export class PDFDecorationService {
+  /**
+   * Stamp decorations onto a finished PDF (used by the vector renderer)
+   * @param data The PDF file contents
+   * @param options Export options
+   * @param title Document title for the {title} placeholder
+   * @returns The decorated PDF file contents
+   */
+  async decoratePDF(data: ArrayBuffer, options: PDFExportOptions, title: string): Promise<ArrayBuffer> {
+    if (!hasPageDecorations(options)) {
+      return data;
+    }
+
+    const pdf = await PDFDocument.load(data);
+    const font = await pdf.embedFont(StandardFonts.Helvetica);
+    const pages = pdf.getPages();
+    const date = new Date().toLocaleDateString();
+
+    pages.forEach((page, index) => {
+      const decorations = getPageDecorations(options, {
+        page: index + 1,
+        pages: pages.length,
+        title,
+        date
+      });
+
+      this.layoutDecorations(decorations).forEach(position => {
+        this.drawOnPDFPage(page, font, position, options);
+      });
+    });
+
+    const bytes = await pdf.save();
+    return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer;
+  }
+
+  /**
+   * Stamp decorations onto a jsPDF document before it is saved (used by the raster renderer)
+   * @param pdf The jsPDF document produced by html2pdf
+   * @param options Export options
+   * @param title Document title for the {title} placeholder
+   */
+  decorateJsPDF(pdf: JsPDFDocument, options: PDFExportOptions, title: string): void {
+    if (!hasPageDecorations(options)) {
+      return;
+    }
+
+    const pageCount = pdf.internal.getNumberOfPages();
+    const date = new Date().toLocaleDateString();
+
+    for (let page = 1; page <= pageCount; page++) {
+      const decorations = getPageDecorations(options, { page, pages: pageCount, title, date });
+
+      pdf.setPage(page);
+      pdf.setFontSize(DECORATION_FONT_SIZE);
+      pdf.setTextColor(110);
+
+      const width = pdf.internal.pageSize.getWidth();
+      const height = pdf.internal.pageSize.getHeight();
+
+      this.layoutDecorations(decorations).forEach(position => {
+        const x = position.align === 'right' ? width - options.margins.right : width / 2;
+        const y = position.band === 'top' ? options.margins.top / 2 : height - options.margins.bottom / 2;
+        pdf.text(position.text, x, y, { align: position.align });
+      });
+    }
+  }
+
+  /**
+   * Decide where each decoration is placed
+   * The header is centred in the top margin; the footer is centred in the bottom margin
+   * and the page number sits on the right, or in the centre when there is no footer
+   * @param decorations The decorations for a page
+   * @returns The positioned text
+   */
+  private layoutDecorations(decorations: PageDecorations): StampPosition[] {
+    const positions: StampPosition[] = [];
+
+    if (decorations.header) {
+      positions.push({ text: decorations.header, band: 'top', align: 'center' });
+    }
+
+    if (decorations.footer) {
+      positions.push({ text: decorations.footer, band: 'bottom', align: 'center' });
+    }
+
+    if (decorations.pageNumber) {
+      positions.push({
+        text: decorations.pageNumber,
+        band: 'bottom',
+        align: decorations.footer ? 'right' : 'center'
+      });
+    }
+
+    return positions;
+  }
+
+  /**
+   * Draw a piece of text on a pdf-lib page
+   * @param page The page
+   * @param font The embedded font
+   * @param position The text and its placement
+   * @param options Export options (margins are used)
+   */
+  private drawOnPDFPage(page: PDFPage, font: PDFFont, position: StampPosition, options: PDFExportOptions): void {
+    // Standard fonts only cover WinAnsi, so replace anything else
+    const text = position.text.replace(/[^\x20-\x7E\u00A0-\u00FF\u2013\u2014\u2018\u2019\u201C\u201D\u2022]/g, '?');
+    const { width, height } = page.getSize();
+    const textWidth = font.widthOfTextAtSize(text, DECORATION_FONT_SIZE);
+
+    const x = position.align === 'right'
+      ? width - options.margins.right * MM_TO_PT - textWidth
+      : (width - textWidth) / 2;
+
+    // pdf-lib measures y from the bottom edge to the text baseline
+    const y = position.band === 'top'
+      ? height - (options.margins.top * MM_TO_PT) / 2 - DECORATION_FONT_SIZE / 2
+      : (options.margins.bottom * MM_TO_PT) / 2 - DECORATION_FONT_SIZE / 2;
+
+    page.drawText(text, {
+      x,
+      y,
+      size: DECORATION_FONT_SIZE,
+      font,
+      color: rgb(0.43, 0.43, 0.43)
+    });
+  }
+}
@@ -14,6 +14,8 @@ import { getPluginInstance } from '../core/plugin-instance';
 export class SettingsService {
   private plugin: any;
   private settings: OhMyCVSettings;
+  private libraryTemplates: CVTemplate[] = [];
+  private templateListeners = new Set<() => void>();
 
   /**
    * Create a new settings service
@@ -133,7 +135,7 @@ export class SettingsService {
    * @returns Array of templates
    */
   getTemplates(): CVTemplate[] {
-    return [...DEFAULT_TEMPLATES, ...(this.settings.templates || [])];
+    return [...DEFAULT_TEMPLATES, ...(this.settings.templates || []), ...this.libraryTemplates];
   }
 
   /**
@@ -145,7 +147,43 @@ export class SettingsService {
   }
 
   /**
-   * Get a template by ID (checks both built-in and user templates)
+   * Get the templates loaded from the templates folder
+   * @returns Array of templates from the vault
+   */
+  getLibraryTemplates(): CVTemplate[] {
+    return this.libraryTemplates;
+  }
+
+  /**
+   * Replace the templates loaded from the templates folder
+   * @param templates The templates read from the vault
+   */
+  setLibraryTemplates(templates: CVTemplate[]): void {
+    this.libraryTemplates = templates;
+    this.notifyTemplatesChanged();
+  }
+
+  /**
+   * Listen for templates being added, changed, removed or reloaded from the templates folder
+   * @param listener Called after each change
+   * @returns A function that stops listening
+   */
+  onTemplatesChanged(listener: () => void): () => void {
+    this.templateListeners.add(listener);
+    return () => {
+      this.templateListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Tell the template listeners that the templates changed
+   */
+  private notifyTemplatesChanged(): void {
+    this.templateListeners.forEach(listener => listener());
+  }
+
+  /**
+   * Get a template by ID (checks built-in, user and templates folder templates)
    * @param id Template ID
    * @returns Template or undefined if not found
    */
@@ -156,8 +194,9 @@ export class SettingsService {
       return builtInTemplate;
     }
     
-    // Then check user templates
-    return this.settings.templates.find(template => template.id === id);
+    // Then check user templates, and those from the templates folder
+    return this.settings.templates.find(template => template.id === id)
+      || this.libraryTemplates.find(template => template.id === id);
   }
 
   /**
@@ -165,22 +204,36 @@ export class SettingsService {
    * @param template Template to add
    */
   async addTemplate(template: CVTemplate): Promise<void> {
+    await this.addTemplates([template]);
+  }
+
+  /**
+   * Add several templates at once, saving the settings and telling the template listeners once
+   * @param templates Templates to add; those with an existing ID replace it
+   */
+  async addTemplates(templates: CVTemplate[]): Promise<void> {
+    if (templates.length === 0) {
+      return;
+    }
     if (!this.settings.templates) {
       this.settings.templates = [];
     }
 
-    // Check if a template with this ID already exists
-    const existingTemplateIndex = this.settings.templates.findIndex(t => t.id === template.id);
-    
-    if (existingTemplateIndex >= 0) {
-      // Update existing template
-      this.settings.templates[existingTemplateIndex] = template;
-    } else {
-      // Add new template
-      this.settings.templates.push(template);
-    }
+    templates.forEach(template => {
+      // Check if a template with this ID already exists
+      const existingTemplateIndex = this.settings.templates.findIndex(t => t.id === template.id);
+      
+      if (existingTemplateIndex >= 0) {
+        // Update existing template
+        this.settings.templates[existingTemplateIndex] = template;
+      } else {
+        // Add new template
+        this.settings.templates.push(template);
+      }
+    });
     
     await this.saveSettings();
+    this.notifyTemplatesChanged();
   }
   
   /**
@@ -200,6 +253,7 @@ export class SettingsService {
     const success = this.settings.templates.length < initialLength;
     if (success) {
       await this.saveSettings();
+      this.notifyTemplatesChanged();
     }
     
     return success;
@@ -211,9 +265,16 @@ export class SettingsService {
    * @param description Template description
    * @param content Template content
    * @param style Template style (optional)
+   * @param details Category, tags and preview image, replacing the defaults (optional)
    * @returns The created template
    */
-  async createTemplateFromCurrent(name: string, description: string, content: string, style?: CVTemplateStyle): Promise<CVTemplate> {
+  async createTemplateFromCurrent(
+    name: string,
+    description: string,
+    content: string,
+    style?: CVTemplateStyle,
+    details: Partial<Pick<CVTemplate, 'category' | 'tags' | 'previewImage'>> = {}
+  ): Promise<CVTemplate> {
     const id = `user-template-${Date.now()}`;
     
     // If no style provided, create a default one
@@ -235,6 +296,7 @@ export class SettingsService {
       style: defaultStyle,
       category: 'Custom',
       tags: ['user-created'],
+      ...details,
     };
     
     await this.addTemplate(template);
@@ -254,6 +316,7 @@ export class SettingsService {
         ...template
       };
       await this.saveSettings();
+      this.notifyTemplatesChanged();
     }
   }
 
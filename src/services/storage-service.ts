@@ -3,9 +3,10 @@
  * Handles file operations and CV document management
  */
 
-import { TFile, TFolder, Notice, Vault, Plugin } from 'obsidian';
-import { CVDocument, CVMetadata } from '../core/types';
-import { DEFAULT_CV_FOLDER, CV_FILE_EXTENSION, FRONTMATTER_REGEX } from '../core/constants';
+import { TFile, TFolder, Notice, Vault, Plugin, normalizePath } from 'obsidian';
+import { CVDocument, CVDraft, CVMetadata, CVSnapshot } from '../core/types';
+import { DEFAULT_CV_FOLDER, CV_FILE_EXTENSION, CV_HISTORY_EXTENSION, DRAFTS_FOLDER, FRONTMATTER_REGEX } from '../core/constants';
+import { filterVariantContent } from '../core/variants';
 import * as YAML from 'yaml';
 
 // Use type declaration to avoid circular dependencies
@@ -29,6 +30,15 @@ export class StorageService {
     this.vault = plugin.app.vault;
   }
 
+  /**
+   * Check whether a file is a CV
+   * @param file The file
+   * @returns True for .cv.md files
+   */
+  isCVFile(file: TFile): boolean {
+    return file.path.endsWith(CV_FILE_EXTENSION);
+  }
+
   /**
    * Ensure the CV folder exists in the vault
    * @param folderPath Optional custom folder path
@@ -147,10 +157,21 @@ export class StorageService {
 
   /**
    * Load a CV document from a file
+   * Variants are resolved to their master's content, filtered by the variant's tags
    * @param filePath The file path
    * @returns The CV document
    */
   async loadCV(filePath: string): Promise<CVDocument> {
+    return this.readCV(filePath, []);
+  }
+
+  /**
+   * Read a CV document, resolving it if it is a variant
+   * @param filePath The file path
+   * @param variantChain Paths of the variants being resolved, to detect cycles
+   * @returns The CV document
+   */
+  private async readCV(filePath: string, variantChain: string[]): Promise<CVDocument> {
     try {
       // Get the file
       const file = this.vault.getAbstractFileByPath(filePath);
@@ -180,6 +201,25 @@ export class StorageService {
         throw new Error(`Failed to parse frontmatter in ${filePath}: ${error}`);
       }
 
+      // Variants take their content from the master
+      if (metadata.master) {
+        const masterPath = this.resolveMasterPath(metadata.master, filePath);
+        if (!masterPath) {
+          throw new Error(`Master CV ${metadata.master} not found.`);
+        }
+        if (masterPath === filePath || variantChain.includes(masterPath)) {
+          throw new Error(`Variant ${filePath} refers back to itself through its master.`);
+        }
+
+        const master = await this.readCV(masterPath, [...variantChain, filePath]);
+        return {
+          path: filePath,
+          metadata,
+          content: filterVariantContent(master.content, metadata.variantTags || []).trim(),
+          masterPath
+        };
+      }
+
       // Return the CV document
       return {
         path: filePath,
@@ -204,14 +244,14 @@ export class StorageService {
       document.metadata.lastModified = Date.now();
 
       // Create the file content with frontmatter and markdown
+      // Variants keep their own body; their content belongs to the master
+      const file = this.vault.getAbstractFileByPath(document.path) as TFile;
+      const body = document.metadata.master ? await this.readBody(file) : document.content;
       const frontmatter = YAML.stringify(document.metadata);
-      const fileContent = `---\n${frontmatter}---\n\n${document.content}`;
+      const fileContent = `---\n${frontmatter}---\n\n${body}`;
 
       // Save the file
-      await this.vault.modify(
-        this.vault.getAbstractFileByPath(document.path) as TFile,
-        fileContent
-      );
+      await this.vault.modify(file, fileContent);
       console.log(`Saved CV at ${document.path}`);
 
       // Return the updated document
@@ -271,19 +311,23 @@ export class StorageService {
       document.metadata.title = newTitle;
       document.metadata.lastModified = Date.now();
 
-      // Create the file content with frontmatter and markdown
-      const frontmatter = YAML.stringify(document.metadata);
-      const fileContent = `---\n${frontmatter}---\n\n${document.content}`;
-
       // Get the old file
       const oldFile = this.vault.getAbstractFileByPath(oldPath) as TFile;
 
+      // Create the file content with frontmatter and markdown
+      const body = document.metadata.master ? await this.readBody(oldFile) : document.content;
+      const frontmatter = YAML.stringify(document.metadata);
+      const fileContent = `---\n${frontmatter}---\n\n${body}`;
+
       // Create the new file
       await this.vault.create(newPath, fileContent);
 
       // Delete the old file
       await this.vault.delete(oldFile);
 
+      // Keep the snapshots with the CV
+      await this.moveSnapshots(oldPath, newPath);
+
       // Return the updated document with the new path
       return {
         ...document,
@@ -295,4 +339,288 @@ export class StorageService {
       throw error;
     }
   }
+
+  /**
+   * Create a variant of a master CV
+   * The variant starts with the master's styling and an empty body for notes
+   * @param master The master CV document
+   * @param title The variant title
+   * @param tags Tags selecting the master's sections and entries
+   * @returns The variant, resolved against the master
+   */
+  async createVariant(master: CVDocument, title: string, tags: string[]): Promise<CVDocument> {
+    // A fixed export file name would make the variant's exports overwrite the master's
+    const styling: Partial<CVMetadata> = { ...master.metadata };
+    delete styling.exportFilename;
+    const folder = master.path.includes('/') ? master.path.substring(0, master.path.lastIndexOf('/')) : DEFAULT_CV_FOLDER;
+
+    const variant = await this.createCV(title, '', {
+      ...styling,
+      title,
+      master: master.path,
+      variantTags: tags
+    }, folder);
+    return this.loadCV(variant.path);
+  }
+
+  /**
+   * Point variants at their master's new path after it was renamed or moved
+   * @param oldPath The previous master file path
+   * @param newPath The new master file path
+   */
+  async updateVariantMasters(oldPath: string, newPath: string): Promise<void> {
+    // Links are updated by Obsidian itself; only paths need rewriting
+    const variants = this.vault.getMarkdownFiles().filter(file => {
+      const master = this.plugin.app.metadataCache.getFileCache(file)?.frontmatter?.master;
+      return this.isCVFile(file) && typeof master === 'string' && !master.trim().startsWith('[[')
+        && this.getMasterReference(master, file.path) === oldPath;
+    });
+
+    for (const file of variants) {
+      try {
+        await this.plugin.app.fileManager.processFrontMatter(file, frontmatter => {
+          frontmatter.master = newPath;
+        });
+      } catch (error) {
+        console.error(`Failed to update the master of ${file.path}: ${error}`);
+      }
+    }
+  }
+
+  /**
+   * Find the file a variant's master reference points to
+   * @param master The reference, as a vault path, a path relative to the variant or a [[link]]
+   * @param variantPath The variant's file path, for resolving links
+   * @returns The master's file path, or null if it cannot be found
+   */
+  private resolveMasterPath(master: string, variantPath: string): string | null {
+    const reference = this.getMasterReference(master, variantPath);
+
+    const file = this.vault.getAbstractFileByPath(reference)
+      ?? this.plugin.app.metadataCache.getFirstLinkpathDest(reference, variantPath);
+    return file instanceof TFile ? file.path : null;
+  }
+
+  /**
+   * Turn a variant's master reference into a vault path or link path
+   * @param master The reference, as a vault path, a path relative to the variant or a [[link]]
+   * @param variantPath The variant's file path, for resolving relative paths
+   * @returns The path, without link brackets or display text
+   */
+  private getMasterReference(master: string, variantPath: string): string {
+    const reference = master.trim().replace(/^\[\[|\]\]$/g, '').split('|')[0];
+    if (!/^\.\.?\//.test(reference)) {
+      return normalizePath(reference);
+    }
+
+    const segments = variantPath.split('/').slice(0, -1);
+    reference.split('/').forEach(segment => {
+      if (segment === '..') {
+        segments.pop();
+      } else if (segment !== '.' && segment !== '') {
+        segments.push(segment);
+      }
+    });
+    return normalizePath(segments.join('/'));
+  }
+
+  /**
+   * Read the body of a CV file without its frontmatter
+   * @param file The CV file
+   * @returns The body
+   */
+  private async readBody(file: TFile): Promise<string> {
+    const fileContent = await this.vault.read(file);
+    const frontmatterMatch = fileContent.match(FRONTMATTER_REGEX);
+    return (frontmatterMatch ? fileContent.slice(frontmatterMatch[0].length) : fileContent).trim();
+  }
+
+  /**
+   * Get the snapshots of a CV
+   * @param filePath The CV file path
+   * @returns The snapshots, newest first
+   */
+  async getSnapshots(filePath: string): Promise<CVSnapshot[]> {
+    const historyPath = this.getHistoryPath(filePath);
+
+    try {
+      if (!(await this.vault.adapter.exists(historyPath))) {
+        return [];
+      }
+      const snapshots = JSON.parse(await this.vault.adapter.read(historyPath)) as CVSnapshot[];
+      return snapshots.sort((a, b) => b.createdAt - a.createdAt);
+    } catch (error) {
+      console.error(`Failed to read snapshots of ${filePath}: ${error}`);
+      new Notice(`Failed to read snapshots of ${filePath}: ${error}`);
+      return [];
+    }
+  }
+
+  /**
+   * Save a named snapshot of a CV
+   * @param document The CV document to snapshot
+   * @param name The snapshot name, e.g. 'Sent to Acme 2026-09'
+   * @returns The snapshot
+   */
+  async createSnapshot(document: CVDocument, name: string): Promise<CVSnapshot> {
+    const snapshot: CVSnapshot = {
+      id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+      name,
+      createdAt: Date.now(),
+      content: document.content,
+      metadata: { ...document.metadata }
+    };
+
+    await this.writeSnapshots(document.path, [snapshot, ...(await this.getSnapshots(document.path))]);
+    return snapshot;
+  }
+
+  /**
+   * Delete a snapshot of a CV
+   * @param filePath The CV file path
+   * @param id The snapshot ID
+   */
+  async deleteSnapshot(filePath: string, id: string): Promise<void> {
+    const snapshots = await this.getSnapshots(filePath);
+    await this.writeSnapshots(filePath, snapshots.filter(snapshot => snapshot.id !== id));
+  }
+
+  /**
+   * Move a CV's snapshots after the CV was renamed or moved
+   * @param oldPath The previous CV file path
+   * @param newPath The new CV file path
+   */
+  async moveSnapshots(oldPath: string, newPath: string): Promise<void> {
+    const oldHistoryPath = this.getHistoryPath(oldPath);
+
+    try {
+      if (await this.vault.adapter.exists(oldHistoryPath)) {
+        await this.vault.adapter.rename(oldHistoryPath, this.getHistoryPath(newPath));
+      }
+    } catch (error) {
+      console.error(`Failed to move snapshots of ${oldPath}: ${error}`);
+    }
+  }
+
+  /**
+   * Write the snapshots of a CV
+   * @param filePath The CV file path
+   * @param snapshots The snapshots
+   */
+  private async writeSnapshots(filePath: string, snapshots: CVSnapshot[]): Promise<void> {
+    try {
+      await this.vault.adapter.write(this.getHistoryPath(filePath), JSON.stringify(snapshots, null, 2));
+    } catch (error) {
+      console.error(`Failed to save snapshots of ${filePath}: ${error}`);
+      new Notice(`Failed to save snapshots of ${filePath}: ${error}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the path of the file holding a CV's snapshots
+   * @param filePath The CV file path
+   * @returns The history file path, next to the CV
+   */
+  private getHistoryPath(filePath: string): string {
+    const base = filePath.endsWith(CV_FILE_EXTENSION)
+      ? filePath.slice(0, -CV_FILE_EXTENSION.length)
+      : filePath.replace(/\.md$/, '');
+    return `${base}${CV_HISTORY_EXTENSION}`;
+  }
+
+  /**
+   * Store unsaved changes to a CV as a crash-recovery draft
+   * Drafts live in the plugin's folder, outside the vault's notes
+   * @param document The CV document with the editor's content
+   */
+  async saveDraft(document: CVDocument): Promise<void> {
+    const draft: CVDraft = {
+      path: document.path,
+      content: document.content,
+      metadata: document.metadata,
+      savedAt: Date.now()
+    };
+
+    try {
+      const folder = this.getDraftsFolder();
+      if (!(await this.vault.adapter.exists(folder))) {
+        await this.vault.adapter.mkdir(folder);
+      }
+      await this.vault.adapter.write(this.getDraftPath(document.path), JSON.stringify(draft));
+    } catch (error) {
+      console.error(`Failed to save draft for ${document.path}: ${error}`);
+    }
+  }
+
+  /**
+   * Get the crash-recovery draft for a CV
+   * @param filePath The CV file path
+   * @returns The draft, or null if there is none
+   */
+  async loadDraft(filePath: string): Promise<CVDraft | null> {
+    const draftPath = this.getDraftPath(filePath);
+
+    try {
+      if (!(await this.vault.adapter.exists(draftPath))) {
+        return null;
+      }
+      return JSON.parse(await this.vault.adapter.read(draftPath)) as CVDraft;
+    } catch (error) {
+      console.error(`Failed to read draft for ${filePath}: ${error}`);
+      return null;
+    }
+  }
+
+  /**
+   * Delete the crash-recovery draft for a CV
+   * @param filePath The CV file path
+   */
+  async clearDraft(filePath: string): Promise<void> {
+    const draftPath = this.getDraftPath(filePath);
+
+    try {
+      if (await this.vault.adapter.exists(draftPath)) {
+        await this.vault.adapter.remove(draftPath);
+      }
+    } catch (error) {
+      console.error(`Failed to delete draft for ${filePath}: ${error}`);
+    }
+  }
+
+  /**
+   * Move a CV's crash-recovery draft after the CV was renamed or moved
+   * @param oldPath The previous CV file path
+   * @param newPath The new CV file path
+   */
+  async moveDraft(oldPath: string, newPath: string): Promise<void> {
+    const draft = await this.loadDraft(oldPath);
+    if (!draft) {
+      return;
+    }
+
+    try {
+      await this.vault.adapter.write(this.getDraftPath(newPath), JSON.stringify({ ...draft, path: newPath }));
+      await this.clearDraft(oldPath);
+    } catch (error) {
+      console.error(`Failed to move draft for ${oldPath}: ${error}`);
+    }
+  }
+
+  /**
+   * Get the folder that holds crash-recovery drafts
+   * @returns The folder path, relative to the vault
+   */
+  private getDraftsFolder(): string {
+    return normalizePath(`${this.vault.configDir}/plugins/${this.plugin.manifest.id}/${DRAFTS_FOLDER}`);
+  }
+
+  /**
+   * Get the draft file path for a CV
+   * @param filePath The CV file path
+   * @returns The draft file path
+   */
+  private getDraftPath(filePath: string): string {
+    return `${this.getDraftsFolder()}/${encodeURIComponent(filePath)}.json`;
+  }
 }
@@ -0,0 +1,153 @@
+/**
+ * Template library service for the Oh My CV plugin
+ * Loads templates from Markdown files in a vault folder and keeps them in step with the folder
+ */
+
+import { TAbstractFile, TFile, Notice, Vault, Plugin, normalizePath } from 'obsidian';
+import { CVTemplate } from '../core/types';
+import { TEMPLATES_FOLDER_RELOAD_DELAY } from '../core/constants';
+import { DEFAULT_TEMPLATES, validateTemplate } from '../core/templates';
+import { parseTemplateFile, serializeTemplateFile } from '../core/template-files';
+import { joinVaultPath, normalizeFolderPath } from '../core/export-path';
+import type { SettingsService } from './settings-service';
+
+// Use type declaration to avoid circular dependencies
+declare class OhMyCVPlugin extends Plugin {
+  settings: SettingsService;
+}
+
+/**
+ * Service for the templates kept as files in the vault
+ */
+export class TemplateLibraryService {
+  private plugin: OhMyCVPlugin;
+  private vault: Vault;
+  private reloadTimer: number | null = null;
+
+  // Problems already reported for each invalid file, so saving it again does not repeat the notice
+  private reportedProblems = new Map<string, string>();
+
+  /**
+   * Create a new template library service
+   * @param plugin The Oh My CV plugin instance
+   */
+  constructor(plugin: OhMyCVPlugin) {
+    this.plugin = plugin;
+    this.vault = plugin.app.vault;
+  }
+
+  /**
+   * Get the templates folder from the settings
+   * @returns The folder path, or '' when no folder is set
+   */
+  getFolder(): string {
+    return normalizeFolderPath(this.plugin.settings.getSettings().templatesFolder || '');
+  }
+
+  /**
+   * Check whether a path is a template file
+   * @param path The vault path
+   * @returns True for Markdown files inside the templates folder
+   */
+  isTemplatePath(path: string): boolean {
+    const folder = this.getFolder();
+    return folder !== '' && path.startsWith(`${folder}/`) && path.toLowerCase().endsWith('.md');
+  }
+
+  /**
+   * Reload the templates when files in the templates folder are added, changed, removed or moved
+   */
+  registerEvents(): void {
+    const onChange = (file: TAbstractFile, oldPath?: string) => {
+      if (this.isTemplatePath(file.path) || (oldPath && this.isTemplatePath(oldPath))) {
+        this.scheduleReload();
+      }
+    };
+
+    this.plugin.registerEvent(this.vault.on('create', file => onChange(file)));
+    this.plugin.registerEvent(this.vault.on('modify', file => onChange(file)));
+    this.plugin.registerEvent(this.vault.on('delete', file => onChange(file)));
+    this.plugin.registerEvent(this.vault.on('rename', (file, oldPath) => onChange(file, oldPath)));
+    this.plugin.register(() => {
+      if (this.reloadTimer !== null) {
+        window.clearTimeout(this.reloadTimer);
+      }
+    });
+  }
+
+  /**
+   * Queue a reload, restarting its timer so a burst of changes reloads once
+   */
+  scheduleReload(): void {
+    if (this.reloadTimer !== null) {
+      window.clearTimeout(this.reloadTimer);
+    }
+    this.reloadTimer = window.setTimeout(() => {
+      this.reloadTimer = null;
+      this.reload();
+    }, TEMPLATES_FOLDER_RELOAD_DELAY);
+  }
+
+  /**
+   * Read every template file and pass the valid templates to the settings service
+   * Files that cannot be read or whose template is invalid are skipped and reported
+   */
+  async reload(): Promise<void> {
+    const files = this.vault.getMarkdownFiles()
+      .filter(file => this.isTemplatePath(file.path))
+      .sort((a, b) => a.path.localeCompare(b.path));
+
+    // Built-in and settings templates win over files that reuse their IDs or names
+    const others: CVTemplate[] = [...DEFAULT_TEMPLATES, ...this.plugin.settings.getUserTemplates()];
+    const templates: CVTemplate[] = [];
+    const problems = new Map<string, string>();
+
+    for (const file of files) {
+      try {
+        const template = parseTemplateFile(file.path, await this.vault.cachedRead(file));
+        const errors = validateTemplate(template, [...others, ...templates]);
+        if (errors.length > 0) {
+          problems.set(file.path, errors.join('; '));
+        } else {
+          templates.push(template);
+        }
+      } catch (error) {
+        problems.set(file.path, `${error instanceof Error ? error.message : error}`);
+      }
+    }
+
+    this.plugin.settings.setLibraryTemplates(templates);
+
+    problems.forEach((problem, path) => {
+      if (this.reportedProblems.get(path) !== problem) {
+        console.error(`Skipped template file ${path}: ${problem}`);
+        new Notice(`Skipped template file ${path}: ${problem}`);
+      }
+    });
+    this.reportedProblems = problems;
+  }
+
+  /**
+   * Write a template to a new file in the templates folder
+   * @param template The template
+   * @returns The created file
+   */
+  async saveTemplate(template: CVTemplate): Promise<TFile> {
+    const folder = this.getFolder();
+    if (!folder) {
+      throw new Error('No templates folder is set');
+    }
+    if (!this.vault.getAbstractFileByPath(folder)) {
+      await this.vault.createFolder(folder);
+    }
+
+    // Keep the name readable, adding a number when the file exists
+    const basename = template.name.replace(/[\\/:*?"<>|#^[\]]/g, '').trim() || template.id;
+    let path = normalizePath(joinVaultPath(folder, `${basename}.md`));
+    for (let version = 2; this.vault.getAbstractFileByPath(path); version++) {
+      path = normalizePath(joinVaultPath(folder, `${basename} ${version}.md`));
+    }
+
+    return await this.vault.create(path, serializeTemplateFile(template));
+  }
+}
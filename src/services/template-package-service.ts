@@ -0,0 +1,159 @@
+/**
+ * Template package service for the Oh My CV plugin
+ * Exports templates to a shareable file in the vault and imports them back
+ */
+
+import { Notice, TFile, Plugin } from 'obsidian';
+import JSZip from 'jszip';
+import { CVTemplate, TemplateCollisionPolicy, TemplatePackage, TemplatePackageFormat } from '../core/types';
+import {
+  TemplateImportPlan,
+  createTemplatePackage,
+  filesToTemplatePackage,
+  findTemplateCollisions,
+  isBinaryPackageFile,
+  parseTemplatePackage,
+  planTemplateImport,
+  templatePackageToFiles
+} from '../core/template-package';
+import { getVersionedPath, joinVaultPath, normalizeFolderPath } from '../core/export-path';
+import { TemplateExportModal, TemplateImportModal } from '../ui/template-package-modal';
+import { JsonFileSuggestModal } from '../ui/import-modal';
+import type { SettingsService } from './settings-service';
+
+// Use type declaration to avoid circular dependencies
+declare class OhMyCVPlugin extends Plugin {
+  settings: SettingsService;
+}
+
+/**
+ * Service for sharing templates as package files
+ */
+export class TemplatePackageService {
+  private plugin: OhMyCVPlugin;
+
+  /**
+   * Create a new template package service
+   * @param plugin The Oh My CV plugin instance
+   */
+  constructor(plugin: OhMyCVPlugin) {
+    this.plugin = plugin;
+  }
+
+  /**
+   * Write templates to a package file in the export folder
+   * @param templates The templates to share
+   * @param format The package's file type
+   * @returns The vault path of the package
+   */
+  async exportTemplates(templates: CVTemplate[], format: TemplatePackageFormat): Promise<string> {
+    const vault = this.plugin.app.vault;
+    const templatePackage = createTemplatePackage(templates);
+
+    // The export folder, or the vault root when exports go next to each CV
+    const folder = normalizeFolderPath(this.plugin.settings.getSettings().exportFolder || '');
+    if (folder && !vault.getAbstractFileByPath(folder)) {
+      await vault.createFolder(folder);
+    }
+
+    const name = templates.length === 1 ? templates[0].name.replace(/[\\/:*?"<>|#^[\]]/g, '').trim() || 'CV Template' : 'CV Templates';
+    const path = await getVersionedPath(joinVaultPath(folder, `${name}.${format}`), candidate => vault.adapter.exists(candidate));
+
+    if (format === 'zip') {
+      const zip = new JSZip();
+      Object.entries(templatePackageToFiles(templatePackage)).forEach(([filePath, data]) => {
+        zip.file(filePath, data, { base64: isBinaryPackageFile(filePath) });
+      });
+      await vault.adapter.writeBinary(path, await zip.generateAsync({ type: 'arraybuffer' }));
+    } else {
+      await vault.adapter.write(path, JSON.stringify(templatePackage, null, 2));
+    }
+
+    return path;
+  }
+
+  /**
+   * Read a package file
+   * @param file The .json or .zip file in the vault
+   * @returns The package
+   * @throws If the file is not a valid package
+   */
+  async readPackage(file: TFile): Promise<TemplatePackage> {
+    const vault = this.plugin.app.vault;
+
+    if (file.extension === 'zip') {
+      const zip = await JSZip.loadAsync(await vault.readBinary(file));
+      const files: Record<string, string> = {};
+      for (const entry of Object.values(zip.files)) {
+        if (!entry.dir) {
+          files[entry.name] = await entry.async(isBinaryPackageFile(entry.name) ? 'base64' : 'string');
+        }
+      }
+      return filesToTemplatePackage(files);
+    }
+
+    return parseTemplatePackage(JSON.parse(await vault.read(file)));
+  }
+
+  /**
+   * Add a package's templates to the user templates
+   * @param templatePackage The package
+   * @param policy What to do with templates whose ID or name is taken
+   * @returns The templates added, replaced and skipped
+   */
+  async importPackage(templatePackage: TemplatePackage, policy: TemplateCollisionPolicy): Promise<TemplateImportPlan> {
+    const settings = this.plugin.settings;
+    const replaceableIds = settings.getUserTemplates().map(template => template.id);
+    const plan = planTemplateImport(templatePackage.templates, settings.getTemplates(), replaceableIds, policy);
+
+    // Adding a template with an existing ID replaces it
+    await settings.addTemplates([...plan.added, ...plan.replaced]);
+    for (const font of templatePackage.fonts) {
+      await settings.addRecentlyUsedFont(font);
+    }
+
+    return plan;
+  }
+
+  /**
+   * Ask which templates to export, then export them
+   * @param selectedIds IDs of the templates selected at first
+   */
+  async promptExport(selectedIds: string[]): Promise<void> {
+    const choice = await new TemplateExportModal(this.plugin.app, this.plugin.settings.getTemplates(), selectedIds).prompt();
+    if (!choice) return;
+
+    try {
+      const path = await this.exportTemplates(choice.templates, choice.format);
+      new Notice(`Templates exported to ${path}`);
+    } catch (error) {
+      console.error('Template export error:', error);
+      new Notice(`Template export failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Ask for a package file and how to handle taken IDs and names, then import it
+   * @param onImported Called once templates have been imported
+   */
+  promptImport(onImported: () => void): void {
+    new JsonFileSuggestModal(this.plugin.app, async (file) => {
+      try {
+        const templatePackage = await this.readPackage(file);
+        const collisions = findTemplateCollisions(templatePackage.templates, this.plugin.settings.getTemplates());
+        const policy = await new TemplateImportModal(this.plugin.app, templatePackage, collisions).prompt();
+        if (!policy) return;
+
+        const plan = await this.importPackage(templatePackage, policy);
+        const imported = plan.added.length + plan.replaced.length;
+        new Notice(`Imported ${imported} ${imported === 1 ? 'template' : 'templates'}${plan.skipped.length > 0 ? `, skipped ${plan.skipped.length}` : ''}`);
+        if (imported > 0) {
+          onImported();
+        }
+      } catch (error) {
+        console.error('Template import error:', error);
+        new Notice(`Template import failed: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }, 'Choose a template package to import', ['json', 'zip']).open();
+  }
+}
@@ -0,0 +1,192 @@
+/**
+ * Vector PDF service for the Oh My CV plugin
+ * Prints the rendered CV through Chromium so the PDF keeps real text, fonts and links
+ */
+
+import type { BrowserWindow, Remote } from 'electron';
+import { PDFExportOptions } from '../core/types';
+import { buildPageRule } from '../core/pagination';
+
+/**
+ * Node's module loader, which the desktop app puts on the window
+ * Only the modules and members the print window needs are described
+ */
+interface NodeRequire {
+  (module: 'electron'): { remote?: Remote };
+  (module: '@electron/remote'): Remote;
+  (module: 'fs'): { promises: { writeFile(path: string, data: string): Promise<void>; unlink(path: string): Promise<void> } };
+  (module: 'os'): { tmpdir(): string };
+  (module: 'path'): { join(...paths: string[]): string };
+}
+
+/**
+ * Service for generating text-based (non-rasterized) PDFs
+ */
+export class VectorPDFService {
+  /**
+   * Check whether the vector backend can run in this environment
+   * It needs Electron's remote module, which mobile and some desktop versions do not provide
+   */
+  isAvailable(): boolean {
+    return this.getRemote() !== null;
+  }
+
+  /**
+   * Render an element to a PDF
+   * @param element The styled element containing the CV content
+   * @param options Export options (page size, orientation and margins are used)
+   * @returns The PDF file contents
+   */
+  async renderToPDF(element: HTMLElement, options: PDFExportOptions): Promise<ArrayBuffer> {
+    const remote = this.getRemote();
+    const loader = this.getNodeRequire();
+    if (!remote || !loader) {
+      throw new Error('Vector PDF export requires the desktop app');
+    }
+
+    const printWindow: BrowserWindow = new remote.BrowserWindow({
+      show: false,
+      webPreferences: {
+        javascript: true,
+        nodeIntegration: false,
+        contextIsolation: true
+      }
+    });
+
+    // The document goes through a temporary file: data: URLs are limited in length,
+    // which embedded fonts and images quickly exceed
+    const fs = loader('fs').promises;
+    const filePath = loader('path').join(
+      loader('os').tmpdir(),
+      `oh-my-cv-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}.html`
+    );
+
+    try {
+      await fs.writeFile(filePath, this.buildPrintDocument(element, options));
+      await printWindow.loadFile(filePath);
+
+      // Wait for web fonts so they are embedded instead of substituted
+      await printWindow.webContents.executeJavaScript('document.fonts.ready.then(() => true)');
+
+      const data = await printWindow.webContents.printToPDF({
+        printBackground: true,
+        preferCSSPageSize: true,
+        landscape: options.orientation === 'landscape'
+      });
+
+      return data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength) as ArrayBuffer;
+    } finally {
+      printWindow.destroy();
+      await fs.unlink(filePath).catch(error => console.error(`Could not delete ${filePath}:`, error));
+    }
+  }
+
+  /**
+   * Build a standalone HTML document for printing
+   * @param element The element containing the CV content
+   * @param options Export options
+   * @returns A complete HTML document
+   */
+  buildPrintDocument(element: HTMLElement, options: PDFExportOptions): string {
+    const pageCss = `
+      ${buildPageRule(options.pageSize, options.orientation, options.margins)}
+      html, body {
+        margin: 0;
+        padding: 0;
+        background: #fff;
+      }
+      a {
+        color: inherit;
+      }
+    `;
+
+    const title = options.filename.replace(/\.pdf$/i, '');
+
+    return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${this.escapeHtml(title)}</title>
+<style>${this.collectCVStyles()}</style>
+<style>${pageCss}</style>
+</head>
+<body>${element.outerHTML}</body>
+</html>`;
+  }
+
+  /**
+   * Collect the plugin's CSS rules (and font faces) from the loaded stylesheets
+   * The print window does not share Obsidian's document, so styles have to be copied
+   * @returns CSS text
+   */
+  collectCVStyles(): string {
+    const rules: string[] = [];
+
+    Array.from(document.styleSheets).forEach(sheet => {
+      let cssRules: CSSRuleList;
+      try {
+        cssRules = sheet.cssRules;
+      } catch (error) {
+        // Cross-origin stylesheets cannot be read
+        return;
+      }
+
+      Array.from(cssRules).forEach(rule => {
+        if (rule.cssText.includes('oh-my-cv') || rule.cssText.startsWith('@font-face')) {
+          rules.push(rule.cssText);
+        }
+      });
+    });
+
+    return rules.join('\n');
+  }
+
+  /**
+   * Get Electron's remote module if it is available
+   * Electron 14 dropped the built-in module; newer apps can only provide it as @electron/remote
+   * @returns The remote module or null
+   */
+  private getRemote(): Remote | null {
+    const loader = this.getNodeRequire();
+    if (!loader) {
+      return null;
+    }
+
+    const candidates: (() => Remote | undefined)[] = [
+      () => loader('@electron/remote'),
+      () => loader('electron').remote
+    ];
+    for (const load of candidates) {
+      try {
+        const remote = load();
+        if (typeof remote?.BrowserWindow === 'function') {
+          return remote;
+        }
+      } catch (error) {
+        // Not provided by this version of the app
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Get Node's module loader
+   * @returns The loader, or null outside the desktop app
+   */
+  private getNodeRequire(): NodeRequire | null {
+    const loader = (window as Window & { require?: NodeRequire }).require;
+    return typeof loader === 'function' ? loader : null;
+  }
+
+  /**
+   * Escape text for use in HTML
+   * @param text The text to escape
+   * @returns Escaped text
+   */
+  private escapeHtml(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;');
+  }
+}
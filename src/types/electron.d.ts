@@ -0,0 +1,33 @@
+declare module 'electron' {
+  interface PrintToPDFOptions {
+    landscape?: boolean;
+    printBackground?: boolean;
+    preferCSSPageSize?: boolean;
+  }
+
+  interface WebContents {
+    printToPDF(options: PrintToPDFOptions): Promise<Uint8Array>;
+    executeJavaScript(code: string): Promise<unknown>;
+  }
+
+  interface BrowserWindowConstructorOptions {
+    show?: boolean;
+    webPreferences?: {
+      javascript?: boolean;
+      nodeIntegration?: boolean;
+      contextIsolation?: boolean;
+    };
+  }
+
+  interface BrowserWindow {
+    webContents: WebContents;
+    loadFile(filePath: string): Promise<void>;
+    destroy(): void;
+  }
+
+  interface Remote {
+    BrowserWindow: new (options?: BrowserWindowConstructorOptions) => BrowserWindow;
+  }
+
+  export const remote: Remote | undefined;
+}
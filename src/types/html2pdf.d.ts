@@ -24,6 +24,7 @@ declare module 'html2pdf.js' {
     from(element: HTMLElement | string): Html2PdfInstance;
     save(): Promise<void>;
     toPdf(): Html2PdfInstance;
+    toCanvas(): Html2PdfInstance;
     get(type: string): any;
     output(type: string, options?: any): any;
     then(callback: Function): Html2PdfInstance;
@@ -0,0 +1,94 @@
+/**
+ * Choice prompt for the Oh My CV plugin
+ * Asks the user to pick one of a few actions, e.g. when a CV changed on disk
+ */
+
+import { App, ButtonComponent, Modal } from 'obsidian';
+
+/**
+ * An action offered by a choice modal
+ */
+export interface Choice<T extends string> {
+  /** Value passed back when the action is chosen */
+  value: T;
+
+  /** Button label */
+  label: string;
+
+  /** Whether this is the main action */
+  cta?: boolean;
+
+  /** Whether this action discards work */
+  warning?: boolean;
+}
+
+/**
+ * Modal with a message and one button per action
+ */
+export class ChoiceModal<T extends string> extends Modal {
+  private title: string;
+  private message: string;
+  private choices: Choice<T>[];
+  private resolve: (value: T | null) => void = () => undefined;
+  private chosen: T | null = null;
+
+  /**
+   * Create a new choice modal
+   * @param app The Obsidian app instance
+   * @param title The modal title
+   * @param message The question to ask
+   * @param choices The actions to offer
+   */
+  constructor(app: App, title: string, message: string, choices: Choice<T>[]) {
+    super(app);
+    this.title = title;
+    this.message = message;
+    this.choices = choices;
+  }
+
+  /**
+   * Open the modal and wait for the user's choice
+   * @returns The chosen value, or null if the modal was dismissed
+   */
+  choose(): Promise<T | null> {
+    return new Promise(resolve => {
+      this.resolve = resolve;
+      this.open();
+    });
+  }
+
+  /**
+   * Modal content
+   */
+  onOpen() {
+    const { contentEl } = this;
+
+    contentEl.createEl('h2', { text: this.title });
+    contentEl.createEl('p', { text: this.message });
+
+    const buttonsContainer = contentEl.createDiv({ cls: 'oh-my-cv-choice-buttons' });
+    this.choices.forEach(choice => {
+      const button = new ButtonComponent(buttonsContainer)
+        .setButtonText(choice.label)
+        .onClick(() => {
+          this.chosen = choice.value;
+          this.close();
+        });
+
+      if (choice.cta) {
+        button.setCta();
+      }
+      if (choice.warning) {
+        button.setWarning();
+      }
+    });
+  }
+
+  /**
+   * Clean up and report the choice when the modal is closed
+   */
+  onClose() {
+    this.contentEl.empty();
+    this.resolve(this.chosen);
+  }
+}
@@ -0,0 +1,304 @@
+/**
+ * CodeMirror extensions for the CV editor
+ * Highlights the plugin's custom commands, folds sections and provides the editing commands used by the toolbar
+ */
+
+import { EditorSelection, EditorState, Extension } from '@codemirror/state';
+import {
+  Decoration,
+  DecorationSet,
+  EditorView,
+  keymap,
+  MatchDecorator,
+  ViewPlugin,
+  ViewUpdate,
+  drawSelection,
+  highlightActiveLine,
+  lineNumbers
+} from '@codemirror/view';
+import { defaultKeymap, history, historyKeymap, indentWithTab } from '@codemirror/commands';
+import { codeFolding, foldable, foldedRanges, foldEffect, foldGutter, foldKeymap, foldService, unfoldEffect } from '@codemirror/language';
+
+/** Custom commands understood by the CV renderer */
+const CV_COMMANDS = ['cvtag', 'daterange', 'cvskill', 'newpage'];
+
+/** A custom command with its braced arguments, e.g. \daterange{2020}{Present} */
+const CV_COMMAND_PATTERN = new RegExp(`\\\\(${CV_COMMANDS.join('|')})\\b((?:\\{[^{}\\n]*\\})*)`, 'g');
+
+/** Markdown headings */
+const HEADING_PATTERN = /^(#{1,6}) .*$/gm;
+
+/** A heading line, for folding */
+const HEADING_LINE = /^(#{1,6})\s/;
+
+/**
+ * Options for the CV editor
+ */
+export interface CVEditorOptions {
+  /** Called when the document changes */
+  onChange: (content: string) => void;
+
+  /** Called when the user presses Mod-S */
+  onSave: () => void;
+
+  /** Whether the content cannot be edited (e.g. a variant showing its master's content) */
+  readOnly?: boolean;
+}
+
+/**
+ * Decorates custom commands: the command name and each argument get their own class
+ */
+const commandDecorator = new MatchDecorator({
+  regexp: CV_COMMAND_PATTERN,
+  decorate: (add, from, _to, match) => {
+    const nameEnd = from + match[1].length + 1;
+    add(from, nameEnd, Decoration.mark({ class: `oh-my-cv-cm-command oh-my-cv-cm-${match[1]}` }));
+
+    let argStart = nameEnd;
+    for (const arg of match[2].match(/\{[^{}\n]*\}/g) || []) {
+      add(argStart, argStart + arg.length, Decoration.mark({ class: 'oh-my-cv-cm-argument' }));
+      argStart += arg.length;
+    }
+  }
+});
+
+/**
+ * Decorates Markdown heading lines with their level
+ */
+const headingDecorator = new MatchDecorator({
+  regexp: HEADING_PATTERN,
+  decoration: match => Decoration.mark({ class: `oh-my-cv-cm-heading oh-my-cv-cm-heading-${match[1].length}` })
+});
+
+/**
+ * Create a view plugin that keeps a match decorator's decorations up to date
+ * @param decorator The match decorator
+ * @returns The view plugin
+ */
+function createDecoratorPlugin(decorator: MatchDecorator): Extension {
+  return ViewPlugin.fromClass(class {
+    decorations: DecorationSet;
+
+    /**
+     * Build the initial decorations
+     * @param view The editor view
+     */
+    constructor(view: EditorView) {
+      this.decorations = decorator.createDeco(view);
+    }
+
+    /**
+     * Update the decorations after a change
+     * @param update The view update
+     */
+    update(update: ViewUpdate) {
+      this.decorations = decorator.updateDeco(update, this.decorations);
+    }
+  }, {
+    decorations: plugin => plugin.decorations
+  });
+}
+
+/**
+ * Create the extensions for the CV editor
+ * @param options Editor callbacks
+ * @returns The extensions
+ */
+export function createCVEditorExtensions(options: CVEditorOptions): Extension[] {
+  return [
+    lineNumbers(),
+    history(),
+    drawSelection(),
+    highlightActiveLine(),
+    EditorView.lineWrapping,
+    EditorView.contentAttributes.of({ spellcheck: 'true', autocorrect: 'on', autocapitalize: 'on' }),
+    keymap.of([
+      { key: 'Mod-s', run: () => { options.onSave(); return true; }, preventDefault: true },
+      ...defaultKeymap,
+      ...historyKeymap,
+      ...foldKeymap,
+      indentWithTab
+    ]),
+    codeFolding(),
+    foldGutter(),
+    foldService.of(getHeadingFoldRange),
+    createDecoratorPlugin(commandDecorator),
+    createDecoratorPlugin(headingDecorator),
+    EditorView.updateListener.of(update => {
+      if (update.docChanged) {
+        options.onChange(update.state.doc.toString());
+      }
+    }),
+    EditorState.readOnly.of(options.readOnly === true),
+    EditorView.editable.of(options.readOnly !== true)
+  ];
+}
+
+/**
+ * Get the range a heading folds: everything up to the next heading of the same or a higher level
+ * Trailing blank lines stay visible so folded sections keep their spacing
+ * @param state The editor state
+ * @param lineStart Start of the line to fold at
+ * @returns The range after the heading line, or null if the line is not a heading with content
+ */
+function getHeadingFoldRange(state: EditorState, lineStart: number): { from: number; to: number } | null {
+  const { doc } = state;
+  const line = doc.lineAt(lineStart);
+  const heading = line.text.match(HEADING_LINE);
+  if (!heading) {
+    return null;
+  }
+
+  let end = line;
+  for (let number = line.number + 1; number <= doc.lines; number++) {
+    const next = doc.line(number);
+    const nextHeading = next.text.match(HEADING_LINE);
+    if (nextHeading && nextHeading[1].length <= heading[1].length) {
+      break;
+    }
+    if (next.text.trim()) {
+      end = next;
+    }
+  }
+
+  return end.number > line.number ? { from: line.to, to: end.to } : null;
+}
+
+/**
+ * Check whether the section under a heading is folded
+ * @param view The editor view
+ * @param lineNumber Zero-based line of the heading
+ * @returns True if folded
+ */
+export function isFoldedAtLine(view: EditorView, lineNumber: number): boolean {
+  if (lineNumber >= view.state.doc.lines) {
+    return false;
+  }
+
+  const line = view.state.doc.line(lineNumber + 1);
+  let folded = false;
+  foldedRanges(view.state).between(line.to, line.to + 1, from => {
+    if (from === line.to) {
+      folded = true;
+    }
+  });
+  return folded;
+}
+
+/**
+ * Fold or unfold the section under a heading
+ * @param view The editor view
+ * @param lineNumber Zero-based line of the heading
+ * @returns True if the section is now folded
+ */
+export function toggleFoldAtLine(view: EditorView, lineNumber: number): boolean {
+  if (lineNumber >= view.state.doc.lines) {
+    return false;
+  }
+
+  const line = view.state.doc.line(lineNumber + 1);
+  const range = foldable(view.state, line.from, line.to);
+  if (!range) {
+    return false;
+  }
+
+  const folded = isFoldedAtLine(view, lineNumber);
+  view.dispatch({ effects: folded ? unfoldEffect.of(range) : foldEffect.of(range) });
+  return !folded;
+}
+
+/**
+ * Put the cursor at the start of a line and scroll it into view
+ * @param view The editor view
+ * @param lineNumber Zero-based line
+ * @param position Where to scroll the line to: the top of the editor, or only as far as needed to show it
+ */
+export function revealLine(view: EditorView, lineNumber: number, position: 'start' | 'nearest' = 'start'): void {
+  const line = view.state.doc.line(Math.min(lineNumber + 1, view.state.doc.lines));
+  view.dispatch({
+    selection: EditorSelection.cursor(line.from),
+    effects: EditorView.scrollIntoView(line.from, { y: position })
+  });
+  view.focus();
+}
+
+/**
+ * Create the initial editor state
+ * @param content The document content
+ * @param options Editor callbacks
+ * @returns The editor state
+ */
+export function createCVEditorState(content: string, options: CVEditorOptions): EditorState {
+  return EditorState.create({ doc: content, extensions: createCVEditorExtensions(options) });
+}
+
+/**
+ * Wrap each selection in text, keeping the wrapped text selected
+ * @param view The editor view
+ * @param before Text to insert before the selection
+ * @param after Text to insert after the selection
+ */
+export function wrapSelection(view: EditorView, before: string, after: string): void {
+  view.dispatch(view.state.changeByRange(range => ({
+    changes: [{ from: range.from, insert: before }, { from: range.to, insert: after }],
+    range: EditorSelection.range(range.from + before.length, range.to + before.length)
+  })), { scrollIntoView: true, userEvent: 'input' });
+  view.focus();
+}
+
+/**
+ * Add a prefix (e.g. '## ' or '- ') to the start of every selected line
+ * Lines that already start with the prefix are left unchanged
+ * @param view The editor view
+ * @param prefix The line prefix
+ * @param replace Pattern for an existing prefix to replace, e.g. another heading level
+ */
+export function prefixSelectedLines(view: EditorView, prefix: string, replace?: RegExp): void {
+  const { state } = view;
+  const changes: { from: number; to: number; insert: string }[] = [];
+  const seen = new Set<number>();
+
+  state.selection.ranges.forEach(range => {
+    for (let pos = range.from; pos <= range.to;) {
+      const line = state.doc.lineAt(pos);
+      if (!seen.has(line.number) && !line.text.startsWith(prefix)) {
+        const existing = replace ? line.text.match(replace) : null;
+        changes.push({ from: line.from, to: line.from + (existing && existing.index === 0 ? existing[0].length : 0), insert: prefix });
+      }
+      seen.add(line.number);
+      pos = line.to + 1;
+    }
+  });
+
+  view.dispatch({ changes, scrollIntoView: true, userEvent: 'input' });
+  view.focus();
+}
+
+/**
+ * Insert a block of text on its own line at the cursor, replacing the selection
+ * @param view The editor view
+ * @param text The text to insert
+ */
+export function insertBlock(view: EditorView, text: string): void {
+  view.dispatch(view.state.changeByRange(range => {
+    const line = view.state.doc.lineAt(range.from);
+    const insert = (range.from > line.from ? '\n' : '') + text;
+    return {
+      changes: { from: range.from, to: range.to, insert },
+      range: EditorSelection.cursor(range.from + insert.length)
+    };
+  }), { scrollIntoView: true, userEvent: 'input' });
+  view.focus();
+}
+
+/**
+ * Replace the whole document
+ * @param view The editor view
+ * @param content The new content
+ */
+export function setEditorContent(view: EditorView, content: string): void {
+  view.dispatch({
+    changes: { from: 0, to: view.state.doc.length, insert: content },
+    selection: EditorSelection.cursor(0)
+  });
+}
@@ -3,19 +3,59 @@
  * Implements a dedicated Obsidian view for CV editing
  */
 
-import { ItemView, WorkspaceLeaf, TFile, Editor, MarkdownView, setIcon, Notice, ButtonComponent } from 'obsidian';
-import { CV_EDITOR_VIEW_TYPE, PLUGIN_NAME } from '../core/constants';
-import { getTemplateById } from '../core/templates';
+import { ItemView, WorkspaceLeaf, TFile, TAbstractFile, Editor, MarkdownView, Menu, setIcon, Notice, ButtonComponent, ViewStateResult } from 'obsidian';
+import { EditorView } from '@codemirror/view';
+import { CV_EDITOR_VIEW_TYPE, DRAFT_SAVE_DELAY, PLUGIN_NAME, PREVIEW_RENDER_BUDGET, PREVIEW_RENDER_DELAY } from '../core/constants';
 import { TemplateManager, TemplateSelector } from './template-manager';
-import { CVDocument } from '../core/types';
+import { CVDocument, CVEditorViewState, CVMetadata, CVSection, CVSnapshot, CVTemplate, CVTemplateStyle, PDFExportOptions, TemplateApplyMode } from '../core/types';
 import { getPluginInstance } from '../core/plugin-instance';
 import { MarkdownService } from '../services/markdown-service';
 import { ExportService } from '../services/export-service';
+import { toATSPlainText } from '../core/ats-text';
+import { Choice, ChoiceModal } from './choice-modal';
+import { HistoryPanel, HistoryPanelHost } from './history-panel';
+import { OutlinePanel, OutlinePanelHost } from './outline-panel';
+import { StylePanel, StylePanelHost } from './style-panel';
+import {
+  createCVEditorState,
+  CVEditorOptions,
+  insertBlock,
+  isFoldedAtLine,
+  prefixSelectedLines,
+  revealLine,
+  setEditorContent,
+  toggleFoldAtLine,
+  wrapSelection
+} from './cv-editor-extensions';
+import { VariantModal } from './variant-modal';
+import { SaveTemplateModal } from './save-template-modal';
+import { metadataToTemplateStyle, templateStyleToMetadata } from '../core/templates';
+import { getVariantTags } from '../core/variants';
+import { blankPersonalDetails, getCVModel, moveSection, validateCV } from '../core/cv-model';
+
+/** Existing heading marker, replaced when a heading level is applied */
+const HEADING_PREFIX = /^#{1,6} /;
+
+/**
+ * Read a view state the workspace hands back, which may have been saved by another plugin version
+ * @param state The view state
+ * @returns The fields that have the expected types
+ */
+function readViewState(state: unknown): CVEditorViewState {
+  if (typeof state !== 'object' || state === null) {
+    return {};
+  }
+  const { file, isSidePanel } = state as Record<string, unknown>;
+  return {
+    file: typeof file === 'string' ? file : undefined,
+    isSidePanel: typeof isSidePanel === 'boolean' ? isSidePanel : undefined
+  };
+}
 
 /**
  * Dedicated view for editing CVs with split layout
  */
-export class CVEditorView extends ItemView {
+export class CVEditorView extends ItemView implements HistoryPanelHost, OutlinePanelHost, StylePanelHost {
   // Services and plugin reference
   private markdownService: MarkdownService;
   private exportService: ExportService;
@@ -23,14 +63,46 @@ export class CVEditorView extends ItemView {
   // UI Components
   // ItemView already has contentEl, so we don't need to redeclare it
   private mainContainerEl: HTMLElement;
-  private editorEl: HTMLTextAreaElement;
+  private editor: EditorView;
   private previewEl: HTMLElement;
+  private atsPreviewEl: HTMLElement;
+  private atsToggleEl: HTMLElement;
   private toolbarEl: HTMLElement;
+  private templateSelectorEl: HTMLElement;
+  private templateSelector: TemplateSelector;
+  private templateSelectEl: HTMLSelectElement;
+  private variantBannerEl: HTMLElement;
   private statusBarEl: HTMLElement;
+  private historyContainerEl: HTMLElement;
+  private historyPanel: HistoryPanel;
+  private outlineContainerEl: HTMLElement;
+  private outlinePanel: OutlinePanel;
+  private styleContainerEl: HTMLElement;
+  private stylePanel: StylePanel;
 
   // Document state
   private currentDocument: CVDocument | null = null;
   private unsavedChanges: boolean = false;
+  private showATSPreview = false;
+  private showHistory = false;
+  private showOutline = false;
+  private showStyle = false;
+
+  // The document as last loaded or saved, to tell external edits from our own saves
+  private savedSnapshot = '';
+  private conflictPromptOpen = false;
+
+  // Pending autosave and draft writes
+  private autosaveTimer: number | null = null;
+  private draftTimer: number | null = null;
+
+  // Pending preview render, and how long the last one took (ms)
+  private previewTimer: number | null = null;
+  private lastRenderTime: number | null = null;
+
+  // Scroll positions set by scroll sync, so the scroll events they cause are not synced back
+  private editorScrollTarget: number | null = null;
+  private previewScrollTarget: number | null = null;
 
   /**
    * Create a new CV editor view
@@ -68,6 +140,59 @@ export class CVEditorView extends ItemView {
     return 'file-text';
   }
 
+  /**
+   * Get the view state, so the workspace can restore the open CV
+   * @returns The view state
+   */
+  getState(): Record<string, unknown> {
+    return { ...super.getState(), file: this.currentDocument?.path };
+  }
+
+  /**
+   * Restore the view state, loading the CV file it names
+   * @param state The view state
+   * @param result The state result
+   */
+  async setState(state: unknown, result: ViewStateResult): Promise<void> {
+    const { file } = readViewState(state);
+    if (file !== undefined && file !== this.currentDocument?.path) {
+      try {
+        if (await this.resolveUnsavedChanges(true)) {
+          this.showDocument(await getPluginInstance().storage.loadCV(file));
+          await this.offerDraftRecovery();
+        }
+      } catch (error) {
+        console.error('Error loading CV file:', error);
+      }
+    }
+    await super.setState(state, result);
+  }
+
+  /**
+   * Add view actions to the pane menu
+   * @param menu The menu
+   * @param source Where the menu was opened from
+   */
+  onPaneMenu(menu: Menu, source: string): void {
+    super.onPaneMenu(menu, source);
+
+    const path = this.currentDocument?.path;
+    if (path) {
+      menu.addItem(item => item
+        .setTitle('Open as Markdown')
+        .setIcon('file-code')
+        .onClick(() => getPluginInstance().openAsMarkdown(this.leaf, path)));
+      menu.addItem(item => item
+        .setTitle('Create variant')
+        .setIcon('git-branch')
+        .onClick(() => this.createVariant()));
+      menu.addItem(item => item
+        .setTitle('Save as template')
+        .setIcon('layout-template')
+        .onClick(() => this.saveAsTemplate()));
+    }
+  }
+
   /**
    * Initialize the view when it's opened
    */
@@ -79,8 +204,7 @@ export class CVEditorView extends ItemView {
       this.mainContainerEl = this.contentEl;
       
       // Get side panel mode from view state
-      const state = this.getState();
-      const isSidePanel = state?.isSidePanel === true;
+      const isSidePanel = readViewState(this.getState()).isSidePanel === true;
       
       // Apply side panel specific styling if needed
       if (isSidePanel) {
@@ -95,9 +219,13 @@ export class CVEditorView extends ItemView {
       
       // Create the status bar
       this.createStatusBar();
-      
-      // Register events
-      this.registerEvents();
+
+      // Keep the view in sync with its file
+      this.registerEvent(this.app.vault.on('modify', (file) => this.onFileModified(file)));
+      this.registerEvent(this.app.vault.on('rename', (file, oldPath) => this.onFileRenamed(file, oldPath)));
+
+      // Offer templates as soon as they are saved, imported or reloaded from the templates folder
+      this.register(getPluginInstance().settings.onTemplatesChanged(() => this.refreshTemplateSelectors()));
       
       // Load CSS styles to ensure proper rendering
       this.loadStyles();
@@ -111,13 +239,16 @@ export class CVEditorView extends ItemView {
    * Clean up when the view is closed
    */
   async onClose(): Promise<void> {
-    // Prompt to save if there are unsaved changes
-    if (this.unsavedChanges) {
-      // In a real implementation, we would show a dialog here
-      console.log('There are unsaved changes.');
+    // Save or discard unsaved changes; the view cannot stay open, so dismissing keeps them as a draft
+    await this.resolveUnsavedChanges(false);
+    this.clearTimers();
+    if (this.previewTimer !== null) {
+      window.clearTimeout(this.previewTimer);
+      this.previewTimer = null;
     }
     
     // Clear the content
+    this.editor?.destroy();
     this.contentEl.empty();
   }
   
@@ -239,11 +370,45 @@ export class CVEditorView extends ItemView {
       .setClass('oh-my-cv-button')
       .setClass('oh-my-cv-template-button')
       .onClick(() => {
-        new TemplateManager((template) => {
-          this.applyTemplate(template.id);
+        new TemplateManager((template, mode) => {
+          this.applyTemplate(template.id, mode);
         }).open();
       });
     
+    // Save as template button
+    const saveTemplateButton = buttonsEl.createEl('button', {
+      cls: 'oh-my-cv-button oh-my-cv-save-template-button',
+      text: 'Save as Template',
+    });
+    saveTemplateButton.addEventListener('click', () => this.saveAsTemplate());
+    
+    // Outline button
+    const outlineButton = buttonsEl.createEl('button', {
+      cls: 'oh-my-cv-button oh-my-cv-outline-button',
+      text: 'Outline',
+    });
+    outlineButton.addEventListener('click', () => {
+      outlineButton.toggleClass('is-active', this.toggleOutlinePanel());
+    });
+    
+    // Style button
+    const styleButton = buttonsEl.createEl('button', {
+      cls: 'oh-my-cv-button oh-my-cv-style-button',
+      text: 'Style',
+    });
+    styleButton.addEventListener('click', () => {
+      styleButton.toggleClass('is-active', this.toggleStylePanel());
+    });
+    
+    // History button
+    const historyButton = buttonsEl.createEl('button', {
+      cls: 'oh-my-cv-button oh-my-cv-history-button',
+      text: 'History',
+    });
+    historyButton.addEventListener('click', () => {
+      historyButton.toggleClass('is-active', this.toggleHistoryPanel());
+    });
+    
     // Save button
     const saveButton = buttonsEl.createEl('button', {
       cls: 'oh-my-cv-button oh-my-cv-save-button',
@@ -254,9 +419,9 @@ export class CVEditorView extends ItemView {
     // Export button
     const exportButton = buttonsEl.createEl('button', {
       cls: 'oh-my-cv-button oh-my-cv-export-button',
-      text: 'Export PDF',
+      text: 'Export',
     });
-    exportButton.addEventListener('click', () => this.exportToPDF());
+    exportButton.addEventListener('click', () => this.showExportDialog());
     
     // Settings button
     const settingsButton = buttonsEl.createEl('button', {
@@ -277,6 +442,11 @@ export class CVEditorView extends ItemView {
       mainContentEl.addClass('oh-my-cv-side-panel-content');
     }
     
+    // Section outline, hidden until opened from the header
+    this.outlineContainerEl = mainContentEl.createDiv({ cls: 'oh-my-cv-outline-container' });
+    this.outlinePanel = new OutlinePanel(this.outlineContainerEl, this);
+    this.outlineContainerEl.hide();
+    
     // Create editor container
     const editorContainerEl = mainContentEl.createDiv({ cls: 'oh-my-cv-editor-container' });
     editorContainerEl.createEl('h3', { text: 'Markdown Editor' });
@@ -286,10 +456,15 @@ export class CVEditorView extends ItemView {
       editorContainerEl.addClass('oh-my-cv-side-panel-editor');
     }
     
+    // Shown instead of the editing tools when the CV is a variant of a master
+    this.variantBannerEl = editorContainerEl.createDiv({ cls: 'oh-my-cv-variant-banner' });
+    this.variantBannerEl.hide();
+
     // Editor area
-    this.editorEl = editorContainerEl.createEl('textarea', { 
-      cls: 'oh-my-cv-editor',
-      attr: { spellcheck: 'true' } 
+    const editorEl = editorContainerEl.createDiv({ cls: 'oh-my-cv-editor' });
+    this.editor = new EditorView({
+      state: createCVEditorState('', this.getEditorOptions()),
+      parent: editorEl
     });
     
     // Add template selector - in side panel, make it more compact
@@ -299,9 +474,10 @@ export class CVEditorView extends ItemView {
         'oh-my-cv-template-selector-wrapper'
     });
     
-    new TemplateSelector(templateSelectorContainer, (template) => {
-      this.applyTemplate(template.id);
+    this.templateSelector = new TemplateSelector(templateSelectorContainer, (template, mode) => {
+      this.applyTemplate(template.id, mode);
     });
+    this.templateSelectorEl = templateSelectorContainer;
     
     // Toolbar for formatting
     this.toolbarEl = editorContainerEl.createDiv({
@@ -313,7 +489,16 @@ export class CVEditorView extends ItemView {
     
     // Create preview container
     const previewContainerEl = mainContentEl.createDiv({ cls: 'oh-my-cv-preview-container' });
-    previewContainerEl.createEl('h3', { text: 'Live Preview' });
+    const previewHeaderEl = previewContainerEl.createDiv({ cls: 'oh-my-cv-preview-header' });
+    previewHeaderEl.createEl('h3', { text: 'Live Preview' });
+
+    // Toggle between the rendered CV and what an ATS parser would read
+    this.atsToggleEl = previewHeaderEl.createEl('button', {
+      cls: 'oh-my-cv-button oh-my-cv-ats-toggle',
+      text: 'ATS preview',
+      attr: { title: 'Show the plain text an applicant tracking system would extract' }
+    });
+    this.atsToggleEl.addEventListener('click', () => this.toggleATSPreview());
     
     // Add special class for side panel preview
     if (isSidePanel) {
@@ -322,6 +507,202 @@ export class CVEditorView extends ItemView {
     
     // Create the preview element
     this.previewEl = previewContainerEl.createDiv({ cls: 'oh-my-cv-preview' });
+    this.atsPreviewEl = previewContainerEl.createEl('pre', { cls: 'oh-my-cv-ats-preview' });
+    this.atsPreviewEl.hide();
+
+    // Keep the editor and the preview scrolled to the same place
+    this.editor.scrollDOM.addEventListener('scroll', () => this.syncPreviewToEditor());
+    this.previewEl.addEventListener('scroll', () => this.syncEditorToPreview());
+    this.previewEl.addEventListener('click', (event) => this.placeCursorFromPreview(event));
+
+    // Style and page setup, hidden until opened from the header
+    this.styleContainerEl = mainContentEl.createDiv({ cls: 'oh-my-cv-style-container' });
+    this.stylePanel = new StylePanel(this.styleContainerEl, this);
+    this.styleContainerEl.hide();
+
+    // Version history, hidden until opened from the header
+    this.historyContainerEl = mainContentEl.createDiv({ cls: 'oh-my-cv-history-container' });
+    this.historyPanel = new HistoryPanel(this.historyContainerEl, this);
+    this.historyContainerEl.hide();
+  }
+
+  /**
+   * Show or hide the version history panel
+   * @returns Whether the panel is now shown
+   */
+  private toggleHistoryPanel(): boolean {
+    this.showHistory = !this.showHistory;
+    this.historyContainerEl.toggle(this.showHistory);
+    if (this.showHistory) {
+      this.historyPanel.refresh();
+    }
+    return this.showHistory;
+  }
+
+  /**
+   * Show or hide the style panel
+   * @returns Whether the panel is now shown
+   */
+  private toggleStylePanel(): boolean {
+    this.showStyle = !this.showStyle;
+    this.styleContainerEl.toggle(this.showStyle);
+    if (this.showStyle) {
+      this.stylePanel.refresh();
+    }
+    return this.showStyle;
+  }
+
+  /**
+   * Change the open CV's metadata
+   * The change is saved like an edit to the content, so it goes to the frontmatter on the next save
+   * @param changes The metadata fields to change
+   */
+  updateMetadata(changes: Partial<CVMetadata>): void {
+    if (!this.currentDocument) {
+      return;
+    }
+
+    this.currentDocument.metadata = { ...this.currentDocument.metadata, ...changes };
+    this.unsavedChanges = true;
+    this.schedulePreview();
+    this.updateStatusBar();
+    this.scheduleSave();
+  }
+
+  /**
+   * Show or hide the section outline
+   * @returns Whether the outline is now shown
+   */
+  private toggleOutlinePanel(): boolean {
+    this.showOutline = !this.showOutline;
+    this.outlineContainerEl.toggle(this.showOutline);
+    if (this.showOutline) {
+      this.outlinePanel.refresh();
+    }
+    return this.showOutline;
+  }
+
+  /**
+   * Show a section, or one of its entries, in the editor and the preview
+   * @param sectionIndex The section's index
+   * @param entryIndex The entry's index within the section, if an entry was picked
+   */
+  revealOutlineItem(sectionIndex: number, entryIndex?: number): void {
+    const document = this.getCurrentDocument();
+    if (!document) {
+      return;
+    }
+
+    // Read from the editor, as the document's content only catches up when the preview updates
+    const model = getCVModel(document);
+    const section = model.sections[sectionIndex];
+    const entry = entryIndex !== undefined ? section?.entries[entryIndex] : undefined;
+    if (!section) {
+      return;
+    }
+
+    // Unfold the section so the entry can be shown
+    if (entry && isFoldedAtLine(this.editor, section.line)) {
+      toggleFoldAtLine(this.editor, section.line);
+      this.outlinePanel.refresh();
+    }
+    const line = entry ? entry.line : section.line;
+    revealLine(this.editor, line);
+    this.scrollPreviewToLine(line);
+  }
+
+  /**
+   * Move a section to another position, rewriting the Markdown as an undoable edit
+   * @param from The section's index
+   * @param to The index it should end up at
+   */
+  reorderSection(from: number, to: number): void {
+    if (!this.currentDocument) {
+      return;
+    }
+    if (this.currentDocument.masterPath) {
+      new Notice('Variants take their content from the master CV; reorder the sections there');
+      return;
+    }
+
+    this.currentDocument.content = this.getEditorContent();
+    setEditorContent(this.editor, moveSection(getCVModel(this.currentDocument), from, to));
+  }
+
+  /**
+   * Fold or unfold a section in the editor
+   * @param sectionIndex The section's index
+   */
+  toggleSectionFold(sectionIndex: number): void {
+    const section = this.getCurrentSection(sectionIndex);
+    if (section) {
+      toggleFoldAtLine(this.editor, section.line);
+    }
+  }
+
+  /**
+   * Check whether a section is folded in the editor
+   * @param sectionIndex The section's index
+   * @returns True if folded
+   */
+  isSectionFolded(sectionIndex: number): boolean {
+    const section = this.getCurrentSection(sectionIndex);
+    return section ? isFoldedAtLine(this.editor, section.line) : false;
+  }
+
+  /**
+   * Find a section in the editor's current content
+   * @param sectionIndex The section's index
+   * @returns The section, or undefined if there is no such section
+   */
+  private getCurrentSection(sectionIndex: number): CVSection | undefined {
+    const document = this.getCurrentDocument();
+    return document ? getCVModel(document).sections[sectionIndex] : undefined;
+  }
+
+  /**
+   * Get the open CV with the editor's current content
+   * @returns The CV document, or null if none is open
+   */
+  getCurrentDocument(): CVDocument | null {
+    return this.currentDocument ? { ...this.currentDocument, content: this.getEditorContent() } : null;
+  }
+
+  /**
+   * Replace the editor's content and styling with a snapshot
+   * The change can be undone and is saved like any other edit
+   * @param snapshot The snapshot to restore
+   */
+  restoreSnapshot(snapshot: CVSnapshot): void {
+    if (!this.currentDocument) {
+      return;
+    }
+    if (this.currentDocument.masterPath) {
+      new Notice('Variants take their content from the master CV; restore the snapshot there');
+      return;
+    }
+
+    this.currentDocument.metadata = { ...snapshot.metadata, lastModified: this.currentDocument.metadata.lastModified };
+    if (this.showStyle) {
+      this.stylePanel.refresh();
+    }
+    if (snapshot.content === this.getEditorContent()) {
+      // Only the styling changed, so the editor will not report a change
+      this.handleEditorChange();
+    } else {
+      setEditorContent(this.editor, snapshot.content);
+    }
+  }
+
+  /**
+   * Switch between the rendered preview and the ATS plain-text preview
+   */
+  private toggleATSPreview(): void {
+    this.showATSPreview = !this.showATSPreview;
+    this.atsToggleEl.toggleClass('is-active', this.showATSPreview);
+    this.previewEl.toggle(!this.showATSPreview);
+    this.atsPreviewEl.toggle(this.showATSPreview);
+    this.updatePreview();
   }
 
   /**
@@ -343,24 +724,44 @@ export class CVEditorView extends ItemView {
     };
     
     // Add buttons for common formatting
-    addButton('heading-1', 'Heading 1', () => this.insertTextAtCursor('# ', ''));
-    addButton('heading-2', 'Heading 2', () => this.insertTextAtCursor('## ', ''));
-    addButton('heading-3', 'Heading 3', () => this.insertTextAtCursor('### ', ''));
-    addButton('bold', 'Bold', () => this.insertTextAtCursor('**', '**'));
-    addButton('italic', 'Italic', () => this.insertTextAtCursor('*', '*'));
-    addButton('list', 'Bullet List', () => this.insertTextAtCursor('- ', ''));
-    addButton('link', 'Link', () => this.insertTextAtCursor('[', '](url)'));
+    addButton('heading-1', 'Heading 1', () => prefixSelectedLines(this.editor, '# ', HEADING_PREFIX));
+    addButton('heading-2', 'Heading 2', () => prefixSelectedLines(this.editor, '## ', HEADING_PREFIX));
+    addButton('heading-3', 'Heading 3', () => prefixSelectedLines(this.editor, '### ', HEADING_PREFIX));
+    addButton('bold', 'Bold', () => wrapSelection(this.editor, '**', '**'));
+    addButton('italic', 'Italic', () => wrapSelection(this.editor, '*', '*'));
+    addButton('list', 'Bullet List', () => prefixSelectedLines(this.editor, '- '));
+    addButton('link', 'Link', () => wrapSelection(this.editor, '[', '](url)'));
     addButton('table', 'Table', () => this.insertTable());
-    addButton('horizontal-split', 'Page Break', () => this.insertTextAtCursor('\\newpage\n', ''));
+    addButton('horizontal-split', 'Page Break', () => insertBlock(this.editor, '\\newpage\n'));
     
     // Create template selector
     const templateSelect = this.toolbarEl.createEl('select', {
       cls: 'oh-my-cv-template-select',
       attr: { title: 'Apply Template' }
     });
+    this.templateSelectEl = templateSelect;
+    this.createTemplateOptions();
     
+    // Handle template selection
+    templateSelect.addEventListener('change', (e: Event) => {
+      const select = e.target as HTMLSelectElement;
+      const templateId = select.value;
+      
+      if (templateId) {
+        // Ask whether to apply the content, the style or both, as the template browser offers
+        this.applyTemplate(templateId);
+        // Reset selector
+        select.value = '';
+      }
+    });
+  }
+
+  /**
+   * Fill the toolbar's template dropdown with the current templates
+   */
+  private createTemplateOptions(): void {
     // Add option for selecting templates
-    const defaultOption = templateSelect.createEl('option', {
+    this.templateSelectEl.createEl('option', {
       text: 'Select Template',
       attr: { value: '' }
     });
@@ -368,23 +769,20 @@ export class CVEditorView extends ItemView {
     // Add options for each template
     const templates = getPluginInstance().settings.getTemplates();
     templates.forEach(template => {
-      templateSelect.createEl('option', {
+      this.templateSelectEl.createEl('option', {
         text: template.name,
         attr: { value: template.id }
       });
     });
-    
-    // Handle template selection
-    templateSelect.addEventListener('change', (e: Event) => {
-      const select = e.target as HTMLSelectElement;
-      const templateId = select.value;
-      
-      if (templateId) {
-        this.applyTemplate(templateId);
-        // Reset selector
-        select.value = '';
-      }
-    });
+  }
+
+  /**
+   * Rebuild the template dropdowns after the templates changed
+   */
+  private refreshTemplateSelectors(): void {
+    this.templateSelectEl.empty();
+    this.createTemplateOptions();
+    this.templateSelector.refresh();
   }
 
   /**
@@ -411,6 +809,30 @@ export class CVEditorView extends ItemView {
       const date = new Date(this.currentDocument.metadata.lastModified);
       lastModifiedEl.setText(`Last modified: ${date.toLocaleString()}`);
       
+      // Show problems found in the CV, listed in the tooltip
+      const issues = validateCV(getCVModel(this.currentDocument));
+      if (issues.length > 0) {
+        this.statusBarEl.createSpan({
+          cls: 'oh-my-cv-status-issues',
+          text: `${issues.length} ${issues.length === 1 ? 'issue' : 'issues'}`,
+          attr: { title: issues.map(issue => `Line ${issue.line + 1}: ${issue.message}`).join('\n') }
+        });
+      }
+      
+      // Show how long the preview took to render
+      if (this.lastRenderTime !== null && !this.showATSPreview) {
+        const slow = this.lastRenderTime > PREVIEW_RENDER_BUDGET;
+        this.statusBarEl.createSpan({
+          cls: slow ? 'oh-my-cv-status-render oh-my-cv-status-slow' : 'oh-my-cv-status-render',
+          text: `Rendered in ${this.lastRenderTime} ms`,
+          attr: {
+            title: slow
+              ? `Over the ${PREVIEW_RENDER_BUDGET} ms budget, so the preview waits longer before updating while you type`
+              : `Within the ${PREVIEW_RENDER_BUDGET} ms budget`
+          }
+        });
+      }
+      
       // Show save status
       const saveStatusEl = this.statusBarEl.createSpan({ cls: 'oh-my-cv-status-save' });
       saveStatusEl.setText(this.unsavedChanges ? 'Unsaved changes' : 'Saved');
@@ -425,22 +847,23 @@ export class CVEditorView extends ItemView {
   }
 
   /**
-   * Register events for the view
+   * Get the callbacks for the editor
+   * @returns The editor options
    */
-  private registerEvents(): void {
-    // Listen for changes in the editor
-    this.editorEl.addEventListener('input', () => {
-      this.handleEditorChange();
-    });
-    
-    // Listen for keyboard shortcuts
-    this.editorEl.addEventListener('keydown', (event) => {
-      // Ctrl/Cmd + S to save
-      if ((event.ctrlKey || event.metaKey) && event.key === 's') {
-        event.preventDefault();
-        this.saveDocument();
-      }
-    });
+  private getEditorOptions(): CVEditorOptions {
+    return {
+      onChange: () => this.handleEditorChange(),
+      onSave: () => this.saveDocument(),
+      readOnly: Boolean(this.currentDocument?.masterPath)
+    };
+  }
+
+  /**
+   * Get the editor's content
+   * @returns The Markdown in the editor
+   */
+  private getEditorContent(): string {
+    return this.editor.state.doc.toString();
   }
 
   /**
@@ -450,26 +873,367 @@ export class CVEditorView extends ItemView {
     // Mark as having unsaved changes
     this.unsavedChanges = true;
     
-    // Update the preview
-    this.updatePreview();
+    // Update the preview once typing pauses
+    this.schedulePreview();
     
     // Update the status bar
     this.updateStatusBar();
+
+    // Keep the outline in step with the headings
+    if (this.showOutline) {
+      this.outlinePanel.refresh();
+    }
+
+    // Queue an autosave and a crash-recovery draft
+    this.scheduleSave();
+  }
+
+  /**
+   * Queue the autosave (if enabled) and the draft write, restarting their timers
+   */
+  private scheduleSave(): void {
+    if (!this.currentDocument) {
+      return;
+    }
+
+    this.clearTimers();
+    const settings = getPluginInstance().settings.getSettings();
+
+    this.draftTimer = window.setTimeout(() => {
+      this.draftTimer = null;
+      if (this.currentDocument && this.unsavedChanges) {
+        getPluginInstance().storage.saveDraft({ ...this.currentDocument, content: this.getEditorContent() });
+      }
+    }, DRAFT_SAVE_DELAY);
+
+    if (settings.autosave) {
+      this.autosaveTimer = window.setTimeout(() => {
+        this.autosaveTimer = null;
+        this.saveDocument();
+      }, settings.autosaveInterval * 1000);
+    }
+  }
+
+  /**
+   * Cancel pending autosave and draft writes
+   */
+  private clearTimers(): void {
+    if (this.autosaveTimer !== null) {
+      window.clearTimeout(this.autosaveTimer);
+      this.autosaveTimer = null;
+    }
+    if (this.draftTimer !== null) {
+      window.clearTimeout(this.draftTimer);
+      this.draftTimer = null;
+    }
+  }
+
+  /**
+   * Deal with unsaved changes before the CV is closed or replaced
+   * With autosave on they are saved; otherwise the user is asked
+   * @param canCancel Whether the user may cancel (keeping the current CV open)
+   * @returns False if the user cancelled
+   */
+  private async resolveUnsavedChanges(canCancel: boolean): Promise<boolean> {
+    if (!this.currentDocument || !this.unsavedChanges) {
+      return true;
+    }
+
+    if (getPluginInstance().settings.getSettings().autosave) {
+      await this.saveDocument();
+      return true;
+    }
+
+    const choices: Choice<'save' | 'discard' | 'cancel'>[] = [
+      { value: 'save', label: 'Save', cta: true },
+      { value: 'discard', label: 'Discard', warning: true }
+    ];
+    if (canCancel) {
+      choices.push({ value: 'cancel', label: 'Cancel' });
+    }
+
+    const choice = await new ChoiceModal(
+      this.app,
+      'Unsaved changes',
+      `Save your changes to ${this.currentDocument.metadata.title || this.currentDocument.path}?`,
+      choices
+    ).choose();
+
+    if (choice === 'save') {
+      await this.saveDocument();
+      return true;
+    }
+    if (choice === 'discard') {
+      this.clearTimers();
+      this.unsavedChanges = false;
+      await getPluginInstance().storage.clearDraft(this.currentDocument.path);
+      return true;
+    }
+
+    // Dismissed: the draft keeps the changes for recovery
+    if (!canCancel) {
+      await getPluginInstance().storage.saveDraft({ ...this.currentDocument, content: this.getEditorContent() });
+    }
+    return !canCancel;
+  }
+
+  /**
+   * Offer to restore unsaved changes left by a previous session
+   */
+  private async offerDraftRecovery(): Promise<void> {
+    if (!this.currentDocument) {
+      return;
+    }
+
+    // A variant's content comes from its master, which has its own drafts
+    if (this.currentDocument.masterPath) {
+      return;
+    }
+
+    const storage = getPluginInstance().storage;
+    const draft = await storage.loadDraft(this.currentDocument.path);
+    if (!draft || draft.content.trim() === this.currentDocument.content.trim()) {
+      if (draft) {
+        await storage.clearDraft(this.currentDocument.path);
+      }
+      return;
+    }
+
+    const choice = await new ChoiceModal(
+      this.app,
+      'Recover unsaved changes',
+      `${this.currentDocument.path} has unsaved changes from ${new Date(draft.savedAt).toLocaleString()}. Restore them?`,
+      [
+        { value: 'restore', label: 'Restore', cta: true },
+        { value: 'discard', label: 'Discard', warning: true }
+      ]
+    ).choose();
+
+    if (choice === 'restore') {
+      // Restored as an edit, so it can be undone and is saved like any other change
+      setEditorContent(this.editor, draft.content);
+    } else if (choice === 'discard') {
+      await storage.clearDraft(this.currentDocument.path);
+    }
+  }
+
+  /**
+   * Queue a preview render, restarting its timer
+   * A preview that renders slower than the budget waits as long as its last render took
+   */
+  private schedulePreview(): void {
+    if (this.previewTimer !== null) {
+      window.clearTimeout(this.previewTimer);
+    }
+
+    const delay = Math.max(PREVIEW_RENDER_DELAY, this.lastRenderTime ?? 0);
+    this.previewTimer = window.setTimeout(() => {
+      this.previewTimer = null;
+      this.updatePreview();
+    }, delay);
   }
 
   /**
    * Update the preview with the current content
    */
-  private updatePreview(): void {
-    const content = this.editorEl.value;
+  private async updatePreview(): Promise<void> {
+    if (this.previewTimer !== null) {
+      window.clearTimeout(this.previewTimer);
+      this.previewTimer = null;
+    }
+
+    const content = this.getEditorContent();
     
     if (this.currentDocument) {
       // Update the document content
       this.currentDocument.content = content;
     }
     
-    // Render the markdown
-    this.markdownService.renderMarkdown(content, this.previewEl);
+    if (this.showATSPreview) {
+      this.atsPreviewEl.setText(toATSPlainText(content));
+      return;
+    }
+
+    // Render the markdown, timing it for the status bar
+    const start = performance.now();
+    await this.markdownService.renderMarkdown(content, this.previewEl, {
+      metadata: this.currentDocument?.metadata
+    });
+    this.lastRenderTime = Math.round(performance.now() - start);
+    this.updateStatusBar();
+  }
+
+  /**
+   * Get the rendered blocks of the preview with the source lines they came from
+   * Blocks rendered from the same chunk of source are merged
+   * @returns The blocks in document order, with offsets from the top of the preview's content
+   */
+  private getPreviewAnchors(): { line: number; endLine: number; top: number; bottom: number }[] {
+    const anchors: { line: number; endLine: number; top: number; bottom: number }[] = [];
+    const previewTop = this.previewEl.getBoundingClientRect().top - this.previewEl.scrollTop;
+
+    this.previewEl.querySelectorAll('[data-line]').forEach(el => {
+      const rect = el.getBoundingClientRect();
+      if (rect.height === 0) {
+        return;
+      }
+
+      const line = Number(el.getAttribute('data-line'));
+      const endLine = Number(el.getAttribute('data-line-end'));
+      const last = anchors[anchors.length - 1];
+      if (last && last.line === line) {
+        last.bottom = Math.max(last.bottom, rect.bottom - previewTop);
+      } else {
+        anchors.push({ line, endLine, top: rect.top - previewTop, bottom: rect.bottom - previewTop });
+      }
+    });
+
+    return anchors;
+  }
+
+  /**
+   * Find where a source line is shown in the preview
+   * @param sourceLine Zero-based line, with a fraction for a partly scrolled line
+   * @returns The offset from the top of the preview's content
+   */
+  private getPreviewOffset(sourceLine: number): number {
+    const anchors = this.getPreviewAnchors();
+    let index = -1;
+    while (index + 1 < anchors.length && anchors[index + 1].line <= sourceLine) {
+      index++;
+    }
+    if (index < 0) {
+      return 0;
+    }
+
+    // Interpolate up to the next block, or through the last one
+    const anchor = anchors[index];
+    const next = anchors[index + 1];
+    const [endLine, endTop] = next ? [next.line, next.top] : [anchor.endLine + 1, anchor.bottom];
+    const fraction = Math.min(1, (sourceLine - anchor.line) / Math.max(1, endLine - anchor.line));
+    return anchor.top + fraction * (endTop - anchor.top);
+  }
+
+  /**
+   * Find the source line shown at an offset in the preview
+   * @param offset The offset from the top of the preview's content
+   * @returns Zero-based line, with a fraction for a partly scrolled line
+   */
+  private getSourceLineAtOffset(offset: number): number {
+    const anchors = this.getPreviewAnchors();
+    let index = -1;
+    while (index + 1 < anchors.length && anchors[index + 1].top <= offset) {
+      index++;
+    }
+    if (index < 0) {
+      return 0;
+    }
+
+    const anchor = anchors[index];
+    const next = anchors[index + 1];
+    const [endLine, endTop] = next ? [next.line, next.top] : [anchor.endLine + 1, anchor.bottom];
+    const fraction = Math.min(1, (offset - anchor.top) / Math.max(1, endTop - anchor.top));
+    return anchor.line + fraction * (endLine - anchor.line);
+  }
+
+  /**
+   * Scroll the preview to where a source line is shown
+   * @param sourceLine Zero-based line, with a fraction for a partly scrolled line
+   */
+  private scrollPreviewToLine(sourceLine: number): void {
+    const maxScroll = this.previewEl.scrollHeight - this.previewEl.clientHeight;
+    const target = Math.round(Math.max(0, Math.min(maxScroll, this.getPreviewOffset(sourceLine))));
+    if (Math.abs(this.previewEl.scrollTop - target) >= 1) {
+      this.previewScrollTarget = target;
+      this.previewEl.scrollTop = target;
+    }
+  }
+
+  /**
+   * Scroll the preview to match the editor after the editor is scrolled
+   */
+  private syncPreviewToEditor(): void {
+    const scroller = this.editor.scrollDOM;
+    if (this.editorScrollTarget !== null && Math.abs(scroller.scrollTop - this.editorScrollTarget) < 2) {
+      // The editor was scrolled to follow the preview
+      this.editorScrollTarget = null;
+      return;
+    }
+    this.editorScrollTarget = null;
+    if (this.showATSPreview || !this.currentDocument) {
+      return;
+    }
+
+    // The line at the top of the editor, and how much of it is scrolled past
+    const height = scroller.getBoundingClientRect().top - this.editor.documentTop;
+    const block = this.editor.lineBlockAtHeight(Math.max(0, height));
+    const line = this.editor.state.doc.lineAt(block.from).number - 1;
+    const fraction = block.height > 0 ? Math.max(0, Math.min(1, (height - block.top) / block.height)) : 0;
+
+    this.scrollPreviewToLine(line + fraction);
+  }
+
+  /**
+   * Scroll the editor to match the preview after the preview is scrolled
+   */
+  private syncEditorToPreview(): void {
+    if (this.previewScrollTarget !== null && Math.abs(this.previewEl.scrollTop - this.previewScrollTarget) < 2) {
+      // The preview was scrolled to follow the editor
+      this.previewScrollTarget = null;
+      return;
+    }
+    this.previewScrollTarget = null;
+    if (this.showATSPreview || !this.currentDocument) {
+      return;
+    }
+
+    const sourceLine = this.getSourceLineAtOffset(this.previewEl.scrollTop);
+    const doc = this.editor.state.doc;
+    const line = doc.line(Math.min(Math.floor(sourceLine) + 1, doc.lines));
+    const block = this.editor.lineBlockAt(line.from);
+
+    // Offsets from lineBlockAt are relative to the top of the document, below the editor's padding
+    const scroller = this.editor.scrollDOM;
+    const documentOffset = this.editor.documentTop - scroller.getBoundingClientRect().top + scroller.scrollTop;
+    const maxScroll = scroller.scrollHeight - scroller.clientHeight;
+    const target = Math.round(Math.max(0, Math.min(maxScroll,
+      documentOffset + block.top + (sourceLine - Math.floor(sourceLine)) * block.height)));
+
+    if (Math.abs(scroller.scrollTop - target) >= 1) {
+      this.editorScrollTarget = target;
+      scroller.scrollTop = target;
+    }
+  }
+
+  /**
+   * Put the editor's cursor on the source of a block clicked in the preview
+   * @param event The click
+   */
+  private placeCursorFromPreview(event: MouseEvent): void {
+    const target = event.target as HTMLElement;
+    const blockEl = target.closest('[data-line]');
+    if (!this.currentDocument || !blockEl || target.closest('a') || window.getSelection()?.toString()) {
+      return;
+    }
+
+    let line = Number(blockEl.getAttribute('data-line'));
+    const endLine = Number(blockEl.getAttribute('data-line-end'));
+
+    // A list item maps to the line of the same item in the source
+    const itemEl = target.closest('li');
+    if (itemEl && blockEl.contains(itemEl)) {
+      const itemIndex = Array.from(blockEl.querySelectorAll('li')).indexOf(itemEl);
+      const doc = this.editor.state.doc;
+      const itemLines: number[] = [];
+      for (let index = line; index <= endLine && index < doc.lines; index++) {
+        if (/^\s*([-*+]|\d+\.)\s/.test(doc.line(index + 1).text)) {
+          itemLines.push(index);
+        }
+      }
+      line = itemLines[itemIndex] ?? line;
+    }
+
+    revealLine(this.editor, line, 'nearest');
   }
 
   /**
@@ -481,14 +1245,19 @@ export class CVEditorView extends ItemView {
     }
     
     try {
+      this.clearTimers();
+
       // Update the document content
-      this.currentDocument.content = this.editorEl.value;
+      const content = this.getEditorContent();
+      this.currentDocument.content = content;
       
       // Save the document
       await getPluginInstance().storage.saveCV(this.currentDocument);
+      await getPluginInstance().storage.clearDraft(this.currentDocument.path);
       
-      // Mark as saved
-      this.unsavedChanges = false;
+      // Mark as saved, unless the user kept typing while saving
+      this.unsavedChanges = this.getEditorContent() !== content;
+      this.savedSnapshot = this.getSnapshot(this.currentDocument);
       
       // Update the status bar
       this.updateStatusBar();
@@ -498,18 +1267,31 @@ export class CVEditorView extends ItemView {
   }
 
   /**
-   * Export the current document to PDF
+   * Open the export dialog for the current document
+   * @param format The format to select at first, instead of the last one used
    */
-  public async exportToPDF(): Promise<void> {
+  public showExportDialog(format?: PDFExportOptions['format']): void {
+    // Export what is in the editor, even if it has not been saved yet
+    const document = this.getCurrentDocument();
+    if (document) {
+      // A folder kept for this CV changes the open CV, which may have been edited since the dialog opened
+      this.exportService.showExportDialog(document, format, folder => this.updateMetadata({ exportFolder: folder }));
+    }
+  }
+
+  /**
+   * Export the current document to a JSON Resume file
+   */
+  public async exportToJsonResume(): Promise<void> {
     if (!this.currentDocument) {
       return;
     }
-    
-    try {
-      await this.exportService.exportToPDF(this.previewEl, this.currentDocument);
-    } catch (error) {
-      console.error('Error exporting to PDF:', error);
-    }
+
+    // Export what is in the editor, even if it has not been saved yet
+    await this.exportService.exportToJsonResume({
+      ...this.currentDocument,
+      content: this.getEditorContent()
+    });
   }
 
   /**
@@ -532,110 +1314,98 @@ export class CVEditorView extends ItemView {
     }, 100);
   }
 
-  /**
-   * Insert text at the current cursor position
-   * @param before Text to insert before the selection
-   * @param after Text to insert after the selection
-   */
-  private insertTextAtCursor(before: string, after: string): void {
-    const editor = this.editorEl;
-    const start = editor.selectionStart;
-    const end = editor.selectionEnd;
-    const selectedText = editor.value.substring(start, end);
-    
-    const newText = before + selectedText + after;
-    editor.setRangeText(newText, start, end, 'select');
-    editor.focus();
-    
-    // Update the content and preview
-    this.handleEditorChange();
-  }
-
   /**
    * Insert a markdown table template
    */
   private insertTable(): void {
     const tableTemplate = '| Header 1 | Header 2 | Header 3 |\n| --- | --- | --- |\n| Row 1, Col 1 | Row 1, Col 2 | Row 1, Col 3 |\n| Row 2, Col 1 | Row 2, Col 2 | Row 2, Col 3 |\n';
-    this.insertTextAtCursor(tableTemplate, '');
+    insertBlock(this.editor, tableTemplate);
   }
 
   /**
    * Apply a template to the editor
    * @param templateId The ID of the template to apply
+   * @param mode Whether to apply the template's content, its style, or both; asked for if not given
    */
-  private applyTemplate(templateId: string): void {
-    // Check for built-in templates first
-    const template = getTemplateById(templateId);
-    
-    // If not found, check user templates
-    const userTemplate = template ? null : 
-      getPluginInstance().settings.getSettings().templates.find(t => t.id === templateId);
-    
-    const selectedTemplate = template || userTemplate;
-    
-    if (selectedTemplate) {
-      // Ask for confirmation if there's existing content
-      if (this.editorEl.value.trim() !== '') {
-        const warningMessage = 'Applying a template will replace your current content. Are you sure?';
-        if (!confirm(warningMessage)) {
+  private async applyTemplate(templateId: string, mode?: TemplateApplyMode): Promise<void> {
+    // Built-in, user and templates folder templates
+    const selectedTemplate = getPluginInstance().settings.getTemplateById(templateId);
+    if (!selectedTemplate) {
+      new Notice('Template not found', 3000);
+      return;
+    }
+
+    const applyMode = mode || await this.promptTemplateMode(selectedTemplate);
+    if (!applyMode) {
+      return;
+    }
+
+    if (applyMode === 'style' && !this.currentDocument) {
+      new Notice('Open a CV to apply a template\'s style to it');
+    } else if (applyMode !== 'style' && this.currentDocument?.masterPath) {
+      new Notice('Variants take their content from the master CV; apply the template there');
+    } else {
+      // Ask before replacing existing content, unless the user just chose to in the mode prompt
+      if (mode && mode !== 'style' && this.getEditorContent().trim() !== '') {
+        const choice = await new ChoiceModal(
+          this.app,
+          `Apply ${selectedTemplate.name}`,
+          'Applying a template will replace your current content.',
+          [
+            { value: 'replace', label: 'Replace content', warning: true },
+            { value: 'cancel', label: 'Cancel' }
+          ]
+        ).choose();
+        if (choice !== 'replace') {
           return;
         }
       }
-      
-      // Apply the template
-      this.editorEl.value = selectedTemplate.content;
-      this.handleEditorChange();
-      
-      // Apply the template's styling
-      if (selectedTemplate.style) {
+
+      // Apply the template (as an undoable change, which updates the preview)
+      if (applyMode !== 'style') {
+        setEditorContent(this.editor, selectedTemplate.content);
+      }
+
+      // The style goes into the CV's metadata, so it is saved with the CV and used by exports
+      if (applyMode !== 'content' && this.currentDocument) {
         this.applyTemplateStyle(selectedTemplate.style);
       }
-      
+
       // Show success message
-      new Notice(`Template '${selectedTemplate.name}' applied successfully`);
-    } else {
-      new Notice('Template not found', 3000);
+      const applied = applyMode === 'style' ? 'style ' : applyMode === 'content' ? 'content ' : '';
+      new Notice(`Template '${selectedTemplate.name}' ${applied}applied successfully`);
     }
   }
-  
+
+  /**
+   * Ask whether to apply a template's content, its style, or both
+   * @param template The template to apply
+   * @returns The chosen mode, or null if the prompt was dismissed
+   */
+  private async promptTemplateMode(template: CVTemplate): Promise<TemplateApplyMode | null> {
+    // The style can be applied without touching the content, so it is the safe choice when there is some
+    const hasContent = this.getEditorContent().trim() !== '';
+    return new ChoiceModal<TemplateApplyMode>(
+      this.app,
+      `Apply ${template.name}`,
+      hasContent
+        ? 'Applying the template\'s content will replace your current content. Apply its style only to keep your content.'
+        : 'Apply the template\'s content, its style, or both?',
+      [
+        { value: 'style', label: 'Apply Style Only', cta: hasContent },
+        { value: 'content', label: 'Apply Content Only', warning: hasContent },
+        { value: 'all', label: 'Apply Template', cta: !hasContent, warning: hasContent }
+      ]
+    ).choose();
+  }
+
   /**
-   * Apply template styling to the preview
+   * Write a template's style into the open CV's metadata, leaving its content as it is
    * @param style Template style to apply
    */
-  private applyTemplateStyle(style: any): void {
-    const { theme } = style;
-    
-    // Apply theme color to preview
-    if (theme && theme.primaryColor) {
-      const docEl = document.documentElement as HTMLElement;
-      docEl.style.setProperty('--theme-color', theme.primaryColor);
-      
-      // Apply the style to the preview container
-      if (this.previewEl) {
-        // Apply primary color to headings
-        const headings = this.previewEl.querySelectorAll('h1, h2, h3');
-        headings.forEach(heading => {
-          (heading as HTMLElement).style.color = theme.primaryColor;
-        });
-        
-        // Apply other styling as needed
-        if (theme.backgroundColor) {
-          this.previewEl.style.backgroundColor = theme.backgroundColor;
-        }
-        
-        if (theme.textColor) {
-          this.previewEl.style.color = theme.textColor;
-        }
-        
-        // Apply custom CSS if provided
-        if (style.customCSS) {
-          // Create a style element for the custom CSS
-          const styleElement = document.createElement('style');
-          styleElement.textContent = style.customCSS;
-          this.previewEl.appendChild(styleElement);
-        }
-      }
-    }
+  private applyTemplateStyle(style: CVTemplateStyle): void {
+    this.updateMetadata(templateStyleToMetadata(style));
+    this.stylePanel.refresh();
   }
 
   /**
@@ -644,31 +1414,297 @@ export class CVEditorView extends ItemView {
    */
   async loadDocument(document: CVDocument): Promise<void> {
     try {
-      // Store the document
-      this.currentDocument = document;
-      
-      // Update the title
-      this.leaf.setViewState({
+      if (!(await this.resolveUnsavedChanges(true))) {
+        return;
+      }
+
+      this.showDocument(document);
+      await this.offerDraftRecovery();
+
+      // Record the file in the view state, which also updates the title
+      await this.leaf.setViewState({
         type: CV_EDITOR_VIEW_TYPE,
-        state: { path: document.path }
+        state: this.getState()
       });
-      
-      // Set the editor content
-      this.editorEl.value = document.content;
-      
-      // Update the preview
-      this.updatePreview();
-      
-      // Mark as saved (since we just loaded it)
-      this.unsavedChanges = false;
-      
-      // Update the status bar
-      this.updateStatusBar();
     } catch (error) {
       console.error('Error loading document:', error);
     }
   }
 
+  /**
+   * Show a CV document in the editor and preview
+   * @param document The CV document
+   * @param keepCursor Whether to keep the cursor position (when reloading the same CV)
+   */
+  private showDocument(document: CVDocument, keepCursor = false): void {
+    const cursor = this.editor.state.selection.main.head;
+    this.clearTimers();
+
+    // Store the document
+    this.currentDocument = document;
+    this.savedSnapshot = this.getSnapshot(document);
+
+    // Set the editor content, starting a fresh undo history
+    this.editor.setState(createCVEditorState(document.content, this.getEditorOptions()));
+    if (keepCursor) {
+      this.editor.dispatch({ selection: { anchor: Math.min(cursor, document.content.length) } });
+    }
+
+    // Variants are read-only, with a link to their master instead of the editing tools
+    this.updateVariantBanner();
+
+    // Update the preview
+    this.updatePreview();
+
+    // Mark as saved (since we just loaded it)
+    this.unsavedChanges = false;
+
+    // Update the status bar
+    this.updateStatusBar();
+
+    // Show this CV's snapshots and sections
+    if (this.showHistory) {
+      this.historyPanel.refresh();
+    }
+    if (this.showOutline) {
+      this.outlinePanel.refresh();
+    }
+    if (this.showStyle) {
+      this.stylePanel.refresh();
+    }
+  }
+
+  /**
+   * Show the variant banner and hide the editing tools if the CV is a variant
+   */
+  private updateVariantBanner(): void {
+    const document = this.currentDocument;
+    const isVariant = Boolean(document?.masterPath);
+
+    this.variantBannerEl.empty();
+    this.variantBannerEl.toggle(isVariant);
+    this.toolbarEl.toggle(!isVariant);
+    this.templateSelectorEl.toggle(!isVariant);
+    if (!document || !document.masterPath) {
+      return;
+    }
+
+    const masterPath = document.masterPath;
+    const tags = document.metadata.variantTags || [];
+    this.variantBannerEl.createSpan({
+      text: `Variant of ${masterPath}${tags.length > 0 ? ` showing ${tags.join(', ')}` : ''}. Edit the master to change the content.`
+    });
+
+    const actionsEl = this.variantBannerEl.createDiv({ cls: 'oh-my-cv-variant-actions' });
+    new ButtonComponent(actionsEl)
+      .setButtonText('Change tags')
+      .onClick(() => this.editVariantTags());
+    new ButtonComponent(actionsEl)
+      .setButtonText('Open master')
+      .onClick(() => getPluginInstance().openCVFile(masterPath));
+  }
+
+  /**
+   * Create a variant of the open CV and open it
+   */
+  async createVariant(): Promise<void> {
+    if (!this.currentDocument || !(await this.resolveUnsavedChanges(true))) {
+      return;
+    }
+
+    // A variant of a variant filters the already filtered content, so start from the real master
+    const plugin = getPluginInstance();
+    const master = this.currentDocument.masterPath
+      ? await plugin.storage.loadCV(this.currentDocument.masterPath)
+      : this.currentDocument;
+
+    const options = await new VariantModal(
+      this.app,
+      { title: `${master.metadata.title || 'CV'} (variant)`, tags: [] },
+      getVariantTags(master.content)
+    ).prompt();
+    if (!options) {
+      return;
+    }
+
+    try {
+      const variant = await plugin.storage.createVariant(master, options.title, options.tags);
+      await plugin.openCVFile(variant.path);
+    } catch (error) {
+      console.error('Error creating variant:', error);
+    }
+  }
+
+  /**
+   * Save the open CV as a template, with its styling and optionally without personal details
+   */
+  async saveAsTemplate(): Promise<void> {
+    const document = this.currentDocument;
+    if (!document) {
+      return;
+    }
+
+    const plugin = getPluginInstance();
+    const options = await new SaveTemplateModal(
+      this.app,
+      {
+        name: document.metadata.title || 'My CV',
+        description: '',
+        category: 'Custom',
+        blankPersonalDetails: true,
+        createThumbnail: true
+      },
+      plugin.settings.getTemplates().map((template: CVTemplate) => template.name)
+    ).prompt();
+    if (!options) {
+      return;
+    }
+
+    try {
+      const content = options.blankPersonalDetails
+        ? blankPersonalDetails(this.getEditorContent())
+        : this.getEditorContent();
+
+      // The thumbnail is a nice-to-have, so the template is saved without one if it fails
+      let previewImage: string | undefined;
+      if (options.createThumbnail) {
+        try {
+          previewImage = await this.exportService.createThumbnail(content, document.metadata);
+        } catch (error) {
+          console.error('Error creating template thumbnail:', error);
+        }
+      }
+
+      const template = await plugin.settings.createTemplateFromCurrent(
+        options.name,
+        options.description,
+        content,
+        metadataToTemplateStyle(document.metadata),
+        { category: options.category.trim() || 'Custom', previewImage }
+      );
+      new Notice(`Saved template '${template.name}'`);
+    } catch (error) {
+      console.error('Error saving template:', error);
+      new Notice(`Error saving template: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Change the tags of the open variant
+   */
+  private async editVariantTags(): Promise<void> {
+    const document = this.currentDocument;
+    if (!document || !document.masterPath) {
+      return;
+    }
+
+    const storage = getPluginInstance().storage;
+    let availableTags: string[] = [];
+    try {
+      availableTags = getVariantTags((await storage.loadCV(document.masterPath)).content);
+    } catch (error) {
+      console.error('Error reading master CV:', error);
+    }
+
+    const options = await new VariantModal(
+      this.app,
+      { title: document.metadata.title, tags: document.metadata.variantTags || [] },
+      availableTags,
+      false
+    ).prompt();
+    if (!options) {
+      return;
+    }
+
+    try {
+      document.metadata.variantTags = options.tags;
+      await storage.saveCV(document);
+      this.showDocument(await storage.loadCV(document.path));
+    } catch (error) {
+      console.error('Error changing variant tags:', error);
+    }
+  }
+
+  /**
+   * Get a comparable snapshot of a document's saved state
+   * The modification time is left out, and content is trimmed as it is when read back
+   * @param document The CV document
+   * @returns The snapshot
+   */
+  private getSnapshot(document: CVDocument): string {
+    const metadata = { ...document.metadata, lastModified: 0 };
+    return JSON.stringify({ metadata, content: document.content.trim() });
+  }
+
+  /**
+   * Reload the CV when its file is changed outside this view
+   * Asks before discarding unsaved changes
+   * @param file The modified file
+   */
+  private async onFileModified(file: TAbstractFile): Promise<void> {
+    if (!this.currentDocument || this.conflictPromptOpen) {
+      return;
+    }
+    // A variant also follows changes to its master
+    if (file.path !== this.currentDocument.path && file.path !== this.currentDocument.masterPath) {
+      return;
+    }
+
+    let document: CVDocument;
+    try {
+      document = await getPluginInstance().storage.loadCV(this.currentDocument.path);
+    } catch (error) {
+      console.error('Error reloading CV file:', error);
+      return;
+    }
+
+    // Our own save, or a change that leaves the CV as it was
+    const snapshot = this.getSnapshot(document);
+    if (snapshot === this.savedSnapshot) {
+      return;
+    }
+
+    if (this.unsavedChanges) {
+      this.conflictPromptOpen = true;
+      const choice = await new ChoiceModal(
+        this.app,
+        'CV changed on disk',
+        `${file.path} was changed outside the CV editor while you have unsaved changes here.`,
+        [
+          { value: 'keep', label: 'Keep my changes', cta: true },
+          { value: 'reload', label: 'Reload from disk', warning: true }
+        ]
+      ).choose();
+      this.conflictPromptOpen = false;
+
+      if (choice !== 'reload') {
+        // Saving will replace the file on disk with the editor's content
+        this.savedSnapshot = snapshot;
+        return;
+      }
+    }
+
+    this.showDocument(document, true);
+  }
+
+  /**
+   * Follow the CV when its file is renamed or moved
+   * @param file The renamed file
+   * @param oldPath The previous path
+   */
+  private onFileRenamed(file: TAbstractFile, oldPath: string): void {
+    if (this.currentDocument && this.currentDocument.path === oldPath) {
+      this.currentDocument.path = file.path;
+      this.updateStatusBar();
+      this.app.workspace.requestSaveLayout();
+
+      // main.ts moves the draft and snapshots; the next draft is written to the new path
+      if (this.unsavedChanges) {
+        this.scheduleSave();
+      }
+    }
+  }
+
   /**
    * Create a new document from a template
    * @param templateId The ID of the template to use
@@ -3,10 +3,12 @@
  * Provides UI for setting PDF export options
  */
 
-import { Modal, Setting, ButtonComponent, DropdownComponent, Notice, setIcon } from 'obsidian';
-import { CVDocument, PDFExportOptions } from '../core/types';
+import { Modal, Setting, ButtonComponent, DropdownComponent, Notice, TextComponent, setIcon } from 'obsidian';
+import { CVDocument, LatexCVClass, PDFExportOptions } from '../core/types';
 import { ExportService } from '../services/export-service';
 import { getPluginInstance } from '../core/plugin-instance';
+import { DEFAULT_PAGE_NUMBER_FORMAT } from '../core/page-decorations';
+import { FolderSuggestModal } from './folder-suggest-modal';
 
 /**
  * Modal for configuring PDF export options
@@ -15,34 +17,54 @@ export class PDFExportOptionsModal extends Modal {
   private document: CVDocument;
   private exportService: ExportService;
   private options: PDFExportOptions;
+  private onSaveFolder?: (folder: string) => void;
+  private rememberFolder = false;
+  private vectorPDFAvailable: boolean;
 
   /**
    * Create a new PDF export options modal
    * @param document The CV document to export
    * @param exportService The export service
+   * @param format The format to select at first, instead of the last one used
+   * @param onSaveFolder Called with the export folder when the user chooses to keep it for this CV
    */
-  constructor(document: CVDocument, exportService: ExportService) {
+  constructor(document: CVDocument, exportService: ExportService, format?: PDFExportOptions['format'], onSaveFolder?: (folder: string) => void) {
     super(getPluginInstance().app);
     this.document = document;
     this.exportService = exportService;
+    this.onSaveFolder = onSaveFolder;
 
     // Set default options based on document metadata and plugin settings
     const settings = getPluginInstance().settings.getSettings();
     const lastExportOptions = getPluginInstance().settings.getLastExportOptions();
     
     this.options = {
-      filename: `${document.metadata.title || 'CV'}.pdf`,
+      filename: exportService.getDefaultFilename(document, 'pdf'),
+      folder: exportService.getExportFolder(document),
       pageSize: document.metadata.pageSize || lastExportOptions?.pageSize || settings.defaultPageSize,
       orientation: document.metadata.orientation || lastExportOptions?.orientation || 'portrait',
       margins: document.metadata.margins || lastExportOptions?.margins || settings.defaultMargins,
       includeHeader: lastExportOptions?.includeHeader || false,
       includeFooter: lastExportOptions?.includeFooter || false,
-      includePageNumbers: lastExportOptions?.includePageNumbers || true,
+      includePageNumbers: lastExportOptions?.includePageNumbers ?? true,
       headerContent: lastExportOptions?.headerContent || '',
       footerContent: lastExportOptions?.footerContent || '',
+      pageNumberFormat: lastExportOptions?.pageNumberFormat || DEFAULT_PAGE_NUMBER_FORMAT,
+      suppressOnFirstPage: lastExportOptions?.suppressOnFirstPage || false,
       embedFonts: lastExportOptions?.embedFonts || true,
       imageQuality: lastExportOptions?.imageQuality || 90,
+      renderer: lastExportOptions?.renderer || 'vector',
+      format: format || lastExportOptions?.format || 'pdf',
+      inlineAssets: lastExportOptions?.inlineAssets ?? true,
+      latexClass: lastExportOptions?.latexClass || 'moderncv',
     };
+    this.options.filename = this.withExtension(this.options.filename);
+
+    // Where text-based PDFs cannot be made, the dialog says so instead of the export falling back
+    this.vectorPDFAvailable = exportService.isVectorPDFAvailable();
+    if (!this.vectorPDFAvailable) {
+      this.options.renderer = 'raster';
+    }
   }
   
   /**
@@ -87,11 +109,11 @@ export class PDFExportOptionsModal extends Modal {
     contentEl.addClass('oh-my-cv-export-modal');
     
     // Title
-    contentEl.createEl('h2', { text: 'Export to PDF' });
+    contentEl.createEl('h2', { text: 'Export CV' });
     
     // Description
     contentEl.createEl('p', {
-      text: 'Configure export options for your CV PDF.',
+      text: 'Configure export options for your CV.',
       cls: 'oh-my-cv-export-description'
     });
     
@@ -153,19 +175,73 @@ export class PDFExportOptionsModal extends Modal {
       });
     });
     
+    // Output format (in page setup tab)
+    new Setting(pageSetupContent)
+      .setName('Format')
+      .setDesc('Headers, footers and PDF options only apply to PDFs; plain text keeps the content without layout')
+      .addDropdown(dropdown => dropdown
+        .addOption('pdf', 'PDF')
+        .addOption('docx', 'Word (.docx)')
+        .addOption('html', 'Web page (.html)')
+        .addOption('txt', 'Plain text for ATS (.txt)')
+        .addOption('tex', 'LaTeX source (.tex)')
+        .setValue(this.options.format || 'pdf')
+        .onChange(value => {
+          this.options.format = value as PDFExportOptions['format'];
+          this.options.filename = this.withExtension(this.options.filename);
+          filenameInput?.setValue(this.options.filename);
+          exportButton?.setButtonText(this.getExportButtonText());
+        }));
+
     // File name setting (in page setup tab)
+    let filenameInput: TextComponent | undefined;
     new Setting(pageSetupContent)
       .setName('File name')
-      .setDesc('Name of the exported PDF file')
-      .addText(text => text
-        .setValue(this.options.filename)
-        .onChange(value => {
-          // Ensure filename ends with .pdf
-          if (!value.endsWith('.pdf')) {
-            value += '.pdf';
-          }
-          this.options.filename = value;
+      .setDesc('Name of the exported file')
+      .addText(text => {
+        filenameInput = text;
+        text
+          .setValue(this.options.filename)
+          .onChange(value => {
+            // Ensure filename ends with the format's extension
+            this.options.filename = this.withExtension(value);
+          });
+      });
+
+    // Destination folder setting (in page setup tab)
+    let folderInput: TextComponent | undefined;
+    new Setting(pageSetupContent)
+      .setName('Folder')
+      .setDesc('Vault folder to export to; leave empty for the vault root')
+      .addText(text => {
+        folderInput = text;
+        text
+          .setPlaceholder('/')
+          .setValue(this.options.folder || '')
+          .onChange(value => {
+            this.options.folder = value.trim();
+          });
+      })
+      .addExtraButton(button => button
+        .setIcon('folder')
+        .setTooltip('Browse')
+        .onClick(() => {
+          new FolderSuggestModal(this.app, folder => {
+            this.options.folder = folder.isRoot() ? '' : folder.path;
+            folderInput?.setValue(this.options.folder);
+          }).open();
         }));
+
+    if (this.onSaveFolder) {
+      new Setting(pageSetupContent)
+        .setName('Use this folder for this CV')
+        .setDesc('Save the folder in the CV so later exports go there too')
+        .addToggle(toggle => toggle
+          .setValue(false)
+          .onChange(value => {
+            this.rememberFolder = value;
+          }));
+    }
     
     // Create a container for the page size preview
     const pageSizePreviewContainer = pageSetupContent.createDiv({ cls: 'oh-my-cv-page-preview-container' });
@@ -266,12 +342,26 @@ export class PDFExportOptionsModal extends Modal {
     // Include page numbers
     new Setting(contentTabContent)
       .setName('Page numbers')
-      .setDesc('Include page numbers in the footer')
+      .setDesc('Include page numbers in the footer of every page')
       .addToggle(toggle => toggle
         .setValue(this.options.includePageNumbers)
         .onChange(value => {
           this.options.includePageNumbers = value;
+          pageNumberFormatSetting.setDisabled(!value);
         }));
+
+    // Page number format
+    const pageNumberFormatSetting = new Setting(contentTabContent)
+      .setName('Page number format')
+      .setDesc('Use {page} and {pages} for the current page and the page count')
+      .addText(text => text
+        .setPlaceholder(DEFAULT_PAGE_NUMBER_FORMAT)
+        .setValue(this.options.pageNumberFormat || DEFAULT_PAGE_NUMBER_FORMAT)
+        .onChange(value => {
+          this.options.pageNumberFormat = value || DEFAULT_PAGE_NUMBER_FORMAT;
+        }));
+
+    pageNumberFormatSetting.setDisabled(!this.options.includePageNumbers);
     
     // Include header
     const headerSetting = new Setting(contentTabContent)
@@ -287,7 +377,7 @@ export class PDFExportOptionsModal extends Modal {
     // Header content
     const headerContentSetting = new Setting(contentTabContent)
       .setName('Header content')
-      .setDesc('Text to include in the header')
+      .setDesc('Text to include in the header. Supports {page}, {pages}, {title} and {date}')
       .addText(text => text
         .setValue(this.options.headerContent || '')
         .onChange(value => {
@@ -310,7 +400,7 @@ export class PDFExportOptionsModal extends Modal {
     // Footer content
     const footerContentSetting = new Setting(contentTabContent)
       .setName('Footer content')
-      .setDesc('Text to include in the footer')
+      .setDesc('Text to include in the footer. Supports {page}, {pages}, {title} and {date}')
       .addText(text => text
         .setValue(this.options.footerContent || '')
         .onChange(value => {
@@ -318,8 +408,52 @@ export class PDFExportOptionsModal extends Modal {
         }));
     
     footerContentSetting.setDisabled(!this.options.includeFooter);
+
+    // First page suppression
+    new Setting(contentTabContent)
+      .setName('Hide on first page')
+      .setDesc('Leave the header, footer and page number off the first page')
+      .addToggle(toggle => toggle
+        .setValue(this.options.suppressOnFirstPage || false)
+        .onChange(value => {
+          this.options.suppressOnFirstPage = value;
+        }));
     
     // Styling options in the Styling tab
+    new Setting(stylingTabContent)
+      .setName('PDF engine')
+      .setDesc(this.vectorPDFAvailable
+        ? 'Text-based PDFs keep selectable text and working links; image-based PDFs rasterize each page'
+        : 'Text-based PDFs are not available in this version of Obsidian, so each page is exported as an image')
+      .addDropdown(dropdown => dropdown
+        .addOption('vector', 'Text-based (recommended)')
+        .addOption('raster', 'Image-based')
+        .setValue(this.options.renderer || 'vector')
+        .setDisabled(!this.vectorPDFAvailable)
+        .onChange(value => {
+          this.options.renderer = value as 'vector' | 'raster';
+        }));
+
+    new Setting(stylingTabContent)
+      .setName('LaTeX class')
+      .setDesc('Document class for LaTeX exports (awesome-cv compiles with XeLaTeX or LuaLaTeX)')
+      .addDropdown(dropdown => dropdown
+        .addOption('moderncv', 'moderncv')
+        .addOption('awesome-cv', 'Awesome CV')
+        .setValue(this.options.latexClass || 'moderncv')
+        .onChange(value => {
+          this.options.latexClass = value as LatexCVClass;
+        }));
+
+    new Setting(stylingTabContent)
+      .setName('Work offline')
+      .setDesc('Embed web fonts and images in HTML exports so the page works without a network connection')
+      .addToggle(toggle => toggle
+        .setValue(this.options.inlineAssets ?? true)
+        .onChange(value => {
+          this.options.inlineAssets = value;
+        }));
+
     new Setting(stylingTabContent)
       .setName('Font embedding')
       .setDesc('Embed fonts in the PDF for consistent display')
@@ -331,7 +465,7 @@ export class PDFExportOptionsModal extends Modal {
         
     new Setting(stylingTabContent)
       .setName('Image quality')
-      .setDesc('Quality of images in the PDF (higher values increase file size)')
+      .setDesc('Quality of image-based PDFs (higher values increase file size)')
       .addSlider(slider => slider
         .setLimits(60, 100, 5)
         .setValue(this.options.imageQuality || 90)
@@ -350,18 +484,50 @@ export class PDFExportOptionsModal extends Modal {
       .buttonEl.addClass('oh-my-cv-export-cancel-button');
     
     // Export button
-    new ButtonComponent(buttonsContainer)
-      .setButtonText('Export PDF')
+    const exportButton = new ButtonComponent(buttonsContainer)
+      .setButtonText(this.getExportButtonText())
       .setCta()
       .onClick(() => {
         this.close();
-        this.exportPDF();
+        if (this.rememberFolder) {
+          this.onSaveFolder?.(this.options.folder || '');
+        }
+        if (this.options.format === 'docx') {
+          this.exportDocx();
+        } else if (this.options.format === 'html') {
+          this.exportHTML();
+        } else if (this.options.format === 'txt') {
+          this.exportService.exportToPlainText(this.document, this.options.filename, this.options.folder);
+        } else if (this.options.format === 'tex') {
+          this.exportLatex();
+        } else {
+          this.exportPDF();
+        }
         
         // Save the most recent export options to settings
         const plugin = getPluginInstance();
         plugin.settings.setLastExportOptions(this.options);
-      })
-      .buttonEl.addClass('oh-my-cv-export-button');
+      });
+    exportButton.buttonEl.addClass('oh-my-cv-export-button');
+  }
+
+  /**
+   * Give a filename the extension of the selected format
+   * @param filename The filename
+   * @returns The filename ending in the format's extension
+   */
+  private withExtension(filename: string): string {
+    const extension = `.${this.options.format || 'pdf'}`;
+    const base = filename.replace(/\.(pdf|docx|html|txt|tex)$/i, '');
+    return `${base}${extension}`;
+  }
+
+  /**
+   * Get the label for the export button
+   * @returns The label
+   */
+  private getExportButtonText(): string {
+    return `Export ${(this.options.format || 'pdf').toUpperCase()}`;
   }
   
   /**
@@ -369,9 +535,9 @@ export class PDFExportOptionsModal extends Modal {
    */
   private async exportPDF() {
     try {
-      // Find the preview element
+      // Render the document through the shared pipeline
       const containerEl = document.createElement('div');
-      containerEl.innerHTML = this.exportService.generateHTML(this.document);
+      containerEl.innerHTML = await this.exportService.generateHTML(this.document);
       
       await this.exportService.exportToPDF(containerEl as HTMLElement, this.document, this.options);
     } catch (error) {
@@ -380,6 +546,56 @@ export class PDFExportOptionsModal extends Modal {
     }
   }
   
+  /**
+   * Export a Word document with the selected page setup
+   */
+  private async exportDocx() {
+    await this.exportService.exportToDocx({
+      ...this.document,
+      metadata: {
+        ...this.document.metadata,
+        pageSize: this.options.pageSize,
+        orientation: this.options.orientation,
+        margins: this.options.margins
+      }
+    }, this.options.filename, this.options.folder);
+  }
+
+  /**
+   * Export a standalone web page with the selected page setup
+   */
+  private async exportHTML() {
+    await this.exportService.exportToHTML({
+      ...this.document,
+      metadata: {
+        ...this.document.metadata,
+        pageSize: this.options.pageSize,
+        orientation: this.options.orientation,
+        margins: this.options.margins
+      }
+    }, {
+      filename: this.options.filename,
+      folder: this.options.folder,
+      inlineFonts: this.options.inlineAssets ?? true,
+      inlineImages: this.options.inlineAssets ?? true
+    });
+  }
+
+  /**
+   * Export LaTeX source with the selected page setup
+   */
+  private async exportLatex() {
+    await this.exportService.exportToLatex({
+      ...this.document,
+      metadata: {
+        ...this.document.metadata,
+        pageSize: this.options.pageSize,
+        orientation: this.options.orientation,
+        margins: this.options.margins
+      }
+    }, this.options.latexClass, this.options.filename, this.options.folder);
+  }
+
   /**
    * Clean up when the modal is closed
    */
@@ -0,0 +1,50 @@
+/**
+ * Folder picker for export destinations
+ */
+
+import { App, FuzzySuggestModal, TFolder } from 'obsidian';
+
+/**
+ * Modal for choosing a folder in the vault
+ */
+export class FolderSuggestModal extends FuzzySuggestModal<TFolder> {
+  private onChoose: (folder: TFolder) => void;
+
+  /**
+   * Create a new folder picker
+   * @param app The Obsidian app instance
+   * @param onChoose Callback with the chosen folder
+   */
+  constructor(app: App, onChoose: (folder: TFolder) => void) {
+    super(app);
+    this.onChoose = onChoose;
+    this.setPlaceholder('Choose a folder to export to');
+  }
+
+  /**
+   * Get the folders in the vault
+   * @returns The folders, including the vault root
+   */
+  getItems(): TFolder[] {
+    return this.app.vault.getAllLoadedFiles()
+      .filter((file): file is TFolder => file instanceof TFolder)
+      .sort((a, b) => a.path.localeCompare(b.path));
+  }
+
+  /**
+   * Get the text shown for a folder
+   * @param folder The folder
+   * @returns The folder path
+   */
+  getItemText(folder: TFolder): string {
+    return folder.isRoot() ? '/' : folder.path;
+  }
+
+  /**
+   * Handle the chosen folder
+   * @param folder The folder
+   */
+  onChooseItem(folder: TFolder): void {
+    this.onChoose(folder);
+  }
+}
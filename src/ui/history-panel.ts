@@ -0,0 +1,172 @@
+/**
+ * Version history panel for the Oh My CV plugin
+ * Lists a CV's snapshots with actions to compare, restore and delete them
+ */
+
+import { ButtonComponent, Notice, TextComponent } from 'obsidian';
+import { CVDocument, CVSnapshot } from '../core/types';
+import { getPluginInstance } from '../core/plugin-instance';
+import { SnapshotDiffModal } from './snapshot-diff-modal';
+
+/**
+ * What the history panel needs from the view that hosts it
+ */
+export interface HistoryPanelHost {
+  /** Get the open CV with the editor's current content, or null if none is open */
+  getCurrentDocument(): CVDocument | null;
+
+  /** Replace the editor's content and metadata with a snapshot */
+  restoreSnapshot(snapshot: CVSnapshot): void;
+}
+
+/**
+ * Panel listing the snapshots of the open CV
+ */
+export class HistoryPanel {
+  private containerEl: HTMLElement;
+  private listEl: HTMLElement;
+  private host: HistoryPanelHost;
+  private snapshots: CVSnapshot[] = [];
+
+  /**
+   * Create a new history panel
+   * @param containerEl Container element to add the panel to
+   * @param host The view hosting the panel
+   */
+  constructor(containerEl: HTMLElement, host: HistoryPanelHost) {
+    this.containerEl = containerEl;
+    this.host = host;
+    this.createPanel();
+  }
+
+  /**
+   * Create the snapshot form and list
+   */
+  private createPanel(): void {
+    this.containerEl.createEl('h3', { text: 'History' });
+
+    // Snapshot form
+    const formEl = this.containerEl.createDiv({ cls: 'oh-my-cv-history-form' });
+    const nameInput = new TextComponent(formEl).setPlaceholder('Snapshot name, e.g. Sent to Acme');
+    const takeSnapshot = () => {
+      this.takeSnapshot(nameInput.getValue()).then(taken => {
+        if (taken) {
+          nameInput.setValue('');
+        }
+      });
+    };
+    nameInput.inputEl.addEventListener('keydown', (event) => {
+      if (event.key === 'Enter') {
+        takeSnapshot();
+      }
+    });
+    new ButtonComponent(formEl)
+      .setButtonText('Save snapshot')
+      .setCta()
+      .onClick(takeSnapshot);
+
+    this.listEl = this.containerEl.createDiv({ cls: 'oh-my-cv-history-list' });
+  }
+
+  /**
+   * Reload the snapshots of the open CV
+   */
+  async refresh(): Promise<void> {
+    const document = this.host.getCurrentDocument();
+    this.snapshots = document ? await getPluginInstance().storage.getSnapshots(document.path) : [];
+    this.renderList();
+  }
+
+  /**
+   * Render the snapshot list
+   */
+  private renderList(): void {
+    this.listEl.empty();
+
+    if (this.snapshots.length === 0) {
+      this.listEl.createDiv({
+        cls: 'oh-my-cv-history-empty',
+        text: 'No snapshots yet. Save one whenever you send the CV somewhere.'
+      });
+      return;
+    }
+
+    this.snapshots.forEach(snapshot => {
+      const itemEl = this.listEl.createDiv({ cls: 'oh-my-cv-history-item' });
+
+      const infoEl = itemEl.createDiv({ cls: 'oh-my-cv-history-info' });
+      infoEl.createDiv({ cls: 'oh-my-cv-history-name', text: snapshot.name });
+      infoEl.createDiv({ cls: 'oh-my-cv-history-date', text: new Date(snapshot.createdAt).toLocaleString() });
+
+      const actionsEl = itemEl.createDiv({ cls: 'oh-my-cv-history-actions' });
+      new ButtonComponent(actionsEl)
+        .setIcon('columns')
+        .setTooltip('Compare with the current version')
+        .onClick(() => this.compare(snapshot));
+      new ButtonComponent(actionsEl)
+        .setIcon('rotate-ccw')
+        .setTooltip('Restore this version')
+        .onClick(() => {
+          this.host.restoreSnapshot(snapshot);
+          new Notice(`Restored '${snapshot.name}'`);
+        });
+      new ButtonComponent(actionsEl)
+        .setIcon('trash')
+        .setTooltip('Delete snapshot')
+        .onClick(() => this.deleteSnapshot(snapshot));
+    });
+  }
+
+  /**
+   * Save a snapshot of the open CV
+   * @param name The snapshot name
+   * @returns True if a snapshot was saved
+   */
+  private async takeSnapshot(name: string): Promise<boolean> {
+    const document = this.host.getCurrentDocument();
+    if (!document) {
+      new Notice('Open a CV to save a snapshot');
+      return false;
+    }
+
+    const snapshotName = name.trim() || `Snapshot ${new Date().toLocaleString()}`;
+    try {
+      await getPluginInstance().storage.createSnapshot(document, snapshotName);
+      new Notice(`Saved snapshot '${snapshotName}'`);
+      await this.refresh();
+      return true;
+    } catch (error) {
+      console.error('Error saving snapshot:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Compare a snapshot with the current version
+   * @param snapshot The snapshot
+   */
+  private compare(snapshot: CVSnapshot): void {
+    const document = this.host.getCurrentDocument();
+    if (document) {
+      new SnapshotDiffModal(getPluginInstance().app, document, this.snapshots, snapshot.id).open();
+    }
+  }
+
+  /**
+   * Delete a snapshot after confirmation
+   * @param snapshot The snapshot
+   */
+  private async deleteSnapshot(snapshot: CVSnapshot): Promise<void> {
+    const document = this.host.getCurrentDocument();
+    if (!document || !confirm(`Delete snapshot '${snapshot.name}'?`)) {
+      return;
+    }
+
+    try {
+      await getPluginInstance().storage.deleteSnapshot(document.path, snapshot.id);
+      await this.refresh();
+    } catch (error) {
+      console.error('Error deleting snapshot:', error);
+    }
+  }
+}
@@ -0,0 +1,52 @@
+/**
+ * File picker for CV imports
+ */
+
+import { App, FuzzySuggestModal, TFile } from 'obsidian';
+
+/**
+ * Modal for choosing a JSON file in the vault to import
+ */
+export class JsonFileSuggestModal extends FuzzySuggestModal<TFile> {
+  private onChoose: (file: TFile) => void;
+  private extensions: string[];
+
+  /**
+   * Create a new JSON file picker
+   * @param app The Obsidian app instance
+   * @param onChoose Callback with the chosen file
+   * @param placeholder Prompt shown in the search field
+   * @param extensions Extensions of the files to list, without the dot
+   */
+  constructor(app: App, onChoose: (file: TFile) => void, placeholder = 'Choose a JSON Resume file to import', extensions: string[] = ['json']) {
+    super(app);
+    this.onChoose = onChoose;
+    this.extensions = extensions;
+    this.setPlaceholder(placeholder);
+  }
+
+  /**
+   * Get the files in the vault that can be imported
+   * @returns The files
+   */
+  getItems(): TFile[] {
+    return this.app.vault.getFiles().filter(file => this.extensions.includes(file.extension));
+  }
+
+  /**
+   * Get the text shown for a file
+   * @param file The file
+   * @returns The file path
+   */
+  getItemText(file: TFile): string {
+    return file.path;
+  }
+
+  /**
+   * Handle the chosen file
+   * @param file The file
+   */
+  onChooseItem(file: TFile): void {
+    this.onChoose(file);
+  }
+}
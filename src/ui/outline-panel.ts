@@ -0,0 +1,129 @@
+/**
+ * Outline panel for the Oh My CV plugin
+ * Lists a CV's sections and entries for navigation, reordering and folding
+ */
+
+import { setIcon } from 'obsidian';
+import { CVDocument } from '../core/types';
+import { getCVModel, getEntryTitle, stripInline } from '../core/cv-model';
+
+/**
+ * What the outline panel needs from the view that hosts it
+ */
+export interface OutlinePanelHost {
+  /** Get the open CV with the editor's current content, or null if none is open */
+  getCurrentDocument(): CVDocument | null;
+
+  /** Show a section, or one of its entries, in the editor and the preview */
+  revealOutlineItem(sectionIndex: number, entryIndex?: number): void;
+
+  /** Move a section to another position, rewriting the Markdown */
+  reorderSection(from: number, to: number): void;
+
+  /** Fold or unfold a section in the editor */
+  toggleSectionFold(sectionIndex: number): void;
+
+  /** Check whether a section is folded in the editor */
+  isSectionFolded(sectionIndex: number): boolean;
+}
+
+/**
+ * Panel listing the sections and entries of the open CV
+ */
+export class OutlinePanel {
+  private containerEl: HTMLElement;
+  private listEl: HTMLElement;
+  private host: OutlinePanelHost;
+
+  // Index of the section being dragged
+  private dragIndex: number | null = null;
+
+  /**
+   * Create a new outline panel
+   * @param containerEl Container element to add the panel to
+   * @param host The view hosting the panel
+   */
+  constructor(containerEl: HTMLElement, host: OutlinePanelHost) {
+    this.containerEl = containerEl;
+    this.host = host;
+    this.containerEl.createEl('h3', { text: 'Outline' });
+    this.listEl = this.containerEl.createDiv({ cls: 'oh-my-cv-outline-list' });
+  }
+
+  /**
+   * Rebuild the outline from the open CV
+   */
+  refresh(): void {
+    this.listEl.empty();
+
+    const document = this.host.getCurrentDocument();
+    const sections = document ? getCVModel(document).sections : [];
+    if (sections.length === 0) {
+      this.listEl.createDiv({ cls: 'oh-my-cv-outline-empty', text: 'Add ## headings to see the CV\'s sections here.' });
+      return;
+    }
+
+    sections.forEach((section, sectionIndex) => {
+      const sectionEl = this.listEl.createDiv({ cls: 'oh-my-cv-outline-section' });
+      const rowEl = sectionEl.createDiv({ cls: 'oh-my-cv-outline-item oh-my-cv-outline-section-title' });
+      rowEl.draggable = true;
+
+      // Fold toggle
+      const folded = this.host.isSectionFolded(sectionIndex);
+      const foldEl = rowEl.createSpan({
+        cls: 'oh-my-cv-outline-fold',
+        attr: { title: folded ? 'Expand in editor' : 'Collapse in editor' }
+      });
+      setIcon(foldEl, folded ? 'chevron-right' : 'chevron-down');
+      foldEl.addEventListener('click', (event) => {
+        event.stopPropagation();
+        this.host.toggleSectionFold(sectionIndex);
+        this.refresh();
+      });
+
+      rowEl.createSpan({ text: stripInline(section.title) });
+      rowEl.addEventListener('click', () => this.host.revealOutlineItem(sectionIndex));
+      this.addDragHandlers(rowEl, sectionIndex);
+
+      section.entries.forEach((entry, entryIndex) => {
+        const entryEl = sectionEl.createDiv({
+          cls: 'oh-my-cv-outline-item oh-my-cv-outline-entry',
+          text: getEntryTitle(entry) || '(untitled entry)'
+        });
+        entryEl.addEventListener('click', () => this.host.revealOutlineItem(sectionIndex, entryIndex));
+      });
+    });
+  }
+
+  /**
+   * Let a section be dragged onto another to take its place
+   * @param rowEl The section's row
+   * @param index The section's index
+   */
+  private addDragHandlers(rowEl: HTMLElement, index: number): void {
+    rowEl.addEventListener('dragstart', (event) => {
+      this.dragIndex = index;
+      event.dataTransfer?.setData('text/plain', String(index));
+      rowEl.addClass('is-dragging');
+    });
+    rowEl.addEventListener('dragend', () => {
+      this.dragIndex = null;
+      rowEl.removeClass('is-dragging');
+    });
+    rowEl.addEventListener('dragover', (event) => {
+      if (this.dragIndex !== null && this.dragIndex !== index) {
+        event.preventDefault();
+        rowEl.addClass('is-drop-target');
+      }
+    });
+    rowEl.addEventListener('dragleave', () => rowEl.removeClass('is-drop-target'));
+    rowEl.addEventListener('drop', (event) => {
+      event.preventDefault();
+      rowEl.removeClass('is-drop-target');
+      if (this.dragIndex !== null && this.dragIndex !== index) {
+        this.host.reorderSection(this.dragIndex, index);
+      }
+      this.dragIndex = null;
+    });
+  }
+}
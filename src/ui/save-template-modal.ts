@@ -0,0 +1,142 @@
+/**
+ * Save-as-template options for the Oh My CV plugin
+ * Asks how the open CV should be turned into a template
+ */
+
+import { App, ButtonComponent, Modal, Setting } from 'obsidian';
+
+/**
+ * What the user chose for the new template
+ */
+export interface SaveTemplateOptions {
+  /** The template name */
+  name: string;
+
+  /** The template description */
+  description: string;
+
+  /** The template category, e.g. Professional */
+  category: string;
+
+  /** Whether personal details are replaced with placeholders */
+  blankPersonalDetails: boolean;
+
+  /** Whether a thumbnail of the first page is generated as the preview image */
+  createThumbnail: boolean;
+}
+
+/**
+ * Modal for saving the open CV as a template
+ */
+export class SaveTemplateModal extends Modal {
+  private options: SaveTemplateOptions;
+  private takenNames: string[];
+  private resolve: (value: SaveTemplateOptions | null) => void = () => undefined;
+  private submitted = false;
+
+  /**
+   * Create a new save-as-template modal
+   * @param app The Obsidian app instance
+   * @param options The initial options
+   * @param takenNames Names of the existing templates, which the new one must not reuse
+   */
+  constructor(app: App, options: SaveTemplateOptions, takenNames: string[]) {
+    super(app);
+    this.options = { ...options };
+    this.takenNames = takenNames.map(name => name.trim().toLowerCase());
+  }
+
+  /**
+   * Open the modal and wait for the user's choice
+   * @returns The options, or null if the modal was dismissed
+   */
+  prompt(): Promise<SaveTemplateOptions | null> {
+    return new Promise(resolve => {
+      this.resolve = resolve;
+      this.open();
+    });
+  }
+
+  /**
+   * Modal content
+   */
+  onOpen() {
+    const { contentEl } = this;
+
+    contentEl.createEl('h2', { text: 'Save as template' });
+    contentEl.createEl('p', {
+      text: 'The template keeps this CV\'s content and its color, fonts and margins, and is listed with the other templates.'
+    });
+
+    new Setting(contentEl)
+      .setName('Name')
+      .addText(text => text
+        .setValue(this.options.name)
+        .onChange(value => {
+          this.options.name = value;
+        }));
+
+    new Setting(contentEl)
+      .setName('Description')
+      .addText(text => text
+        .setValue(this.options.description)
+        .onChange(value => {
+          this.options.description = value;
+        }));
+
+    new Setting(contentEl)
+      .setName('Category')
+      .addText(text => text
+        .setValue(this.options.category)
+        .onChange(value => {
+          this.options.category = value;
+        }));
+
+    new Setting(contentEl)
+      .setName('Replace personal details')
+      .setDesc('Swap your name, email, phone, location and profile links for placeholders')
+      .addToggle(toggle => toggle
+        .setValue(this.options.blankPersonalDetails)
+        .onChange(value => {
+          this.options.blankPersonalDetails = value;
+        }));
+
+    new Setting(contentEl)
+      .setName('Generate thumbnail')
+      .setDesc('Show a picture of the first page in the template browser')
+      .addToggle(toggle => toggle
+        .setValue(this.options.createThumbnail)
+        .onChange(value => {
+          this.options.createThumbnail = value;
+        }));
+
+    const errorEl = contentEl.createDiv({ cls: 'oh-my-cv-template-editor-errors' });
+
+    const buttonsContainer = contentEl.createDiv({ cls: 'oh-my-cv-choice-buttons' });
+    new ButtonComponent(buttonsContainer)
+      .setButtonText('Save')
+      .setCta()
+      .onClick(() => {
+        const name = this.options.name.trim();
+        if (!name) {
+          errorEl.setText('Give the template a name');
+        } else if (this.takenNames.includes(name.toLowerCase())) {
+          errorEl.setText(`Another template is already called '${name}'`);
+        } else {
+          this.submitted = true;
+          this.close();
+        }
+      });
+    new ButtonComponent(buttonsContainer)
+      .setButtonText('Cancel')
+      .onClick(() => this.close());
+  }
+
+  /**
+   * Clean up and report the options when the modal is closed
+   */
+  onClose() {
+    this.contentEl.empty();
+    this.resolve(this.submitted ? { ...this.options, name: this.options.name.trim() } : null);
+  }
+}
@@ -3,12 +3,19 @@
  * Allows users to configure plugin settings
  */
 
-import { App, Plugin, PluginSettingTab, Setting } from 'obsidian';
-import { CVTemplate } from '../core/types';
+import { App, Notice, Plugin, PluginSettingTab, Setting, TextComponent } from 'obsidian';
+import { CVTemplate, ExportConflictPolicy } from '../core/types';
+import { FolderSuggestModal } from './folder-suggest-modal';
+import { TemplateEditorModal } from './template-editor-modal';
+import type { SettingsService } from '../services/settings-service';
+import type { TemplateLibraryService } from '../services/template-library-service';
+import type { TemplatePackageService } from '../services/template-package-service';
 
 // Use a type declaration instead of an import to avoid circular dependencies
 declare class OhMyCVPlugin extends Plugin {
-  settings: any;
+  settings: SettingsService;
+  templateLibrary: TemplateLibraryService;
+  templatePackages: TemplatePackageService;
   id: string;
   app: App;
 }
@@ -184,13 +191,45 @@ export class OhMyCVSettingsTab extends PluginSettingTab {
     // Page breaks
     new Setting(containerEl)
       .setName('Show Page Breaks')
-      .setDesc('Visualize page breaks in the editor')
+      .setDesc('Lay the preview out on pages and show where the PDF will break')
       .addToggle(toggle => toggle
         .setValue(settings.showPageBreaks)
         .onChange(async (value) => {
           await this.plugin.settings.updateSettings({ showPageBreaks: value });
         }));
 
+    // Autosave
+    new Setting(containerEl)
+      .setName('Autosave')
+      .setDesc('Save CVs automatically while you type; otherwise save with Ctrl/Cmd+S')
+      .addToggle(toggle => toggle
+        .setValue(settings.autosave)
+        .onChange(async (value) => {
+          await this.plugin.settings.updateSettings({ autosave: value });
+        }));
+
+    // Autosave interval
+    new Setting(containerEl)
+      .setName('Autosave Delay (seconds)')
+      .setDesc('How long to wait after the last change before saving')
+      .addSlider(slider => slider
+        .setLimits(1, 30, 1)
+        .setValue(settings.autosaveInterval)
+        .setDynamicTooltip()
+        .onChange(async (value) => {
+          await this.plugin.settings.updateSettings({ autosaveInterval: value });
+        }));
+
+    // Open CV files in the CV editor
+    new Setting(containerEl)
+      .setName('Open CV Files in CV Editor')
+      .setDesc('Open .cv.md files from the file explorer in the CV editor; use "Open as Markdown" from the view menu to edit the raw file')
+      .addToggle(toggle => toggle
+        .setValue(settings.openCVFilesInEditor)
+        .onChange(async (value) => {
+          await this.plugin.settings.updateSettings({ openCVFilesInEditor: value });
+        }));
+
     // Icon support
     new Setting(containerEl)
       .setName('Icon Support')
@@ -201,6 +240,57 @@ export class OhMyCVSettingsTab extends PluginSettingTab {
           await this.plugin.settings.updateSettings({ iconSupport: value });
         }));
 
+    // Export section
+    containerEl.createEl('h3', { text: 'Export' });
+
+    // Export folder
+    let exportFolderInput: TextComponent | undefined;
+    new Setting(containerEl)
+      .setName('Export Folder')
+      .setDesc('Vault folder for exported files; leave empty to export next to each CV or use / for the vault root. A CV can set its own folder in the export dialog')
+      .addText(text => {
+        exportFolderInput = text;
+        text
+          .setPlaceholder('Next to the CV')
+          .setValue(settings.exportFolder)
+          .onChange(async (value) => {
+            await this.plugin.settings.updateSettings({ exportFolder: value.trim() });
+          });
+      })
+      .addExtraButton(button => button
+        .setIcon('folder')
+        .setTooltip('Browse')
+        .onClick(() => {
+          new FolderSuggestModal(this.app, async (folder) => {
+            const exportFolder = folder.isRoot() ? '/' : folder.path;
+            exportFolderInput?.setValue(exportFolder);
+            await this.plugin.settings.updateSettings({ exportFolder });
+          }).open();
+        }));
+
+    // Export filename template
+    new Setting(containerEl)
+      .setName('Export File Name')
+      .setDesc('Name of exported files; {title}, {date} and {pageSize} are replaced')
+      .addText(text => text
+        .setPlaceholder('{title}')
+        .setValue(settings.exportFilenameTemplate)
+        .onChange(async (value) => {
+          await this.plugin.settings.updateSettings({ exportFilenameTemplate: value || '{title}' });
+        }));
+
+    // Conflict policy
+    new Setting(containerEl)
+      .setName('Existing Files')
+      .setDesc('What to do when an exported file already exists')
+      .addDropdown(dropdown => dropdown
+        .addOption('overwrite', 'Overwrite')
+        .addOption('version', 'Keep both (add a version number)')
+        .setValue(settings.exportConflictPolicy)
+        .onChange(async (value) => {
+          await this.plugin.settings.updateSettings({ exportConflictPolicy: value as ExportConflictPolicy });
+        }));
+
     // Google Fonts section
     containerEl.createEl('h3', { text: 'Google Fonts' });
 
@@ -254,6 +344,34 @@ export class OhMyCVSettingsTab extends PluginSettingTab {
     // Template management section
     containerEl.createEl('h3', { text: 'Template Management' });
 
+    // Templates folder
+    const libraryCount = this.plugin.settings.getLibraryTemplates().length;
+    let templatesFolderInput: TextComponent | undefined;
+    new Setting(containerEl)
+      .setName('Templates Folder')
+      .setDesc(`Vault folder of Markdown templates, each with its details and style in the frontmatter; leave empty for none.${settings.templatesFolder ? ` ${libraryCount} ${libraryCount === 1 ? 'template' : 'templates'} loaded` : ''}`)
+      .addText(text => {
+        templatesFolderInput = text;
+        text
+          .setPlaceholder('CV Templates')
+          .setValue(settings.templatesFolder)
+          .onChange(async (value) => {
+            await this.plugin.settings.updateSettings({ templatesFolder: value.trim() });
+            this.plugin.templateLibrary.scheduleReload();
+          });
+      })
+      .addExtraButton(button => button
+        .setIcon('folder')
+        .setTooltip('Browse')
+        .onClick(() => {
+          new FolderSuggestModal(this.app, async (folder) => {
+            templatesFolderInput?.setValue(folder.path);
+            await this.plugin.settings.updateSettings({ templatesFolder: folder.path });
+            await this.plugin.templateLibrary.reload();
+            this.display();
+          }).open();
+        }));
+
     // List existing templates
     const templatesContainer = containerEl.createDiv({ cls: 'oh-my-cv-templates' });
     settings.templates.forEach((template: CVTemplate) => {
@@ -269,6 +387,22 @@ export class OhMyCVSettingsTab extends PluginSettingTab {
         .onClick(() => {
           this.showAddTemplateModal();
         }));
+
+    // Share templates as package files
+    new Setting(containerEl)
+      .setName('Share Templates')
+      .setDesc('Export templates to a JSON or zip package in the export folder, or import a package from the vault')
+      .addButton(button => button
+        .setButtonText('Import')
+        .onClick(() => {
+          this.plugin.templatePackages.promptImport(() => this.display());
+        }))
+      .addButton(button => button
+        .setButtonText('Export')
+        .onClick(() => {
+          const userTemplateIds = this.plugin.settings.getUserTemplates().map(template => template.id);
+          this.plugin.templatePackages.promptExport(userTemplateIds);
+        }));
   }
 
   /**
@@ -298,6 +432,17 @@ export class OhMyCVSettingsTab extends PluginSettingTab {
       this.showEditTemplateModal(template);
     });
     
+    // Move button, which turns the template into a file others can share
+    if (this.plugin.settings.getSettings().templatesFolder) {
+      const moveButton = actionsEl.createEl('button', {
+        cls: 'oh-my-cv-template-move',
+        text: 'Move to Folder'
+      });
+      moveButton.addEventListener('click', () => {
+        this.moveTemplateToFolder(template);
+      });
+    }
+
     // Delete button (not available for default templates)
     if (template.id !== 'default' && template.id !== 'academic' && template.id !== 'minimal') {
       const deleteButton = actionsEl.createEl('button', {
@@ -313,47 +458,12 @@ export class OhMyCVSettingsTab extends PluginSettingTab {
   /**
    * Show modal for adding a new template
    */
-  private showAddTemplateModal(): void {
-    // In a real implementation, this would open a modal with a form for creating a template
-    // For now, we'll use prompt dialogs
-    
-    const name = prompt('Enter template name:');
-    if (!name) return;
-    
-    const description = prompt('Enter template description:');
-    if (!description) return;
-    
-    const content = prompt('Enter template content (Markdown):');
-    if (!content) return;
-    
-    // Generate an ID
-    const id = `template-${Date.now()}`;
-    
+  private async showAddTemplateModal(): Promise<void> {
+    const template = await new TemplateEditorModal(this.app, null, this.plugin.settings.getTemplates()).prompt();
+    if (!template) return;
+
     // Add the template
-    this.plugin.settings.addTemplate({
-      id,
-      name,
-      description,
-      content,
-      style: {
-        theme: {
-          primaryColor: '#4051b5',
-          textColor: '#333333',
-          backgroundColor: '#ffffff',
-          headingFont: 'Inter, sans-serif',
-          bodyFont: 'Inter, sans-serif',
-          fontSize: '11pt',
-          lineHeight: '1.5'
-        },
-        margins: {
-          top: 20,
-          right: 20,
-          bottom: 20,
-          left: 20
-        },
-        spacing: 1.2
-      }
-    });
+    await this.plugin.settings.addTemplate(template);
     
     // Refresh the settings display
     this.display();
@@ -363,30 +473,39 @@ export class OhMyCVSettingsTab extends PluginSettingTab {
    * Show modal for editing a template
    * @param template The template to edit
    */
-  private showEditTemplateModal(template: CVTemplate): void {
-    // In a real implementation, this would open a modal with the template editor
-    // For now, we'll use prompt dialogs
-    
-    const name = prompt('Enter template name:', template.name);
-    if (!name) return;
-    
-    const description = prompt('Enter template description:', template.description);
-    if (!description) return;
-    
-    const content = prompt('Enter template content (Markdown):', template.content);
-    if (!content) return;
+  private async showEditTemplateModal(template: CVTemplate): Promise<void> {
+    const others = this.plugin.settings.getTemplates().filter(other => other.id !== template.id);
+    const edited = await new TemplateEditorModal(this.app, template, others).prompt();
+    if (!edited) return;
     
     // Update the template
-    this.plugin.settings.updateTemplate(template.id, {
-      name,
-      description,
-      content
-    });
+    await this.plugin.settings.updateTemplate(template.id, edited);
     
     // Refresh the settings display
     this.display();
   }
 
+  /**
+   * Move a template from the settings to a file in the templates folder
+   * @param template The template to move
+   */
+  private async moveTemplateToFolder(template: CVTemplate): Promise<void> {
+    // Removed first, so the file's template does not clash with it
+    await this.plugin.settings.deleteTemplate(template.id);
+    try {
+      const file = await this.plugin.templateLibrary.saveTemplate(template);
+      await this.plugin.templateLibrary.reload();
+      new Notice(`Moved ${template.name} to ${file.path}`);
+    } catch (error) {
+      await this.plugin.settings.addTemplate(template);
+      console.error('Failed to move template:', error);
+      new Notice(`Failed to move template: ${error}`);
+    }
+
+    // Refresh the settings display
+    this.display();
+  }
+
   /**
    * Delete a template
    * @param id The template ID to delete
@@ -0,0 +1,145 @@
+/**
+ * Snapshot comparison for the Oh My CV plugin
+ * Shows two versions of a CV rendered side by side, with changed blocks highlighted
+ */
+
+import { App, Component, DropdownComponent, Modal } from 'obsidian';
+import { CVDocument, CVSnapshot } from '../core/types';
+import { diffMarkdown } from '../core/diff';
+import { MarkdownService } from '../services/markdown-service';
+
+/** Value used in the version pickers for the CV as it is in the editor */
+const CURRENT_VERSION = 'current';
+
+/**
+ * Modal comparing two versions of a CV
+ */
+export class SnapshotDiffModal extends Modal {
+  private document: CVDocument;
+  private snapshots: CVSnapshot[];
+  private leftId: string;
+  private rightId: string;
+  private component: Component;
+  private markdownService: MarkdownService;
+  private diffEl: HTMLElement;
+  private renderCount = 0;
+
+  /**
+   * Create a new snapshot comparison
+   * @param app The Obsidian app instance
+   * @param document The CV as it is in the editor
+   * @param snapshots The CV's snapshots
+   * @param leftId The snapshot shown on the left ('current' for the editor's version)
+   * @param rightId The snapshot shown on the right ('current' for the editor's version)
+   */
+  constructor(app: App, document: CVDocument, snapshots: CVSnapshot[], leftId: string, rightId: string = CURRENT_VERSION) {
+    super(app);
+    this.document = document;
+    this.snapshots = snapshots;
+    this.leftId = leftId;
+    this.rightId = rightId;
+    this.component = new Component();
+    this.markdownService = new MarkdownService(this.component);
+  }
+
+  /**
+   * Modal content
+   */
+  onOpen() {
+    const { contentEl, modalEl } = this;
+    modalEl.addClass('oh-my-cv-diff-modal');
+    this.component.load();
+
+    contentEl.createEl('h2', { text: 'Compare versions' });
+
+    // Version pickers
+    const pickersEl = contentEl.createDiv({ cls: 'oh-my-cv-diff-pickers' });
+    this.createPicker(pickersEl, this.leftId, value => {
+      this.leftId = value;
+      this.renderDiff();
+    });
+    this.createPicker(pickersEl, this.rightId, value => {
+      this.rightId = value;
+      this.renderDiff();
+    });
+
+    this.diffEl = contentEl.createDiv({ cls: 'oh-my-cv-diff' });
+    this.renderDiff();
+  }
+
+  /**
+   * Create a dropdown for choosing a version
+   * @param containerEl The container
+   * @param value The selected version
+   * @param onChange Callback with the chosen version
+   */
+  private createPicker(containerEl: HTMLElement, value: string, onChange: (value: string) => void): void {
+    const dropdown = new DropdownComponent(containerEl).addOption(CURRENT_VERSION, 'Current version');
+    this.snapshots.forEach(snapshot => {
+      dropdown.addOption(snapshot.id, `${snapshot.name} (${new Date(snapshot.createdAt).toLocaleDateString()})`);
+    });
+    dropdown.setValue(value).onChange(onChange);
+  }
+
+  /**
+   * Get the content of a version
+   * @param id The snapshot ID, or 'current'
+   * @returns The Markdown
+   */
+  private getContent(id: string): string {
+    if (id === CURRENT_VERSION) {
+      return this.document.content;
+    }
+    return this.snapshots.find(snapshot => snapshot.id === id)?.content ?? '';
+  }
+
+  /**
+   * Render the selected versions side by side
+   */
+  private async renderDiff(): Promise<void> {
+    const renderId = ++this.renderCount;
+    this.diffEl.empty();
+
+    const rows = diffMarkdown(this.getContent(this.leftId), this.getContent(this.rightId));
+    if (rows.every(row => row.type === 'equal')) {
+      this.diffEl.createDiv({ cls: 'oh-my-cv-diff-empty', text: 'The versions are identical' });
+    }
+
+    for (const row of rows) {
+      // Stop if another pair of versions was picked meanwhile
+      if (renderId !== this.renderCount) {
+        return;
+      }
+      const rowEl = this.diffEl.createDiv({ cls: `oh-my-cv-diff-row oh-my-cv-diff-${row.type}` });
+      await this.renderCell(rowEl, row.left, 'left');
+      await this.renderCell(rowEl, row.right, 'right');
+    }
+  }
+
+  /**
+   * Render one side of a diff row
+   * @param rowEl The row element
+   * @param markdown The block on this side, if any
+   * @param side Which side this is
+   */
+  private async renderCell(rowEl: HTMLElement, markdown: string | undefined, side: 'left' | 'right'): Promise<void> {
+    const cellEl = rowEl.createDiv({ cls: `oh-my-cv-diff-cell oh-my-cv-diff-${side}` });
+    if (markdown === undefined) {
+      cellEl.addClass('oh-my-cv-diff-placeholder');
+      return;
+    }
+
+    await this.markdownService.renderMarkdown(markdown, cellEl, {
+      metadata: this.document.metadata,
+      paginate: false
+    });
+  }
+
+  /**
+   * Clean up when the modal is closed
+   */
+  onClose() {
+    this.component.unload();
+    this.contentEl.empty();
+  }
+}
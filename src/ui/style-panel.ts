@@ -0,0 +1,201 @@
+/**
+ * Style panel for the Oh My CV plugin
+ * Edits a CV's styling and page setup, which are kept in its frontmatter
+ */
+
+import { ButtonComponent, DropdownComponent, Setting, TextComponent } from 'obsidian';
+import { CVDocument, CVMetadata } from '../core/types';
+import { FONT_FAMILIES } from '../core/constants';
+import { getPluginInstance } from '../core/plugin-instance';
+
+/**
+ * What the style panel needs from the view that hosts it
+ */
+export interface StylePanelHost {
+  /** Get the open CV with the editor's current content, or null if none is open */
+  getCurrentDocument(): CVDocument | null;
+
+  /** Change the open CV's metadata, updating the preview and saving it like an edit */
+  updateMetadata(changes: Partial<CVMetadata>): void;
+}
+
+/**
+ * Panel with controls for the styling of the open CV
+ */
+export class StylePanel {
+  private containerEl: HTMLElement;
+  private bodyEl: HTMLElement;
+  private host: StylePanelHost;
+
+  /**
+   * Create a new style panel
+   * @param containerEl Container element to add the panel to
+   * @param host The view hosting the panel
+   */
+  constructor(containerEl: HTMLElement, host: StylePanelHost) {
+    this.containerEl = containerEl;
+    this.host = host;
+    this.containerEl.createEl('h3', { text: 'Style' });
+    this.bodyEl = this.containerEl.createDiv({ cls: 'oh-my-cv-style-body' });
+  }
+
+  /**
+   * Rebuild the controls from the open CV's metadata
+   */
+  refresh(): void {
+    this.bodyEl.empty();
+
+    const metadata = this.host.getCurrentDocument()?.metadata;
+    if (!metadata) {
+      this.bodyEl.createDiv({ cls: 'oh-my-cv-style-empty', text: 'Open a CV to change its style.' });
+      return;
+    }
+
+    this.createAppearanceControls(metadata);
+    this.createPageControls(metadata);
+
+    // Custom CSS
+    this.bodyEl.createEl('h4', { text: 'Custom CSS' });
+    new Setting(this.bodyEl)
+      .setClass('oh-my-cv-style-css')
+      .addTextArea(text => {
+        text
+          .setPlaceholder('.oh-my-cv-section { letter-spacing: 1px; }')
+          .setValue(metadata.customCss || '')
+          .onChange(value => this.host.updateMetadata({ customCss: value || undefined }));
+        text.inputEl.rows = 6;
+      });
+
+    new ButtonComponent(this.bodyEl.createDiv({ cls: 'oh-my-cv-style-reset' }))
+      .setButtonText('Reset to defaults')
+      .setTooltip('Use the default style from the plugin settings')
+      .onClick(() => this.resetToDefaults());
+  }
+
+  /**
+   * Add the color, font and spacing controls
+   * @param metadata The CV's metadata
+   */
+  private createAppearanceControls(metadata: CVMetadata): void {
+    this.bodyEl.createEl('h4', { text: 'Appearance' });
+
+    new Setting(this.bodyEl)
+      .setName('Theme color')
+      .addColorPicker(color => color
+        .setValue(metadata.themeColor)
+        .onChange(value => this.host.updateMetadata({ themeColor: value })));
+
+    // A named font, or any font stack typed in
+    const fontStacks = Object.values(FONT_FAMILIES);
+    let fontDropdown: DropdownComponent;
+    let fontInput: TextComponent;
+    new Setting(this.bodyEl)
+      .setName('Font')
+      .setClass('oh-my-cv-style-font')
+      .addDropdown(dropdown => {
+        fontDropdown = dropdown;
+        Object.entries(FONT_FAMILIES).forEach(([name, stack]) => dropdown.addOption(stack, name));
+        dropdown.addOption('', 'Custom');
+        dropdown
+          .setValue(fontStacks.includes(metadata.fontFamily) ? metadata.fontFamily : '')
+          .onChange(value => {
+            if (value) {
+              fontInput.setValue(value);
+              this.host.updateMetadata({ fontFamily: value });
+            }
+          });
+      })
+      .addText(text => {
+        fontInput = text;
+        text
+          .setPlaceholder('Inter, sans-serif')
+          .setValue(metadata.fontFamily)
+          .onChange(value => {
+            fontDropdown.setValue(fontStacks.includes(value) ? value : '');
+            if (value.trim()) {
+              this.host.updateMetadata({ fontFamily: value });
+            }
+          });
+      });
+
+    new Setting(this.bodyEl)
+      .setName('Font size (pt)')
+      .addSlider(slider => slider
+        .setLimits(8, 16, 0.5)
+        .setValue(metadata.fontSize)
+        .setDynamicTooltip()
+        .onChange(value => this.host.updateMetadata({ fontSize: value })));
+
+    new Setting(this.bodyEl)
+      .setName('Line height')
+      .addSlider(slider => slider
+        .setLimits(1, 2, 0.05)
+        .setValue(metadata.lineHeight)
+        .setDynamicTooltip()
+        .onChange(value => this.host.updateMetadata({ lineHeight: value })));
+  }
+
+  /**
+   * Add the page size, orientation and margin controls
+   * @param metadata The CV's metadata
+   */
+  private createPageControls(metadata: CVMetadata): void {
+    this.bodyEl.createEl('h4', { text: 'Page' });
+
+    new Setting(this.bodyEl)
+      .setName('Page size')
+      .addDropdown(dropdown => dropdown
+        .addOption('A4', 'A4')
+        .addOption('LETTER', 'US Letter')
+        .addOption('LEGAL', 'US Legal')
+        .addOption('TABLOID', 'Tabloid')
+        .setValue(metadata.pageSize)
+        .onChange((value: CVMetadata['pageSize']) => this.host.updateMetadata({ pageSize: value })));
+
+    new Setting(this.bodyEl)
+      .setName('Orientation')
+      .addDropdown(dropdown => dropdown
+        .addOption('portrait', 'Portrait')
+        .addOption('landscape', 'Landscape')
+        .setValue(metadata.orientation || 'portrait')
+        .onChange((value: 'portrait' | 'landscape') => this.host.updateMetadata({ orientation: value })));
+
+    // One slider per side, each writing the whole margins object
+    const sides: { key: keyof CVMetadata['margins']; name: string }[] = [
+      { key: 'top', name: 'Top margin (mm)' },
+      { key: 'bottom', name: 'Bottom margin (mm)' },
+      { key: 'left', name: 'Left margin (mm)' },
+      { key: 'right', name: 'Right margin (mm)' }
+    ];
+    sides.forEach(({ key, name }) => {
+      new Setting(this.bodyEl)
+        .setName(name)
+        .addSlider(slider => slider
+          .setLimits(0, 50, 1)
+          .setValue(metadata.margins[key])
+          .setDynamicTooltip()
+          .onChange(value => {
+            const margins = this.host.getCurrentDocument()?.metadata.margins || metadata.margins;
+            this.host.updateMetadata({ margins: { ...margins, [key]: value } });
+          }));
+    });
+  }
+
+  /**
+   * Replace the CV's style with the defaults from the plugin settings
+   */
+  private resetToDefaults(): void {
+    const settings = getPluginInstance().settings;
+    this.host.updateMetadata({
+      themeColor: settings.getDefaultThemeColor(),
+      fontFamily: settings.getDefaultFontFamily(),
+      fontSize: settings.getSettings().defaultFontSize,
+      lineHeight: settings.getSettings().defaultLineHeight,
+      pageSize: settings.getDefaultPageSize(),
+      orientation: undefined,
+      margins: { ...settings.getDefaultMargins() },
+      customCss: undefined
+    });
+    this.refresh();
+  }
+}
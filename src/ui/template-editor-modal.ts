@@ -0,0 +1,367 @@
+/**
+ * Template editor for the Oh My CV plugin
+ * Edits a template's details, Markdown and style with a live preview
+ */
+
+import { App, ButtonComponent, ColorComponent, Modal, Setting, TextComponent } from 'obsidian';
+import { CVTemplate, CVTemplateStyle, CVTheme } from '../core/types';
+import { PREVIEW_RENDER_DELAY } from '../core/constants';
+import { DEFAULT_TEMPLATE_STYLE, validateTemplate } from '../core/templates';
+import { getPluginInstance } from '../core/plugin-instance';
+import { MarkdownService } from '../services/markdown-service';
+
+/**
+ * Modal for creating or editing a template
+ */
+export class TemplateEditorModal extends Modal {
+  private template: CVTemplate;
+  private others: CVTemplate[];
+  private isNew: boolean;
+  private markdownService: MarkdownService;
+  private previewEl: HTMLElement;
+  private errorsEl: HTMLElement;
+  private renderTimer: number | null = null;
+  private resolve: (value: CVTemplate | null) => void = () => undefined;
+  private submitted = false;
+
+  /**
+   * Create a new template editor
+   * @param app The Obsidian app instance
+   * @param template The template to edit, or null to create one
+   * @param others The other templates, whose IDs and names the template must not reuse
+   */
+  constructor(app: App, template: CVTemplate | null, others: CVTemplate[]) {
+    super(app);
+    this.isNew = !template;
+    this.others = others;
+    this.markdownService = new MarkdownService(getPluginInstance());
+
+    // Edit a copy, so cancelling leaves the template as it was
+    const source = template || {
+      id: `template-${Date.now()}`,
+      name: '',
+      description: '',
+      content: '',
+      style: DEFAULT_TEMPLATE_STYLE
+    };
+    this.template = {
+      ...source,
+      tags: source.tags ? [...source.tags] : undefined,
+      style: {
+        ...source.style,
+        theme: { ...source.style.theme },
+        margins: { ...source.style.margins }
+      }
+    };
+  }
+
+  /**
+   * Open the modal and wait for the user's changes
+   * @returns The saved template, or null if the modal was dismissed
+   */
+  prompt(): Promise<CVTemplate | null> {
+    return new Promise(resolve => {
+      this.resolve = resolve;
+      this.open();
+    });
+  }
+
+  /**
+   * Modal content
+   */
+  onOpen() {
+    const { contentEl } = this;
+    this.modalEl.addClass('oh-my-cv-template-editor-modal');
+
+    contentEl.createEl('h2', { text: this.isNew ? 'New template' : `Edit ${this.template.name}` });
+
+    const editorEl = contentEl.createDiv({ cls: 'oh-my-cv-template-editor' });
+
+    // Details and style
+    const formEl = editorEl.createDiv({ cls: 'oh-my-cv-template-editor-form' });
+    this.createDetailControls(formEl);
+    this.createThemeControls(formEl);
+    this.createLayoutControls(formEl);
+
+    // Markdown
+    const markdownEl = editorEl.createDiv({ cls: 'oh-my-cv-template-editor-markdown' });
+    markdownEl.createEl('h4', { text: 'Markdown' });
+    const textarea = markdownEl.createEl('textarea', {
+      attr: { placeholder: '# Your Name\n\nemail@example.com | City\n\n## Experience', spellcheck: 'false' }
+    });
+    textarea.value = this.template.content;
+    textarea.addEventListener('input', () => {
+      this.template.content = textarea.value;
+      this.schedulePreview();
+    });
+
+    // Live preview
+    const previewColumnEl = editorEl.createDiv({ cls: 'oh-my-cv-template-editor-preview' });
+    previewColumnEl.createEl('h4', { text: 'Preview' });
+    this.previewEl = previewColumnEl.createDiv({ cls: 'oh-my-cv-preview-content' });
+
+    this.errorsEl = contentEl.createDiv({ cls: 'oh-my-cv-template-editor-errors' });
+
+    const buttonsContainer = contentEl.createDiv({ cls: 'oh-my-cv-choice-buttons' });
+    new ButtonComponent(buttonsContainer)
+      .setButtonText(this.isNew ? 'Create' : 'Save')
+      .setCta()
+      .onClick(() => this.submit());
+    new ButtonComponent(buttonsContainer)
+      .setButtonText('Cancel')
+      .onClick(() => this.close());
+
+    this.renderPreview();
+  }
+
+  /**
+   * Add the name, description, category, tags and preview image controls
+   * @param containerEl The form
+   */
+  private createDetailControls(containerEl: HTMLElement): void {
+    containerEl.createEl('h4', { text: 'Details' });
+
+    new Setting(containerEl)
+      .setName('Name')
+      .addText(text => text
+        .setValue(this.template.name)
+        .onChange(value => {
+          this.template.name = value;
+        }));
+
+    new Setting(containerEl)
+      .setName('Description')
+      .addTextArea(text => text
+        .setValue(this.template.description)
+        .onChange(value => {
+          this.template.description = value;
+        }));
+
+    // Categories already in use are suggested
+    const categories = Array.from(new Set(this.others.map(other => other.category).filter(Boolean))) as string[];
+    new Setting(containerEl)
+      .setName('Category')
+      .setDesc('E.g. Professional, Academic, Creative')
+      .addText(text => {
+        text
+          .setValue(this.template.category || '')
+          .onChange(value => {
+            this.template.category = value.trim() || undefined;
+          });
+        const listEl = containerEl.createEl('datalist', { attr: { id: 'oh-my-cv-template-categories' } });
+        categories.forEach(category => listEl.createEl('option', { attr: { value: category } }));
+        text.inputEl.setAttribute('list', 'oh-my-cv-template-categories');
+      });
+
+    new Setting(containerEl)
+      .setName('Tags')
+      .setDesc('Comma-separated, e.g. minimal, modern')
+      .addText(text => text
+        .setValue((this.template.tags || []).join(', '))
+        .onChange(value => {
+          const tags = value.split(',').map(tag => tag.trim()).filter(Boolean);
+          this.template.tags = tags.length > 0 ? tags : undefined;
+        }));
+
+    new Setting(containerEl)
+      .setName('Preview image')
+      .setDesc('A web address or data:image URI shown in the template browser')
+      .addText(text => text
+        .setPlaceholder('https://...')
+        .setValue(this.template.previewImage || '')
+        .onChange(value => {
+          this.template.previewImage = value.trim() || undefined;
+        }));
+  }
+
+  /**
+   * Add the color and typography controls
+   * @param containerEl The form
+   */
+  private createThemeControls(containerEl: HTMLElement): void {
+    containerEl.createEl('h4', { text: 'Theme' });
+
+    const colors: { key: keyof CVTheme; name: string }[] = [
+      { key: 'primaryColor', name: 'Primary color' },
+      { key: 'secondaryColor', name: 'Secondary color' },
+      { key: 'accentColor', name: 'Accent color' },
+      { key: 'textColor', name: 'Text color' },
+      { key: 'linkColor', name: 'Link color' },
+      { key: 'backgroundColor', name: 'Background color' }
+    ];
+    colors.forEach(({ key, name }) => this.addColorControl(containerEl, key, name));
+
+    const fields: { key: keyof CVTheme; name: string; placeholder: string }[] = [
+      { key: 'headingFont', name: 'Heading font', placeholder: 'Inter, sans-serif' },
+      { key: 'bodyFont', name: 'Body font', placeholder: 'Inter, sans-serif' },
+      { key: 'fontSize', name: 'Font size', placeholder: '11pt' },
+      { key: 'lineHeight', name: 'Line height', placeholder: '1.5' }
+    ];
+    fields.forEach(({ key, name, placeholder }) => {
+      new Setting(containerEl)
+        .setName(name)
+        .addText(text => text
+          .setPlaceholder(placeholder)
+          .setValue(this.template.style.theme[key] || '')
+          .onChange(value => {
+            this.setThemeValue(key, value);
+          }));
+    });
+  }
+
+  /**
+   * Add a color picker with a text field, which also takes colors the picker cannot show
+   * @param containerEl The form
+   * @param key The theme field
+   * @param name The field's label
+   */
+  private addColorControl(containerEl: HTMLElement, key: keyof CVTheme, name: string): void {
+    let picker: ColorComponent;
+    let input: TextComponent;
+    new Setting(containerEl)
+      .setName(name)
+      .setClass('oh-my-cv-template-editor-color')
+      .addColorPicker(color => {
+        picker = color;
+        const value = this.template.style.theme[key];
+        if (value && /^#[0-9a-f]{6}$/i.test(value)) {
+          color.setValue(value);
+        }
+        color.onChange(value => {
+          input.setValue(value);
+          this.setThemeValue(key, value);
+        });
+      })
+      .addText(text => {
+        input = text;
+        text
+          .setPlaceholder(key === 'primaryColor' ? '#4051b5' : 'None')
+          .setValue(this.template.style.theme[key] || '')
+          .onChange(value => {
+            if (/^#[0-9a-f]{6}$/i.test(value.trim())) {
+              picker.setValue(value.trim());
+            }
+            this.setThemeValue(key, value);
+          });
+      });
+  }
+
+  /**
+   * Add the margin, spacing and custom CSS controls
+   * @param containerEl The form
+   */
+  private createLayoutControls(containerEl: HTMLElement): void {
+    containerEl.createEl('h4', { text: 'Layout' });
+
+    const sides: { key: keyof CVTemplateStyle['margins']; name: string }[] = [
+      { key: 'top', name: 'Top margin (mm)' },
+      { key: 'bottom', name: 'Bottom margin (mm)' },
+      { key: 'left', name: 'Left margin (mm)' },
+      { key: 'right', name: 'Right margin (mm)' }
+    ];
+    sides.forEach(({ key, name }) => {
+      new Setting(containerEl)
+        .setName(name)
+        .addSlider(slider => slider
+          .setLimits(0, 50, 1)
+          .setValue(this.template.style.margins[key])
+          .setDynamicTooltip()
+          .onChange(value => {
+            this.template.style.margins[key] = value;
+            this.schedulePreview();
+          }));
+    });
+
+    new Setting(containerEl)
+      .setName('Spacing')
+      .setDesc('Line spacing factor')
+      .addSlider(slider => slider
+        .setLimits(0.8, 2, 0.05)
+        .setValue(this.template.style.spacing)
+        .setDynamicTooltip()
+        .onChange(value => {
+          this.template.style.spacing = value;
+          this.schedulePreview();
+        }));
+
+    new Setting(containerEl)
+      .setName('Custom CSS')
+      .addTextArea(text => {
+        text
+          .setPlaceholder('.oh-my-cv-section { letter-spacing: 1px; }')
+          .setValue(this.template.style.customCSS || '')
+          .onChange(value => {
+            this.template.style.customCSS = value || undefined;
+            this.schedulePreview();
+          });
+        text.inputEl.rows = 5;
+      });
+  }
+
+  /**
+   * Set a theme field, dropping it when emptied
+   * @param key The theme field
+   * @param value The new value
+   */
+  private setThemeValue(key: keyof CVTheme, value: string): void {
+    // The primary color is required, so it is kept empty for validation to report
+    Object.assign(this.template.style.theme, { [key]: value.trim() || (key === 'primaryColor' ? '' : undefined) });
+    this.schedulePreview();
+  }
+
+  /**
+   * Queue a preview render, restarting its timer
+   */
+  private schedulePreview(): void {
+    if (this.renderTimer !== null) {
+      window.clearTimeout(this.renderTimer);
+    }
+    this.renderTimer = window.setTimeout(() => {
+      this.renderTimer = null;
+      this.renderPreview();
+    }, PREVIEW_RENDER_DELAY);
+  }
+
+  /**
+   * Render the template's Markdown with its style
+   */
+  private async renderPreview(): Promise<void> {
+    const { margins } = this.template.style;
+    this.previewEl.style.padding = `${margins.top / 2}px ${margins.right / 2}px ${margins.bottom / 2}px ${margins.left / 2}px`;
+
+    // Render through the same pipeline as the editor preview and exports
+    await this.markdownService.renderMarkdown(this.template.content, this.previewEl, {
+      templateStyle: this.template.style,
+      paginate: false
+    });
+  }
+
+  /**
+   * Validate the template and close the modal if it can be saved
+   */
+  private submit(): void {
+    const errors = validateTemplate(this.template, this.others);
+    this.errorsEl.empty();
+    if (errors.length > 0) {
+      const listEl = this.errorsEl.createEl('ul');
+      errors.forEach(error => listEl.createEl('li', { text: error }));
+      return;
+    }
+
+    this.template.name = this.template.name.trim();
+    this.submitted = true;
+    this.close();
+  }
+
+  /**
+   * Clean up and report the template when the modal is closed
+   */
+  onClose() {
+    if (this.renderTimer !== null) {
+      window.clearTimeout(this.renderTimer);
+      this.renderTimer = null;
+    }
+    this.contentEl.empty();
+    this.resolve(this.submitted ? this.template : null);
+  }
+}
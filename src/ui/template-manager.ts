@@ -4,9 +4,10 @@
  */
 
 import { Modal, Setting, ButtonComponent, setIcon } from 'obsidian';
-import { CVTemplate } from '../core/types';
-import { DEFAULT_TEMPLATES, getTemplateById, getTemplatesByCategory } from '../core/templates';
+import { CVTemplate, TemplateApplyMode } from '../core/types';
+import { getTemplateById, getTemplatesByCategory } from '../core/templates';
 import { getPluginInstance } from '../core/plugin-instance';
+import { MarkdownService } from '../services/markdown-service';
 
 /**
  * Template Manager Modal
@@ -15,23 +16,23 @@ import { getPluginInstance } from '../core/plugin-instance';
 export class TemplateManager extends Modal {
   private templates: CVTemplate[] = [];
   private selectedTemplate: CVTemplate | null = null;
-  private onSelectCallback: (template: CVTemplate) => void;
+  private onSelectCallback: (template: CVTemplate, mode: TemplateApplyMode) => void;
   private searchTerm: string = '';
   private activeCategory: string | null = null;
   private previewEl: HTMLElement;
+  private markdownService: MarkdownService;
 
   /**
    * Create a new template manager
-   * @param onSelect Callback when a template is selected
+   * @param onSelect Callback when a template is applied, with what to apply
    */
-  constructor(onSelect: (template: CVTemplate) => void) {
+  constructor(onSelect: (template: CVTemplate, mode: TemplateApplyMode) => void) {
     super(getPluginInstance().app);
     this.onSelectCallback = onSelect;
-    this.templates = [...DEFAULT_TEMPLATES];
-    
-    // Add any custom templates from settings
-    const customTemplates = getPluginInstance().settings.getSettings().templates || [];
-    this.templates = [...this.templates, ...customTemplates];
+    this.markdownService = new MarkdownService(getPluginInstance());
+
+    // Built-in templates, then those from the settings and the templates folder
+    this.templates = getPluginInstance().settings.getTemplates();
   }
 
   /**
@@ -105,26 +106,60 @@ export class TemplateManager extends Modal {
     // Button container
     const buttonContainer = contentEl.createDiv({ cls: 'oh-my-cv-template-buttons' });
     
+    // Share templates as package files
+    const plugin = getPluginInstance();
+    new ButtonComponent(buttonContainer)
+      .setButtonText('Import')
+      .setTooltip('Import templates from a package file')
+      .onClick(() => {
+        plugin.templatePackages.promptImport(() => {
+          // Rebuild the list and category filters with the new templates
+          this.templates = plugin.settings.getTemplates();
+          this.selectedTemplate = null;
+          contentEl.empty();
+          this.onOpen();
+        });
+      }).buttonEl.addClass('oh-my-cv-template-package-button');
+    new ButtonComponent(buttonContainer)
+      .setButtonText('Export')
+      .setTooltip('Export templates to a package file')
+      .onClick(() => {
+        const selectedIds = this.selectedTemplate
+          ? [this.selectedTemplate.id]
+          : plugin.settings.getUserTemplates().map((template: CVTemplate) => template.id);
+        plugin.templatePackages.promptExport(selectedIds);
+      }).buttonEl.addClass('oh-my-cv-template-package-button');
+
     // Create buttons
     const cancelButton = new ButtonComponent(buttonContainer)
       .setButtonText('Cancel')
       .onClick(() => this.close());
     cancelButton.buttonEl.addClass('oh-my-cv-template-cancel-button');
     
-    const selectButton = new ButtonComponent(buttonContainer)
-      .setButtonText('Apply Template')
-      .setDisabled(true)
-      .onClick(() => {
-        if (this.selectedTemplate) {
-          this.onSelectCallback(this.selectedTemplate);
-          this.close();
-        }
-      });
-    selectButton.buttonEl.addClass('oh-my-cv-template-select-button');
+    // Apply the style, the content, or both
+    const applyButtons: { mode: TemplateApplyMode; text: string; tooltip: string }[] = [
+      { mode: 'style', text: 'Apply Style Only', tooltip: 'Use the template\'s colors, fonts and margins, keeping your content' },
+      { mode: 'content', text: 'Apply Content Only', tooltip: 'Replace your content with the template\'s, keeping your style' },
+      { mode: 'all', text: 'Apply Template', tooltip: 'Replace your content and style with the template\'s' }
+    ];
+    const selectButtons = applyButtons.map(({ mode, text, tooltip }) => {
+      const button = new ButtonComponent(buttonContainer)
+        .setButtonText(text)
+        .setTooltip(tooltip)
+        .setDisabled(true)
+        .onClick(() => {
+          if (this.selectedTemplate) {
+            this.onSelectCallback(this.selectedTemplate, mode);
+            this.close();
+          }
+        });
+      button.buttonEl.addClass(mode === 'all' ? 'oh-my-cv-template-select-button' : 'oh-my-cv-template-apply-part-button');
+      return button;
+    });
     
     // Update select button state when selection changes
     document.addEventListener('click', () => {
-      selectButton.setDisabled(!this.selectedTemplate);
+      selectButtons.forEach(button => button.setDisabled(!this.selectedTemplate));
     });
     
     // Clean up event listener when the modal is closed
@@ -169,6 +204,14 @@ export class TemplateManager extends Modal {
         templateItem.addClass('selected');
       }
       
+      // Thumbnail, if the template has one
+      if (template.previewImage) {
+        templateItem.createEl('img', {
+          cls: 'oh-my-cv-template-thumbnail',
+          attr: { src: template.previewImage, alt: `${template.name} preview` }
+        });
+      }
+      
       // Template name and info
       const nameEl = templateItem.createEl('h3', { 
         text: template.name,
@@ -296,7 +339,7 @@ export class TemplateManager extends Modal {
    * Update the preview pane with the selected template
    * @param template Template to preview
    */
-  private updatePreview(template: CVTemplate) {
+  private async updatePreview(template: CVTemplate) {
     this.previewEl.empty();
     
     // Create preview header
@@ -304,67 +347,15 @@ export class TemplateManager extends Modal {
     previewHeader.createEl('h3', { text: 'Preview: ' + template.name });
     
     // Preview content
-    const previewContent = this.previewEl.createDiv({ 
-      cls: 'oh-my-cv-preview-content',
-      attr: { style: this.getPreviewStyles(template) }
+    const previewContent = this.previewEl.createDiv({ cls: 'oh-my-cv-preview-content' });
+    const { margins } = template.style;
+    previewContent.style.padding = `${margins.top / 2}px ${margins.right / 2}px ${margins.bottom / 2}px ${margins.left / 2}px`;
+    
+    // Render through the same pipeline as the editor preview and exports
+    await this.markdownService.renderMarkdown(template.content, previewContent, {
+      templateStyle: template.style,
+      paginate: false
     });
-    
-    // Generate a simple preview of the template content
-    const previewText = this.generatePreviewHTML(template.content);
-    previewContent.innerHTML = previewText;
-  }
-  
-  /**
-   * Get CSS styles for the template preview
-   * @param template The template
-   * @returns CSS style string
-   */
-  private getPreviewStyles(template: CVTemplate): string {
-    const { theme, margins } = template.style;
-    
-    return `
-      color: ${theme.textColor || '#333'};
-      background-color: ${theme.backgroundColor || '#fff'};
-      font-family: ${theme.bodyFont || 'sans-serif'};
-      padding: ${margins.top / 2}px ${margins.right / 2}px ${margins.bottom / 2}px ${margins.left / 2}px;
-      font-size: ${theme.fontSize || '11pt'};
-      line-height: ${theme.lineHeight || '1.5'};
-    `;
-  }
-  
-  /**
-   * Generate a simple HTML preview from markdown content
-   * @param content Markdown content
-   * @returns HTML preview
-   */
-  private generatePreviewHTML(content: string): string {
-    // Simple markdown to HTML conversion for preview
-    // Just handles basic elements for the preview
-    let html = content
-      .replace(/^# (.*$)/gm, '<h1 style="color:' + (this.selectedTemplate?.style.theme.primaryColor || '#000') + '">$1</h1>')
-      .replace(/^## (.*$)/gm, '<h2 style="color:' + (this.selectedTemplate?.style.theme.primaryColor || '#000') + '">$1</h2>')
-      .replace(/^### (.*$)/gm, '<h3 style="color:' + (this.selectedTemplate?.style.theme.primaryColor || '#000') + '">$1</h3>')
-      .replace(/\*\*(.*?)\*\*/g, '<strong>$1</strong>')
-      .replace(/\*(.*?)\*/g, '<em>$1</em>')
-      .replace(/- (.*$)/gm, '<li>$1</li>')
-      .replace(/\\cvtag\{(.*?)\}/g, '<span class="preview-tag">$1</span>')
-      .replace(/\\daterange\{(.*?)\}\{(.*?)\}/g, '<span class="preview-date">$1 – $2</span>');
-    
-    // Replace consecutive list items with a ul wrapper
-    html = html.replace(/<li>.*?<\/li>(\s*<li>.*?<\/li>)*/g, match => {
-      return `<ul>${match}</ul>`;
-    });
-    
-    // Replace newpage markers
-    html = html.replace(/\\newpage/g, '<hr class="preview-page-break">');
-    
-    // Truncate the preview if it's too long
-    const MAX_PREVIEW_LENGTH = 1500;
-    if (html.length > MAX_PREVIEW_LENGTH) {
-      html = html.substring(0, MAX_PREVIEW_LENGTH) + '...';
-    }
-    
-    return html;
   }
 }
 
@@ -375,22 +366,20 @@ export class TemplateManager extends Modal {
 export class TemplateSelector {
   private containerEl: HTMLElement;
   private selectEl: HTMLSelectElement;
-  private onSelectCallback: (template: CVTemplate) => void;
+  private onSelectCallback: (template: CVTemplate, mode: TemplateApplyMode) => void;
   private templates: CVTemplate[];
   
   /**
    * Create a new template selector
    * @param containerEl Container element to add the selector to
-   * @param onSelect Callback when a template is selected
+   * @param onSelect Callback when a template is applied, with what to apply
    */
-  constructor(containerEl: HTMLElement, onSelect: (template: CVTemplate) => void) {
+  constructor(containerEl: HTMLElement, onSelect: (template: CVTemplate, mode: TemplateApplyMode) => void) {
     this.containerEl = containerEl;
     this.onSelectCallback = onSelect;
     
     // Get templates
-    this.templates = [...DEFAULT_TEMPLATES];
-    const customTemplates = getPluginInstance().settings.getSettings().templates || [];
-    this.templates = [...this.templates, ...customTemplates];
+    this.templates = getPluginInstance().settings.getTemplates();
     
     this.createSelector();
   }
@@ -403,7 +392,38 @@ export class TemplateSelector {
     
     // Create select element
     this.selectEl = selectorContainer.createEl('select', { cls: 'oh-my-cv-template-selector' });
+    this.createOptions();
+    
+    // Add change event handler
+    this.selectEl.addEventListener('change', this.handleTemplateSelection.bind(this));
     
+    // Add browse button
+    const browseButton = new ButtonComponent(selectorContainer)
+      .setIcon('search')
+      .setTooltip('Browse Templates')
+      .onClick(() => {
+        new TemplateManager((template, mode) => {
+          this.onSelectCallback(template, mode);
+          // Update the selector to match the selected template
+          this.selectEl.value = template.id;
+        }).open();
+      });
+    browseButton.buttonEl.addClass('oh-my-cv-template-browse-button');
+  }
+  
+  /**
+   * Reload the templates and rebuild the dropdown, e.g. after one was added or imported
+   */
+  refresh(): void {
+    this.templates = getPluginInstance().settings.getTemplates();
+    this.selectEl.empty();
+    this.createOptions();
+  }
+
+  /**
+   * Add the placeholder and an option per template, grouped by category
+   */
+  private createOptions(): void {
     // Add default option
     this.selectEl.createEl('option', {
       value: '',
@@ -425,24 +445,8 @@ export class TemplateSelector {
         });
       });
     });
-    
-    // Add change event handler
-    this.selectEl.addEventListener('change', this.handleTemplateSelection.bind(this));
-    
-    // Add browse button
-    const browseButton = new ButtonComponent(selectorContainer)
-      .setIcon('search')
-      .setTooltip('Browse Templates')
-      .onClick(() => {
-        new TemplateManager((template) => {
-          this.onSelectCallback(template);
-          // Update the selector to match the selected template
-          this.selectEl.value = template.id;
-        }).open();
-      });
-    browseButton.buttonEl.addClass('oh-my-cv-template-browse-button');
   }
-  
+
   /**
    * Group templates by category
    * @returns Templates grouped by category
@@ -471,7 +475,7 @@ export class TemplateSelector {
     const template = this.templates.find(t => t.id === templateId);
     
     if (template) {
-      this.onSelectCallback(template);
+      this.onSelectCallback(template, 'all');
     }
   }
 }
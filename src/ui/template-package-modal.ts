@@ -0,0 +1,214 @@
+/**
+ * Template package dialogs for the Oh My CV plugin
+ * Ask which templates to share, and how an imported package joins the existing templates
+ */
+
+import { App, ButtonComponent, Modal, Setting } from 'obsidian';
+import { CVTemplate, TemplateCollisionPolicy, TemplatePackage, TemplatePackageFormat } from '../core/types';
+
+/**
+ * What the user chose to export
+ */
+export interface TemplateExportChoice {
+  /** The templates to put in the package */
+  templates: CVTemplate[];
+
+  /** The package's file type */
+  format: TemplatePackageFormat;
+}
+
+/**
+ * Modal for choosing the templates to export and the package's file type
+ */
+export class TemplateExportModal extends Modal {
+  private templates: CVTemplate[];
+  private selectedIds: Set<string>;
+  private format: TemplatePackageFormat = 'zip';
+  private resolve: (value: TemplateExportChoice | null) => void = () => undefined;
+  private submitted = false;
+
+  /**
+   * Create a new template export modal
+   * @param app The Obsidian app instance
+   * @param templates The templates that can be exported
+   * @param selectedIds IDs of the templates selected at first
+   */
+  constructor(app: App, templates: CVTemplate[], selectedIds: string[]) {
+    super(app);
+    this.templates = templates;
+    this.selectedIds = new Set(selectedIds);
+  }
+
+  /**
+   * Open the modal and wait for the user's choice
+   * @returns The choice, or null if the modal was dismissed
+   */
+  prompt(): Promise<TemplateExportChoice | null> {
+    return new Promise(resolve => {
+      this.resolve = resolve;
+      this.open();
+    });
+  }
+
+  /**
+   * Modal content
+   */
+  onOpen() {
+    const { contentEl } = this;
+
+    contentEl.createEl('h2', { text: 'Export templates' });
+    contentEl.createEl('p', {
+      text: 'The package holds each template\'s content, style, custom CSS and preview image. Fonts are listed by name only, without their font files, so install them wherever the package is imported.'
+    });
+
+    new Setting(contentEl)
+      .setName('Format')
+      .setDesc('A zip file keeps each template\'s Markdown, CSS and preview image as separate files')
+      .addDropdown(dropdown => dropdown
+        .addOption('zip', 'Zip')
+        .addOption('json', 'JSON')
+        .setValue(this.format)
+        .onChange((value: TemplatePackageFormat) => {
+          this.format = value;
+        }));
+
+    const listEl = contentEl.createDiv({ cls: 'oh-my-cv-template-package-list' });
+    this.templates.forEach(template => {
+      new Setting(listEl)
+        .setName(template.name)
+        .setDesc(template.category || '')
+        .addToggle(toggle => toggle
+          .setValue(this.selectedIds.has(template.id))
+          .onChange(value => {
+            if (value) {
+              this.selectedIds.add(template.id);
+            } else {
+              this.selectedIds.delete(template.id);
+            }
+          }));
+    });
+
+    const errorEl = contentEl.createDiv({ cls: 'oh-my-cv-template-editor-errors' });
+
+    const buttonsContainer = contentEl.createDiv({ cls: 'oh-my-cv-choice-buttons' });
+    new ButtonComponent(buttonsContainer)
+      .setButtonText('Export')
+      .setCta()
+      .onClick(() => {
+        if (this.selectedIds.size === 0) {
+          errorEl.setText('Choose at least one template');
+        } else {
+          this.submitted = true;
+          this.close();
+        }
+      });
+    new ButtonComponent(buttonsContainer)
+      .setButtonText('Cancel')
+      .onClick(() => this.close());
+  }
+
+  /**
+   * Clean up and report the choice when the modal is closed
+   */
+  onClose() {
+    this.contentEl.empty();
+    this.resolve(this.submitted ? {
+      templates: this.templates.filter(template => this.selectedIds.has(template.id)),
+      format: this.format
+    } : null);
+  }
+}
+
+/**
+ * Modal showing a package before it is imported, and asking what to do with templates whose ID or name is taken
+ */
+export class TemplateImportModal extends Modal {
+  private templatePackage: TemplatePackage;
+  private collisions: CVTemplate[];
+  private policy: TemplateCollisionPolicy = 'copy';
+  private resolve: (value: TemplateCollisionPolicy | null) => void = () => undefined;
+  private submitted = false;
+
+  /**
+   * Create a new template import modal
+   * @param app The Obsidian app instance
+   * @param templatePackage The package to import
+   * @param collisions The package's templates whose ID or name is taken
+   */
+  constructor(app: App, templatePackage: TemplatePackage, collisions: CVTemplate[]) {
+    super(app);
+    this.templatePackage = templatePackage;
+    this.collisions = collisions;
+  }
+
+  /**
+   * Open the modal and wait for the user's choice
+   * @returns How colliding templates are handled, or null if the modal was dismissed
+   */
+  prompt(): Promise<TemplateCollisionPolicy | null> {
+    return new Promise(resolve => {
+      this.resolve = resolve;
+      this.open();
+    });
+  }
+
+  /**
+   * Modal content
+   */
+  onOpen() {
+    const { contentEl } = this;
+    const { templates, fonts, exportedAt } = this.templatePackage;
+
+    contentEl.createEl('h2', { text: 'Import templates' });
+
+    const date = exportedAt ? new Date(exportedAt) : null;
+    contentEl.createEl('p', {
+      text: `${templates.length} ${templates.length === 1 ? 'template' : 'templates'}${date && !isNaN(date.getTime()) ? `, exported ${date.toLocaleDateString()}` : ''}:`
+    });
+    const listEl = contentEl.createEl('ul', { cls: 'oh-my-cv-template-package-list' });
+    templates.forEach(template => listEl.createEl('li', { text: template.name }));
+
+    if (fonts.length > 0) {
+      contentEl.createEl('p', { text: `Fonts: ${fonts.join(', ')}. They are added to your recently used fonts; the package does not hold the font files, so install any you are missing.` });
+    }
+
+    if (this.collisions.length > 0) {
+      contentEl.createEl('p', {
+        cls: 'oh-my-cv-template-package-collisions',
+        text: `Already in your templates: ${this.collisions.map(template => template.name).join(', ')}`
+      });
+
+      new Setting(contentEl)
+        .setName('Existing templates')
+        .setDesc('Built-in templates and those from the templates folder are never replaced; a copy is added instead')
+        .addDropdown(dropdown => dropdown
+          .addOption('copy', 'Keep both')
+          .addOption('replace', 'Replace')
+          .addOption('skip', 'Skip')
+          .setValue(this.policy)
+          .onChange((value: TemplateCollisionPolicy) => {
+            this.policy = value;
+          }));
+    }
+
+    const buttonsContainer = contentEl.createDiv({ cls: 'oh-my-cv-choice-buttons' });
+    new ButtonComponent(buttonsContainer)
+      .setButtonText('Import')
+      .setCta()
+      .onClick(() => {
+        this.submitted = true;
+        this.close();
+      });
+    new ButtonComponent(buttonsContainer)
+      .setButtonText('Cancel')
+      .onClick(() => this.close());
+  }
+
+  /**
+   * Clean up and report the choice when the modal is closed
+   */
+  onClose() {
+    this.contentEl.empty();
+    this.resolve(this.submitted ? this.policy : null);
+  }
+}
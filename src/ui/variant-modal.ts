@@ -0,0 +1,128 @@
+/**
+ * Variant options for the Oh My CV plugin
+ * Asks for a variant's title and the tags selecting its sections and entries from the master
+ */
+
+import { App, ButtonComponent, Modal, Setting } from 'obsidian';
+import { parseTagList } from '../core/variants';
+
+/**
+ * What the user chose for a variant
+ */
+export interface VariantOptions {
+  /** The variant title */
+  title: string;
+
+  /** Tags selecting the master's sections and entries */
+  tags: string[];
+}
+
+/**
+ * Modal for creating a variant or changing its tags
+ */
+export class VariantModal extends Modal {
+  private options: VariantOptions;
+  private availableTags: string[];
+  private editTitle: boolean;
+  private resolve: (value: VariantOptions | null) => void = () => undefined;
+  private submitted = false;
+
+  /**
+   * Create a new variant modal
+   * @param app The Obsidian app instance
+   * @param options The initial title and tags
+   * @param availableTags Tags used by annotations in the master, offered as suggestions
+   * @param editTitle Whether the title can be changed (false when only the tags are edited)
+   */
+  constructor(app: App, options: VariantOptions, availableTags: string[], editTitle = true) {
+    super(app);
+    this.options = { ...options, tags: [...options.tags] };
+    this.availableTags = availableTags;
+    this.editTitle = editTitle;
+  }
+
+  /**
+   * Open the modal and wait for the user's choice
+   * @returns The options, or null if the modal was dismissed
+   */
+  prompt(): Promise<VariantOptions | null> {
+    return new Promise(resolve => {
+      this.resolve = resolve;
+      this.open();
+    });
+  }
+
+  /**
+   * Modal content
+   */
+  onOpen() {
+    const { contentEl } = this;
+
+    contentEl.createEl('h2', { text: this.editTitle ? 'Create variant' : 'Variant tags' });
+    contentEl.createEl('p', {
+      text: 'The variant shows the master\'s sections and entries that match its tags. '
+        + 'Mark them in the master with {.only: tag} or {.except: tag} at the end of a heading or line.'
+    });
+
+    if (this.editTitle) {
+      new Setting(contentEl)
+        .setName('Title')
+        .addText(text => text
+          .setValue(this.options.title)
+          .onChange(value => {
+            this.options.title = value;
+          }));
+    }
+
+    let tagsInput: HTMLInputElement;
+    new Setting(contentEl)
+      .setName('Tags')
+      .setDesc('Comma-separated, e.g. backend, fintech')
+      .addText(text => {
+        tagsInput = text.inputEl;
+        text
+          .setValue(this.options.tags.join(', '))
+          .onChange(value => {
+            this.options.tags = parseTagList(value);
+          });
+      });
+
+    // Tags used in the master, toggled with a click
+    if (this.availableTags.length > 0) {
+      const tagsEl = contentEl.createDiv({ cls: 'oh-my-cv-variant-tags' });
+      this.availableTags.forEach(tag => {
+        const tagEl = tagsEl.createEl('button', { cls: 'oh-my-cv-variant-tag', text: tag });
+        tagEl.toggleClass('is-active', this.options.tags.includes(tag));
+        tagEl.addEventListener('click', () => {
+          this.options.tags = this.options.tags.includes(tag)
+            ? this.options.tags.filter(t => t !== tag)
+            : [...this.options.tags, tag];
+          tagsInput.value = this.options.tags.join(', ');
+          tagEl.toggleClass('is-active', this.options.tags.includes(tag));
+        });
+      });
+    }
+
+    const buttonsContainer = contentEl.createDiv({ cls: 'oh-my-cv-choice-buttons' });
+    new ButtonComponent(buttonsContainer)
+      .setButtonText(this.editTitle ? 'Create' : 'Save')
+      .setCta()
+      .onClick(() => {
+        if (this.options.title.trim()) {
+          this.submitted = true;
+          this.close();
+        }
+      });
+    new ButtonComponent(buttonsContainer)
+      .setButtonText('Cancel')
+      .onClick(() => this.close());
+  }
+
+  /**
+   * Clean up and report the options when the modal is closed
+   */
+  onClose() {
+    this.contentEl.empty();
+    this.resolve(this.submitted ? { title: this.options.title.trim(), tags: this.options.tags } : null);
+  }
+}
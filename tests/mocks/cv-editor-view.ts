@@ -0,0 +1,93 @@
+/**
+ * Test harness for the CV editor view
+ * Opens a view on the mock plugin instance, with real settings and mocked storage
+ */
+import { jest } from '@jest/globals';
+import { WorkspaceLeaf } from './obsidian';
+import { getPluginInstance } from './plugin-instance';
+import { SettingsService } from '../../src/services/settings-service';
+import { CVEditorView } from '../../src/ui/cv-editor-view';
+import { CVDocument } from '../../src/core/types';
+import { DEFAULT_SETTINGS } from '../../src/core/constants';
+
+/**
+ * Make a CV document for a test
+ * @param content The Markdown content
+ * @param path The file path
+ * @returns The document
+ */
+export function createTestDocument(content: string, path = 'CVs/Test CV.md'): CVDocument {
+  return {
+    path,
+    content,
+    metadata: {
+      title: 'Test CV',
+      lastModified: 0,
+      pageSize: 'A4',
+      margins: { top: 20, right: 20, bottom: 20, left: 20 },
+      themeColor: '#4051b5',
+      fontFamily: 'Arial, sans-serif',
+      fontSize: 11,
+      lineHeight: 1.5
+    }
+  };
+}
+
+/**
+ * Give the mock plugin instance real settings and mocked storage
+ * @param settings Settings to change from the defaults
+ * @returns The plugin instance
+ */
+export async function setUpPlugin(settings: Partial<typeof DEFAULT_SETTINGS> = {}): Promise<any> {
+  const plugin: any = getPluginInstance();
+  plugin.loadData.mockResolvedValue({ ...DEFAULT_SETTINGS, ...settings, templates: [] });
+  plugin.saveData.mockResolvedValue(undefined);
+  plugin.settings = new SettingsService(plugin);
+  await plugin.settings.loadSettings();
+  // The last export options live in the plugin's data, which the mock keeps between tests
+  delete plugin.data.lastExportOptions;
+
+  plugin.storage = {
+    loadCV: jest.fn(),
+    saveCV: jest.fn(async () => undefined),
+    loadDraft: jest.fn(async () => null),
+    saveDraft: jest.fn(async () => undefined),
+    clearDraft: jest.fn(async () => undefined),
+    isCVFile: jest.fn(() => true)
+  };
+  plugin.openAsMarkdown = jest.fn(async () => undefined);
+  plugin.openCVFile = jest.fn(async () => undefined);
+  return plugin;
+}
+
+/**
+ * Get the real settings service given to the mock plugin instance by setUpPlugin
+ * @returns The settings service
+ */
+export function getSettings(): SettingsService {
+  return (getPluginInstance() as any).settings;
+}
+
+/**
+ * Open a CV editor view, showing a document if one is given
+ * @param document The document to show
+ * @returns The view
+ */
+export async function openCVEditorView(document?: CVDocument): Promise<CVEditorView> {
+  const plugin = getPluginInstance() as any;
+  if (!plugin.storage) {
+    await setUpPlugin();
+  }
+
+  const leaf = new WorkspaceLeaf();
+  leaf.app = plugin.app;
+  const view = new CVEditorView(leaf as any);
+  leaf.view = view;
+  await view.onOpen();
+
+  if (document) {
+    plugin.storage.loadCV.mockResolvedValue(document);
+    await view.setState({ file: document.path }, { history: false });
+  }
+  return view;
+}
@@ -0,0 +1,134 @@
+/**
+ * Mock of the DOM helpers Obsidian adds to elements
+ * Obsidian extends Node and HTMLElement with createEl, addClass, show and friends; the plugin's UI code relies on them
+ */
+
+interface DomElementInfo {
+  cls?: string | string[];
+  text?: string | DocumentFragment;
+  attr?: Record<string, string | number | boolean | null>;
+  title?: string;
+  value?: string;
+  type?: string;
+  placeholder?: string;
+  href?: string;
+  prepend?: boolean;
+}
+
+/**
+ * Split a class list given as a string or an array
+ * @param cls The classes
+ * @returns The class names
+ */
+function toClassList(cls: string | string[]): string[] {
+  return (Array.isArray(cls) ? cls : cls.split(' ')).filter(name => name !== '');
+}
+
+/**
+ * Create an element with Obsidian's options and add it to a parent
+ * @param parent The parent node
+ * @param tag The tag name
+ * @param options The options, or a class name
+ * @param callback Called with the new element
+ * @returns The element
+ */
+function createChild(parent: Node, tag: string, options?: DomElementInfo | string, callback?: (el: HTMLElement) => void): HTMLElement {
+  const info: DomElementInfo = typeof options === 'string' ? { cls: options } : options || {};
+  const el = document.createElement(tag);
+
+  if (info.cls) el.classList.add(...toClassList(info.cls));
+  if (info.text !== undefined) {
+    if (typeof info.text === 'string') el.textContent = info.text;
+    else el.appendChild(info.text);
+  }
+  if (info.title !== undefined) el.title = info.title;
+  if (info.value !== undefined) (el as HTMLInputElement).value = info.value;
+  if (info.type !== undefined) el.setAttribute('type', info.type);
+  if (info.placeholder !== undefined) el.setAttribute('placeholder', info.placeholder);
+  if (info.href !== undefined) el.setAttribute('href', info.href);
+  Object.entries(info.attr || {}).forEach(([name, value]) => {
+    if (value !== null && value !== false) el.setAttribute(name, String(value));
+  });
+
+  if (info.prepend) parent.insertBefore(el, parent.firstChild);
+  else parent.appendChild(el);
+  callback?.(el);
+  return el;
+}
+
+const nodeHelpers: Record<string, unknown> = {
+  createEl(this: Node, tag: string, options?: DomElementInfo | string, callback?: (el: HTMLElement) => void) {
+    return createChild(this, tag, options, callback);
+  },
+  createDiv(this: Node, options?: DomElementInfo | string, callback?: (el: HTMLElement) => void) {
+    return createChild(this, 'div', options, callback);
+  },
+  createSpan(this: Node, options?: DomElementInfo | string, callback?: (el: HTMLElement) => void) {
+    return createChild(this, 'span', options, callback);
+  },
+  empty(this: Node) {
+    while (this.firstChild) this.removeChild(this.firstChild);
+  },
+  detach(this: Node) {
+    this.parentNode?.removeChild(this);
+  },
+  setText(this: Node, text: string) {
+    this.textContent = text;
+  },
+  getText(this: Node) {
+    return this.textContent || '';
+  }
+};
+
+const elementHelpers: Record<string, unknown> = {
+  addClass(this: Element, ...classes: string[]) {
+    this.classList.add(...classes.flatMap(toClassList));
+  },
+  addClasses(this: Element, classes: string[]) {
+    this.classList.add(...classes);
+  },
+  removeClass(this: Element, ...classes: string[]) {
+    this.classList.remove(...classes.flatMap(toClassList));
+  },
+  toggleClass(this: Element, classes: string | string[], value: boolean) {
+    toClassList(classes).forEach(name => this.classList.toggle(name, value));
+  },
+  hasClass(this: Element, cls: string) {
+    return this.classList.contains(cls);
+  },
+  setAttr(this: Element, name: string, value: string | number | boolean | null) {
+    if (value === null || value === false) this.removeAttribute(name);
+    else this.setAttribute(name, String(value));
+  },
+  show(this: HTMLElement) {
+    this.style.display = '';
+  },
+  hide(this: HTMLElement) {
+    this.style.display = 'none';
+  },
+  toggle(this: HTMLElement, show: boolean) {
+    this.style.display = show ? '' : 'none';
+  },
+  isShown(this: HTMLElement) {
+    return this.style.display !== 'none';
+  }
+};
+
+Object.entries(nodeHelpers).forEach(([name, helper]) => {
+  Object.defineProperty(Node.prototype, name, { value: helper, configurable: true, writable: true });
+});
+Object.entries(elementHelpers).forEach(([name, helper]) => {
+  Object.defineProperty(Element.prototype, name, { value: helper, configurable: true, writable: true });
+});
+
+// jsdom does no layout, but the editor measures text through ranges
+if (!Range.prototype.getClientRects) {
+  Range.prototype.getClientRects = function () {
+    return { length: 0, item: () => null, [Symbol.iterator]: [][Symbol.iterator] } as unknown as DOMRectList;
+  };
+}
+if (!Range.prototype.getBoundingClientRect) {
+  Range.prototype.getBoundingClientRect = function () {
+    return { x: 0, y: 0, top: 0, left: 0, bottom: 0, right: 0, width: 0, height: 0, toJSON: () => ({}) } as DOMRect;
+  };
+}
@@ -16,6 +16,9 @@ export class App {
   vault = new Vault();
   workspace = new Workspace();
   metadataCache = new MetadataCache();
+  fileManager = {
+    processFrontMatter: jest.fn<(file: any, fn: (frontmatter: any) => void) => Promise<void>>().mockResolvedValue(undefined),
+  };
   setting = {
     open: jest.fn(),
     openTabById: jest.fn(),
@@ -41,14 +44,42 @@ export class Plugin {
   registerView = jest.fn<(type: string, viewCreator: any) => void>();
   addRibbonIcon = jest.fn<(icon: string, title: string, callback: () => void) => HTMLElement>();
   addCommand = jest.fn<(command: any) => void>();
+  addSettingTab = jest.fn<(tab: any) => void>();
   registerEvent = jest.fn<(event: any) => void>();
+  register = jest.fn<(callback: () => void) => void>();
+}
+
+// Events
+export class Events {
+  private handlers: Record<string, ((...args: any[]) => any)[]> = {};
+
+  on(name: string, callback: (...args: any[]) => any): { name: string; callback: (...args: any[]) => any; source: Events } {
+    (this.handlers[name] = this.handlers[name] || []).push(callback);
+    return { name, callback, source: this };
+  }
+
+  off(name: string, callback: (...args: any[]) => any): void {
+    this.handlers[name] = (this.handlers[name] || []).filter(handler => handler !== callback);
+  }
+
+  offref(ref: { name: string; callback: (...args: any[]) => any }): void {
+    this.off(ref.name, ref.callback);
+  }
+
+  trigger(name: string, ...args: any[]): void {
+    (this.handlers[name] || []).forEach(handler => handler(...args));
+  }
+
+  tryTrigger(ref: { callback: (...args: any[]) => any }, args: any[]): void {
+    ref.callback(...args);
+  }
 }
 
 // Forward declaration to break circular dependency
 let mockTFile: any;
 
 // File system mocks
-export class Vault {
+export class Vault extends Events {
   adapter = {
     exists: jest.fn<(path: string) => Promise<boolean>>().mockResolvedValue(true),
     read: jest.fn<(path: string) => Promise<string>>().mockResolvedValue(''),
@@ -57,19 +88,26 @@ export class Vault {
     writeBinary: jest.fn<(path: string, data: ArrayBuffer) => Promise<void>>().mockResolvedValue(undefined),
     getResourcePath: jest.fn<(path: string) => string>().mockReturnValue(''),
     mkdir: jest.fn<(path: string) => Promise<void>>().mockResolvedValue(undefined),
+    remove: jest.fn<(path: string) => Promise<void>>().mockResolvedValue(undefined),
+    rename: jest.fn<(path: string, newPath: string) => Promise<void>>().mockResolvedValue(undefined),
   };
 
+  configDir = '.obsidian';
+
   create = jest.fn<(path: string, data: string) => Promise<any>>().mockImplementation(() => Promise.resolve(mockTFile));
   createBinary = jest.fn<(path: string, data: ArrayBuffer) => Promise<any>>().mockImplementation(() => Promise.resolve(mockTFile));
   delete = jest.fn<(file: any) => Promise<void>>().mockResolvedValue(undefined);
   read = jest.fn<(file: any) => Promise<string>>().mockResolvedValue('');
+  modify = jest.fn<(file: any, data: string) => Promise<void>>().mockResolvedValue(undefined);
   cachedRead = jest.fn<(file: any) => Promise<string>>().mockResolvedValue('');
   getFiles = jest.fn<() => any[]>().mockReturnValue([]);
   getMarkdownFiles = jest.fn<() => any[]>().mockReturnValue([]);
+  getAbstractFileByPath = jest.fn<(path: string) => any>().mockReturnValue(null);
+  createFolder = jest.fn<(path: string) => Promise<void>>().mockResolvedValue(undefined);
 }
 
 // Workspace mocks
-export class Workspace {
+export class Workspace extends Events {
   activeLeaf: WorkspaceLeaf | null = null;
   leftSplit = { collapsed: false };
   rightSplit = { collapsed: false };
@@ -80,21 +118,36 @@ export class Workspace {
   createLeafInParent = jest.fn().mockReturnValue(new WorkspaceLeaf());
   getUnpinnedLeaf = jest.fn().mockReturnValue(new WorkspaceLeaf());
   registerHoverLinkSource = jest.fn();
+  getLeavesOfType = jest.fn<(type: string) => WorkspaceLeaf[]>().mockReturnValue([]);
+  revealLeaf = jest.fn();
+  detachLeavesOfType = jest.fn();
+  requestSaveLayout = jest.fn();
   onLayoutReady = jest.fn();
-  on = jest.fn();
 }
 
 // File and cache mocks
-export class TFile {
+export class TAbstractFile {
+  path = '';
+  name = '';
+  parent: TFolder | null = null;
+}
+
+export class TFile extends TAbstractFile {
   path = 'test-file.md';
   name = 'test-file.md';
   basename = 'test-file';
   extension = 'md';
   stat = { ctime: Date.now(), mtime: Date.now(), size: 0 };
-  parent = null;
   vault: Vault;
 
-  constructor() {
+  constructor(path?: string) {
+    super();
+    if (path !== undefined) {
+      this.path = path;
+      this.name = path.split('/').pop() || path;
+      this.basename = this.name.replace(/\.[^.]*$/, '');
+      this.extension = this.name.includes('.') ? this.name.split('.').pop() || '' : '';
+    }
     // Create a simplified Vault instance to avoid circular dependency
     this.vault = {
       adapter: {
@@ -112,6 +165,20 @@ export class TFile {
   }
 }
 
+export class TFolder extends TAbstractFile {
+  children: TAbstractFile[] = [];
+
+  constructor(path = '') {
+    super();
+    this.path = path;
+    this.name = path.split('/').pop() || '';
+  }
+
+  isRoot(): boolean {
+    return this.path === '' || this.path === '/';
+  }
+}
+
 // Initialize mockTFile after TFile is defined
 mockTFile = new TFile();
 
@@ -124,12 +191,14 @@ export class MetadataCache {
     tags: [],
   });
   getCache = jest.fn().mockReturnValue({});
+  getFirstLinkpathDest = jest.fn<(linkpath: string, sourcePath: string) => any>().mockReturnValue(null);
   on = jest.fn();
 }
 
 // UI mocks
 export class WorkspaceLeaf {
   view: any = null;
+  app?: App;
 
   getViewState = jest.fn().mockReturnValue({
     type: 'markdown',
@@ -143,24 +212,118 @@ export class WorkspaceLeaf {
   setRoot = jest.fn<(root: any) => void>();
 }
 
-export class ItemView {
-  contentEl: HTMLElement = document.createElement('div');
-  leaf: WorkspaceLeaf = new WorkspaceLeaf();
+// Base of components with a lifecycle, such as views
+export class Component {
+  private children: Component[] = [];
+  private cleanups: (() => void)[] = [];
+
+  load(): void {
+    this.onload();
+  }
+
+  unload(): void {
+    this.children.forEach(child => child.unload());
+    this.cleanups.splice(0).forEach(cleanup => cleanup());
+    this.onunload();
+  }
+
+  onload(): void {
+    // Overridden by subclasses
+  }
+
+  onunload(): void {
+    // Overridden by subclasses
+  }
+
+  addChild<T extends Component>(child: T): T {
+    this.children.push(child);
+    child.load();
+    return child;
+  }
+
+  removeChild<T extends Component>(child: T): T {
+    this.children = this.children.filter(other => other !== child);
+    child.unload();
+    return child;
+  }
+
+  register(cleanup: () => void): void {
+    this.cleanups.push(cleanup);
+  }
+
+  registerEvent(ref: { name: string; callback: (...args: any[]) => any; source?: Events }): void {
+    this.cleanups.push(() => ref.source?.offref(ref));
+  }
+
+  registerDomEvent(el: EventTarget, type: string, callback: (event: any) => any): void {
+    el.addEventListener(type, callback);
+    this.cleanups.push(() => el.removeEventListener(type, callback));
+  }
+
+  registerInterval(id: number): number {
+    this.cleanups.push(() => window.clearInterval(id));
+    return id;
+  }
+}
+
+export class ItemView extends Component {
+  app: App;
+  leaf: WorkspaceLeaf;
+  containerEl: HTMLElement = document.createElement('div');
+  contentEl: HTMLElement;
   navigation = true;
-  app: App = new App();
-  
-  onload = jest.fn<() => void>();
-  onunload = jest.fn<() => void>();
-  getViewType = jest.fn<() => string>().mockReturnValue('');
-  getDisplayText = jest.fn<() => string>().mockReturnValue('');
-  getIcon = jest.fn<() => string>().mockReturnValue('');
-  setState = jest.fn<(state: any) => Promise<void>>().mockResolvedValue(undefined);
-  onPaneMenu = jest.fn<(menu: any) => void>();
-  onHeaderMenu = jest.fn<(menu: any) => void>();
+  icon = '';
+
+  constructor(leaf: WorkspaceLeaf) {
+    super();
+    this.leaf = leaf;
+    this.app = leaf.app || new App();
+    this.containerEl.createDiv('view-header');
+    this.contentEl = this.containerEl.createDiv('view-content');
+  }
+
+  async onOpen(): Promise<void> {
+    // Overridden by subclasses
+  }
+
+  async onClose(): Promise<void> {
+    // Overridden by subclasses
+  }
+
+  getViewType(): string {
+    return '';
+  }
+
+  getDisplayText(): string {
+    return '';
+  }
+
+  getIcon(): string {
+    return this.icon;
+  }
+
+  getState(): Record<string, unknown> {
+    return {};
+  }
+
+  async setState(state: unknown, result: unknown): Promise<void> {
+    // Overridden by subclasses
+  }
+
+  onPaneMenu(menu: Menu, source: string): void {
+    // Overridden by subclasses
+  }
+
+  addAction(icon: string, title: string, callback: (event: MouseEvent) => any): HTMLElement {
+    const el = this.containerEl.createEl('button', { cls: 'view-action', attr: { 'aria-label': title, 'data-icon': icon } });
+    el.addEventListener('click', callback);
+    return el;
+  }
 }
 
 export class MarkdownView {
   file: TFile | null = null;
+  leaf: WorkspaceLeaf = new WorkspaceLeaf();
   editor: Editor = new Editor();
   previewMode = { 
     renderer: { 
@@ -187,51 +350,459 @@ export class Editor {
 }
 
 // UI Component mocks
+// Backed by real elements, so tests can drive them through DOM events
+
+abstract class BaseComponent {
+  disabled = false;
+
+  setDisabled(disabled: boolean): this {
+    this.disabled = disabled;
+    return this;
+  }
+
+  then(callback: (component: this) => any): this {
+    callback(this);
+    return this;
+  }
+}
+
+abstract class ValueComponent<T> extends BaseComponent {
+  abstract getValue(): T;
+  abstract setValue(value: T): this;
+}
+
+export class ButtonComponent extends BaseComponent {
+  buttonEl: HTMLButtonElement;
+
+  constructor(containerEl: HTMLElement) {
+    super();
+    this.buttonEl = containerEl.createEl('button');
+  }
+
+  setDisabled(disabled: boolean): this {
+    this.buttonEl.disabled = disabled;
+    return super.setDisabled(disabled);
+  }
+
+  setButtonText(text: string): this {
+    this.buttonEl.textContent = text;
+    return this;
+  }
+
+  setIcon(icon: string): this {
+    this.buttonEl.setAttribute('data-icon', icon);
+    return this;
+  }
+
+  setTooltip(tooltip: string): this {
+    this.buttonEl.setAttribute('aria-label', tooltip);
+    return this;
+  }
+
+  setCta(): this {
+    this.buttonEl.classList.add('mod-cta');
+    return this;
+  }
+
+  setWarning(): this {
+    this.buttonEl.classList.add('mod-warning');
+    return this;
+  }
+
+  setClass(cls: string): this {
+    this.buttonEl.classList.add(cls);
+    return this;
+  }
+
+  onClick(callback: (event: MouseEvent) => any): this {
+    this.buttonEl.addEventListener('click', callback);
+    return this;
+  }
+}
+
+export class ExtraButtonComponent extends BaseComponent {
+  extraSettingsEl: HTMLElement;
+
+  constructor(containerEl: HTMLElement) {
+    super();
+    this.extraSettingsEl = containerEl.createDiv('clickable-icon');
+  }
+
+  setIcon(icon: string): this {
+    this.extraSettingsEl.setAttribute('data-icon', icon);
+    return this;
+  }
+
+  setTooltip(tooltip: string): this {
+    this.extraSettingsEl.setAttribute('aria-label', tooltip);
+    return this;
+  }
+
+  onClick(callback: () => any): this {
+    this.extraSettingsEl.addEventListener('click', () => callback());
+    return this;
+  }
+}
+
+abstract class InputComponent<E extends HTMLInputElement | HTMLTextAreaElement> extends ValueComponent<string> {
+  inputEl: E;
+
+  constructor(inputEl: E) {
+    super();
+    this.inputEl = inputEl;
+  }
+
+  setDisabled(disabled: boolean): this {
+    this.inputEl.disabled = disabled;
+    return super.setDisabled(disabled);
+  }
+
+  getValue(): string {
+    return this.inputEl.value;
+  }
+
+  setValue(value: string): this {
+    this.inputEl.value = value;
+    return this;
+  }
+
+  setPlaceholder(placeholder: string): this {
+    this.inputEl.placeholder = placeholder;
+    return this;
+  }
+
+  onChange(callback: (value: string) => any): this {
+    this.inputEl.addEventListener('input', () => callback(this.getValue()));
+    return this;
+  }
+}
+
+export class TextComponent extends InputComponent<HTMLInputElement> {
+  constructor(containerEl: HTMLElement) {
+    super(containerEl.createEl('input', { type: 'text' }) as HTMLInputElement);
+  }
+}
+
+export class TextAreaComponent extends InputComponent<HTMLTextAreaElement> {
+  constructor(containerEl: HTMLElement) {
+    super(containerEl.createEl('textarea') as HTMLTextAreaElement);
+  }
+}
+
+export class ToggleComponent extends ValueComponent<boolean> {
+  toggleEl: HTMLElement;
+  private value = false;
+  private changeCallback: ((value: boolean) => any) | null = null;
+
+  constructor(containerEl: HTMLElement) {
+    super();
+    this.toggleEl = containerEl.createDiv('checkbox-container');
+    this.toggleEl.addEventListener('click', () => {
+      if (!this.disabled) {
+        this.setValue(!this.value);
+        this.changeCallback?.(this.value);
+      }
+    });
+  }
+
+  getValue(): boolean {
+    return this.value;
+  }
+
+  setValue(value: boolean): this {
+    this.value = value;
+    this.toggleEl.classList.toggle('is-enabled', value);
+    return this;
+  }
+
+  setTooltip(tooltip: string): this {
+    this.toggleEl.setAttribute('aria-label', tooltip);
+    return this;
+  }
+
+  onChange(callback: (value: boolean) => any): this {
+    this.changeCallback = callback;
+    return this;
+  }
+}
+
+export class DropdownComponent extends ValueComponent<string> {
+  selectEl: HTMLSelectElement;
+
+  constructor(containerEl: HTMLElement) {
+    super();
+    this.selectEl = containerEl.createEl('select') as HTMLSelectElement;
+  }
+
+  setDisabled(disabled: boolean): this {
+    this.selectEl.disabled = disabled;
+    return super.setDisabled(disabled);
+  }
+
+  addOption(value: string, display: string): this {
+    this.selectEl.createEl('option', { text: display, value });
+    return this;
+  }
+
+  addOptions(options: Record<string, string>): this {
+    Object.entries(options).forEach(([value, display]) => this.addOption(value, display));
+    return this;
+  }
+
+  getValue(): string {
+    return this.selectEl.value;
+  }
+
+  setValue(value: string): this {
+    this.selectEl.value = value;
+    return this;
+  }
+
+  onChange(callback: (value: string) => any): this {
+    this.selectEl.addEventListener('change', () => callback(this.getValue()));
+    return this;
+  }
+}
+
+export class SliderComponent extends ValueComponent<number> {
+  sliderEl: HTMLInputElement;
+
+  constructor(containerEl: HTMLElement) {
+    super();
+    this.sliderEl = containerEl.createEl('input', { type: 'range' }) as HTMLInputElement;
+  }
+
+  setLimits(min: number, max: number, step: number | 'any'): this {
+    this.sliderEl.min = String(min);
+    this.sliderEl.max = String(max);
+    this.sliderEl.step = String(step);
+    return this;
+  }
+
+  setDynamicTooltip(): this {
+    return this;
+  }
+
+  getValue(): number {
+    return Number(this.sliderEl.value);
+  }
+
+  setValue(value: number): this {
+    this.sliderEl.value = String(value);
+    return this;
+  }
+
+  onChange(callback: (value: number) => any): this {
+    this.sliderEl.addEventListener('change', () => callback(this.getValue()));
+    return this;
+  }
+}
+
+export class ColorComponent extends ValueComponent<string> {
+  colorPickerEl: HTMLInputElement;
+
+  constructor(containerEl: HTMLElement) {
+    super();
+    this.colorPickerEl = containerEl.createEl('input', { type: 'color' }) as HTMLInputElement;
+  }
+
+  getValue(): string {
+    return this.colorPickerEl.value;
+  }
+
+  setValue(value: string): this {
+    this.colorPickerEl.value = value;
+    return this;
+  }
+
+  onChange(callback: (value: string) => any): this {
+    this.colorPickerEl.addEventListener('change', () => callback(this.getValue()));
+    return this;
+  }
+}
+
 export class Setting {
-  containerEl: HTMLElement = document.createElement('div');
-  controlEl: HTMLElement = document.createElement('div');
-  infoEl: HTMLElement = document.createElement('div');
-  nameEl: HTMLElement = document.createElement('div');
-  
-  setName = jest.fn().mockReturnValue(this);
-  setDesc = jest.fn().mockReturnValue(this);
-  setClass = jest.fn().mockReturnValue(this);
-  setTooltip = jest.fn().mockReturnValue(this);
-  setHeading = jest.fn().mockReturnValue(this);
-  setDisabled = jest.fn().mockReturnValue(this);
-  addButton = jest.fn().mockReturnValue({
-    setButtonText: jest.fn().mockReturnValue({}),
-    setIcon: jest.fn().mockReturnValue({}),
-    onClick: jest.fn().mockReturnValue({}),
-    setDisabled: jest.fn().mockReturnValue({}),
-  });
-  addText = jest.fn().mockReturnValue({
-    setPlaceholder: jest.fn().mockReturnValue({}),
-    setValue: jest.fn().mockReturnValue({}),
-    onChange: jest.fn().mockReturnValue({}),
-  });
-  addToggle = jest.fn().mockReturnValue({
-    setValue: jest.fn().mockReturnValue({}),
-    onChange: jest.fn().mockReturnValue({}),
-  });
-  addDropdown = jest.fn().mockReturnValue({
-    addOption: jest.fn().mockReturnValue({}),
-    setValue: jest.fn().mockReturnValue({}),
-    onChange: jest.fn().mockReturnValue({}),
-  });
-  addSlider = jest.fn().mockReturnValue({
-    setLimits: jest.fn().mockReturnValue({}),
-    setValue: jest.fn().mockReturnValue({}),
-    onChange: jest.fn().mockReturnValue({}),
-    setDynamicTooltip: jest.fn().mockReturnValue({}),
+  settingEl: HTMLElement;
+  infoEl: HTMLElement;
+  nameEl: HTMLElement;
+  descEl: HTMLElement;
+  controlEl: HTMLElement;
+  components: BaseComponent[] = [];
+
+  constructor(containerEl: HTMLElement) {
+    this.settingEl = containerEl.createDiv('setting-item');
+    this.infoEl = this.settingEl.createDiv('setting-item-info');
+    this.nameEl = this.infoEl.createDiv('setting-item-name');
+    this.descEl = this.infoEl.createDiv('setting-item-description');
+    this.controlEl = this.settingEl.createDiv('setting-item-control');
+  }
+
+  setName(name: string | DocumentFragment): this {
+    this.nameEl.empty();
+    this.nameEl.append(name);
+    return this;
+  }
+
+  setDesc(desc: string | DocumentFragment): this {
+    this.descEl.empty();
+    this.descEl.append(desc);
+    return this;
+  }
+
+  setClass(cls: string): this {
+    this.settingEl.classList.add(cls);
+    return this;
+  }
+
+  setTooltip(tooltip: string): this {
+    this.nameEl.setAttribute('aria-label', tooltip);
+    return this;
+  }
+
+  setHeading(): this {
+    this.settingEl.classList.add('setting-item-heading');
+    return this;
+  }
+
+  setDisabled(disabled: boolean): this {
+    this.settingEl.classList.toggle('is-disabled', disabled);
+    this.components.forEach(component => component.setDisabled(disabled));
+    return this;
+  }
+
+  addButton(callback: (component: ButtonComponent) => any): this {
+    return this.addComponent(new ButtonComponent(this.controlEl), callback);
+  }
+
+  addExtraButton(callback: (component: ExtraButtonComponent) => any): this {
+    return this.addComponent(new ExtraButtonComponent(this.controlEl), callback);
+  }
+
+  addText(callback: (component: TextComponent) => any): this {
+    return this.addComponent(new TextComponent(this.controlEl), callback);
+  }
+
+  addTextArea(callback: (component: TextAreaComponent) => any): this {
+    return this.addComponent(new TextAreaComponent(this.controlEl), callback);
+  }
+
+  addToggle(callback: (component: ToggleComponent) => any): this {
+    return this.addComponent(new ToggleComponent(this.controlEl), callback);
+  }
+
+  addDropdown(callback: (component: DropdownComponent) => any): this {
+    return this.addComponent(new DropdownComponent(this.controlEl), callback);
+  }
+
+  addSlider(callback: (component: SliderComponent) => any): this {
+    return this.addComponent(new SliderComponent(this.controlEl), callback);
+  }
+
+  addColorPicker(callback: (component: ColorComponent) => any): this {
+    return this.addComponent(new ColorComponent(this.controlEl), callback);
+  }
+
+  then(callback: (setting: this) => any): this {
+    callback(this);
+    return this;
+  }
+
+  private addComponent<T extends BaseComponent>(component: T, callback: (component: T) => any): this {
+    this.components.push(component);
+    callback(component);
+    return this;
+  }
+}
+
+export class Menu {
+  items: MenuItem[] = [];
+
+  addItem(callback: (item: MenuItem) => any): this {
+    const item = new MenuItem();
+    this.items.push(item);
+    callback(item);
+    return this;
+  }
+
+  addSeparator(): this {
+    return this;
+  }
+
+  showAtMouseEvent(event: MouseEvent): this {
+    return this;
+  }
+
+  showAtPosition(position: { x: number; y: number }): this {
+    return this;
+  }
+}
+
+export class MenuItem {
+  title = '';
+  icon = '';
+  section = '';
+  callback: ((event: MouseEvent | KeyboardEvent) => any) | null = null;
+
+  setTitle(title: string): this {
+    this.title = title;
+    return this;
+  }
+
+  setIcon(icon: string): this {
+    this.icon = icon;
+    return this;
+  }
+
+  setSection(section: string): this {
+    this.section = section;
+    return this;
+  }
+
+  setChecked(checked: boolean): this {
+    return this;
+  }
+
+  onClick(callback: (event: MouseEvent | KeyboardEvent) => any): this {
+    this.callback = callback;
+    return this;
+  }
+}
+
+// Renders each blank-line separated block as a heading, a list or a paragraph
+export class MarkdownRenderer {
+  static renderMarkdown = jest.fn(async (markdown: string, el: HTMLElement, sourcePath: string, component: Component): Promise<void> => {
+    markdown.split(/\n\s*\n/).filter(block => block.trim() !== '').forEach(block => {
+      const lines = block.trim().split('\n');
+      const heading = lines[0].match(/^(#{1,6})\s+(.*)$/);
+      if (heading && lines.length === 1) {
+        el.createEl(`h${heading[1].length}` as keyof HTMLElementTagNameMap, { text: heading[2] });
+      } else if (lines.every(line => /^\s*[-*+]\s/.test(line))) {
+        const listEl = el.createEl('ul');
+        lines.forEach(line => listEl.createEl('li', { text: line.replace(/^\s*[-*+]\s+/, '') }));
+      } else {
+        el.createEl('p', { text: lines.join(' ') });
+      }
+    });
   });
 }
 
 export class PluginSettingTab {
-  app: App = new App();
+  app: App;
+  plugin: Plugin;
   containerEl: HTMLElement = document.createElement('div');
-  display = jest.fn();
-  hide = jest.fn();
+
+  constructor(app: App, plugin: Plugin) {
+    this.app = app;
+    this.plugin = plugin;
+  }
+
+  display(): void {
+    // Overridden by subclasses
+  }
+
+  hide(): void {
+    this.containerEl.empty();
+  }
 }
 
 export class Notice {
@@ -249,6 +820,17 @@ export function normalizePath(path: string): string {
   return path.replace(/\\/g, '/');
 }
 
+export function arrayBufferToBase64(buffer: ArrayBuffer): string {
+  return Buffer.from(buffer).toString('base64');
+}
+
+export const requestUrl = jest.fn<(request: any) => Promise<any>>().mockRejectedValue(new Error('No network in tests'));
+
+export function base64ToArrayBuffer(base64: string): ArrayBuffer {
+  const bytes = Buffer.from(base64, 'base64');
+  return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength);
+}
+
 // Types
 export interface EditorPosition {
   line: number;
@@ -268,21 +850,57 @@ export interface EditorChange {
   origin: string;
 }
 
-// Events
-export class Events {
-  on = jest.fn().mockReturnValue({ events: {} });
-  off = jest.fn();
-  trigger = jest.fn();
-  tryTrigger = jest.fn();
-}
-
 // Modal
 export class Modal {
-  app: App = new App();
-  contentEl: HTMLElement = document.createElement('div');
-  
-  open = jest.fn();
-  close = jest.fn();
-  onOpen = jest.fn();
-  onClose = jest.fn();
+  app: App;
+  containerEl: HTMLElement = document.createElement('div');
+  modalEl: HTMLElement;
+  titleEl: HTMLElement;
+  contentEl: HTMLElement;
+
+  constructor(app?: App) {
+    this.app = app || new App();
+    this.modalEl = this.containerEl.createDiv('modal');
+    this.titleEl = this.modalEl.createDiv('modal-title');
+    this.contentEl = this.modalEl.createDiv('modal-content');
+  }
+
+  open(): void {
+    document.body.appendChild(this.containerEl);
+    this.onOpen();
+  }
+
+  close(): void {
+    this.containerEl.remove();
+    this.onClose();
+  }
+
+  onOpen(): void {
+    // Overridden by subclasses
+  }
+
+  onClose(): void {
+    // Overridden by subclasses
+  }
+
+  setTitle(title: string): this {
+    this.titleEl.setText(title);
+    return this;
+  }
+}
+
+export abstract class FuzzySuggestModal<T> extends Modal {
+  inputEl: HTMLInputElement = document.createElement('input');
+
+  setPlaceholder(placeholder: string): void {
+    this.inputEl.placeholder = placeholder;
+  }
+
+  setInstructions(instructions: { command: string; purpose: string }[]): void {
+    // Not shown in tests
+  }
+
+  abstract getItems(): T[];
+  abstract getItemText(item: T): string;
+  abstract onChooseItem(item: T, event: MouseEvent | KeyboardEvent): void;
 }
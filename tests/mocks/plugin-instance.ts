@@ -23,6 +23,9 @@ class MockPlugin extends Plugin {
     return Promise.resolve();
   });
 
+  // Storage service mock, set up by the tests that open a CV (see cv-editor-view.ts)
+  storage: any = null;
+
   // Settings service mock methods that the tests need - with proper return types
   settings = {
     isAutoCasingEnabled: jest.fn<() => boolean>().mockReturnValue(true),
@@ -0,0 +1,71 @@
+/**
+ * In-memory files for the mock vault
+ * Backs the mock vault and its adapter with one map of paths to contents, like a real vault folder
+ */
+import { TFile, Vault } from './obsidian';
+
+/**
+ * Give the mock vault in-memory files
+ * @param vault The mock vault
+ * @param initialFiles File contents by path
+ * @returns The files, which the test can read and change
+ */
+export function useMemoryVault(vault: Vault, initialFiles: Record<string, string> = {}): Map<string, string> {
+  const files = new Map(Object.entries(initialFiles));
+  const folders = new Set<string>();
+
+  /**
+   * Read a file's content
+   * @param path The file path
+   * @returns The content
+   */
+  const read = async (path: string): Promise<string> => {
+    const content = files.get(path);
+    if (content === undefined) {
+      throw new Error(`ENOENT: ${path}`);
+    }
+    return content;
+  };
+
+  vault.getAbstractFileByPath.mockImplementation(path => files.has(path) ? new TFile(path) : null);
+  vault.getMarkdownFiles.mockImplementation(() => Array.from(files.keys())
+    .filter(path => path.endsWith('.md'))
+    .map(path => new TFile(path)));
+  vault.read.mockImplementation(file => read(file.path));
+  vault.cachedRead.mockImplementation(file => read(file.path));
+  vault.create.mockImplementation(async (path, data) => {
+    if (files.has(path)) {
+      throw new Error('File already exists.');
+    }
+    files.set(path, data);
+    return new TFile(path);
+  });
+  vault.modify.mockImplementation(async (file, data) => {
+    files.set(file.path, data);
+  });
+  vault.delete.mockImplementation(async file => {
+    files.delete(file.path);
+  });
+  vault.createFolder.mockImplementation(async path => {
+    folders.add(path);
+  });
+
+  vault.adapter.exists.mockImplementation(async path => files.has(path) || folders.has(path));
+  vault.adapter.read.mockImplementation(read);
+  vault.adapter.write.mockImplementation(async (path, data) => {
+    files.set(path, data);
+  });
+  vault.adapter.remove.mockImplementation(async path => {
+    await read(path);
+    files.delete(path);
+  });
+  vault.adapter.rename.mockImplementation(async (path, newPath) => {
+    files.set(newPath, await read(path));
+    files.delete(path);
+  });
+  vault.adapter.mkdir.mockImplementation(async path => {
+    folders.add(path);
+  });
+
+  return files;
+}
@@ -2,6 +2,9 @@
 // This runs before each test file
 import { beforeAll, afterAll } from '@jest/globals';
 
+// Obsidian's element helpers, which the UI code uses
+import './mocks/dom';
+
 // Global setup code
 beforeAll(() => {
   // Any global setup needed before all tests
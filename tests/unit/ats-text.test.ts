@@ -0,0 +1,56 @@
+/**
+ * Unit tests for the ATS plain-text rendering
+ */
+import { describe, test, expect } from '@jest/globals';
+import { getSkillLevelLabel, normalizeDate, toATSPlainText } from '../../src/core/ats-text';
+
+describe('ATS plain text', () => {
+  test('should normalize dates', () => {
+    expect(normalizeDate('January 2020')).toBe('Jan 2020');
+    expect(normalizeDate('03/2018')).toBe('Mar 2018');
+    expect(normalizeDate('now')).toBe('Present');
+    expect(normalizeDate('Summer 2019')).toBe('Summer 2019');
+  });
+
+  test('should describe skill levels in words', () => {
+    expect(getSkillLevelLabel(95)).toBe('Expert');
+    expect(getSkillLevelLabel(70)).toBe('Advanced');
+    expect(getSkillLevelLabel(10)).toBe('Beginner');
+  });
+
+  test('should keep structure and drop layout', () => {
+    const text = toATSPlainText([
+      '---',
+      'title: CV',
+      '---',
+      '# Jane **Doe**',
+      '[jane@example.com](mailto:jane@example.com) | [GitHub](https://github.com/jane)',
+      '',
+      '## Experience',
+      '### Engineer | Acme',
+      '\\daterange{January 2020}{now}',
+      '- Built *things*',
+      '\\newpage',
+      '## Skills',
+      '\\cvtag{Go} \\cvtag{Rust} \\cvtag{SQL}',
+      '\\cvskill{Python}{80}'
+    ].join('\n'));
+
+    expect(text).toBe([
+      'Jane Doe',
+      'jane@example.com | GitHub (https://github.com/jane)',
+      '',
+      'EXPERIENCE',
+      '',
+      'Engineer | Acme',
+      'Jan 2020 - Present',
+      '',
+      '- Built things',
+      '',
+      'SKILLS',
+      'Go, Rust, SQL',
+      'Python (Advanced)',
+      ''
+    ].join('\n'));
+  });
+});
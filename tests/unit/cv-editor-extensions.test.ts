@@ -0,0 +1,221 @@
+/**
+ * Unit tests for the CV editor's CodeMirror extensions
+ */
+import { jest, describe, beforeEach, afterEach, test, expect } from '@jest/globals';
+import { EditorSelection } from '@codemirror/state';
+import { EditorView, runScopeHandlers } from '@codemirror/view';
+import { foldedRanges } from '@codemirror/language';
+import {
+  CVEditorOptions,
+  createCVEditorState,
+  insertBlock,
+  isFoldedAtLine,
+  prefixSelectedLines,
+  toggleFoldAtLine,
+  wrapSelection
+} from '../../src/ui/cv-editor-extensions';
+
+const CONTENT = '# Jane Doe\n\n## Experience\n\n### Engineer \\daterange{2020}{Present}\n\n- Built things \\cvtag{lead}\n\n## Skills\n';
+
+describe('CV editor extensions', () => {
+  let options: CVEditorOptions;
+  let view: EditorView;
+
+  /**
+   * Open an editor on the page
+   * @param content The document content
+   * @param readOnly Whether the content cannot be edited
+   * @returns The editor
+   */
+  function createEditor(content: string, readOnly = false): EditorView {
+    view = new EditorView({
+      state: createCVEditorState(content, { ...options, readOnly }),
+      parent: document.body.createDiv()
+    });
+    return view;
+  }
+
+  /**
+   * Get the text of the editor's marks with a class
+   * @param className The class
+   * @returns The text of each mark
+   */
+  function getMarks(className: string): (string | null)[] {
+    return Array.from(view.contentDOM.querySelectorAll(`.${className}`)).map(el => el.textContent);
+  }
+
+  /**
+   * Press a key in the editor
+   * @param key The key
+   * @param modifiers The modifier keys held down
+   * @returns Whether a key binding handled the key
+   */
+  function press(key: string, modifiers: KeyboardEventInit = {}): boolean {
+    return runScopeHandlers(view, new KeyboardEvent('keydown', { key, ...modifiers }), 'editor');
+  }
+
+  beforeEach(() => {
+    options = { onChange: jest.fn(), onSave: jest.fn() };
+  });
+
+  afterEach(() => {
+    view.destroy();
+    document.body.empty();
+  });
+
+  describe('Decorations', () => {
+    test('should mark custom commands and each of their arguments', () => {
+      createEditor(CONTENT);
+
+      expect(getMarks('oh-my-cv-cm-command')).toEqual(['\\daterange', '\\cvtag']);
+      expect(getMarks('oh-my-cv-cm-daterange')).toEqual(['\\daterange']);
+      expect(getMarks('oh-my-cv-cm-cvtag')).toEqual(['\\cvtag']);
+      expect(getMarks('oh-my-cv-cm-argument')).toEqual(['{2020}', '{Present}', '{lead}']);
+    });
+
+    test('should leave other backslash commands alone', () => {
+      createEditor('\\textbf{bold} \\newpagebreak \\newpage\n');
+
+      expect(getMarks('oh-my-cv-cm-command')).toEqual(['\\newpage']);
+      expect(getMarks('oh-my-cv-cm-argument')).toEqual([]);
+    });
+
+    test('should mark headings with their level', () => {
+      createEditor(CONTENT);
+
+      expect(getMarks('oh-my-cv-cm-heading-1')).toEqual(['# Jane Doe']);
+      expect(getMarks('oh-my-cv-cm-heading-2')).toEqual(['## Experience', '## Skills']);
+      expect(view.contentDOM.querySelector('.oh-my-cv-cm-heading-3')?.textContent).toContain('### Engineer ');
+    });
+
+    test('should update the marks as the content changes', () => {
+      createEditor(CONTENT);
+
+      view.dispatch({ changes: { from: view.state.doc.length, insert: '\n\\cvskill{TypeScript}{5}\n' } });
+      expect(getMarks('oh-my-cv-cm-cvskill')).toEqual(['\\cvskill']);
+      expect(getMarks('oh-my-cv-cm-argument')).toEqual(['{2020}', '{Present}', '{lead}', '{TypeScript}', '{5}']);
+
+      // Removing the hashes turns the heading back into text
+      view.dispatch({ changes: { from: 0, to: 2 } });
+      expect(getMarks('oh-my-cv-cm-heading-1')).toEqual([]);
+    });
+  });
+
+  describe('Key bindings', () => {
+    test('should save with Mod-S', () => {
+      createEditor(CONTENT);
+
+      expect(press('s', { ctrlKey: true })).toBe(true);
+      expect(options.onSave).toHaveBeenCalledTimes(1);
+      expect(press('s')).toBe(false);
+      expect(options.onSave).toHaveBeenCalledTimes(1);
+    });
+
+    test('should undo and redo edits', () => {
+      createEditor(CONTENT);
+      view.dispatch({ changes: { from: 0, insert: 'Draft\n' }, userEvent: 'input' });
+
+      press('z', { ctrlKey: true });
+      expect(view.state.doc.toString()).toBe(CONTENT);
+      press('y', { ctrlKey: true });
+      expect(view.state.doc.toString()).toBe(`Draft\n${CONTENT}`);
+    });
+
+    test('should fold and unfold the section under the cursor', () => {
+      createEditor(CONTENT);
+      view.dispatch({ selection: EditorSelection.cursor(view.state.doc.line(3).from) });
+
+      // With Shift held the keys read as braces, so the bindings are found by key code
+      expect(press('{', { ctrlKey: true, shiftKey: true, keyCode: 219 })).toBe(true);
+      expect(isFoldedAtLine(view, 2)).toBe(true);
+      press('}', { ctrlKey: true, shiftKey: true, keyCode: 221 });
+      expect(isFoldedAtLine(view, 2)).toBe(false);
+    });
+
+    test('should indent list items with Tab', () => {
+      createEditor('- Built things\n');
+      view.dispatch({ selection: EditorSelection.cursor(view.state.doc.length - 1) });
+
+      expect(press('Tab')).toBe(true);
+      expect(view.state.doc.line(1).text).toMatch(/^\s+- Built things$/);
+    });
+  });
+
+  describe('Changes', () => {
+    test('should report each change with the whole content', () => {
+      createEditor(CONTENT);
+      view.dispatch({ changes: { from: view.state.doc.length, insert: '- TypeScript\n' } });
+      view.dispatch({ selection: EditorSelection.cursor(0) });
+
+      expect(options.onChange).toHaveBeenCalledTimes(1);
+      expect(options.onChange).toHaveBeenCalledWith(`${CONTENT}- TypeScript\n`);
+    });
+
+    test('should not let a read-only editor be edited', () => {
+      createEditor(CONTENT, true);
+
+      expect(view.state.readOnly).toBe(true);
+      expect(view.contentDOM.getAttribute('contenteditable')).toBe('false');
+    });
+  });
+
+  describe('Folding', () => {
+    test('should fold a heading up to the next heading of the same or a higher level', () => {
+      createEditor(CONTENT);
+
+      expect(toggleFoldAtLine(view, 2)).toBe(true);
+      expect(isFoldedAtLine(view, 2)).toBe(true);
+
+      // The subsection is hidden, the blank line before the next section is not
+      const ranges: string[] = [];
+      foldedRanges(view.state).between(0, view.state.doc.length, (from, to) => {
+        ranges.push(view.state.sliceDoc(from, to));
+      });
+      expect(ranges).toEqual(['\n\n### Engineer \\daterange{2020}{Present}\n\n- Built things \\cvtag{lead}']);
+
+      expect(toggleFoldAtLine(view, 2)).toBe(false);
+      expect(isFoldedAtLine(view, 2)).toBe(false);
+    });
+
+    test('should not fold headings without content or lines that are not headings', () => {
+      createEditor(CONTENT);
+
+      expect(toggleFoldAtLine(view, 8)).toBe(false);
+      expect(toggleFoldAtLine(view, 1)).toBe(false);
+      expect(toggleFoldAtLine(view, 100)).toBe(false);
+    });
+  });
+
+  describe('Toolbar commands', () => {
+    test('should wrap the selection and keep it selected', () => {
+      createEditor('Built things');
+      view.dispatch({ selection: EditorSelection.range(0, 5) });
+
+      wrapSelection(view, '**', '**');
+
+      expect(view.state.doc.toString()).toBe('**Built** things');
+      expect(view.state.sliceDoc(view.state.selection.main.from, view.state.selection.main.to)).toBe('Built');
+    });
+
+    test('should prefix each selected line once, replacing another heading level', () => {
+      createEditor('# Experience\nSkills\n- Languages');
+      view.dispatch({ selection: EditorSelection.range(0, view.state.doc.length) });
+
+      prefixSelectedLines(view, '## ', /^#{1,6} /);
+      expect(view.state.doc.toString()).toBe('## Experience\n## Skills\n## - Languages');
+
+      prefixSelectedLines(view, '## ', /^#{1,6} /);
+      expect(view.state.doc.toString()).toBe('## Experience\n## Skills\n## - Languages');
+    });
+
+    test('should insert a block on its own line', () => {
+      createEditor('- Built things');
+      view.dispatch({ selection: EditorSelection.cursor(view.state.doc.length) });
+
+      insertBlock(view, '\\newpage\n');
+
+      expect(view.state.doc.toString()).toBe('- Built things\n\\newpage\n');
+      expect(view.state.selection.main.head).toBe(view.state.doc.length);
+    });
+  });
+});
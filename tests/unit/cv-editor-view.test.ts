@@ -0,0 +1,424 @@
+/**
+ * Unit tests for the CV editor view
+ */
+import { jest, describe, beforeEach, afterEach, test, expect } from '@jest/globals';
+import { EditorView } from '@codemirror/view';
+import { CVEditorView } from '../../src/ui/cv-editor-view';
+import { isFoldedAtLine } from '../../src/ui/cv-editor-extensions';
+import { ChoiceModal } from '../../src/ui/choice-modal';
+import { DRAFT_SAVE_DELAY } from '../../src/core/constants';
+import { DEFAULT_TEMPLATES } from '../../src/core/templates';
+import { CVTemplate } from '../../src/core/types';
+import { createTemplatePackage } from '../../src/core/template-package';
+import { TemplatePackageService } from '../../src/services/template-package-service';
+import { TFile } from '../mocks/obsidian';
+import { getPluginInstance } from '../mocks/plugin-instance';
+import { createTestDocument, getSettings, openCVEditorView, setUpPlugin } from '../mocks/cv-editor-view';
+
+// html2pdf needs a canvas, which jsdom does not have
+jest.mock('html2pdf.js', () => ({ default: jest.fn() }));
+
+const CONTENT = '# Jane Doe\n\n## Experience\n\n### Engineer, Acme\n\n- Built things\n\n## Skills\n\n- TypeScript\n';
+
+/**
+ * Get the view's editor
+ * @param view The CV editor view
+ * @returns The editor
+ */
+function getEditor(view: CVEditorView): EditorView {
+  return (view as any).editor;
+}
+
+/**
+ * Get the text of the line the cursor is on
+ * @param view The CV editor view
+ * @returns The line's text
+ */
+function getCursorLine(view: CVEditorView): string {
+  const state = getEditor(view).state;
+  return state.doc.lineAt(state.selection.main.head).text;
+}
+
+/**
+ * Let pending promise callbacks run
+ */
+async function flushPromises(): Promise<void> {
+  for (let i = 0; i < 5; i++) {
+    await Promise.resolve();
+  }
+}
+
+describe('CVEditorView', () => {
+  let view: CVEditorView;
+
+  beforeEach(async () => {
+    await setUpPlugin();
+    view = await openCVEditorView(createTestDocument(CONTENT));
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    document.body.empty();
+  });
+
+  describe('View state', () => {
+    test('should load the CV file the restored state names', async () => {
+      const storage = getPluginInstance().storage;
+      storage.loadCV.mockResolvedValue(createTestDocument('# John Doe\n', 'CVs/John Doe.cv.md'));
+
+      await view.setState({ file: 'CVs/John Doe.cv.md' }, { history: false });
+
+      expect(storage.loadCV).toHaveBeenLastCalledWith('CVs/John Doe.cv.md');
+      expect(view.getState()).toEqual(expect.objectContaining({ file: 'CVs/John Doe.cv.md' }));
+      expect(getEditor(view).state.doc.toString()).toBe('# John Doe\n');
+    });
+
+    test('should ignore restored state without a file path', async () => {
+      const storage = getPluginInstance().storage;
+      storage.loadCV.mockClear();
+
+      await view.setState(null, { history: false });
+      await view.setState({ file: 42 }, { history: false });
+      await view.setState({ isSidePanel: true }, { history: false });
+
+      expect(storage.loadCV).not.toHaveBeenCalled();
+      expect(view.getState()).toEqual(expect.objectContaining({ file: 'CVs/Test CV.md' }));
+    });
+  });
+
+  describe('Outline', () => {
+    test('should navigate to sections right after an edit', () => {
+      // Typing moves the sections down before the preview catches up
+      getEditor(view).dispatch({ changes: { from: 0, insert: 'Summary line\n\nAnother line\n\n' } });
+
+      view.revealOutlineItem(1);
+      expect(getCursorLine(view)).toBe('## Skills');
+
+      view.revealOutlineItem(0, 0);
+      expect(getCursorLine(view)).toBe('### Engineer, Acme');
+    });
+
+    test('should fold the section that is under the heading now', () => {
+      getEditor(view).dispatch({ changes: { from: 0, insert: 'Summary line\n\n' } });
+
+      view.toggleSectionFold(0);
+      expect(view.isSectionFolded(0)).toBe(true);
+      expect(view.isSectionFolded(1)).toBe(false);
+
+      // The fold hangs off the Experience heading, which is now on the fifth line
+      expect(getEditor(view).state.doc.line(5).text).toBe('## Experience');
+      expect(isFoldedAtLine(getEditor(view), 4)).toBe(true);
+      expect(isFoldedAtLine(getEditor(view), 2)).toBe(false);
+
+      view.toggleSectionFold(0);
+      expect(view.isSectionFolded(0)).toBe(false);
+    });
+  });
+
+  describe('Unsaved changes', () => {
+    /**
+     * Type at the end of the editor
+     * @param text The text to type
+     */
+    function type(text: string): void {
+      const editor = getEditor(view);
+      editor.dispatch({ changes: { from: editor.state.doc.length, insert: text } });
+    }
+
+    /**
+     * Get the save status shown in the status bar
+     * @returns The status text
+     */
+    function getSaveStatus(): string | null | undefined {
+      return view.contentEl.querySelector('.oh-my-cv-status-save')?.textContent;
+    }
+
+    /**
+     * Click a button in the open choice dialog
+     * @param label The button's label
+     */
+    function choose(label: string): void {
+      const button = Array.from(document.body.querySelectorAll<HTMLButtonElement>('.oh-my-cv-choice-buttons button'))
+        .find(el => el.textContent === label);
+      if (!button) {
+        throw new Error(`No ${label} button`);
+      }
+      button.click();
+    }
+
+    test('should track unsaved changes until the CV is saved', async () => {
+      const storage = getPluginInstance().storage;
+      expect(getSaveStatus()).toBe('Saved');
+
+      type('- Rust\n');
+      expect(getSaveStatus()).toBe('Unsaved changes');
+
+      view.contentEl.querySelector<HTMLButtonElement>('.oh-my-cv-save-button')?.click();
+      await flushPromises();
+
+      expect(storage.saveCV).toHaveBeenCalledWith(expect.objectContaining({ content: `${CONTENT}- Rust\n` }));
+      expect(storage.clearDraft).toHaveBeenCalledWith('CVs/Test CV.md');
+      expect(getSaveStatus()).toBe('Saved');
+    });
+
+    test('should not autosave by default, but keep a draft', async () => {
+      const storage = getPluginInstance().storage;
+      expect(getPluginInstance().settings.getSettings().autosave).toBe(false);
+      jest.useFakeTimers();
+
+      type('- Rust\n');
+      await jest.advanceTimersByTimeAsync(DRAFT_SAVE_DELAY);
+      expect(storage.saveDraft).toHaveBeenCalledWith(expect.objectContaining({ content: `${CONTENT}- Rust\n` }));
+
+      await jest.advanceTimersByTimeAsync(60 * 1000);
+      expect(storage.saveCV).not.toHaveBeenCalled();
+      expect(getSaveStatus()).toBe('Unsaved changes');
+    });
+
+    test('should follow the CV to its new path and keep its draft there', async () => {
+      const storage = getPluginInstance().storage;
+      jest.useFakeTimers();
+
+      type('- Rust\n');
+      getPluginInstance().app.vault.trigger('rename', new TFile('Archive/Test CV.md'), 'CVs/Test CV.md');
+      await jest.advanceTimersByTimeAsync(DRAFT_SAVE_DELAY);
+
+      // Moving the existing draft is left to the plugin, with the snapshots
+      expect(storage.clearDraft).not.toHaveBeenCalled();
+      expect(storage.saveDraft).toHaveBeenCalledWith(expect.objectContaining({ path: 'Archive/Test CV.md', content: `${CONTENT}- Rust\n` }));
+      expect(view.getState()).toEqual(expect.objectContaining({ file: 'Archive/Test CV.md' }));
+    });
+
+    test('should autosave once typing pauses when turned on', async () => {
+      const storage = getPluginInstance().storage;
+      await getPluginInstance().settings.updateSettings({ autosave: true, autosaveInterval: 3 });
+      jest.useFakeTimers();
+
+      type('- Rust\n');
+      await jest.advanceTimersByTimeAsync(2900);
+      type('- Go\n');
+      await jest.advanceTimersByTimeAsync(2900);
+      expect(storage.saveCV).not.toHaveBeenCalled();
+
+      await jest.advanceTimersByTimeAsync(100);
+      expect(storage.saveCV).toHaveBeenCalledTimes(1);
+      expect(storage.saveCV).toHaveBeenCalledWith(expect.objectContaining({ content: `${CONTENT}- Rust\n- Go\n` }));
+      expect(getSaveStatus()).toBe('Saved');
+    });
+
+    test('should ask before closing with unsaved changes', async () => {
+      const storage = getPluginInstance().storage;
+      type('- Rust\n');
+
+      const closing = view.onClose();
+      const labels = Array.from(document.body.querySelectorAll('.oh-my-cv-choice-buttons button')).map(el => el.textContent);
+      expect(labels).toEqual(['Save', 'Discard']);
+      choose('Save');
+      await closing;
+
+      expect(storage.saveCV).toHaveBeenCalledWith(expect.objectContaining({ content: `${CONTENT}- Rust\n` }));
+    });
+
+    test('should drop unsaved changes and their draft when discarded on close', async () => {
+      const storage = getPluginInstance().storage;
+      type('- Rust\n');
+
+      const closing = view.onClose();
+      choose('Discard');
+      await closing;
+
+      expect(storage.saveCV).not.toHaveBeenCalled();
+      expect(storage.clearDraft).toHaveBeenCalledWith('CVs/Test CV.md');
+    });
+
+    test('should close without asking when there is nothing to save or autosave is on', async () => {
+      const storage = getPluginInstance().storage;
+      await view.onClose();
+      expect(document.body.querySelector('.oh-my-cv-choice-buttons')).toBeNull();
+
+      view = await openCVEditorView(createTestDocument(CONTENT));
+      await getPluginInstance().settings.updateSettings({ autosave: true });
+      type('- Rust\n');
+      await view.onClose();
+
+      expect(document.body.querySelector('.oh-my-cv-choice-buttons')).toBeNull();
+      expect(storage.saveCV).toHaveBeenCalledWith(expect.objectContaining({ content: `${CONTENT}- Rust\n` }));
+    });
+  });
+
+  describe('Templates', () => {
+    /**
+     * Make a template to add to the settings
+     * @param id The template ID
+     * @param name The template name
+     * @returns The template
+     */
+    function createTemplate(id: string, name: string): CVTemplate {
+      return { id, name, description: '', content: '# {name}', style: DEFAULT_TEMPLATES[0].style, category: 'Custom' };
+    }
+
+    /**
+     * Get the template names offered by a dropdown
+     * @param selector The dropdown's selector
+     * @returns The option texts
+     */
+    function getOptions(selector: string): (string | null)[] {
+      return Array.from(view.contentEl.querySelectorAll(`${selector} option`)).map(el => el.textContent);
+    }
+
+    /**
+     * Pick a template in one of the view's dropdowns
+     * @param selector The dropdown's selector
+     * @param templateId The template ID
+     */
+    function selectTemplate(selector: string, templateId: string): void {
+      const selectEl = view.contentEl.querySelector<HTMLSelectElement>(selector);
+      if (!selectEl) {
+        throw new Error(`No ${selector}`);
+      }
+      selectEl.value = templateId;
+      selectEl.dispatchEvent(new Event('change'));
+    }
+
+    /**
+     * Get the labels of the open choice dialog's buttons
+     * @returns The labels, in order
+     */
+    function getChoices(): (string | null)[] {
+      return Array.from(document.body.querySelectorAll('.oh-my-cv-choice-buttons button')).map(el => el.textContent);
+    }
+
+    /**
+     * Click a button in the open choice dialog
+     * @param label The button's label
+     */
+    function choose(label: string): void {
+      const button = Array.from(document.body.querySelectorAll<HTMLButtonElement>('.oh-my-cv-choice-buttons button'))
+        .find(el => el.textContent === label);
+      if (!button) {
+        throw new Error(`No ${label} button`);
+      }
+      button.click();
+    }
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    test('should offer templates saved after the editor opened', async () => {
+      const settings = getSettings();
+      expect(getOptions('.oh-my-cv-template-select')).not.toContain('Consulting');
+
+      await settings.addTemplate(createTemplate('consulting', 'Consulting'));
+      expect(getOptions('.oh-my-cv-template-select')).toContain('Consulting');
+      expect(getOptions('.oh-my-cv-template-selector')).toContain('Consulting');
+      expect(view.contentEl.querySelector('.oh-my-cv-template-selector optgroup[label="Custom"]')).not.toBeNull();
+
+      await settings.updateTemplate('consulting', { name: 'Consulting (short)' });
+      expect(getOptions('.oh-my-cv-template-select')).toContain('Consulting (short)');
+      expect(getOptions('.oh-my-cv-template-selector')).not.toContain('Consulting');
+
+      await settings.deleteTemplate('consulting');
+      expect(getOptions('.oh-my-cv-template-select')).not.toContain('Consulting (short)');
+      expect(getOptions('.oh-my-cv-template-selector')).not.toContain('Consulting (short)');
+
+      // Each dropdown still has its placeholder, once
+      expect(getOptions('.oh-my-cv-template-select').filter(text => text === 'Select Template')).toHaveLength(1);
+      expect(getOptions('.oh-my-cv-template-selector').filter(text => text === 'Select a template...')).toHaveLength(1);
+    });
+
+    test('should offer templates reloaded from the templates folder', () => {
+      getSettings().setLibraryTemplates([createTemplate('library-academic', 'Library Academic')]);
+
+      expect(getOptions('.oh-my-cv-template-select')).toContain('Library Academic');
+      expect(getOptions('.oh-my-cv-template-selector')).toContain('Library Academic');
+    });
+
+    test('should offer the CV as a template as soon as it is saved as one', async () => {
+      view.contentEl.querySelector<HTMLButtonElement>('.oh-my-cv-save-template-button')?.click();
+
+      // Skip the thumbnail, which needs a canvas
+      const thumbnailSettingEl = Array.from(document.body.querySelectorAll('.modal .setting-item'))
+        .find(el => el.querySelector('.setting-item-name')?.textContent === 'Generate thumbnail');
+      thumbnailSettingEl?.querySelector<HTMLElement>('.checkbox-container')?.click();
+      const saveButton = Array.from(document.body.querySelectorAll<HTMLButtonElement>('.modal .oh-my-cv-choice-buttons button'))
+        .find(el => el.textContent === 'Save');
+      saveButton?.click();
+      await flushPromises();
+
+      expect(getSettings().getUserTemplates().map(template => template.name)).toEqual(['Test CV']);
+      expect(getOptions('.oh-my-cv-template-select')).toContain('Test CV');
+      expect(getOptions('.oh-my-cv-template-selector')).toContain('Test CV');
+    });
+
+    test('should offer imported templates right away', async () => {
+      const templatePackage = createTemplatePackage([createTemplate('consulting', 'Consulting'), createTemplate('academic', 'Academic')]);
+      await new TemplatePackageService(getPluginInstance() as any).importPackage(templatePackage, 'copy');
+
+      expect(getOptions('.oh-my-cv-template-select')).toEqual(expect.arrayContaining(['Consulting', 'Academic']));
+      expect(getOptions('.oh-my-cv-template-selector')).toEqual(expect.arrayContaining(['Consulting', 'Academic']));
+    });
+
+    test('should ask which parts of a template the toolbar dropdown applies', async () => {
+      const template = createTemplate('consulting', 'Consulting');
+      template.style = { ...template.style, theme: { ...template.style.theme, primaryColor: '#aa3300' } };
+      await getSettings().addTemplate(template);
+      const confirm = jest.spyOn(window, 'confirm');
+
+      selectTemplate('.oh-my-cv-template-select', 'consulting');
+      expect(getChoices()).toEqual(['Apply Style Only', 'Apply Content Only', 'Apply Template']);
+      expect(document.body.querySelector('.modal p')?.textContent).toContain('will replace your current content');
+      expect(view.contentEl.querySelector<HTMLSelectElement>('.oh-my-cv-template-select')?.value).toBe('');
+
+      // The style goes into the CV's metadata and the content stays
+      choose('Apply Style Only');
+      await flushPromises();
+      expect(view.getCurrentDocument()?.metadata.themeColor).toBe('#aa3300');
+      expect(getEditor(view).state.doc.toString()).toBe(CONTENT);
+
+      // The choice is the go-ahead to replace the content, so nothing else is asked
+      selectTemplate('.oh-my-cv-template-select', 'consulting');
+      choose('Apply Content Only');
+      await flushPromises();
+      expect(getChoices()).toEqual([]);
+      expect(getEditor(view).state.doc.toString()).toBe('# {name}');
+      expect(confirm).not.toHaveBeenCalled();
+    });
+
+    test('should apply nothing when the template prompt is dismissed', async () => {
+      await getSettings().addTemplate(createTemplate('consulting', 'Consulting'));
+
+      jest.spyOn(ChoiceModal.prototype, 'choose').mockResolvedValue(null);
+
+      selectTemplate('.oh-my-cv-template-select', 'consulting');
+      await flushPromises();
+
+      expect(getEditor(view).state.doc.toString()).toBe(CONTENT);
+      expect(view.getCurrentDocument()?.metadata.themeColor).toBe('#4051b5');
+    });
+
+    test('should ask before a template replaces the content', async () => {
+      await getSettings().addTemplate(createTemplate('consulting', 'Consulting'));
+      const confirm = jest.spyOn(window, 'confirm');
+
+      selectTemplate('.oh-my-cv-template-selector', 'consulting');
+      expect(getChoices()).toEqual(['Replace content', 'Cancel']);
+      choose('Cancel');
+      await flushPromises();
+      expect(getEditor(view).state.doc.toString()).toBe(CONTENT);
+
+      selectTemplate('.oh-my-cv-template-selector', 'consulting');
+      choose('Replace content');
+      await flushPromises();
+      expect(getEditor(view).state.doc.toString()).toBe('# {name}');
+      expect(confirm).not.toHaveBeenCalled();
+    });
+
+    test('should stop following the templates once closed', async () => {
+      view.unload();
+      await getSettings().addTemplate(createTemplate('consulting', 'Consulting'));
+
+      expect(getOptions('.oh-my-cv-template-select')).not.toContain('Consulting');
+    });
+  });
+});
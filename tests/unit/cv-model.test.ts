@@ -0,0 +1,149 @@
+/**
+ * Unit tests for the structured CV model
+ */
+import { describe, test, expect } from '@jest/globals';
+import { blankPersonalDetails, getCVModel, getEntryTitle, moveSection, parseCV, serializeCV, validateCV } from '../../src/core/cv-model';
+import { CVDocument } from '../../src/core/types';
+
+const CV = [
+  '# Jane Doe',
+  '',
+  '**Software Engineer** | [jane@example.com](mailto:jane@example.com) | Berlin, DE | [GitHub](https://github.com/janedoe)',
+  '',
+  '## Experience',
+  '',
+  '### Senior Engineer | *Acme* | Berlin',
+  '\\daterange{Jan 2020}{Present}',
+  '',
+  'Led the   platform team.',
+  '',
+  '- Cut build times by **50%**',
+  '- \\cvtag{Go} \\cvtag{Kubernetes}',
+  '',
+  '**Engineer** | Initech | 2016 - 2019',
+  '- Wrote the billing system',
+  '',
+  '## Skills',
+  '',
+  '- **Languages**: TypeScript, Go',
+  '- \\cvskill{Rust}{60}',
+  '',
+  '## Awards',
+  ''
+].join('\n');
+
+describe('CV model', () => {
+  test('should parse the header', () => {
+    const { header } = parseCV(CV);
+
+    expect(header.name).toBe('Jane Doe');
+    expect(header.contact.map(item => item.kind)).toEqual(['label', 'email', 'location', 'link']);
+    expect(header.contact[1].value).toBe('jane@example.com');
+    expect(header.contact[3].network).toBe('GitHub');
+  });
+
+  test('should parse sections and entries', () => {
+    const { sections } = parseCV(CV);
+
+    expect(sections.map(section => section.kind)).toEqual(['work', 'skills', 'awards']);
+    expect(sections[0].line).toBe(4);
+
+    const [senior, engineer] = sections[0].entries;
+    expect(senior.parts).toEqual(['Senior Engineer', '*Acme*', 'Berlin']);
+    expect(getEntryTitle(senior)).toBe('Senior Engineer | Acme | Berlin');
+    expect(senior.startDate).toBe('Jan 2020');
+    expect(senior.endDate).toBe('Present');
+    expect(senior.summary).toEqual(['Led the   platform team.']);
+    expect(senior.bullets).toEqual(['Cut build times by **50%**']);
+    expect(senior.keywords).toEqual(['Go', 'Kubernetes']);
+    expect(senior.line).toBe(6);
+
+    expect(engineer.parts).toEqual(['**Engineer**', 'Initech']);
+    expect(engineer.startDate).toBe('2016');
+    expect(engineer.endDate).toBe('2019');
+    expect(engineer.line).toBe(14);
+  });
+
+  test('should parse skills with levels', () => {
+    expect(parseCV(CV).sections[1].skills).toEqual([
+      { name: 'Languages', level: undefined, keywords: ['TypeScript', 'Go'] },
+      { name: 'Rust', level: '60%', keywords: [] }
+    ]);
+  });
+
+  test('should write an unedited model back unchanged', () => {
+    expect(serializeCV(parseCV(CV))).toBe(CV);
+  });
+
+  test('should regenerate only edited parts', () => {
+    const model = parseCV(CV);
+    model.sections[0].entries[1].bullets.push('Mentored interns');
+    model.sections[2].title = 'Honours';
+
+    const result = serializeCV(model);
+    expect(result).toContain('### Senior Engineer | *Acme* | Berlin\n\\daterange{Jan 2020}{Present}\n\nLed the   platform team.');
+    expect(result).toContain('### **Engineer** | Initech\n\\daterange{2016}{2019}\n\n- Wrote the billing system\n- Mentored interns');
+    expect(result).toContain('## Honours');
+
+    // The regenerated entry reads back the same
+    const reparsed = parseCV(result).sections[0].entries[1];
+    expect(reparsed.bullets).toEqual(['Wrote the billing system', 'Mentored interns']);
+    expect(reparsed.startDate).toBe('2016');
+  });
+
+  test('should write reordered sections', () => {
+    const model = parseCV(CV);
+    model.sections.reverse();
+
+    const result = serializeCV(model);
+    expect(result.indexOf('## Awards')).toBeLessThan(result.indexOf('## Skills'));
+    expect(result.indexOf('## Skills')).toBeLessThan(result.indexOf('## Experience'));
+  });
+
+  test('should move a section', () => {
+    const content = '# Jane\n\n## One\n- a\n\n## Two\n- b\n\n## Three\n- c';
+
+    expect(moveSection(parseCV(content), 2, 0)).toBe('# Jane\n\n## Three\n- c\n\n## One\n- a\n\n## Two\n- b\n');
+    expect(moveSection(parseCV(content), 0, 2)).toBe('# Jane\n\n## Two\n- b\n\n## Three\n- c\n\n## One\n- a\n');
+    expect(moveSection(parseCV(content), 1, 1)).toBe(content);
+  });
+
+  test('should cache the model on the document', () => {
+    const document = { path: 'CV.cv.md', content: CV } as CVDocument;
+    const model = getCVModel(document);
+
+    expect(getCVModel(document)).toBe(model);
+    document.content = '# Someone Else';
+    expect(getCVModel(document).header.name).toBe('Someone Else');
+  });
+
+  test('should report problems', () => {
+    const issues = validateCV(parseCV([
+      '# Jane Doe',
+      '',
+      '## Experience',
+      '### Engineer | Initech',
+      '### Lead | Acme | 2021 - 2019',
+      '## Awards'
+    ].join('\n')));
+
+    expect(issues).toEqual([
+      { message: 'There is no email address or phone number under the name', line: 0 },
+      { message: '\'Engineer | Initech\' has no dates', line: 3 },
+      { message: '\'Lead | Acme\' ends before it starts', line: 4 },
+      { message: 'Section \'Awards\' is empty', line: 5 }
+    ]);
+    expect(validateCV(parseCV(CV)).map(issue => issue.message)).toEqual(['Section \'Awards\' is empty']);
+  });
+
+  test('should replace personal details with placeholders', () => {
+    const result = blankPersonalDetails(CV + '\nReferences from Jane Doe\'s managers: boss@acme.com');
+    const lines = result.split('\n');
+
+    expect(lines[0]).toBe('# Your Name');
+    expect(lines[2]).toBe('**Software Engineer** | [your.name@example.com](mailto:your.name@example.com) | City, Country | [GitHub](https://github.com/your-name)');
+    expect(result).toContain('### Senior Engineer | *Acme* | Berlin');
+    expect(result).toContain('References from Your Name\'s managers: your.name@example.com');
+    expect(blankPersonalDetails('# Jane\n+49 30 1234567 | jane@example.com')).toBe('# Your Name\n+1 555 000 0000 | your.name@example.com');
+  });
+});
@@ -0,0 +1,49 @@
+/**
+ * Unit tests for CV snapshot diffing
+ */
+import { describe, test, expect } from '@jest/globals';
+import { alignDiff, diffMarkdown, diffSequences, splitMarkdownBlocks } from '../../src/core/diff';
+
+describe('Diff', () => {
+  test('should split Markdown into blocks', () => {
+    const markdown = '---\ntitle: CV\n---\n# Jane Doe\nEngineer\n\n## Experience\n- One\n- Two\n\n\n\\newpage\n';
+    expect(splitMarkdownBlocks(markdown)).toEqual(['# Jane Doe', 'Engineer', '## Experience', '- One\n- Two', '\\newpage']);
+  });
+
+  test('should diff sequences', () => {
+    expect(diffSequences(['a', 'b', 'c'], ['a', 'c', 'd'])).toEqual([
+      { type: 'equal', text: 'a' },
+      { type: 'removed', text: 'b' },
+      { type: 'equal', text: 'c' },
+      { type: 'added', text: 'd' }
+    ]);
+    expect(diffSequences([], ['x'])).toEqual([{ type: 'added', text: 'x' }]);
+    expect(diffSequences(['x'], [])).toEqual([{ type: 'removed', text: 'x' }]);
+  });
+
+  test('should pair removed and added blocks', () => {
+    expect(alignDiff([
+      { type: 'removed', text: 'old 1' },
+      { type: 'removed', text: 'old 2' },
+      { type: 'added', text: 'new 1' },
+      { type: 'equal', text: 'same' },
+      { type: 'added', text: 'extra' },
+      { type: 'removed', text: 'gone' }
+    ])).toEqual([
+      { type: 'changed', left: 'old 1', right: 'new 1' },
+      { type: 'removed', left: 'old 2', right: undefined },
+      { type: 'equal', left: 'same', right: 'same' },
+      { type: 'added', left: undefined, right: 'extra' },
+      { type: 'removed', left: 'gone', right: undefined }
+    ]);
+  });
+
+  test('should compare two CV versions', () => {
+    const before = '# Jane\n\n## Skills\n\\cvtag{Go}\n\n## Education\nBSc';
+    const after = '# Jane\n\n## Skills\n\\cvtag{Go} \\cvtag{Rust}\n\n## Education\nBSc';
+    const rows = diffMarkdown(before, after);
+
+    expect(rows.map(row => row.type)).toEqual(['equal', 'equal', 'changed', 'equal', 'equal']);
+    expect(rows[2]).toEqual({ type: 'changed', left: '\\cvtag{Go}', right: '\\cvtag{Go} \\cvtag{Rust}' });
+  });
+});
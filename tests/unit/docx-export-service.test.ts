@@ -0,0 +1,150 @@
+/**
+ * Unit tests for the DOCX Export Service
+ */
+import { describe, test, expect } from '@jest/globals';
+import JSZip from 'jszip';
+import { convertMillimetersToTwip } from 'docx';
+import { DocxExportService } from '../../src/services/docx-export-service';
+import { CVDocument } from '../../src/core/types';
+
+const CONTENT = [
+  '# Jane Doe',
+  '',
+  '[jane.dev](https://jane.dev)',
+  '',
+  '## Experience',
+  '',
+  '### Engineer, Acme',
+  '',
+  '- Built **things**',
+  '- Led a team',
+  '',
+  '1. First',
+  '2. Second'
+].join('\n');
+
+/**
+ * Make a CV document for a test
+ * @param metadata Metadata to change from the defaults
+ * @returns The document
+ */
+function createDocument(metadata: Partial<CVDocument['metadata']> = {}): CVDocument {
+  return {
+    path: 'CVs/Jane Doe.cv.md',
+    content: CONTENT,
+    metadata: {
+      title: 'Jane Doe',
+      lastModified: 0,
+      pageSize: 'A4',
+      margins: { top: 20, right: 15, bottom: 25, left: 10 },
+      themeColor: '#4051b5',
+      fontFamily: '"Open Sans", sans-serif',
+      fontSize: 11,
+      lineHeight: 1.5,
+      ...metadata
+    }
+  };
+}
+
+/**
+ * Render a CV and read parts of the Word package
+ * @param document The CV document
+ * @param parts The parts' paths in the package
+ * @returns Each part's XML
+ */
+async function renderParts(document: CVDocument, ...parts: string[]): Promise<string[]> {
+  const data = await new DocxExportService().renderToDocx(document);
+  const zip = await JSZip.loadAsync(data);
+  return Promise.all(parts.map(part => {
+    const file = zip.file(part);
+    if (!file) {
+      throw new Error(`The package has no ${part}`);
+    }
+    return file.async('string');
+  }));
+}
+
+/**
+ * Render a CV and read a part of the Word package
+ * @param document The CV document
+ * @param part The part's path in the package
+ * @returns The part's XML
+ */
+async function renderPart(document: CVDocument, part = 'word/document.xml'): Promise<string> {
+  const [xml] = await renderParts(document, part);
+  return xml;
+}
+
+/**
+ * Get the text of each paragraph in a Word document
+ * @param xml The document XML
+ * @returns The paragraphs' style and text
+ */
+function getParagraphs(xml: string): { style: string | null; text: string }[] {
+  return Array.from(xml.matchAll(/<w:p(?: [^>]*)?>([\s\S]*?)<\/w:p>/g)).map(match => {
+    const body = match[1];
+    return {
+      style: body.match(/<w:pStyle w:val="([^"]+)"/)?.[1] ?? null,
+      text: Array.from(body.matchAll(/<w:t(?: [^>]*)?>([^<]*)<\/w:t>/g)).map(text => text[1]).join('')
+    };
+  });
+}
+
+describe('DocxExportService', () => {
+  test('should turn headings into Word headings of the same level', async () => {
+    const paragraphs = getParagraphs(await renderPart(createDocument()));
+
+    expect(paragraphs.filter(paragraph => paragraph.style?.startsWith('Heading'))).toEqual([
+      { style: 'Heading1', text: 'Jane Doe' },
+      { style: 'Heading2', text: 'Experience' },
+      { style: 'Heading3', text: 'Engineer, Acme' }
+    ]);
+  });
+
+  test('should turn lists into bulleted and numbered paragraphs', async () => {
+    const xml = await renderPart(createDocument());
+    const items = Array.from(xml.matchAll(/<w:p(?: [^>]*)?>[\s\S]*?<\/w:p>/g))
+      .map(match => match[0])
+      .filter(paragraph => paragraph.includes('<w:numPr>'));
+
+    expect(items.map(item => getParagraphs(item)[0].text)).toEqual(['Built things', 'Led a team', 'First', 'Second']);
+
+    // Bullets and numbers use different numbering definitions
+    const numIds = items.map(item => item.match(/<w:numId w:val="(\d+)"/)?.[1]);
+    expect(numIds[0]).toBe(numIds[1]);
+    expect(numIds[2]).toBe(numIds[3]);
+    expect(numIds[0]).not.toBe(numIds[2]);
+
+    // Inline formatting is kept inside list items
+    expect(items[0]).toMatch(/<w:b\/>(?:(?!<\/w:r>)[\s\S])*<w:t[^>]*>things<\/w:t>/);
+  });
+
+  test('should turn links into hyperlinks to their address', async () => {
+    const [xml, rels] = await renderParts(createDocument(), 'word/document.xml', 'word/_rels/document.xml.rels');
+
+    const id = xml.match(/<w:hyperlink[^>]*r:id="([^"]+)"/)?.[1];
+    expect(id).toBeDefined();
+    expect(xml).toMatch(/<w:hyperlink[^>]*>(?:(?!<\/w:hyperlink>)[\s\S])*jane\.dev/);
+    expect(rels).toMatch(new RegExp(`<Relationship Id="${id}"[^>]*Target="https://jane\\.dev" TargetMode="External"`));
+  });
+
+  test('should use the CV\'s margins and page size', async () => {
+    const xml = await renderPart(createDocument());
+
+    const twips = (mm: number): number => convertMillimetersToTwip(mm);
+
+    expect(xml).toContain(`<w:pgMar w:top="${twips(20)}" w:right="${twips(15)}" w:bottom="${twips(25)}" w:left="${twips(10)}"`);
+    expect(xml).toContain(`<w:pgSz w:w="${twips(210)}" w:h="${twips(297)}" w:orient="portrait"/>`);
+  });
+
+  test('should lay out landscape Letter pages', async () => {
+    const xml = await renderPart(createDocument({ pageSize: 'LETTER', orientation: 'landscape' }));
+
+    expect(xml).toMatch(/<w:pgSz [^>]*w:orient="landscape"/);
+  });
+
+  test('should use the CV\'s font, with generic families replaced', async () => {
+    expect(await renderPart(createDocument(), 'word/styles.xml')).toMatch(/w:ascii="Open Sans"/);
+    expect(await renderPart(createDocument({ fontFamily: 'serif' }), 'word/styles.xml')).toMatch(/w:ascii="Times New Roman"/);
+  });
+});
@@ -0,0 +1,259 @@
+/**
+ * Unit tests for the export dialog and how the CV editor opens it
+ */
+import { jest, describe, beforeEach, afterEach, test, expect } from '@jest/globals';
+import { ExportService } from '../../src/services/export-service';
+import { VectorPDFService } from '../../src/services/vector-pdf-service';
+import { PDFExportOptionsModal } from '../../src/ui/export-modal';
+import { CVEditorView } from '../../src/ui/cv-editor-view';
+import { getPluginInstance } from '../mocks/plugin-instance';
+import { createTestDocument, openCVEditorView, setUpPlugin } from '../mocks/cv-editor-view';
+
+// html2pdf needs a canvas, which jsdom does not have
+jest.mock('html2pdf.js', () => ({ default: jest.fn() }));
+
+const CONTENT = '# Jane Doe\n\n## Experience\n\n- Engineer at Acme\n';
+
+/**
+ * Get the export dialog that is open
+ * @returns The dialog's content element
+ */
+function getDialog(): HTMLElement {
+  const dialogEl = document.body.querySelector<HTMLElement>('.oh-my-cv-export-modal');
+  if (!dialogEl) {
+    throw new Error('The export dialog is not open');
+  }
+  return dialogEl;
+}
+
+/**
+ * Find a setting in the open export dialog by its name
+ * @param name The setting's name
+ * @returns The setting's element
+ */
+function getSetting(name: string): HTMLElement {
+  const settingEl = Array.from(getDialog().querySelectorAll<HTMLElement>('.setting-item'))
+    .find(el => el.querySelector('.setting-item-name')?.textContent === name);
+  if (!settingEl) {
+    throw new Error(`No setting named ${name}`);
+  }
+  return settingEl;
+}
+
+/**
+ * Click the export dialog's Export button
+ */
+function clickExport(): void {
+  getDialog().querySelector<HTMLButtonElement>('.oh-my-cv-export-buttons .oh-my-cv-export-button')?.click();
+}
+
+describe('Export dialog', () => {
+  let view: CVEditorView;
+
+  beforeEach(async () => {
+    await setUpPlugin();
+    jest.spyOn(ExportService.prototype, 'exportToPDF').mockResolvedValue(undefined);
+    jest.spyOn(ExportService.prototype, 'exportToDocx').mockResolvedValue(undefined);
+    jest.spyOn(ExportService.prototype, 'exportToHTML').mockResolvedValue(undefined);
+    jest.spyOn(ExportService.prototype, 'exportToPlainText').mockResolvedValue(undefined);
+    jest.spyOn(ExportService.prototype, 'exportToLatex').mockResolvedValue(undefined);
+    view = await openCVEditorView(createTestDocument(CONTENT));
+  });
+
+  afterEach(() => {
+    document.body.empty();
+    jest.restoreAllMocks();
+  });
+
+  test('should open from the header button with the editor content', () => {
+    const showExportDialog = jest.spyOn(ExportService.prototype, 'showExportDialog');
+    const open = jest.spyOn(PDFExportOptionsModal.prototype, 'open');
+
+    // Edits not yet picked up by the preview are exported too
+    const editor = (view as any).editor;
+    editor.dispatch({ changes: { from: editor.state.doc.length, insert: '- Lead at Initech\n' } });
+    view.contentEl.querySelector<HTMLButtonElement>('.oh-my-cv-header .oh-my-cv-export-button')?.click();
+
+    expect(open).toHaveBeenCalled();
+    expect(showExportDialog).toHaveBeenCalledWith(
+      expect.objectContaining({ content: `${CONTENT}- Lead at Initech\n` }),
+      undefined,
+      expect.any(Function)
+    );
+  });
+
+  test('should export a PDF with the chosen options', async () => {
+    view.showExportDialog('pdf');
+    clickExport();
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    expect(ExportService.prototype.exportToPDF).toHaveBeenCalledWith(
+      expect.any(HTMLElement),
+      expect.objectContaining({ path: 'CVs/Test CV.md' }),
+      expect.objectContaining({ format: 'pdf', filename: expect.stringMatching(/\.pdf$/) })
+    );
+    expect(document.body.querySelector('.oh-my-cv-export-modal')).toBeNull();
+  });
+
+  test('should export a Word document when opened for DOCX', async () => {
+    view.showExportDialog('docx');
+    expect(getSetting('Format').querySelector('select')?.value).toBe('docx');
+    clickExport();
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    expect(ExportService.prototype.exportToDocx).toHaveBeenCalledWith(
+      expect.objectContaining({ content: CONTENT }),
+      expect.stringMatching(/\.docx$/),
+      expect.any(String)
+    );
+    expect(ExportService.prototype.exportToPDF).not.toHaveBeenCalled();
+  });
+
+  test('should export a web page when HTML is chosen', async () => {
+    view.showExportDialog();
+    const formatEl = getSetting('Format').querySelector('select') as HTMLSelectElement;
+    formatEl.value = 'html';
+    formatEl.dispatchEvent(new Event('change'));
+    getSetting('Work offline').querySelector<HTMLElement>('.checkbox-container')?.click();
+    clickExport();
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    expect(ExportService.prototype.exportToHTML).toHaveBeenCalledWith(
+      expect.objectContaining({ content: CONTENT }),
+      expect.objectContaining({ filename: expect.stringMatching(/\.html$/), inlineFonts: false, inlineImages: false })
+    );
+    expect(ExportService.prototype.exportToPDF).not.toHaveBeenCalled();
+  });
+
+  test('should export ATS plain text to the chosen folder', async () => {
+    view.showExportDialog('txt');
+    const folderEl = getSetting('Folder').querySelector('input') as HTMLInputElement;
+    folderEl.value = 'Applications';
+    folderEl.dispatchEvent(new Event('input'));
+    clickExport();
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    expect(ExportService.prototype.exportToPlainText).toHaveBeenCalledWith(
+      expect.objectContaining({ content: CONTENT }),
+      'Test CV.txt',
+      'Applications'
+    );
+    expect(ExportService.prototype.exportToPDF).not.toHaveBeenCalled();
+  });
+
+  test('should export LaTeX source with the chosen class', async () => {
+    view.showExportDialog('tex');
+    const classEl = getSetting('LaTeX class').querySelector('select') as HTMLSelectElement;
+    classEl.value = 'awesome-cv';
+    classEl.dispatchEvent(new Event('change'));
+    clickExport();
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    expect(ExportService.prototype.exportToLatex).toHaveBeenCalledWith(
+      expect.objectContaining({ content: CONTENT }),
+      'awesome-cv',
+      'Test CV.tex',
+      expect.any(String)
+    );
+    expect(ExportService.prototype.exportToPDF).not.toHaveBeenCalled();
+  });
+
+  test('should keep the chosen folder for the open CV without losing later edits', async () => {
+    view.showExportDialog('txt');
+
+    // The CV changes after the dialog took its copy
+    const editor = (view as any).editor;
+    editor.dispatch({ changes: { from: editor.state.doc.length, insert: '- Lead at Initech\n' } });
+
+    const folderEl = getSetting('Folder').querySelector('input') as HTMLInputElement;
+    folderEl.value = 'Applications';
+    folderEl.dispatchEvent(new Event('input'));
+    getSetting('Use this folder for this CV').querySelector<HTMLElement>('.checkbox-container')?.click();
+    clickExport();
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    const document = view.getCurrentDocument();
+    expect(document?.metadata.exportFolder).toBe('Applications');
+    expect(document?.content).toBe(`${CONTENT}- Lead at Initech\n`);
+    expect((getPluginInstance() as any).storage.saveCV).not.toHaveBeenCalled();
+    expect(view.contentEl.querySelector('.oh-my-cv-status-save')?.textContent).toBe('Unsaved changes');
+  });
+
+  test('should only offer to keep the folder when a CV editor can store it', () => {
+    new PDFExportOptionsModal(createTestDocument(CONTENT), new ExportService()).open();
+    expect(() => getSetting('Folder')).not.toThrow();
+    expect(() => getSetting('Use this folder for this CV')).toThrow();
+  });
+
+  test('should pass headers, footers and page numbers to the PDF and keep them for the next export', async () => {
+    view.showExportDialog('pdf');
+    const setText = (name: string, value: string) => {
+      const inputEl = getSetting(name).querySelector('input') as HTMLInputElement;
+      inputEl.value = value;
+      inputEl.dispatchEvent(new Event('input'));
+    };
+    getSetting('Header').querySelector<HTMLElement>('.checkbox-container')?.click();
+    setText('Header content', '{title}');
+    getSetting('Footer').querySelector<HTMLElement>('.checkbox-container')?.click();
+    setText('Footer content', 'Updated {date}');
+    setText('Page number format', '{page}/{pages}');
+    getSetting('Hide on first page').querySelector<HTMLElement>('.checkbox-container')?.click();
+    clickExport();
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    const decorations = {
+      includeHeader: true,
+      headerContent: '{title}',
+      includeFooter: true,
+      footerContent: 'Updated {date}',
+      includePageNumbers: true,
+      pageNumberFormat: '{page}/{pages}',
+      suppressOnFirstPage: true
+    };
+    expect(ExportService.prototype.exportToPDF).toHaveBeenCalledWith(
+      expect.any(HTMLElement),
+      expect.anything(),
+      expect.objectContaining(decorations)
+    );
+
+    // The next export starts from the same choices
+    view.showExportDialog('pdf');
+    expect((getSetting('Header content').querySelector('input') as HTMLInputElement).value).toBe('{title}');
+    expect(getSetting('Hide on first page').querySelector('.checkbox-container')?.classList.contains('is-enabled')).toBe(true);
+    clickExport();
+    await new Promise(resolve => setTimeout(resolve, 0));
+    expect(ExportService.prototype.exportToPDF).toHaveBeenLastCalledWith(
+      expect.any(HTMLElement),
+      expect.anything(),
+      expect.objectContaining(decorations)
+    );
+  });
+
+  test('should offer text-based PDFs where the app can make them', async () => {
+    jest.spyOn(VectorPDFService.prototype, 'isAvailable').mockReturnValue(true);
+    view.showExportDialog('pdf');
+
+    const selectEl = getSetting('PDF engine').querySelector('select') as HTMLSelectElement;
+    expect(selectEl.disabled).toBe(false);
+    expect(selectEl.value).toBe('vector');
+    clickExport();
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    expect(ExportService.prototype.exportToPDF).toHaveBeenCalledWith(expect.any(HTMLElement), expect.anything(), expect.objectContaining({ renderer: 'vector' }));
+  });
+
+  test('should say when text-based PDFs are unavailable and export images instead', async () => {
+    jest.spyOn(VectorPDFService.prototype, 'isAvailable').mockReturnValue(false);
+    view.showExportDialog('pdf');
+
+    const settingEl = getSetting('PDF engine');
+    const selectEl = settingEl.querySelector('select') as HTMLSelectElement;
+    expect(selectEl.disabled).toBe(true);
+    expect(selectEl.value).toBe('raster');
+    expect(settingEl.querySelector('.setting-item-description')?.textContent).toContain('not available in this version of Obsidian');
+    clickExport();
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    expect(ExportService.prototype.exportToPDF).toHaveBeenCalledWith(expect.any(HTMLElement), expect.anything(), expect.objectContaining({ renderer: 'raster' }));
+  });
+});
@@ -0,0 +1,51 @@
+/**
+ * Unit tests for export destination helpers
+ */
+import { describe, test, expect } from '@jest/globals';
+import {
+  formatExportDate,
+  getParentFolder,
+  getVersionedPath,
+  joinVaultPath,
+  normalizeFolderPath,
+  resolveFilenameTemplate
+} from '../../src/core/export-path';
+
+describe('Export paths', () => {
+  const values = { title: 'Jane Doe', date: new Date(2024, 2, 5), pageSize: 'A4' };
+
+  test('should fill in filename template variables', () => {
+    expect(resolveFilenameTemplate('{title} - {date} ({pageSize})', values)).toBe('Jane Doe - 2024-03-05 (A4)');
+  });
+
+  test('should default to the title', () => {
+    expect(resolveFilenameTemplate('', values)).toBe('Jane Doe');
+    expect(resolveFilenameTemplate('{title}', { ...values, title: '' })).toBe('CV');
+  });
+
+  test('should remove characters that are invalid in file names', () => {
+    expect(resolveFilenameTemplate('{title}', { ...values, title: 'CV: Eng/Ops #1?' })).toBe('CV EngOps 1');
+    expect(resolveFilenameTemplate('???', values)).toBe('Jane Doe');
+  });
+
+  test('should format dates for file names', () => {
+    expect(formatExportDate(new Date(2023, 10, 20))).toBe('2023-11-20');
+  });
+
+  test('should get and join vault folders', () => {
+    expect(getParentFolder('CVs/Jane.md')).toBe('CVs');
+    expect(getParentFolder('Jane.md')).toBe('');
+    expect(normalizeFolderPath(' /Exports//CVs/ ')).toBe('Exports/CVs');
+    expect(joinVaultPath('/', 'CV.pdf')).toBe('CV.pdf');
+    expect(joinVaultPath('Exports\\CVs', 'CV.pdf')).toBe('Exports/CVs/CV.pdf');
+  });
+
+  test('should keep free paths and number taken ones', async () => {
+    const taken = new Set(['Exports/CV.pdf', 'Exports/CV (2).pdf']);
+    const exists = async (path: string) => taken.has(path);
+
+    expect(await getVersionedPath('Exports/Other.pdf', exists)).toBe('Exports/Other.pdf');
+    expect(await getVersionedPath('Exports/CV.pdf', exists)).toBe('Exports/CV (3).pdf');
+    expect(await getVersionedPath('Exports/CV', async path => path === 'Exports/CV')).toBe('Exports/CV (2)');
+  });
+});
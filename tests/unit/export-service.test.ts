@@ -2,7 +2,11 @@
  * Simple unit tests for the Export Service
  * These are placeholder tests that will pass until we fully implement proper tests
  */
-import { jest, describe, test, expect } from '@jest/globals';
+import { jest, describe, beforeEach, afterEach, test, expect } from '@jest/globals';
+import { ExportService } from '../../src/services/export-service';
+import { VectorPDFService } from '../../src/services/vector-pdf-service';
+import { PDFDecorationService } from '../../src/services/pdf-decoration-service';
+import { createTestDocument, setUpPlugin } from '../mocks/cv-editor-view';
 
 // Mock html2pdf.js module (used by the export service)
 jest.mock('html2pdf.js', () => ({
@@ -37,3 +41,54 @@ describe('ExportService', () => {
     expect(true).toBe(true);
   });
 });
+
+describe('ExportService PDF renderers', () => {
+  let plugin: any;
+  let exportRasterPDF: jest.SpiedFunction<any>;
+
+  beforeEach(async () => {
+    plugin = await setUpPlugin();
+    plugin.app.vault.adapter.writeBinary.mockClear();
+    exportRasterPDF = jest.spyOn(ExportService.prototype as any, 'exportRasterPDF').mockResolvedValue(undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('should write a text-based PDF when the vector backend is available', async () => {
+    jest.spyOn(VectorPDFService.prototype, 'isAvailable').mockReturnValue(true);
+    jest.spyOn(VectorPDFService.prototype, 'renderToPDF').mockResolvedValue(new ArrayBuffer(4));
+    const decorated = new ArrayBuffer(8);
+    jest.spyOn(PDFDecorationService.prototype, 'decoratePDF').mockResolvedValue(decorated);
+
+    await new ExportService(plugin).exportToPDF(document.createElement('div'), createTestDocument('# Jane Doe'), { renderer: 'vector' });
+
+    expect(plugin.app.vault.adapter.writeBinary).toHaveBeenCalledWith('CVs/Test CV.pdf', decorated);
+    expect(exportRasterPDF).not.toHaveBeenCalled();
+  });
+
+  test('should fall back to the raster backend when vector export fails', async () => {
+    jest.spyOn(VectorPDFService.prototype, 'isAvailable').mockReturnValue(true);
+    jest.spyOn(VectorPDFService.prototype, 'renderToPDF').mockRejectedValue(new Error('Printing failed'));
+
+    await new ExportService(plugin).exportToPDF(document.createElement('div'), createTestDocument('# Jane Doe'), { renderer: 'vector' });
+
+    expect(exportRasterPDF).toHaveBeenCalledWith(
+      expect.any(HTMLElement),
+      expect.objectContaining({ renderer: 'vector', filename: 'Test CV.pdf' }),
+      expect.objectContaining({ path: 'CVs/Test CV.md' })
+    );
+    expect(plugin.app.vault.adapter.writeBinary).not.toHaveBeenCalled();
+  });
+
+  test('should use the raster backend outside the desktop app', async () => {
+    const renderToPDF = jest.spyOn(VectorPDFService.prototype, 'renderToPDF');
+
+    await new ExportService(plugin).exportToPDF(document.createElement('div'), createTestDocument('# Jane Doe'), { renderer: 'vector' });
+
+    expect(renderToPDF).not.toHaveBeenCalled();
+    expect(exportRasterPDF).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,273 @@
+/**
+ * Unit tests for the version history panel and the snapshot comparison
+ */
+import { jest, describe, beforeEach, afterEach, test, expect } from '@jest/globals';
+import { HistoryPanel, HistoryPanelHost } from '../../src/ui/history-panel';
+import { SnapshotDiffModal } from '../../src/ui/snapshot-diff-modal';
+import { StorageService } from '../../src/services/storage-service';
+import { CVDocument, CVSnapshot } from '../../src/core/types';
+import { getPluginInstance } from '../mocks/plugin-instance';
+import { useMemoryVault } from '../mocks/vault';
+import { createTestDocument, openCVEditorView, setUpPlugin } from '../mocks/cv-editor-view';
+
+// html2pdf needs a canvas, which jsdom does not have
+jest.mock('html2pdf.js', () => ({ default: jest.fn() }));
+
+const CONTENT = '# Jane Doe\n\n## Experience\n\n- Built things\n';
+const HISTORY_PATH = 'CVs/Test CV.cv-history.json';
+
+/**
+ * Let pending promises and the renders they start finish
+ */
+async function settle(): Promise<void> {
+  for (let i = 0; i < 5; i++) {
+    await new Promise(resolve => setTimeout(resolve, 0));
+  }
+}
+
+/**
+ * Make a snapshot of the test CV
+ * @param id The snapshot ID
+ * @param name The snapshot name
+ * @param content The CV content at the time
+ * @param createdAt When it was taken
+ * @returns The snapshot
+ */
+function createSnapshot(id: string, name: string, content: string, createdAt: number): CVSnapshot {
+  return { id, name, content, createdAt, metadata: createTestDocument(content).metadata };
+}
+
+/**
+ * Find a button in a container by its tooltip
+ * @param containerEl The container
+ * @param tooltip The button's tooltip
+ * @returns The buttons with that tooltip, in order
+ */
+function getButtons(containerEl: HTMLElement, tooltip: string): HTMLButtonElement[] {
+  return Array.from(containerEl.querySelectorAll<HTMLButtonElement>(`button[aria-label="${tooltip}"]`));
+}
+
+describe('HistoryPanel', () => {
+  let containerEl: HTMLElement;
+  let document: CVDocument | null;
+  let host: HistoryPanelHost;
+  let files: Map<string, string>;
+  let panel: HistoryPanel;
+
+  /**
+   * Get the names of the listed snapshots
+   * @returns The names, top to bottom
+   */
+  function getListedNames(): (string | null)[] {
+    return Array.from(containerEl.querySelectorAll('.oh-my-cv-history-name')).map(el => el.textContent);
+  }
+
+  /**
+   * Save a snapshot through the panel's form
+   * @param name The name typed in
+   */
+  async function saveSnapshot(name: string): Promise<void> {
+    const inputEl = containerEl.querySelector('.oh-my-cv-history-form input') as HTMLInputElement;
+    inputEl.value = name;
+    containerEl.querySelector<HTMLButtonElement>('.oh-my-cv-history-form button')?.click();
+    await settle();
+  }
+
+  beforeEach(() => {
+    const plugin = getPluginInstance() as any;
+    files = useMemoryVault(plugin.app.vault);
+    plugin.storage = new StorageService(plugin);
+
+    document = createTestDocument(CONTENT, 'CVs/Test CV.cv.md');
+    host = {
+      getCurrentDocument: jest.fn(() => document),
+      restoreSnapshot: jest.fn()
+    };
+    containerEl = window.document.body.createDiv();
+    panel = new HistoryPanel(containerEl, host);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    window.document.body.empty();
+  });
+
+  test('should say when the CV has no snapshots', async () => {
+    await panel.refresh();
+
+    expect(containerEl.querySelector('.oh-my-cv-history-empty')?.textContent).toContain('No snapshots yet');
+    expect(getListedNames()).toEqual([]);
+  });
+
+  test('should save snapshots to the CV\'s history file and list them newest first', async () => {
+    const now = jest.spyOn(Date, 'now');
+    now.mockReturnValue(1000);
+    await saveSnapshot('Sent to Acme');
+    now.mockReturnValue(2000);
+    await saveSnapshot('Sent to Globex');
+
+    expect(getListedNames()).toEqual(['Sent to Globex', 'Sent to Acme']);
+    const saved = JSON.parse(files.get(HISTORY_PATH) ?? '[]') as CVSnapshot[];
+    expect(saved.map(snapshot => [snapshot.name, snapshot.content])).toEqual([
+      ['Sent to Globex', CONTENT],
+      ['Sent to Acme', CONTENT]
+    ]);
+
+    // The form is cleared for the next snapshot
+    expect((containerEl.querySelector('.oh-my-cv-history-form input') as HTMLInputElement).value).toBe('');
+  });
+
+  test('should name unnamed snapshots after the time they were taken', async () => {
+    await saveSnapshot('   ');
+
+    expect(getListedNames()).toEqual([expect.stringMatching(/^Snapshot /)]);
+  });
+
+  test('should not save a snapshot when no CV is open', async () => {
+    document = null;
+    await saveSnapshot('Sent to Acme');
+
+    expect(files.has(HISTORY_PATH)).toBe(false);
+  });
+
+  test('should delete a snapshot once the user confirms', async () => {
+    files.set(HISTORY_PATH, JSON.stringify([
+      createSnapshot('a', 'Sent to Acme', CONTENT, 1000),
+      createSnapshot('b', 'Sent to Globex', CONTENT, 2000)
+    ]));
+    await panel.refresh();
+    const confirm = jest.spyOn(window, 'confirm').mockReturnValue(false);
+
+    getButtons(containerEl, 'Delete snapshot')[1].click();
+    await settle();
+    expect(confirm).toHaveBeenCalledWith('Delete snapshot \'Sent to Acme\'?');
+    expect(getListedNames()).toEqual(['Sent to Globex', 'Sent to Acme']);
+
+    confirm.mockReturnValue(true);
+    getButtons(containerEl, 'Delete snapshot')[1].click();
+    await settle();
+    expect(getListedNames()).toEqual(['Sent to Globex']);
+    expect((JSON.parse(files.get(HISTORY_PATH) ?? '[]') as CVSnapshot[]).map(snapshot => snapshot.id)).toEqual(['b']);
+  });
+
+  test('should hand the chosen snapshot to the view to restore', async () => {
+    const snapshot = createSnapshot('a', 'Sent to Acme', '# Jane Doe\n', 1000);
+    files.set(HISTORY_PATH, JSON.stringify([snapshot]));
+    await panel.refresh();
+
+    getButtons(containerEl, 'Restore this version')[0].click();
+
+    expect(host.restoreSnapshot).toHaveBeenCalledWith(snapshot);
+  });
+
+  test('should open a comparison of the snapshot with the current version', async () => {
+    files.set(HISTORY_PATH, JSON.stringify([createSnapshot('a', 'Sent to Acme', '# Jane Doe\n', 1000)]));
+    await panel.refresh();
+
+    getButtons(containerEl, 'Compare with the current version')[0].click();
+    await settle();
+
+    const selectEls = window.document.body.querySelectorAll<HTMLSelectElement>('.oh-my-cv-diff-pickers select');
+    expect(Array.from(selectEls).map(el => el.value)).toEqual(['a', 'current']);
+  });
+});
+
+describe('SnapshotDiffModal', () => {
+  const document = createTestDocument(CONTENT, 'CVs/Test CV.cv.md');
+  const snapshots = [
+    createSnapshot('b', 'Sent to Globex', '# Jane Doe\n\n## Experience\n\n- Built things\n', 2000),
+    createSnapshot('a', 'Sent to Acme', '# Jane Doe\n\n## Skills\n', 1000)
+  ];
+  let modal: SnapshotDiffModal;
+
+  /**
+   * Get the type and text of each side of the comparison's rows
+   * @returns The rows
+   */
+  function getRows(): { type: string; left: string | null; right: string | null }[] {
+    return Array.from(modal.contentEl.querySelectorAll('.oh-my-cv-diff-row')).map(rowEl => ({
+      type: Array.from(rowEl.classList).find(cls => cls !== 'oh-my-cv-diff-row')?.replace('oh-my-cv-diff-', '') ?? '',
+      left: rowEl.querySelector('.oh-my-cv-diff-left:not(.oh-my-cv-diff-placeholder)')?.textContent?.trim() ?? null,
+      right: rowEl.querySelector('.oh-my-cv-diff-right:not(.oh-my-cv-diff-placeholder)')?.textContent?.trim() ?? null
+    }));
+  }
+
+  /**
+   * Pick a version on one side
+   * @param side Which picker to use
+   * @param value The snapshot ID, or 'current'
+   */
+  async function pick(side: 0 | 1, value: string): Promise<void> {
+    const selectEl = modal.contentEl.querySelectorAll<HTMLSelectElement>('.oh-my-cv-diff-pickers select')[side];
+    selectEl.value = value;
+    selectEl.dispatchEvent(new Event('change'));
+    await settle();
+  }
+
+  beforeEach(async () => {
+    await setUpPlugin();
+    modal = new SnapshotDiffModal(getPluginInstance().app as any, document, snapshots, 'a');
+    modal.open();
+    await settle();
+  });
+
+  afterEach(() => {
+    modal.close();
+    window.document.body.empty();
+  });
+
+  test('should offer the current version and every snapshot on both sides', () => {
+    const selectEls = modal.contentEl.querySelectorAll<HTMLSelectElement>('.oh-my-cv-diff-pickers select');
+
+    expect(selectEls).toHaveLength(2);
+    selectEls.forEach(selectEl => {
+      expect(Array.from(selectEl.options).map(option => option.value)).toEqual(['current', 'b', 'a']);
+    });
+  });
+
+  test('should show the blocks that changed between the versions side by side', () => {
+    expect(getRows()).toEqual([
+      { type: 'equal', left: 'Jane Doe', right: 'Jane Doe' },
+      { type: 'changed', left: 'Skills', right: 'Experience' },
+      { type: 'added', left: null, right: 'Built things' }
+    ]);
+  });
+
+  test('should compare other versions when they are picked', async () => {
+    await pick(1, 'b');
+    expect(getRows().map(row => row.type)).toEqual(['equal', 'changed', 'added']);
+
+    await pick(0, 'b');
+    expect(modal.contentEl.querySelector('.oh-my-cv-diff-empty')?.textContent).toBe('The versions are identical');
+    expect(getRows().every(row => row.type === 'equal')).toBe(true);
+  });
+});
+
+describe('Restoring a snapshot in the CV editor', () => {
+  test('should put the snapshot\'s content and style in the editor and save them with the CV', async () => {
+    const plugin = await setUpPlugin();
+    const snapshot = createSnapshot('a', 'Sent to Acme', '# Jane Doe\n\n## Skills\n', 1000);
+    snapshot.metadata.themeColor = '#aa3300';
+    plugin.storage.getSnapshots = jest.fn(async () => [snapshot]);
+    const view = await openCVEditorView(createTestDocument(CONTENT));
+
+    view.contentEl.querySelector<HTMLButtonElement>('.oh-my-cv-history-button')?.click();
+    await settle();
+    getButtons(view.contentEl, 'Restore this version')[0].click();
+
+    expect(view.getCurrentDocument()).toEqual(expect.objectContaining({
+      content: snapshot.content,
+      metadata: expect.objectContaining({ themeColor: '#aa3300' })
+    }));
+
+    view.contentEl.querySelector<HTMLButtonElement>('.oh-my-cv-save-button')?.click();
+    await settle();
+    expect(plugin.storage.saveCV).toHaveBeenCalledWith(expect.objectContaining({
+      path: 'CVs/Test CV.md',
+      content: snapshot.content,
+      metadata: expect.objectContaining({ themeColor: '#aa3300' })
+    }));
+
+    window.document.body.empty();
+  });
+});
@@ -0,0 +1,189 @@
+/**
+ * Unit tests for the HTML Export Service
+ */
+import { jest, describe, beforeEach, afterEach, test, expect } from '@jest/globals';
+import { requestUrl } from 'obsidian';
+import { HTMLExportService } from '../../src/services/html-export-service';
+import { VectorPDFService } from '../../src/services/vector-pdf-service';
+import { HTMLExportOptions } from '../../src/core/types';
+import { createTestDocument } from '../mocks/cv-editor-view';
+
+// html2pdf needs a canvas, which jsdom does not have
+jest.mock('html2pdf.js', () => ({ default: jest.fn() }));
+
+const requestUrlMock = requestUrl as unknown as jest.Mock<(request: { url: string }) => Promise<unknown>>;
+
+const OPTIONS: HTMLExportOptions = { filename: 'Jane Doe.html', inlineFonts: true, inlineImages: true };
+
+/**
+ * Get the data URI the test server's asset is embedded as
+ * @param url The asset URL
+ * @param mimeType The asset's MIME type
+ * @returns The data URI
+ */
+function toDataURI(url: string, mimeType: string): string {
+  return `data:${mimeType};base64,${Buffer.from(url).toString('base64')}`;
+}
+
+/**
+ * Encode text as the bytes of a response body
+ * @param text The text
+ * @returns The bytes
+ */
+function toArrayBuffer(text: string): ArrayBuffer {
+  const bytes = Buffer.from(text);
+  return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer;
+}
+
+describe('HTMLExportService', () => {
+  let service: HTMLExportService;
+  let css: string;
+  let server: Record<string, { text?: string; contentType?: string }>;
+
+  /**
+   * Export a CV element
+   * @param html The CV element's inner HTML
+   * @param options Options to change from the defaults
+   * @returns The HTML document
+   */
+  function build(html: string, options: Partial<HTMLExportOptions> = {}): Promise<string> {
+    const element = document.createElement('div');
+    element.className = 'oh-my-cv-content';
+    element.innerHTML = html;
+    return service.buildStandaloneHTML(element, createTestDocument('').metadata, { ...OPTIONS, ...options });
+  }
+
+  /**
+   * Get the URLs the export asked the network for
+   * @returns The URLs, in order
+   */
+  function getRequestedUrls(): string[] {
+    return requestUrlMock.mock.calls.map(call => call[0].url);
+  }
+
+  beforeEach(() => {
+    service = new HTMLExportService();
+    css = '';
+    jest.spyOn(VectorPDFService.prototype, 'collectCVStyles').mockImplementation(() => css);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    // Each asset's body is its own URL, so tests can tell which file was embedded
+    server = {};
+    requestUrlMock.mockImplementation(async ({ url }) => {
+      const asset = server[url];
+      if (!asset) {
+        throw new Error(`404 ${url}`);
+      }
+      return {
+        text: asset.text ?? url,
+        arrayBuffer: toArrayBuffer(url),
+        headers: asset.contentType ? { 'content-type': asset.contentType } : {}
+      };
+    });
+  });
+
+  afterEach(() => {
+    // jsdom has no fetch of its own
+    delete (window as any).fetch;
+    jest.restoreAllMocks();
+    requestUrlMock.mockReset();
+    requestUrlMock.mockRejectedValue(new Error('No network in tests'));
+  });
+
+  test('should embed fonts, resolving their URLs against the stylesheet that names them', async () => {
+    css = '@import url("https://fonts.example.com/css/inter.css");\n.oh-my-cv-content { font-family: Inter; }';
+    server['https://fonts.example.com/css/inter.css'] = {
+      text: [
+        '@font-face { font-family: Inter; src: url(../files/inter.woff2) format("woff2"); }',
+        '@font-face { font-family: Inter; font-weight: 700; src: url("https://cdn.example.com/inter-bold.woff2"); }'
+      ].join('\n')
+    };
+    server['https://fonts.example.com/files/inter.woff2'] = {};
+    server['https://cdn.example.com/inter-bold.woff2'] = { contentType: 'font/woff2; charset=binary' };
+
+    const html = await build('<h1>Jane Doe</h1>');
+
+    expect(getRequestedUrls()).toEqual([
+      'https://fonts.example.com/css/inter.css',
+      'https://fonts.example.com/files/inter.woff2',
+      'https://cdn.example.com/inter-bold.woff2'
+    ]);
+    expect(html).not.toContain('@import');
+    expect(html).toContain(`src: url("${toDataURI('https://fonts.example.com/files/inter.woff2', 'font/woff2')}") format("woff2")`);
+    expect(html).toContain(`src: url("${toDataURI('https://cdn.example.com/inter-bold.woff2', 'font/woff2')}")`);
+    expect(html).toContain('.oh-my-cv-content { font-family: Inter; }');
+  });
+
+  test('should follow imports inside imported stylesheets', async () => {
+    css = '@import "https://example.com/css/site.css";';
+    server['https://example.com/css/site.css'] = { text: '@import url(print.css) print;\nh1 { background: url(img/bg.png); }' };
+    server['https://example.com/css/print.css'] = { text: 'h2 { background: url(../img/rule.svg); }' };
+    server['https://example.com/css/img/bg.png'] = {};
+    server['https://example.com/img/rule.svg'] = {};
+
+    const html = await build('<h1>Jane Doe</h1>');
+
+    expect(html).toContain(`h1 { background: url("${toDataURI('https://example.com/css/img/bg.png', 'image/png')}"); }`);
+    expect(html).toContain(`h2 { background: url("${toDataURI('https://example.com/img/rule.svg', 'image/svg+xml')}"); }`);
+  });
+
+  test('should embed the fonts imported by the CV\'s custom CSS', async () => {
+    server['https://fonts.example.com/css/lora.css'] = { text: '@font-face { font-family: Lora; src: url(lora.ttf); }' };
+    server['https://fonts.example.com/css/lora.ttf'] = {};
+
+    const html = await build('<style class="oh-my-cv-custom-css">@import url(https://fonts.example.com/css/lora.css); h1 { font-family: Lora; }</style><h1>Jane Doe</h1>');
+
+    expect(html).toContain(`src: url("${toDataURI('https://fonts.example.com/css/lora.ttf', 'font/ttf')}")`);
+    expect(html).toContain('h1 { font-family: Lora; }');
+  });
+
+  test('should leave assets that cannot be fetched as links', async () => {
+    css = '@import url("https://fonts.example.com/missing.css");\n@font-face { font-family: Gone; src: url(https://fonts.example.com/gone.woff2); }\n.icon { background: url("data:image/png;base64,AAAA"); }';
+
+    const html = await build('<h1>Jane Doe</h1>');
+
+    expect(html).toContain('@import url("https://fonts.example.com/missing.css");');
+    expect(html).toContain('src: url(https://fonts.example.com/gone.woff2)');
+    expect(html).toContain('url("data:image/png;base64,AAAA")');
+    expect(getRequestedUrls()).not.toContain('data:image/png;base64,AAAA');
+  });
+
+  test('should embed images and drop their other sources', async () => {
+    server['https://example.com/me.jpg'] = {};
+    const fetchMock = jest.fn(async (url: string) => ({
+      arrayBuffer: async () => toArrayBuffer(url),
+      headers: { get: () => 'image/png' }
+    }));
+    Object.defineProperty(window, 'fetch', { value: fetchMock, configurable: true });
+
+    const html = await build([
+      '<img src="https://example.com/me.jpg" srcset="https://example.com/me@2x.jpg 2x">',
+      '<img src="app://local/vault/logo.png">',
+      '<img src="data:image/gif;base64,R0lGOD">'
+    ].join(''));
+
+    expect(html).toContain(`<img src="${toDataURI('https://example.com/me.jpg', 'image/jpeg')}">`);
+    expect(html).toContain(`<img src="${toDataURI('app://local/vault/logo.png', 'image/png')}">`);
+    expect(html).toContain('<img src="data:image/gif;base64,R0lGOD">');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  test('should keep links to fonts and images when asked to', async () => {
+    css = '@import url("https://fonts.example.com/css/inter.css");';
+
+    const html = await build('<img src="https://example.com/me.jpg">', { inlineFonts: false, inlineImages: false });
+
+    expect(requestUrlMock).not.toHaveBeenCalled();
+    expect(html).toContain('@import url("https://fonts.example.com/css/inter.css");');
+    expect(html).toContain('<img src="https://example.com/me.jpg">');
+  });
+
+  test('should lay the CV out on a page with its margins', async () => {
+    const html = await build('<h1>Jane Doe</h1>', { filename: 'Jane <Doe>.html' });
+
+    expect(html).toContain('<title>Jane &lt;Doe&gt;</title>');
+    expect(html).toContain('@page');
+    expect(html).toContain('padding: 20mm 20mm 20mm 20mm;');
+    expect(html).toContain('<main class="oh-my-cv-standalone"><div class="oh-my-cv-content"><h1>Jane Doe</h1></div></main>');
+  });
+});
@@ -0,0 +1,159 @@
+/**
+ * Unit tests for JSON Resume conversion
+ */
+import { describe, test, expect } from '@jest/globals';
+import {
+  formatResumeDate,
+  jsonResumeToMarkdown,
+  markdownToJsonResume,
+  parseCVDate
+} from '../../src/core/json-resume';
+import { JSONResume } from '../../src/core/types';
+
+describe('JSON Resume conversion', () => {
+  const resume: JSONResume = {
+    basics: {
+      name: 'Jane Doe',
+      label: 'Software Engineer',
+      email: 'jane@example.com',
+      phone: '+1 555 123 4567',
+      url: 'https://janedoe.dev',
+      summary: 'Engineer with ten years of experience.',
+      location: { city: 'Berlin', region: 'BE' },
+      profiles: [{ network: 'GitHub', username: 'janedoe', url: 'https://github.com/janedoe' }]
+    },
+    work: [{
+      name: 'Acme',
+      position: 'Senior Engineer',
+      startDate: '2020-01',
+      summary: 'Led the platform team.',
+      highlights: ['Cut build times by 50%', 'Mentored four engineers']
+    }],
+    education: [{
+      institution: 'MIT',
+      studyType: 'BSc',
+      area: 'Computer Science',
+      startDate: '2012-09',
+      endDate: '2016-06',
+      score: '3.9'
+    }],
+    skills: [
+      { name: 'Languages', keywords: ['TypeScript', 'Go'] },
+      { name: 'Leadership' }
+    ],
+    languages: [{ language: 'German', fluency: 'Native' }]
+  };
+
+  test('should format and parse dates', () => {
+    expect(formatResumeDate('2020-01-15')).toBe('Jan 2020');
+    expect(formatResumeDate('2019')).toBe('2019');
+    expect(parseCVDate('Jan 2020')).toBe('2020-01');
+    expect(parseCVDate('September 2012')).toBe('2012-09');
+    expect(parseCVDate('03/2018')).toBe('2018-03');
+    expect(parseCVDate('Present')).toBeUndefined();
+  });
+
+  test('should write basics as the H1 and contact line', () => {
+    const markdown = jsonResumeToMarkdown(resume);
+
+    expect(markdown.startsWith('# Jane Doe\n')).toBe(true);
+    expect(markdown).toContain(
+      '**Software Engineer** | [jane@example.com](mailto:jane@example.com) | +1 555 123 4567 | Berlin, BE | ' +
+      '[janedoe.dev](https://janedoe.dev) | [GitHub](https://github.com/janedoe)'
+    );
+  });
+
+  test('should write work entries with date ranges and skills as tags', () => {
+    const markdown = jsonResumeToMarkdown(resume);
+
+    expect(markdown).toContain('### Senior Engineer | Acme\n\\daterange{Jan 2020}{Present}');
+    expect(markdown).toContain('- Cut build times by 50%');
+    expect(markdown).toContain('- **Languages**: \\cvtag{TypeScript} \\cvtag{Go}');
+    expect(markdown).toContain('- \\cvtag{Leadership}');
+  });
+
+  test('should round-trip a résumé through Markdown', () => {
+    const result = markdownToJsonResume(jsonResumeToMarkdown(resume));
+
+    expect(result.$schema).toContain('jsonresume');
+    expect(result.basics).toEqual(resume.basics);
+    expect(result.work).toEqual(resume.work);
+    expect(result.education).toEqual(resume.education);
+    expect(result.skills).toEqual(resume.skills);
+    expect(result.languages).toEqual(resume.languages);
+  });
+
+  test('should read hand-written CVs', () => {
+    const result = markdownToJsonResume([
+      '# John Smith',
+      '',
+      'john@example.com | London',
+      '',
+      '## Professional Experience',
+      '',
+      '**Product Manager** | Globex | 2018 - 2021',
+      '- Launched three products',
+      '',
+      '## Skills',
+      '',
+      'Roadmapping, User Research'
+    ].join('\n'));
+
+    expect(result.basics).toEqual({ name: 'John Smith', email: 'john@example.com', location: { city: 'London' } });
+    expect(result.work).toEqual([{
+      position: 'Product Manager',
+      name: 'Globex',
+      startDate: '2018',
+      endDate: '2021',
+      highlights: ['Launched three products']
+    }]);
+    expect(result.skills).toEqual([{ name: 'Roadmapping' }, { name: 'User Research' }]);
+  });
+
+  test('should round-trip the remaining sections', () => {
+    const extra: JSONResume = {
+      basics: { name: 'Jane Doe' },
+      volunteer: [{ organization: 'Code Club', position: 'Mentor', startDate: '2019-03', endDate: '2020-12' }],
+      projects: [{
+        name: 'Oh My CV',
+        description: 'A CV editor.',
+        highlights: ['1k users'],
+        keywords: ['Obsidian', 'TypeScript'],
+        url: 'https://example.com/cv'
+      }],
+      awards: [{ title: 'Best Paper', awarder: 'ICSE', date: '2021', summary: 'Top paper of the year' }],
+      certificates: [{ name: 'AWS Developer', issuer: 'Amazon', date: '2022-05' }],
+      publications: [{ name: 'Typed Résumés', publisher: 'ACM', releaseDate: '2020' }],
+      interests: [{ name: 'Climbing', keywords: ['Bouldering', 'Alpine'] }]
+    };
+
+    const result = markdownToJsonResume(jsonResumeToMarkdown(extra));
+
+    expect(result.volunteer).toEqual(extra.volunteer);
+    expect(result.projects).toEqual(extra.projects);
+    expect(result.awards).toEqual(extra.awards);
+    expect(result.certificates).toEqual(extra.certificates);
+    expect(result.publications).toEqual(extra.publications);
+    expect(result.interests).toEqual(extra.interests);
+  });
+
+  test('should read skill bars and quoted publication titles', () => {
+    const result = markdownToJsonResume([
+      '## Technical Skills',
+      '\\cvskill{Python}{90}',
+      'Tools: Git, Docker',
+      '',
+      '## Publications',
+      '### Journal Articles',
+      '1. Doe, J. "Learning to Rank". *Journal of ML* (2019). [PDF](https://example.com/paper.pdf)'
+    ].join('\n'));
+
+    expect(result.skills).toEqual([
+      { name: 'Python', level: '90%' },
+      { name: 'Tools', keywords: ['Git', 'Docker'] }
+    ]);
+    expect(result.publications).toEqual([
+      { name: 'Learning to Rank', releaseDate: '2019', url: 'https://example.com/paper.pdf' }
+    ]);
+  });
+});
@@ -0,0 +1,110 @@
+/**
+ * Unit tests for the LaTeX source export
+ */
+import { describe, test, expect } from '@jest/globals';
+import { escapeLatex, toLatexSource } from '../../src/core/latex-export';
+import { CVMetadata } from '../../src/core/types';
+
+describe('LaTeX export', () => {
+  const metadata: CVMetadata = {
+    title: 'Jane Doe CV',
+    lastModified: 0,
+    pageSize: 'LETTER',
+    margins: { top: 15, right: 20, bottom: 15, left: 20 },
+    themeColor: '#4051b5',
+    fontFamily: 'Inter',
+    fontSize: 10,
+    lineHeight: 1.4
+  };
+
+  const content = [
+    '# Jane Doe, PhD',
+    '**Data Scientist** | [jane@example.com](mailto:jane@example.com) | [GitHub](https://github.com/janedoe)',
+    '',
+    '## Experience',
+    '### Lead Analyst | Acme & Co | Berlin',
+    '\\daterange{2019}{Present}',
+    '- Grew revenue by 20%',
+    '',
+    '## Skills',
+    '- **Languages:** \\cvtag{R} \\cvtag{Python}',
+    '\\cvskill{SQL}{75}'
+  ].join('\n');
+
+  test('should escape special characters', () => {
+    expect(escapeLatex('R&D 100% #1 a_b {x} ~ ^ \\')).toBe(
+      'R\\&D 100\\% \\#1 a\\_b \\{x\\} \\textasciitilde{} \\textasciicircum{} \\textbackslash{}'
+    );
+  });
+
+  test('should map a CV onto moderncv macros', () => {
+    const latex = toLatexSource(content, metadata, 'moderncv');
+
+    expect(latex).toContain('\\documentclass[10pt,sans]{moderncv}');
+    expect(latex).toContain('\\definecolor{color1}{HTML}{4051B5}');
+    expect(latex).toContain('paperwidth=215.9mm,paperheight=279.4mm,top=15mm,right=20mm,bottom=15mm,left=20mm');
+    expect(latex).toContain('\\name{Jane}{Doe, PhD}');
+    expect(latex).toContain('\\title{Data Scientist}');
+    expect(latex).toContain('\\email{jane@example.com}');
+    expect(latex).toContain('\\social[github]{janedoe}');
+    expect(latex).toContain('\\cventry{2019--Present}{Lead Analyst}{Acme \\& Co}{Berlin}{}{\\begin{itemize}\n\\item {Grew revenue by 20\\%}\n\\end{itemize}}');
+    expect(latex).toContain('\\cvitem{Languages}{R, Python}');
+    expect(latex).toContain('\\cvitem{SQL}{Advanced}');
+    expect(latex.trim().endsWith('\\end{document}')).toBe(true);
+  });
+
+  test('should map a CV onto awesome-cv macros', () => {
+    const latex = toLatexSource(content, { ...metadata, orientation: 'landscape' }, 'awesome-cv');
+
+    expect(latex).toContain('\\documentclass[10pt]{awesome-cv}');
+    expect(latex).toContain('\\geometry{paperwidth=279.4mm,paperheight=215.9mm');
+    expect(latex).toContain('\\position{Data Scientist}');
+    expect(latex).toContain('\\github{janedoe}');
+    expect(latex).toContain('\\cvsection{Experience}\n\\begin{cventries}\n\\cventry{Lead Analyst}{Acme \\& Co}{Berlin}{2019--Present}');
+    expect(latex).toContain('\\begin{cvskills}\n\\cvskill{Languages}{R, Python}\n\\end{cvskills}');
+    expect(latex).toContain('\\begin{cvskills}\n\\cvskill{SQL}{Advanced}\n\\end{cvskills}');
+  });
+
+  test('should keep post-nominals after the family name', () => {
+    const latex = toLatexSource('# Mary Ann Smith, Ph.D., MBA\n\n## Skills\n', metadata, 'awesome-cv');
+
+    expect(latex).toContain('\\name{Mary Ann}{Smith, Ph.D., MBA}');
+  });
+
+  test('should use a plain line under the name as the headline', () => {
+    const header = [
+      '# Jane Doe',
+      'Senior Engineer',
+      'Berlin, Germany | jane@example.com',
+      '',
+      '## Skills'
+    ].join('\n');
+
+    const modernCV = toLatexSource(header, metadata, 'moderncv');
+    expect(modernCV).toContain('\\title{Senior Engineer}');
+    expect(modernCV).toContain('\\address{Berlin}{Germany}{}');
+    expect(modernCV).not.toContain('Senior Engineer}{');
+
+    const awesomeCV = toLatexSource(header, metadata, 'awesome-cv');
+    expect(awesomeCV).toContain('\\position{Senior Engineer}');
+    expect(awesomeCV).toContain('\\address{Berlin, Germany}');
+
+    // A headline line without other details leaves no address
+    expect(toLatexSource('# Jane Doe\nSenior Engineer\n', metadata, 'moderncv')).not.toContain('\\address');
+  });
+
+  test('should give awesome-cv both the Stack Overflow ID and name', () => {
+    const profile = '[Stack Overflow](https://stackoverflow.com/users/12345/jane-doe)';
+    const header = `# Jane Doe\n[jane@example.com](mailto:jane@example.com) | ${profile}\n`;
+
+    expect(toLatexSource(header, metadata, 'awesome-cv')).toContain('\\stackoverflow{12345}{jane-doe}');
+    expect(toLatexSource(header, metadata, 'moderncv')).toContain('\\social[stackoverflow]{12345}');
+  });
+
+  test('should link Stack Overflow profiles without a user ID as the homepage', () => {
+    const latex = toLatexSource('# Jane Doe\n[Stack Overflow](https://stackoverflow.com/story/janedoe)\n', metadata, 'awesome-cv');
+
+    expect(latex).toContain('\\homepage{stackoverflow.com/story/janedoe}');
+    expect(latex).not.toContain('\\stackoverflow{');
+  });
+});
@@ -0,0 +1,172 @@
+/**
+ * Unit tests for the plugin's commands and workspace events
+ */
+import { jest, describe, beforeEach, test, expect } from '@jest/globals';
+import { App, MarkdownView, TFile } from '../mocks/obsidian';
+import OhMyCVPlugin from '../../src/main';
+import { COMMANDS, CV_EDITOR_VIEW_TYPE } from '../../src/core/constants';
+import { createTestDocument } from '../mocks/cv-editor-view';
+import { useMemoryVault } from '../mocks/vault';
+
+// html2pdf needs a canvas, which jsdom does not have
+jest.mock('html2pdf.js', () => ({ default: jest.fn() }));
+
+describe('OhMyCVPlugin', () => {
+  let app: App;
+  let plugin: OhMyCVPlugin;
+
+  beforeEach(async () => {
+    app = new App();
+    plugin = new OhMyCVPlugin(app as any, { id: 'obsidian-oh-my-cv' } as any);
+    await plugin.onload();
+  });
+
+  /**
+   * Find a registered command
+   * @param id The command ID
+   * @returns The command
+   */
+  function getCommand(id: string): any {
+    const command = (plugin.addCommand as jest.Mock).mock.calls.map(call => call[0] as any).find(command => command.id === id);
+    if (!command) {
+      throw new Error(`No command ${id}`);
+    }
+    return command;
+  }
+
+  describe('Export commands', () => {
+    test('should open the export dialog with the format selected', () => {
+      const view = { getCurrentDocument: jest.fn(() => createTestDocument('# Jane Doe')), showExportDialog: jest.fn() };
+      app.workspace.getActiveViewOfType.mockReturnValue(view);
+
+      [
+        [COMMANDS.EXPORT_TO_PDF, 'pdf'],
+        [COMMANDS.EXPORT_TO_DOCX, 'docx'],
+        [COMMANDS.EXPORT_TO_HTML, 'html'],
+        [COMMANDS.EXPORT_TO_PLAIN_TEXT, 'txt'],
+        [COMMANDS.EXPORT_TO_LATEX, 'tex']
+      ].forEach(([id, format]) => {
+        expect(getCommand(id).checkCallback(true)).toBe(true);
+        expect(view.showExportDialog).not.toHaveBeenCalled();
+
+        getCommand(id).checkCallback(false);
+        expect(view.showExportDialog).toHaveBeenLastCalledWith(format);
+        view.showExportDialog.mockClear();
+      });
+    });
+
+    test('should not be available without an open CV', () => {
+      expect(getCommand(COMMANDS.EXPORT_TO_PDF).checkCallback(true)).toBe(false);
+
+      app.workspace.getActiveViewOfType.mockReturnValue({ getCurrentDocument: () => null, showExportDialog: jest.fn() });
+      expect(getCommand(COMMANDS.EXPORT_TO_DOCX).checkCallback(true)).toBe(false);
+    });
+  });
+
+  describe('Opening files', () => {
+    /**
+     * Make the Markdown editor the active view, showing a file
+     * @param file The file it shows
+     * @returns The view
+     */
+    function showInMarkdownView(file: TFile): MarkdownView {
+      const view = new MarkdownView();
+      view.file = file;
+      app.workspace.getActiveViewOfType.mockImplementation((type: unknown) => type === MarkdownView ? view : null);
+      return view;
+    }
+
+    /**
+     * Open a file in the workspace and let the plugin react
+     * @param file The file
+     */
+    async function openFile(file: TFile | null): Promise<void> {
+      app.workspace.trigger('file-open', file);
+      await new Promise(resolve => setTimeout(resolve, 0));
+    }
+
+    test('should switch a CV file from the Markdown editor to the CV editor', async () => {
+      const file = new TFile('CVs/Jane Doe.cv.md');
+      const view = showInMarkdownView(file);
+
+      await openFile(file);
+
+      expect(view.leaf.setViewState).toHaveBeenCalledWith({
+        type: CV_EDITOR_VIEW_TYPE,
+        active: true,
+        state: { file: 'CVs/Jane Doe.cv.md' }
+      });
+    });
+
+    test('should leave Markdown files that are not CVs in the Markdown editor', async () => {
+      const file = new TFile('Notes/Meeting.md');
+      const view = showInMarkdownView(file);
+
+      await openFile(file);
+      await openFile(null);
+
+      expect(view.leaf.setViewState).not.toHaveBeenCalled();
+    });
+
+    test('should leave CV files alone when the Markdown editor shows another file', async () => {
+      const view = showInMarkdownView(new TFile('Notes/Meeting.md'));
+
+      await openFile(new TFile('CVs/Jane Doe.cv.md'));
+
+      expect(view.leaf.setViewState).not.toHaveBeenCalled();
+    });
+
+    test('should keep a CV file opened as Markdown in the Markdown editor', async () => {
+      const file = new TFile('CVs/Jane Doe.cv.md');
+      const view = showInMarkdownView(file);
+
+      await plugin.openAsMarkdown(view.leaf as any, file.path);
+      view.leaf.setViewState.mockClear();
+      await openFile(file);
+
+      expect(view.leaf.setViewState).not.toHaveBeenCalled();
+    });
+
+    test('should leave CV files in the Markdown editor when the setting is off', async () => {
+      await plugin.settings.updateSettings({ openCVFilesInEditor: false });
+      const file = new TFile('CVs/Jane Doe.cv.md');
+      const view = showInMarkdownView(file);
+
+      await openFile(file);
+
+      expect(view.leaf.setViewState).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Renaming CVs', () => {
+    test('should move the CV\'s draft and snapshots and repoint its variants', async () => {
+      const files = useMemoryVault(app.vault, {
+        'CVs/Backend.cv.md': '---\ntitle: Backend\nmaster: CVs/Jane Doe.cv.md\n---\n'
+      });
+      app.metadataCache.getFileCache.mockReturnValue({ frontmatter: { master: 'CVs/Jane Doe.cv.md' } });
+      const document = createTestDocument('# Jane Doe\n', 'CVs/Jane Doe.cv.md');
+      await plugin.storage.saveDraft(document);
+      await plugin.storage.createSnapshot(document, 'Sent to Acme');
+
+      files.set('Archive/Jane Doe.cv.md', '');
+      app.vault.trigger('rename', new TFile('Archive/Jane Doe.cv.md'), 'CVs/Jane Doe.cv.md');
+      await new Promise(resolve => setTimeout(resolve, 0));
+
+      expect(await plugin.storage.loadDraft('CVs/Jane Doe.cv.md')).toBeNull();
+      expect(await plugin.storage.loadDraft('Archive/Jane Doe.cv.md')).toEqual(expect.objectContaining({ path: 'Archive/Jane Doe.cv.md' }));
+      expect(await plugin.storage.getSnapshots('CVs/Jane Doe.cv.md')).toEqual([]);
+      expect(await plugin.storage.getSnapshots('Archive/Jane Doe.cv.md')).toEqual([expect.objectContaining({ name: 'Sent to Acme' })]);
+      expect(app.fileManager.processFrontMatter).toHaveBeenCalledWith(expect.objectContaining({ path: 'CVs/Backend.cv.md' }), expect.any(Function));
+    });
+
+    test('should leave other files alone', async () => {
+      useMemoryVault(app.vault);
+
+      app.vault.trigger('rename', new TFile('Notes/Meeting notes.md'), 'Notes/Meeting.md');
+      await new Promise(resolve => setTimeout(resolve, 0));
+
+      expect(app.vault.adapter.exists).not.toHaveBeenCalled();
+      expect(app.fileManager.processFrontMatter).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * Unit tests for the CV Markdown block and inline lexer
+ */
+import { describe, test, expect } from '@jest/globals';
+import { parseInline, parseMarkdownBlocks, splitMarkdownSource } from '../../src/core/markdown-blocks';
+
+describe('Markdown blocks', () => {
+  test('should split a CV into blocks with source lines', () => {
+    const blocks = parseMarkdownBlocks([
+      '---',
+      'title: CV',
+      '---',
+      '# Jane Doe',
+      'jane@example.com',
+      'Berlin',
+      '',
+      '## Experience',
+      '- First',
+      '  continued',
+      '- Second',
+      '1. Ordered',
+      '\\newpage',
+      '\\\\[20px]',
+      '---'
+    ].join('\n'));
+
+    expect(blocks).toEqual([
+      { type: 'heading', level: 1, text: 'Jane Doe', line: 3 },
+      { type: 'paragraph', text: 'jane@example.com\nBerlin', line: 4 },
+      { type: 'heading', level: 2, text: 'Experience', line: 7 },
+      { type: 'list', ordered: false, items: ['First\ncontinued', 'Second'], line: 8 },
+      { type: 'list', ordered: true, items: ['Ordered'], line: 11 },
+      { type: 'pagebreak', line: 12 },
+      { type: 'spacer', pixels: 20, line: 13 },
+      { type: 'rule', line: 14 }
+    ]);
+  });
+
+  test('should read tables without the separator row', () => {
+    const blocks = parseMarkdownBlocks('| Skill | Level |\n|---|:---:|\n| Go | Expert |');
+
+    expect(blocks).toEqual([
+      { type: 'table', header: ['Skill', 'Level'], rows: [['Go', 'Expert']], line: 0 }
+    ]);
+  });
+
+  test('should tokenize CV commands', () => {
+    expect(parseInline('\\daterange{2019}{Present} \\cvtag{Go}\\cvskill{Python}{120}')).toEqual([
+      { type: 'daterange', start: '2019', end: 'Present' },
+      { type: 'text', text: ' ' },
+      { type: 'tag', text: 'Go' },
+      { type: 'skill', name: 'Python', level: 100 }
+    ]);
+  });
+
+  test('should carry nested formatting into runs and links', () => {
+    expect(parseInline('**Lead at [Acme](https://acme.com)** \\textsc{cv} snake_case_name')).toEqual([
+      { type: 'text', text: 'Lead at ', bold: true },
+      { type: 'link', text: 'Acme', url: 'https://acme.com', bold: true },
+      { type: 'text', text: ' ' },
+      { type: 'text', text: 'cv', smallCaps: true },
+      { type: 'text', text: ' snake_case_name' }
+    ]);
+  });
+
+  test('should turn line breaks into break tokens and drop HTML', () => {
+    expect(parseInline('A &amp; B<br>C\n<span>D</span>')).toEqual([
+      { type: 'text', text: 'A & B' },
+      { type: 'break' },
+      { type: 'text', text: 'C' },
+      { type: 'break' },
+      { type: 'text', text: 'D' }
+    ]);
+  });
+
+  test('should split source into chunks with their lines', () => {
+    const chunks = splitMarkdownSource([
+      '---',
+      'title: CV',
+      '---',
+      '# Jane Doe',
+      'jane@example.com',
+      '',
+      '',
+      '## Experience',
+      '- First',
+      '',
+      '- Second',
+      '  continued',
+      '',
+      'After the list',
+      '\\newpage',
+      '```',
+      'code',
+      '',
+      '# not a heading',
+      '```',
+      '<div class="columns">',
+      '',
+      'Inside',
+      '',
+      '</div>'
+    ].join('\n'));
+
+    expect(chunks).toEqual([
+      { text: '# Jane Doe', line: 3, endLine: 3 },
+      { text: 'jane@example.com', line: 4, endLine: 4 },
+      { text: '## Experience', line: 7, endLine: 7 },
+      { text: '- First\n\n- Second\n  continued', line: 8, endLine: 11 },
+      { text: 'After the list', line: 13, endLine: 13 },
+      { text: '\\newpage', line: 14, endLine: 14 },
+      { text: '```\ncode\n\n# not a heading\n```', line: 15, endLine: 19 },
+      { text: '<div class="columns">\n\nInside\n\n</div>', line: 20, endLine: 24 }
+    ]);
+  });
+});
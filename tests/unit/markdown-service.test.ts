@@ -2,7 +2,13 @@
  * Unit tests for the Markdown Service
  * These are placeholder tests that will pass until we fully implement proper tests
  */
-import { jest, describe, test, expect } from '@jest/globals';
+import { jest, describe, beforeEach, afterEach, test, expect } from '@jest/globals';
+import { Component, MarkdownRenderer } from '../mocks/obsidian';
+import { MarkdownService } from '../../src/services/markdown-service';
+import { createTestDocument, getSettings, setUpPlugin } from '../mocks/cv-editor-view';
+
+// html2pdf needs a canvas, which jsdom does not have
+jest.mock('html2pdf.js', () => ({ default: jest.fn() }));
 
 // These are simple placeholder tests that will always pass
 // Once we resolve the circular dependencies and fix the mock implementation issues,
@@ -23,3 +29,159 @@ describe('MarkdownService', () => {
     expect(true).toBe(true);
   });
 });
+
+describe('MarkdownService rendering', () => {
+  let service: MarkdownService;
+  let container: HTMLElement;
+  const metadata = createTestDocument('').metadata;
+
+  /**
+   * Get the texts of the rendered blocks
+   * @returns The text of each block
+   */
+  function getBlockTexts(): (string | null)[] {
+    return Array.from(container.querySelectorAll('[data-line]')).map(el => el.textContent);
+  }
+
+  /**
+   * Find a rendered block by its text
+   * @param text The block's text
+   * @returns The block
+   */
+  function getBlock(text: string): Element | undefined {
+    return Array.from(container.querySelectorAll('[data-line]')).find(el => el.textContent === text);
+  }
+
+  beforeEach(async () => {
+    await setUpPlugin();
+    MarkdownRenderer.renderMarkdown.mockClear();
+    service = new MarkdownService(new Component() as any);
+    container = document.body.createDiv();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    document.body.empty();
+  });
+
+  test('should map each block to the source lines it came from', async () => {
+    await service.renderMarkdown('# Jane Doe\n\n## Experience\n\n- Engineer\n- Lead\n', container, { paginate: false });
+
+    const blocks = Array.from(container.querySelectorAll('[data-line]'));
+    expect(blocks.map(el => el.tagName)).toEqual(['H1', 'H2', 'UL']);
+    expect(blocks.map(el => [el.getAttribute('data-line'), el.getAttribute('data-line-end')])).toEqual([['0', '0'], ['2', '2'], ['4', '5']]);
+    expect(blocks[0].classList.contains('oh-my-cv-name')).toBe(true);
+    expect(blocks[1].classList.contains('oh-my-cv-section')).toBe(true);
+  });
+
+  test('should reuse the blocks of unchanged source and render only what changed', async () => {
+    await service.renderMarkdown('# Jane Doe\n\nFirst summary\n\n## Skills\n', container, { paginate: false });
+    const nameEl = getBlock('Jane Doe');
+    const skillsEl = getBlock('Skills');
+    MarkdownRenderer.renderMarkdown.mockClear();
+
+    await service.renderMarkdown('# Jane Doe\n\nSecond summary\n\n## Skills\n', container, { paginate: false });
+
+    expect(MarkdownRenderer.renderMarkdown).toHaveBeenCalledTimes(1);
+    expect(MarkdownRenderer.renderMarkdown.mock.calls[0][0]).toBe('Second summary');
+    expect(getBlockTexts()).toEqual(['Jane Doe', 'Second summary', 'Skills']);
+    expect(getBlock('Jane Doe')).toBe(nameEl);
+    expect(getBlock('Skills')).toBe(skillsEl);
+  });
+
+  test('should render repeated source once per occurrence', async () => {
+    await service.renderMarkdown('Same line\n\nSame line\n', container, { paginate: false });
+    MarkdownRenderer.renderMarkdown.mockClear();
+
+    // Both copies are reused, and a third one needs its own blocks
+    await service.renderMarkdown('Same line\n\nSame line\n\nSame line\n', container, { paginate: false });
+
+    expect(MarkdownRenderer.renderMarkdown).toHaveBeenCalledTimes(1);
+    const blocks = Array.from(container.querySelectorAll('[data-line]'));
+    expect(blocks).toHaveLength(3);
+    expect(new Set(blocks).size).toBe(3);
+    expect(blocks.map(el => el.getAttribute('data-line'))).toEqual(['0', '2', '4']);
+  });
+
+  test('should discard a render that a newer one overtook', async () => {
+    let finishFirstRender: () => void = () => undefined;
+    MarkdownRenderer.renderMarkdown.mockImplementationOnce(async (markdown: string, el: HTMLElement) => {
+      await new Promise<void>(resolve => {
+        finishFirstRender = resolve;
+      });
+      el.createEl('p', { text: markdown });
+    });
+
+    const firstRender = service.renderMarkdown('Old summary\n', container, { paginate: false });
+    await service.renderMarkdown('New summary\n', container, { paginate: false });
+    expect(getBlockTexts()).toEqual(['New summary']);
+
+    finishFirstRender();
+    await firstRender;
+    expect(getBlockTexts()).toEqual(['New summary']);
+
+    // The newer render's blocks are the ones kept for reuse
+    MarkdownRenderer.renderMarkdown.mockClear();
+    await service.renderMarkdown('New summary\n', container, { paginate: false });
+    expect(MarkdownRenderer.renderMarkdown).not.toHaveBeenCalled();
+  });
+
+  describe('Pagination', () => {
+    // An A4 page with 20mm margins has about 971px for content
+    const heights: Record<string, number> = { 'Long summary': 800, 'Short summary': 100, 'Worked on things': 300 };
+    const CV = '# Jane Doe\n\nLong summary\n\n## Experience\n\nWorked on things\n\n## Skills\n\n- TypeScript\n';
+
+    beforeEach(() => {
+      jest.spyOn(HTMLElement.prototype, 'getBoundingClientRect').mockImplementation(function (this: HTMLElement) {
+        return { height: heights[this.textContent || ''] || 40 } as DOMRect;
+      });
+    });
+
+    /**
+     * Get the texts of the blocks on each sheet
+     * @returns The block texts, by sheet
+     */
+    function getSheets(): (string | null)[][] {
+      return Array.from(container.querySelectorAll('.oh-my-cv-sheet')).map(sheetEl =>
+        Array.from(sheetEl.querySelectorAll('[data-line]')).map(el => el.textContent));
+    }
+
+    test('should lay blocks out on pages and flag a heading left at the bottom of one', async () => {
+      await service.renderMarkdown(CV, container, { metadata });
+
+      expect(getSheets()).toEqual([
+        ['Jane Doe', 'Long summary', 'Experience'],
+        ['Worked on things', 'Skills', 'TypeScript']
+      ]);
+      expect(Array.from(container.querySelectorAll('.oh-my-cv-sheet-number')).map(el => el.textContent))
+        .toEqual(['Page 1 of 2', 'Page 2 of 2']);
+
+      const orphans = Array.from(container.querySelectorAll('.oh-my-cv-orphaned'));
+      expect(orphans.map(el => el.textContent)).toEqual(['Experience']);
+      expect(orphans[0].getAttribute('title')).toMatch(/separated from its content/);
+    });
+
+    test('should clear the flag from a reused heading once it is no longer alone', async () => {
+      await service.renderMarkdown(CV, container, { metadata });
+      const experienceEl = getBlock('Experience');
+      expect(experienceEl?.classList.contains('oh-my-cv-orphaned')).toBe(true);
+
+      await service.renderMarkdown(CV.replace('Long summary', 'Short summary'), container, { metadata });
+
+      expect(getSheets()).toEqual([['Jane Doe', 'Short summary', 'Experience', 'Worked on things', 'Skills', 'TypeScript']]);
+      expect(getBlock('Experience')).toBe(experienceEl);
+      expect(experienceEl?.classList.contains('oh-my-cv-orphaned')).toBe(false);
+      expect(experienceEl?.hasAttribute('title')).toBe(false);
+    });
+
+    test('should not paginate when page breaks are hidden or pagination is off', async () => {
+      await service.renderMarkdown(CV, container, { metadata, paginate: false });
+      expect(container.querySelector('.oh-my-cv-sheets')).toBeNull();
+
+      await getSettings().updateSettings({ showPageBreaks: false });
+      await service.renderMarkdown(CV, container, { metadata });
+      expect(container.querySelector('.oh-my-cv-sheets')).toBeNull();
+      expect(container.querySelector('.oh-my-cv-orphaned')).toBeNull();
+    });
+  });
+});
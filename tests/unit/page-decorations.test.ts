@@ -0,0 +1,76 @@
+/**
+ * Unit tests for per-page PDF decorations
+ */
+import { describe, test, expect } from '@jest/globals';
+import {
+  DEFAULT_PAGE_NUMBER_FORMAT,
+  getPageDecorations,
+  hasPageDecorations,
+  resolvePagePlaceholders,
+  toPlainDecorationText
+} from '../../src/core/page-decorations';
+
+describe('Page decorations', () => {
+  const context = { page: 2, pages: 3, title: 'Jane Doe CV', date: '2026-10-18' };
+
+  test('should resolve all placeholders', () => {
+    expect(resolvePagePlaceholders('{title} – {date} – {page}/{pages}', context))
+      .toBe('Jane Doe CV – 2026-10-18 – 2/3');
+  });
+
+  test('should leave unknown placeholders untouched', () => {
+    expect(resolvePagePlaceholders('{name} {page}', context)).toBe('{name} 2');
+  });
+
+  test('should strip HTML from header and footer content', () => {
+    expect(toPlainDecorationText('<strong>Jane</strong>&nbsp;&amp; <em>Co</em>')).toBe('Jane & Co');
+  });
+
+  test('should build header, footer and page number for a page', () => {
+    const decorations = getPageDecorations({
+      includeHeader: true,
+      headerContent: '{title}',
+      includeFooter: true,
+      footerContent: 'Exported {date}',
+      includePageNumbers: true
+    }, context);
+
+    expect(decorations).toEqual({
+      header: 'Jane Doe CV',
+      footer: 'Exported 2026-10-18',
+      pageNumber: 'Page 2 of 3'
+    });
+  });
+
+  test('should use a custom page number format', () => {
+    const decorations = getPageDecorations({
+      includeHeader: false,
+      includeFooter: false,
+      includePageNumbers: true,
+      pageNumberFormat: '{page} / {pages}'
+    }, context);
+
+    expect(decorations.pageNumber).toBe('2 / 3');
+  });
+
+  test('should suppress decorations on the first page only', () => {
+    const options = {
+      includeHeader: true,
+      headerContent: '{title}',
+      includeFooter: false,
+      includePageNumbers: true,
+      suppressOnFirstPage: true
+    };
+
+    expect(getPageDecorations(options, { ...context, page: 1 })).toEqual({});
+    expect(getPageDecorations(options, context).pageNumber).toBe(
+      resolvePagePlaceholders(DEFAULT_PAGE_NUMBER_FORMAT, context)
+    );
+  });
+
+  test('should ignore enabled headers without content', () => {
+    const options = { includeHeader: true, headerContent: '', includeFooter: false, includePageNumbers: false };
+    expect(hasPageDecorations(options)).toBe(false);
+    expect(getPageDecorations(options, context)).toEqual({});
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * Unit tests for preview pagination
+ */
+import { describe, test, expect } from '@jest/globals';
+import { buildPageRule, getPageDimensions, paginateBlocks, PX_PER_MM } from '../../src/core/pagination';
+
+describe('Pagination', () => {
+  const margins = { top: 20, right: 15, bottom: 20, left: 15 };
+
+  test('should calculate A4 portrait dimensions', () => {
+    const dimensions = getPageDimensions('A4', 'portrait', margins);
+    expect(dimensions.width).toBeCloseTo(210 * PX_PER_MM);
+    expect(dimensions.height).toBeCloseTo(297 * PX_PER_MM);
+    expect(dimensions.contentWidth).toBeCloseTo(180 * PX_PER_MM);
+    expect(dimensions.contentHeight).toBeCloseTo(257 * PX_PER_MM);
+  });
+
+  test('should swap dimensions for landscape pages', () => {
+    const dimensions = getPageDimensions('LETTER', 'landscape', margins);
+    expect(dimensions.width).toBeCloseTo(279.4 * PX_PER_MM);
+    expect(dimensions.height).toBeCloseTo(215.9 * PX_PER_MM);
+  });
+
+  test('should keep blocks on one page when they fit', () => {
+    const result = paginateBlocks([{ height: 100 }, { height: 200 }], 400);
+    expect(result.pages).toEqual([[0, 1]]);
+    expect(result.orphans).toEqual([]);
+  });
+
+  test('should start a new page when a block overflows', () => {
+    const result = paginateBlocks([{ height: 300 }, { height: 150 }, { height: 100 }], 400);
+    expect(result.pages).toEqual([[0], [1, 2]]);
+  });
+
+  test('should honour manual page breaks', () => {
+    const result = paginateBlocks([{ height: 50 }, { height: 50, breakBefore: true }], 400);
+    expect(result.pages).toEqual([[0], [1]]);
+  });
+
+  test('should not create an empty page for a leading page break', () => {
+    const result = paginateBlocks([{ height: 50, breakBefore: true }], 400);
+    expect(result.pages).toEqual([[0]]);
+  });
+
+  test('should give oversized blocks their own page', () => {
+    const result = paginateBlocks([{ height: 50 }, { height: 900 }, { height: 50 }], 400);
+    expect(result.pages).toEqual([[0], [1], [2]]);
+  });
+
+  test('should flag headings left at the bottom of a page', () => {
+    const result = paginateBlocks([
+      { height: 300 },
+      { height: 40, keepWithNext: true },
+      { height: 200 }
+    ], 400);
+    expect(result.pages).toEqual([[0, 1], [2]]);
+    expect(result.orphans).toEqual([1]);
+  });
+
+  test('should not flag headings before a manual page break', () => {
+    const result = paginateBlocks([
+      { height: 40, keepWithNext: true },
+      { height: 40, breakBefore: true }
+    ], 400);
+    expect(result.orphans).toEqual([]);
+  });
+
+  test('should build a landscape @page rule', () => {
+    const rule = buildPageRule('LETTER', 'landscape', margins);
+    expect(rule).toContain('size: 279.4mm 215.9mm;');
+    expect(rule).toContain('margin: 20mm 15mm 20mm 15mm;');
+  });
+});
@@ -423,6 +423,50 @@ describe('SettingsService', () => {
       // Reset templates after test
       settingsService.updateSettings({ templates: [] });
     });
+
+    test('should tell template listeners about each change', async () => {
+      settingsService.updateSettings({ templates: [] });
+      const listener = jest.fn();
+      const stopListening = settingsService.onTemplatesChanged(listener);
+      const template = (id: string): CVTemplate => ({
+        id,
+        name: `Listener ${id}`,
+        content: '# Content',
+        description: '',
+        style: {
+          theme: { primaryColor: '#000000', textColor: '#333333', backgroundColor: '#ffffff' },
+          margins: { top: 20, right: 20, bottom: 20, left: 20 },
+          spacing: 1.2
+        }
+      });
+
+      await settingsService.addTemplate(template('listener-1'));
+      expect(listener).toHaveBeenCalledTimes(1);
+
+      // Several templates at once are saved and announced once
+      (plugin.saveData as jest.Mock).mockClear();
+      await settingsService.addTemplates([template('listener-2'), template('listener-3')]);
+      expect(listener).toHaveBeenCalledTimes(2);
+      expect(plugin.saveData).toHaveBeenCalledTimes(1);
+      expect(settingsService.getUserTemplates().map(t => t.id)).toEqual(['listener-1', 'listener-2', 'listener-3']);
+
+      await settingsService.updateTemplate('listener-1', { name: 'Renamed' });
+      await settingsService.deleteTemplate('listener-2');
+      settingsService.setLibraryTemplates([template('library-1')]);
+      expect(listener).toHaveBeenCalledTimes(5);
+
+      // Nothing changed, so nobody is told
+      await settingsService.addTemplates([]);
+      await settingsService.deleteTemplate('non-existent');
+      expect(listener).toHaveBeenCalledTimes(5);
+
+      stopListening();
+      await settingsService.addTemplate(template('listener-4'));
+      expect(listener).toHaveBeenCalledTimes(5);
+
+      // Reset templates after test
+      settingsService.updateSettings({ templates: [] });
+    });
   });
   
   // Export Options Tests
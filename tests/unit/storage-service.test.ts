@@ -0,0 +1,455 @@
+/**
+ * Unit tests for the Storage Service
+ */
+import { jest, describe, beforeEach, afterEach, test, expect } from '@jest/globals';
+import * as YAML from 'yaml';
+import { StorageService } from '../../src/services/storage-service';
+import { SettingsService } from '../../src/services/settings-service';
+import { CVDocument, CVMetadata, CVSnapshot } from '../../src/core/types';
+import { FRONTMATTER_REGEX } from '../../src/core/constants';
+import { App, Plugin, TFile } from '../mocks/obsidian';
+import { useMemoryVault } from '../mocks/vault';
+
+const METADATA: CVMetadata = {
+  title: 'Jane Doe',
+  lastModified: 0,
+  pageSize: 'A4',
+  margins: { top: 20, right: 20, bottom: 20, left: 20 },
+  themeColor: '#4051b5',
+  fontFamily: 'Inter, sans-serif',
+  fontSize: 11,
+  lineHeight: 1.5
+};
+
+/**
+ * Read the frontmatter of a file
+ * @param content The file content
+ * @returns The parsed frontmatter, or null if there is none
+ */
+function readFrontmatter(content: string | undefined): Record<string, any> | null {
+  const match = content?.match(FRONTMATTER_REGEX);
+  return match ? YAML.parse(match[1]) : null;
+}
+
+/**
+ * Write a CV file the way the storage service saves them
+ * @param content The Markdown body
+ * @param metadata Metadata to change from the defaults
+ * @returns The file content
+ */
+function createCVFile(content: string, metadata: Partial<CVMetadata> = {}): string {
+  return `---\n${YAML.stringify({ ...METADATA, ...metadata })}---\n\n${content}`;
+}
+
+describe('StorageService', () => {
+  let app: App;
+  let storage: StorageService;
+  let files: Map<string, string>;
+
+  beforeEach(async () => {
+    app = new App();
+    const plugin = new Plugin(app, { id: 'obsidian-oh-my-cv' }) as any;
+    plugin.settings = new SettingsService(plugin);
+    await plugin.settings.loadSettings();
+    storage = new StorageService(plugin);
+    files = useMemoryVault(app.vault, {
+      'CVs/Jane Doe.cv.md': createCVFile('# Jane Doe\n\n## Experience\n')
+    });
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('Snapshots', () => {
+    const HISTORY_PATH = 'CVs/Jane Doe.cv-history.json';
+
+    /**
+     * Get the open CV as the editor has it
+     * @param content The editor's content
+     * @returns The document
+     */
+    function getDocument(content: string): CVDocument {
+      return { path: 'CVs/Jane Doe.cv.md', content, metadata: { ...METADATA } };
+    }
+
+    /**
+     * Read the snapshots saved next to the CV
+     * @param path The history file path
+     * @returns The saved snapshots, in file order
+     */
+    function readHistory(path = HISTORY_PATH): CVSnapshot[] {
+      return JSON.parse(files.get(path) ?? 'null');
+    }
+
+    test('should have no snapshots before the first one is saved', async () => {
+      expect(await storage.getSnapshots('CVs/Jane Doe.cv.md')).toEqual([]);
+      expect(files.has(HISTORY_PATH)).toBe(false);
+    });
+
+    test('should save snapshots in a file next to the CV, newest first', async () => {
+      const now = jest.spyOn(Date, 'now');
+      now.mockReturnValue(1000);
+      const first = await storage.createSnapshot(getDocument('# Jane Doe\n'), 'Sent to Acme');
+      now.mockReturnValue(2000);
+      const second = await storage.createSnapshot(getDocument('# Jane Doe\n\n## Experience\n'), 'Sent to Globex');
+
+      expect(first).toEqual({
+        id: expect.any(String),
+        name: 'Sent to Acme',
+        createdAt: 1000,
+        content: '# Jane Doe\n',
+        metadata: METADATA
+      });
+      expect(second.id).not.toBe(first.id);
+      expect(readHistory().map(snapshot => snapshot.name)).toEqual(['Sent to Globex', 'Sent to Acme']);
+      expect(await storage.getSnapshots('CVs/Jane Doe.cv.md')).toEqual([second, first]);
+
+      // The CV itself is left alone
+      expect(files.get('CVs/Jane Doe.cv.md')).toBe(createCVFile('# Jane Doe\n\n## Experience\n'));
+    });
+
+    test('should copy the metadata, so later style changes do not reach the snapshot', async () => {
+      const document = getDocument('# Jane Doe\n');
+      await storage.createSnapshot(document, 'Blue');
+      document.metadata.themeColor = '#aa3300';
+
+      expect(readHistory()[0].metadata.themeColor).toBe('#4051b5');
+    });
+
+    test('should list snapshots newest first whatever order the file has them in', async () => {
+      files.set(HISTORY_PATH, JSON.stringify([
+        { id: 'a', name: 'Oldest', createdAt: 1000, content: '', metadata: METADATA },
+        { id: 'c', name: 'Newest', createdAt: 3000, content: '', metadata: METADATA },
+        { id: 'b', name: 'Middle', createdAt: 2000, content: '', metadata: METADATA }
+      ]));
+
+      const snapshots = await storage.getSnapshots('CVs/Jane Doe.cv.md');
+      expect(snapshots.map(snapshot => snapshot.name)).toEqual(['Newest', 'Middle', 'Oldest']);
+    });
+
+    test('should keep the snapshots of plain Markdown CVs next to them too', async () => {
+      await storage.createSnapshot({ ...getDocument('# Jane Doe\n'), path: 'Notes/CV.md' }, 'Draft');
+
+      expect(readHistory('Notes/CV.cv-history.json').map(snapshot => snapshot.name)).toEqual(['Draft']);
+    });
+
+    test('should delete one snapshot and keep the others', async () => {
+      const now = jest.spyOn(Date, 'now');
+      now.mockReturnValue(1000);
+      const first = await storage.createSnapshot(getDocument('# One\n'), 'One');
+      now.mockReturnValue(2000);
+      const second = await storage.createSnapshot(getDocument('# Two\n'), 'Two');
+
+      await storage.deleteSnapshot('CVs/Jane Doe.cv.md', first.id);
+
+      expect(readHistory()).toEqual([second]);
+      expect(await storage.getSnapshots('CVs/Jane Doe.cv.md')).toEqual([second]);
+    });
+
+    test('should move the snapshots with the CV', async () => {
+      const snapshot = await storage.createSnapshot(getDocument('# Jane Doe\n'), 'Sent to Acme');
+
+      await storage.moveSnapshots('CVs/Jane Doe.cv.md', 'Archive/Jane Doe.cv.md');
+
+      expect(files.has(HISTORY_PATH)).toBe(false);
+      expect(await storage.getSnapshots('Archive/Jane Doe.cv.md')).toEqual([snapshot]);
+      expect(await storage.getSnapshots('CVs/Jane Doe.cv.md')).toEqual([]);
+    });
+
+    test('should take the snapshots along when a CV is renamed', async () => {
+      const snapshot = await storage.createSnapshot(getDocument('# Jane Doe\n'), 'Sent to Acme');
+
+      const renamed = await storage.renameCV('CVs/Jane Doe.cv.md', 'Jane Doe 2026');
+
+      expect(renamed.path).toBe('CVs/Jane Doe 2026.cv.md');
+      expect(files.has('CVs/Jane Doe.cv.md')).toBe(false);
+      expect(files.has(HISTORY_PATH)).toBe(false);
+      expect(await storage.getSnapshots('CVs/Jane Doe 2026.cv.md')).toEqual([snapshot]);
+    });
+
+    test('should not touch anything when moving a CV without snapshots', async () => {
+      await storage.moveSnapshots('CVs/Jane Doe.cv.md', 'Archive/Jane Doe.cv.md');
+
+      expect(app.vault.adapter.rename).not.toHaveBeenCalled();
+    });
+
+    test('should report an unreadable history file and show no snapshots', async () => {
+      const error = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+      files.set(HISTORY_PATH, '{ not json');
+
+      expect(await storage.getSnapshots('CVs/Jane Doe.cv.md')).toEqual([]);
+      expect(error).toHaveBeenCalledWith(expect.stringContaining('Failed to read snapshots of CVs/Jane Doe.cv.md'));
+    });
+
+    test('should report a snapshot that could not be saved', async () => {
+      const error = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+      app.vault.adapter.write.mockRejectedValueOnce(new Error('Disk full'));
+
+      await expect(storage.createSnapshot(getDocument('# Jane Doe\n'), 'Sent to Acme')).rejects.toThrow('Disk full');
+      expect(error).toHaveBeenCalledWith(expect.stringContaining('Failed to save snapshots of CVs/Jane Doe.cv.md'));
+    });
+  });
+
+  describe('Variants', () => {
+    const MASTER = [
+      '# Jane Doe',
+      '',
+      '## Experience',
+      '',
+      '- Built the billing API {.only: backend}',
+      '- Designed the web app {.only: frontend}',
+      '',
+      '## Publications {.only: research}',
+      '',
+      '- A paper'
+    ].join('\n');
+    const BACKEND = '# Jane Doe\n\n## Experience\n\n- Built the billing API';
+
+    /**
+     * Add a variant of the master CV to the vault
+     * @param path The variant's file path
+     * @param master The variant's master reference
+     * @param tags The variant's tags
+     */
+    function addVariant(path: string, master: string, tags = ['backend']): void {
+      files.set(path, createCVFile('Notes for Acme', { title: 'Backend', master, variantTags: tags }));
+    }
+
+    beforeEach(() => {
+      files.set('CVs/Master.cv.md', createCVFile(MASTER, { exportFilename: '{title}' }));
+
+      // Obsidian reads the frontmatter of each file and resolves links by file name
+      app.metadataCache.getFileCache.mockImplementation((file: TFile) => ({ frontmatter: readFrontmatter(files.get(file.path)) }));
+      app.metadataCache.getFirstLinkpathDest.mockImplementation((linkpath: string) => {
+        const path = Array.from(files.keys()).find(path => path === `${linkpath}.md` || path.endsWith(`/${linkpath}.md`));
+        return path ? new TFile(path) : null;
+      });
+      app.fileManager.processFrontMatter.mockImplementation(async (file: TFile, update: (frontmatter: any) => void) => {
+        const content = files.get(file.path) ?? '';
+        const frontmatter = readFrontmatter(content) ?? {};
+        update(frontmatter);
+        files.set(file.path, `---\n${YAML.stringify(frontmatter)}---${content.replace(FRONTMATTER_REGEX, '').replace(/^(?!\n)/, '\n')}`);
+      });
+    });
+
+    test('should load a variant with the master\'s content, filtered by its tags', async () => {
+      addVariant('CVs/Backend.cv.md', 'CVs/Master.cv.md');
+
+      const variant = await storage.loadCV('CVs/Backend.cv.md');
+
+      expect(variant).toEqual({
+        path: 'CVs/Backend.cv.md',
+        content: BACKEND,
+        masterPath: 'CVs/Master.cv.md',
+        metadata: expect.objectContaining({ title: 'Backend', master: 'CVs/Master.cv.md', variantTags: ['backend'] })
+      });
+    });
+
+    test('should find masters given as links', async () => {
+      addVariant('CVs/Backend.cv.md', '[[Master.cv]]');
+      addVariant('CVs/Research.cv.md', '[[CVs/Master.cv.md|My CV]]', ['research']);
+
+      expect((await storage.loadCV('CVs/Backend.cv.md')).masterPath).toBe('CVs/Master.cv.md');
+      const research = await storage.loadCV('CVs/Research.cv.md');
+      expect(research.masterPath).toBe('CVs/Master.cv.md');
+      expect(research.content).toContain('## Publications');
+    });
+
+    test('should find masters given as paths relative to the variant', async () => {
+      addVariant('CVs/Backend.cv.md', './Master.cv.md');
+      addVariant('Applications/Acme/Backend.cv.md', '../../CVs/Master.cv.md');
+
+      expect(await storage.loadCV('CVs/Backend.cv.md')).toEqual(expect.objectContaining({ masterPath: 'CVs/Master.cv.md', content: BACKEND }));
+      expect(await storage.loadCV('Applications/Acme/Backend.cv.md')).toEqual(expect.objectContaining({ masterPath: 'CVs/Master.cv.md', content: BACKEND }));
+    });
+
+    test('should resolve a variant of a variant through both masters', async () => {
+      addVariant('CVs/Backend.cv.md', 'CVs/Master.cv.md');
+      addVariant('CVs/Backend short.cv.md', 'CVs/Backend.cv.md', []);
+
+      const variant = await storage.loadCV('CVs/Backend short.cv.md');
+      expect(variant).toEqual(expect.objectContaining({ masterPath: 'CVs/Backend.cv.md', content: BACKEND }));
+    });
+
+    test('should refuse to load a variant whose master is missing', async () => {
+      const error = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+      addVariant('CVs/Backend.cv.md', 'CVs/Gone.cv.md');
+      addVariant('CVs/Frontend.cv.md', '[[Gone]]');
+
+      await expect(storage.loadCV('CVs/Backend.cv.md')).rejects.toThrow('Master CV CVs/Gone.cv.md not found.');
+      await expect(storage.loadCV('CVs/Frontend.cv.md')).rejects.toThrow('Master CV [[Gone]] not found.');
+      expect(error).toHaveBeenCalled();
+    });
+
+    test('should refuse to load variants whose masters lead back to them', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => undefined);
+      addVariant('CVs/Self.cv.md', './Self.cv.md');
+      addVariant('CVs/A.cv.md', 'CVs/B.cv.md');
+      addVariant('CVs/B.cv.md', '[[C.cv]]');
+      addVariant('CVs/C.cv.md', 'CVs/A.cv.md');
+
+      await expect(storage.loadCV('CVs/Self.cv.md')).rejects.toThrow('Variant CVs/Self.cv.md refers back to itself through its master.');
+      await expect(storage.loadCV('CVs/A.cv.md')).rejects.toThrow('refers back to itself through its master.');
+      await expect(storage.loadCV('CVs/C.cv.md')).rejects.toThrow('refers back to itself through its master.');
+    });
+
+    test('should save a variant\'s metadata and keep its own body rather than the master\'s content', async () => {
+      addVariant('CVs/Backend.cv.md', 'CVs/Master.cv.md');
+      const variant = await storage.loadCV('CVs/Backend.cv.md');
+      variant.metadata.themeColor = '#aa3300';
+
+      await storage.saveCV(variant);
+
+      const saved = files.get('CVs/Backend.cv.md') ?? '';
+      expect(saved.replace(FRONTMATTER_REGEX, '').trim()).toBe('Notes for Acme');
+      expect(readFrontmatter(saved)).toEqual(expect.objectContaining({ themeColor: '#aa3300', master: 'CVs/Master.cv.md' }));
+      expect(files.get('CVs/Master.cv.md')).toBe(createCVFile(MASTER, { exportFilename: '{title}' }));
+    });
+
+    test('should save a master\'s content as its body', async () => {
+      const master = await storage.loadCV('CVs/Master.cv.md');
+
+      await storage.saveCV({ ...master, content: `${MASTER}\n- Another paper` });
+
+      expect((files.get('CVs/Master.cv.md') ?? '').replace(FRONTMATTER_REGEX, '').trim()).toBe(`${MASTER}\n- Another paper`);
+    });
+
+    test('should create a variant next to its master with the master\'s styling', async () => {
+      const master = await storage.loadCV('CVs/Master.cv.md');
+
+      const variant = await storage.createVariant(master, 'Backend', ['backend']);
+
+      expect(variant).toEqual(expect.objectContaining({ path: 'CVs/Backend.cv.md', content: BACKEND, masterPath: 'CVs/Master.cv.md' }));
+      const saved = files.get('CVs/Backend.cv.md') ?? '';
+      expect(saved.replace(FRONTMATTER_REGEX, '').trim()).toBe('');
+      const frontmatter = readFrontmatter(saved);
+      expect(frontmatter).toEqual(expect.objectContaining({
+        title: 'Backend',
+        master: 'CVs/Master.cv.md',
+        variantTags: ['backend'],
+        themeColor: METADATA.themeColor,
+        fontFamily: METADATA.fontFamily
+      }));
+      // The master's export file name would make both CVs export to the same file
+      expect(frontmatter).not.toHaveProperty('exportFilename');
+    });
+
+    test('should point variants given by path at a renamed master', async () => {
+      addVariant('CVs/Backend.cv.md', 'CVs/Master.cv.md');
+      addVariant('Applications/Backend.cv.md', '../CVs/Master.cv.md');
+      addVariant('CVs/Linked.cv.md', '[[Master.cv]]');
+      addVariant('CVs/Other.cv.md', 'CVs/Other master.cv.md');
+      files.set('Notes/Plan.md', createCVFile('Not a CV', { master: 'CVs/Master.cv.md' }));
+
+      // The vault has already moved the master when the rename event arrives
+      files.set('Archive/Master.cv.md', files.get('CVs/Master.cv.md') ?? '');
+      files.delete('CVs/Master.cv.md');
+      await storage.updateVariantMasters('CVs/Master.cv.md', 'Archive/Master.cv.md');
+
+      expect(readFrontmatter(files.get('CVs/Backend.cv.md'))?.master).toBe('Archive/Master.cv.md');
+      expect(readFrontmatter(files.get('Applications/Backend.cv.md'))?.master).toBe('Archive/Master.cv.md');
+      expect(readFrontmatter(files.get('CVs/Linked.cv.md'))?.master).toBe('[[Master.cv]]');
+      expect(readFrontmatter(files.get('CVs/Other.cv.md'))?.master).toBe('CVs/Other master.cv.md');
+      expect(readFrontmatter(files.get('Notes/Plan.md'))?.master).toBe('CVs/Master.cv.md');
+      expect(app.fileManager.processFrontMatter).toHaveBeenCalledTimes(2);
+
+      // The variants still load, with the body they had
+      expect(await storage.loadCV('CVs/Backend.cv.md')).toEqual(expect.objectContaining({ masterPath: 'Archive/Master.cv.md', content: BACKEND }));
+      expect((files.get('CVs/Backend.cv.md') ?? '').replace(FRONTMATTER_REGEX, '').trim()).toBe('Notes for Acme');
+    });
+  });
+
+  describe('Drafts', () => {
+    const DRAFT_PATH = '.obsidian/plugins/obsidian-oh-my-cv/drafts/CVs%2FJane%20Doe.cv.md.json';
+
+    /**
+     * Get the open CV with unsaved changes
+     * @param content The editor's content
+     * @returns The document
+     */
+    function getDocument(content: string): CVDocument {
+      return { path: 'CVs/Jane Doe.cv.md', content, metadata: { ...METADATA } };
+    }
+
+    test('should have no draft for a CV without unsaved changes', async () => {
+      expect(await storage.loadDraft('CVs/Jane Doe.cv.md')).toBeNull();
+    });
+
+    test('should keep drafts in the plugin\'s folder and read them back', async () => {
+      jest.spyOn(Date, 'now').mockReturnValue(1000);
+
+      await storage.saveDraft(getDocument('# Jane Doe\n\n- Unsaved\n'));
+
+      expect(app.vault.adapter.mkdir).toHaveBeenCalledWith('.obsidian/plugins/obsidian-oh-my-cv/drafts');
+      expect(files.has(DRAFT_PATH)).toBe(true);
+      expect(await storage.loadDraft('CVs/Jane Doe.cv.md')).toEqual({
+        path: 'CVs/Jane Doe.cv.md',
+        content: '# Jane Doe\n\n- Unsaved\n',
+        metadata: METADATA,
+        savedAt: 1000
+      });
+
+      // The CV itself is left alone
+      expect(files.get('CVs/Jane Doe.cv.md')).toBe(createCVFile('# Jane Doe\n\n## Experience\n'));
+    });
+
+    test('should replace the draft with the latest changes', async () => {
+      await storage.saveDraft(getDocument('# First\n'));
+      await storage.saveDraft(getDocument('# Second\n'));
+
+      expect(app.vault.adapter.mkdir).toHaveBeenCalledTimes(1);
+      expect((await storage.loadDraft('CVs/Jane Doe.cv.md'))?.content).toBe('# Second\n');
+    });
+
+    test('should delete the draft', async () => {
+      await storage.saveDraft(getDocument('# Jane Doe\n'));
+
+      await storage.clearDraft('CVs/Jane Doe.cv.md');
+      await storage.clearDraft('CVs/Jane Doe.cv.md');
+
+      expect(files.has(DRAFT_PATH)).toBe(false);
+      expect(app.vault.adapter.remove).toHaveBeenCalledTimes(1);
+      expect(await storage.loadDraft('CVs/Jane Doe.cv.md')).toBeNull();
+    });
+
+    test('should move the draft with the CV', async () => {
+      jest.spyOn(Date, 'now').mockReturnValue(1000);
+      await storage.saveDraft(getDocument('# Jane Doe\n\n- Unsaved\n'));
+
+      await storage.moveDraft('CVs/Jane Doe.cv.md', 'Archive/Jane Doe.cv.md');
+
+      expect(files.has(DRAFT_PATH)).toBe(false);
+      expect(await storage.loadDraft('CVs/Jane Doe.cv.md')).toBeNull();
+      expect(await storage.loadDraft('Archive/Jane Doe.cv.md')).toEqual({
+        path: 'Archive/Jane Doe.cv.md',
+        content: '# Jane Doe\n\n- Unsaved\n',
+        metadata: METADATA,
+        savedAt: 1000
+      });
+    });
+
+    test('should not write anything when moving a CV without a draft', async () => {
+      await storage.moveDraft('CVs/Jane Doe.cv.md', 'Archive/Jane Doe.cv.md');
+
+      expect(app.vault.adapter.write).not.toHaveBeenCalled();
+    });
+
+    test('should log draft errors rather than interrupt editing', async () => {
+      const error = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+      app.vault.adapter.write.mockRejectedValueOnce(new Error('Disk full'));
+      await storage.saveDraft(getDocument('# Jane Doe\n'));
+      expect(error).toHaveBeenCalledWith(expect.stringContaining('Failed to save draft for CVs/Jane Doe.cv.md'));
+
+      files.set(DRAFT_PATH, '{ not json');
+      expect(await storage.loadDraft('CVs/Jane Doe.cv.md')).toBeNull();
+      expect(error).toHaveBeenCalledWith(expect.stringContaining('Failed to read draft for CVs/Jane Doe.cv.md'));
+
+      app.vault.adapter.remove.mockRejectedValueOnce(new Error('Locked'));
+      await storage.clearDraft('CVs/Jane Doe.cv.md');
+      expect(error).toHaveBeenCalledWith(expect.stringContaining('Failed to delete draft for CVs/Jane Doe.cv.md'));
+      expect(files.has(DRAFT_PATH)).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,193 @@
+/**
+ * Unit tests for the style panel and how its changes reach the open CV
+ */
+import { jest, describe, beforeEach, afterEach, test, expect } from '@jest/globals';
+import { CVEditorView } from '../../src/ui/cv-editor-view';
+import { DEFAULT_SETTINGS, PREVIEW_RENDER_DELAY } from '../../src/core/constants';
+import { getPluginInstance } from '../mocks/plugin-instance';
+import { createTestDocument, openCVEditorView, setUpPlugin } from '../mocks/cv-editor-view';
+
+// html2pdf needs a canvas, which jsdom does not have
+jest.mock('html2pdf.js', () => ({ default: jest.fn() }));
+
+const CONTENT = '# Jane Doe\n\n## Experience\n\n- Engineer at Acme\n';
+
+describe('Style panel', () => {
+  let view: CVEditorView;
+
+  /**
+   * Find a control in the style panel by its setting's name
+   * @param name The setting's name
+   * @param selector The control's selector
+   * @returns The control
+   */
+  function getControl<T extends HTMLElement>(name: string, selector: string): T {
+    const settingEl = Array.from(view.contentEl.querySelectorAll('.oh-my-cv-style-body .setting-item'))
+      .find(el => el.querySelector('.setting-item-name')?.textContent === name);
+    const controlEl = settingEl?.querySelector<T>(selector);
+    if (!controlEl) {
+      throw new Error(`No ${selector} for ${name}`);
+    }
+    return controlEl;
+  }
+
+  /**
+   * Change a control's value the way the user would
+   * @param name The setting's name
+   * @param selector The control's selector
+   * @param value The new value
+   * @param eventType The event the control reports changes with
+   */
+  function change(name: string, selector: string, value: string, eventType = 'change'): void {
+    const controlEl = getControl<HTMLInputElement | HTMLSelectElement>(name, selector);
+    controlEl.value = value;
+    controlEl.dispatchEvent(new Event(eventType));
+  }
+
+  /**
+   * Get the preview element
+   * @returns The preview
+   */
+  function getPreview(): HTMLElement {
+    return view.contentEl.querySelector('.oh-my-cv-preview') as HTMLElement;
+  }
+
+  /**
+   * Let the preview render the latest changes
+   */
+  async function waitForPreview(): Promise<void> {
+    await jest.advanceTimersByTimeAsync(PREVIEW_RENDER_DELAY + 1000);
+  }
+
+  beforeEach(async () => {
+    await setUpPlugin();
+    view = await openCVEditorView(createTestDocument(CONTENT));
+    view.contentEl.querySelector<HTMLButtonElement>('.oh-my-cv-style-button')?.click();
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+    document.body.empty();
+  });
+
+  test('should show the open CV\'s style', () => {
+    expect(getControl<HTMLInputElement>('Theme color', 'input[type="color"]').value).toBe('#4051b5');
+    expect(getControl<HTMLSelectElement>('Font', 'select').value).toBe('Arial, sans-serif');
+    expect(getControl<HTMLInputElement>('Font size (pt)', 'input[type="range"]').value).toBe('11');
+    expect(getControl<HTMLInputElement>('Top margin (mm)', 'input[type="range"]').value).toBe('20');
+  });
+
+  test('should send color, font and spacing changes to the CV and its preview', async () => {
+    const updateMetadata = jest.spyOn(view, 'updateMetadata');
+
+    change('Theme color', 'input[type="color"]', '#aa3300');
+    change('Font', 'select', 'Georgia, serif');
+    change('Font size (pt)', 'input[type="range"]', '12.5');
+    change('Line height', 'input[type="range"]', '1.2');
+
+    expect(updateMetadata.mock.calls.map(call => call[0])).toEqual([
+      { themeColor: '#aa3300' },
+      { fontFamily: 'Georgia, serif' },
+      { fontSize: 12.5 },
+      { lineHeight: 1.2 }
+    ]);
+    expect(getControl<HTMLInputElement>('Font', 'input[type="text"]').value).toBe('Georgia, serif');
+
+    await waitForPreview();
+    const previewEl = getPreview();
+    expect(previewEl.style.getPropertyValue('--theme-color')).toBe('#aa3300');
+    expect(previewEl.style.fontFamily).toBe('Georgia, serif');
+    expect(previewEl.style.fontSize).toBe('12.5pt');
+    expect(previewEl.style.lineHeight).toBe('1.2');
+    expect(view.contentEl.querySelector('.oh-my-cv-status-save')?.textContent).toBe('Unsaved changes');
+  });
+
+  test('should accept a font stack typed in', () => {
+    change('Font', 'input[type="text"]', 'Inter, sans-serif', 'input');
+    expect(view.getCurrentDocument()?.metadata.fontFamily).toBe('Inter, sans-serif');
+    expect(getControl<HTMLSelectElement>('Font', 'select').value).toBe('Inter, sans-serif');
+
+    change('Font', 'input[type="text"]', '"Fira Sans", sans-serif', 'input');
+    expect(view.getCurrentDocument()?.metadata.fontFamily).toBe('"Fira Sans", sans-serif');
+    expect(getControl<HTMLSelectElement>('Font', 'select').value).toBe('');
+
+    // An empty box leaves the font as it was
+    change('Font', 'input[type="text"]', ' ', 'input');
+    expect(view.getCurrentDocument()?.metadata.fontFamily).toBe('"Fira Sans", sans-serif');
+  });
+
+  test('should change one margin at a time and lay the preview out with the new page', async () => {
+    change('Top margin (mm)', 'input[type="range"]', '30');
+    change('Left margin (mm)', 'input[type="range"]', '10');
+    change('Orientation', 'select', 'landscape');
+
+    expect(view.getCurrentDocument()?.metadata).toEqual(expect.objectContaining({
+      margins: { top: 30, right: 20, bottom: 20, left: 10 },
+      orientation: 'landscape'
+    }));
+
+    await waitForPreview();
+    const sheetEl = getPreview().querySelector<HTMLElement>('.oh-my-cv-sheet');
+    expect(sheetEl?.style.padding).toBe('30mm 20mm 20mm 10mm');
+    // A landscape A4 sheet is wider than it is tall
+    expect(parseFloat(sheetEl?.style.width || '0')).toBeGreaterThan(parseFloat(sheetEl?.style.height || '0'));
+  });
+
+  test('should add custom CSS to the preview', async () => {
+    change('', 'textarea', '.oh-my-cv-section { letter-spacing: 1px; }', 'input');
+    expect(view.getCurrentDocument()?.metadata.customCss).toBe('.oh-my-cv-section { letter-spacing: 1px; }');
+    await waitForPreview();
+
+    const styleEls = getPreview().querySelectorAll('style.oh-my-cv-custom-css');
+    expect(Array.from(styleEls).map(el => el.textContent)).toEqual(['.oh-my-cv-section { letter-spacing: 1px; }']);
+
+    // Clearing the box removes the CSS
+    change('', 'textarea', '', 'input');
+    expect(view.getCurrentDocument()?.metadata.customCss).toBeUndefined();
+    await waitForPreview();
+    expect(getPreview().querySelector('style.oh-my-cv-custom-css')).toBeNull();
+  });
+
+  test('should save style changes with the CV', async () => {
+    const storage = getPluginInstance().storage;
+    change('Page size', 'select', 'LETTER');
+    change('Theme color', 'input[type="color"]', '#aa3300');
+
+    view.contentEl.querySelector<HTMLButtonElement>('.oh-my-cv-save-button')?.click();
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(storage.saveCV).toHaveBeenCalledWith(expect.objectContaining({
+      content: CONTENT,
+      metadata: expect.objectContaining({ pageSize: 'LETTER', themeColor: '#aa3300', fontSize: 11 })
+    }));
+  });
+
+  test('should reset the style to the defaults from the settings', () => {
+    change('Theme color', 'input[type="color"]', '#aa3300');
+    change('Top margin (mm)', 'input[type="range"]', '30');
+    change('', 'textarea', 'h1 { color: red; }', 'input');
+
+    view.contentEl.querySelector<HTMLButtonElement>('.oh-my-cv-style-reset button')?.click();
+
+    expect(view.getCurrentDocument()?.metadata).toEqual(expect.objectContaining({
+      themeColor: DEFAULT_SETTINGS.defaultThemeColor,
+      fontFamily: DEFAULT_SETTINGS.defaultFontFamily,
+      fontSize: DEFAULT_SETTINGS.defaultFontSize,
+      margins: DEFAULT_SETTINGS.defaultMargins,
+      customCss: undefined
+    }));
+    expect(getControl<HTMLInputElement>('Theme color', 'input[type="color"]').value).toBe(DEFAULT_SETTINGS.defaultThemeColor);
+    expect(getControl<HTMLInputElement>('Top margin (mm)', 'input[type="range"]').value).toBe(String(DEFAULT_SETTINGS.defaultMargins.top));
+  });
+
+  test('should ask for a CV when none is open', async () => {
+    jest.useRealTimers();
+    view = await openCVEditorView();
+    view.contentEl.querySelector<HTMLButtonElement>('.oh-my-cv-style-button')?.click();
+
+    expect(view.contentEl.querySelector('.oh-my-cv-style-empty')?.textContent).toBe('Open a CV to change its style.');
+    expect(view.contentEl.querySelector('.oh-my-cv-style-body .setting-item')).toBeNull();
+  });
+});
@@ -0,0 +1,161 @@
+/**
+ * Unit tests for the template editor and how the settings tab saves its templates
+ */
+import { jest, describe, beforeEach, afterEach, test, expect } from '@jest/globals';
+import { OhMyCVSettingsTab } from '../../src/ui/settings-tab';
+import { SettingsService } from '../../src/services/settings-service';
+import { PREVIEW_RENDER_DELAY } from '../../src/core/constants';
+import { DEFAULT_TEMPLATE_STYLE } from '../../src/core/templates';
+import { CVTemplate } from '../../src/core/types';
+import { setUpPlugin } from '../mocks/cv-editor-view';
+
+// html2pdf needs a canvas, which jsdom does not have
+jest.mock('html2pdf.js', () => ({ default: jest.fn() }));
+
+const MARKDOWN = '# Your Name\n\nemail@example.com | City\n\n## Experience\n';
+
+describe('TemplateEditorModal', () => {
+  let plugin: any;
+  let settings: SettingsService;
+  let tab: OhMyCVSettingsTab;
+
+  /**
+   * Get the open template editor
+   * @returns The modal's content
+   */
+  function getModal(): HTMLElement {
+    const modalEl = document.body.querySelector<HTMLElement>('.oh-my-cv-template-editor-modal .modal-content');
+    if (!modalEl) {
+      throw new Error('The template editor is not open');
+    }
+    return modalEl;
+  }
+
+  /**
+   * Type into one of the editor's fields the way the user would
+   * @param name The field's setting name, or 'Markdown' for the Markdown box
+   * @param value The new value
+   */
+  function type(name: string, value: string): void {
+    const controlEl = name === 'Markdown'
+      ? getModal().querySelector<HTMLTextAreaElement>('.oh-my-cv-template-editor-markdown textarea')
+      : Array.from(getModal().querySelectorAll('.setting-item'))
+        .find(el => el.querySelector('.setting-item-name')?.textContent === name)
+        ?.querySelector<HTMLInputElement | HTMLTextAreaElement>('input[type="text"], textarea');
+    if (!controlEl) {
+      throw new Error(`No field for ${name}`);
+    }
+    controlEl.value = value;
+    controlEl.dispatchEvent(new Event('input'));
+  }
+
+  /**
+   * Click one of the editor's buttons
+   * @param text The button's text
+   */
+  async function clickButton(text: string): Promise<void> {
+    Array.from(getModal().querySelectorAll('button')).find(el => el.textContent === text)?.click();
+    await jest.advanceTimersByTimeAsync(0);
+  }
+
+  /**
+   * Get the problems the editor lists
+   * @returns The messages
+   */
+  function getErrors(): (string | null)[] {
+    return Array.from(getModal().querySelectorAll('.oh-my-cv-template-editor-errors li')).map(el => el.textContent);
+  }
+
+  /**
+   * Open the editor for a template listed in the settings tab
+   * @param index The template's place in the list
+   */
+  function edit(index: number): void {
+    tab.containerEl.querySelectorAll<HTMLButtonElement>('.oh-my-cv-template-edit')[index].click();
+  }
+
+  beforeEach(async () => {
+    plugin = await setUpPlugin();
+    settings = plugin.settings;
+    tab = new OhMyCVSettingsTab(plugin.app, plugin);
+    tab.display();
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    document.body.empty();
+  });
+
+  test('should reject an invalid template and save a valid one to the settings', async () => {
+    Array.from(tab.containerEl.querySelectorAll('button')).find(el => el.textContent === 'Add Template')?.click();
+    expect(getModal().querySelector('h2')?.textContent).toBe('New template');
+
+    // Nothing filled in yet
+    await clickButton('Create');
+    expect(getErrors()).toEqual(['Give the template a name', 'Add the template\'s Markdown content']);
+
+    type('Name', '  Compact  ');
+    type('Markdown', MARKDOWN);
+    type('Primary color', 'teal-ish');
+    type('Font size', 'big');
+    await clickButton('Create');
+    expect(getErrors()).toEqual([
+      'Primary color \'teal-ish\' is not a color',
+      'Font size \'big\' should be a size like 11pt'
+    ]);
+    expect(plugin.saveData).not.toHaveBeenCalled();
+
+    // The preview follows the Markdown
+    await jest.advanceTimersByTimeAsync(PREVIEW_RENDER_DELAY + 1000);
+    expect(getModal().querySelector('.oh-my-cv-template-editor-preview h1')?.textContent).toBe('Your Name');
+
+    type('Primary color', '#007777');
+    type('Font size', '10pt');
+    type('Tags', 'compact, , modern');
+    await clickButton('Create');
+
+    expect(document.body.querySelector('.oh-my-cv-template-editor-modal')).toBeNull();
+    const saved = settings.getUserTemplates();
+    expect(saved).toEqual([expect.objectContaining({
+      name: 'Compact',
+      content: MARKDOWN,
+      tags: ['compact', 'modern'],
+      style: expect.objectContaining({
+        theme: expect.objectContaining({ primaryColor: '#007777', fontSize: '10pt' })
+      })
+    })]);
+    expect(plugin.saveData).toHaveBeenCalledWith(expect.objectContaining({ templates: saved }));
+
+    // The settings tab lists the new template
+    expect(Array.from(tab.containerEl.querySelectorAll('.oh-my-cv-template-item h4')).map(el => el.textContent))
+      .toContain('Compact');
+  });
+
+  test('should not save a template that clashes with another or was cancelled', async () => {
+    const templates: CVTemplate[] = [
+      { id: 'compact', name: 'Compact', description: '', content: MARKDOWN, style: DEFAULT_TEMPLATE_STYLE },
+      { id: 'roomy', name: 'Roomy', description: '', content: MARKDOWN, style: DEFAULT_TEMPLATE_STYLE }
+    ];
+    await settings.addTemplates(templates);
+    tab.display();
+    plugin.saveData.mockClear();
+
+    edit(1);
+    expect(getModal().querySelector('h2')?.textContent).toBe('Edit Roomy');
+    type('Name', 'compact');
+    await clickButton('Save');
+    expect(getErrors()).toEqual(['Another template is already called \'compact\'']);
+
+    // Cancelling leaves the template as it was
+    await clickButton('Cancel');
+    expect(settings.getUserTemplates().map(template => template.name)).toEqual(['Compact', 'Roomy']);
+    expect(plugin.saveData).not.toHaveBeenCalled();
+
+    edit(1);
+    type('Name', 'Spacious');
+    await clickButton('Save');
+    expect(settings.getUserTemplates().map(template => template.name)).toEqual(['Compact', 'Spacious']);
+    expect(plugin.saveData).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,64 @@
+/**
+ * Unit tests for the template files kept in the vault
+ */
+import { describe, test, expect } from '@jest/globals';
+import { parseTemplateFile, serializeTemplateFile } from '../../src/core/template-files';
+import { CLASSIC_PROFESSIONAL_TEMPLATE, DEFAULT_TEMPLATE_STYLE } from '../../src/core/templates';
+
+describe('Template files', () => {
+  test('should read the details, style and content', () => {
+    const text = [
+      '---',
+      'id: minimal',
+      'name: Minimal',
+      'description: Few colors',
+      'category: Professional',
+      'tags: minimal, modern',
+      'style:',
+      '  theme:',
+      '    primaryColor: "#112233"',
+      '    lineHeight: 1.4',
+      '  margins:',
+      '    top: 10',
+      '  spacing: 1.1',
+      '  customCSS: "h1 { font-weight: 300; }"',
+      '---',
+      '',
+      '# Your Name',
+      ''
+    ].join('\n');
+
+    expect(parseTemplateFile('Templates/Minimal.md', text)).toEqual({
+      id: 'minimal',
+      name: 'Minimal',
+      description: 'Few colors',
+      category: 'Professional',
+      tags: ['minimal', 'modern'],
+      content: '# Your Name\n',
+      style: {
+        theme: { ...DEFAULT_TEMPLATE_STYLE.theme, primaryColor: '#112233', lineHeight: '1.4' },
+        margins: { ...DEFAULT_TEMPLATE_STYLE.margins, top: 10 },
+        spacing: 1.1,
+        customCSS: 'h1 { font-weight: 300; }'
+      }
+    });
+  });
+
+  test('should fall back to the file name and default style', () => {
+    const template = parseTemplateFile('CV Templates/Two Column.md', '# Your Name');
+    expect(template.id).toBe('vault-cv-templates-two-column');
+    expect(template.name).toBe('Two Column');
+    expect(template.content).toBe('# Your Name');
+    expect(template.style).toEqual(DEFAULT_TEMPLATE_STYLE);
+  });
+
+  test('should reject frontmatter that is not a set of fields', () => {
+    expect(() => parseTemplateFile('Templates/List.md', '---\n- a\n- b\n---\n# CV')).toThrow();
+    expect(() => parseTemplateFile('Templates/Broken.md', '---\nname: [unclosed\n---\n# CV')).toThrow();
+  });
+
+  test('should round-trip a template', () => {
+    const template = { ...CLASSIC_PROFESSIONAL_TEMPLATE, content: '# Your Name\n\n## Experience\n' };
+    expect(parseTemplateFile('Templates/Classic.md', serializeTemplateFile(template))).toEqual(template);
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * Unit tests for the shareable template packages
+ */
+import { describe, test, expect } from '@jest/globals';
+import {
+  createTemplatePackage,
+  filesToTemplatePackage,
+  findTemplateCollisions,
+  getTemplateFonts,
+  isBinaryPackageFile,
+  parseTemplatePackage,
+  planTemplateImport,
+  templatePackageToFiles
+} from '../../src/core/template-package';
+import { CLASSIC_PROFESSIONAL_TEMPLATE, DEFAULT_TEMPLATES } from '../../src/core/templates';
+import { TEMPLATE_PACKAGE_MANIFEST } from '../../src/core/constants';
+import { CVTemplate } from '../../src/core/types';
+
+const TEMPLATE: CVTemplate = {
+  ...CLASSIC_PROFESSIONAL_TEMPLATE,
+  id: 'team-template',
+  name: 'Team Template',
+  previewImage: 'data:image/jpeg;base64,/9j/4AAQ',
+  style: {
+    ...CLASSIC_PROFESSIONAL_TEMPLATE.style,
+    theme: { ...CLASSIC_PROFESSIONAL_TEMPLATE.style.theme, headingFont: '"Playfair Display", serif', bodyFont: 'sans-serif' },
+    customCSS: 'h1 { letter-spacing: 2px; }'
+  }
+};
+
+describe('Template packages', () => {
+  test('should list the fonts the templates use', () => {
+    expect(getTemplateFonts([TEMPLATE, CLASSIC_PROFESSIONAL_TEMPLATE])).toEqual(['Playfair Display', 'Roboto']);
+  });
+
+  test('should round-trip a package as JSON', () => {
+    const templatePackage = createTemplatePackage([TEMPLATE], new Date('2026-10-18T12:00:00Z'));
+    expect(templatePackage.exportedAt).toBe('2026-10-18T12:00:00.000Z');
+    expect(parseTemplatePackage(JSON.parse(JSON.stringify(templatePackage)))).toEqual(templatePackage);
+  });
+
+  test('should round-trip a package as zip files', () => {
+    const templatePackage = createTemplatePackage([TEMPLATE, { ...TEMPLATE, id: 'other', name: 'Team Template!' }]);
+    const files = templatePackageToFiles(templatePackage);
+
+    expect(Object.keys(files).sort()).toEqual([
+      TEMPLATE_PACKAGE_MANIFEST,
+      'templates/team-template-2/content.md',
+      'templates/team-template-2/preview.jpg',
+      'templates/team-template-2/style.css',
+      'templates/team-template/content.md',
+      'templates/team-template/preview.jpg',
+      'templates/team-template/style.css'
+    ]);
+    expect(files['templates/team-template/style.css']).toBe('h1 { letter-spacing: 2px; }');
+    expect(files['templates/team-template/preview.jpg']).toBe('/9j/4AAQ');
+    expect(isBinaryPackageFile('templates/team-template/preview.jpg')).toBe(true);
+    expect(isBinaryPackageFile('templates/team-template/content.md')).toBe(false);
+    expect(filesToTemplatePackage(files)).toEqual(templatePackage);
+  });
+
+  test('should check the format and schema version', () => {
+    const templatePackage = createTemplatePackage([TEMPLATE]);
+    expect(() => parseTemplatePackage({ templates: [TEMPLATE] })).toThrow('not an Oh My CV template package');
+    expect(() => parseTemplatePackage({ ...templatePackage, schemaVersion: 'one' })).toThrow('no valid schema version');
+    expect(() => parseTemplatePackage({ ...templatePackage, schemaVersion: 99 })).toThrow('schema version 99');
+    expect(() => parseTemplatePackage({ ...templatePackage, templates: [] })).toThrow('no templates');
+    expect(() => parseTemplatePackage({ ...templatePackage, templates: [{ id: 'x' }] })).toThrow('Template 1 in the package is incomplete');
+    expect(() => filesToTemplatePackage({})).toThrow(TEMPLATE_PACKAGE_MANIFEST);
+  });
+
+  test('should reject invalid templates', () => {
+    const invalid = { ...TEMPLATE, style: { ...TEMPLATE.style, spacing: 0 } };
+    expect(() => parseTemplatePackage(createTemplatePackage([invalid]))).toThrow('Template \'Team Template\' in the package is invalid');
+  });
+
+  test('should find templates whose ID or name is taken', () => {
+    const incoming = [TEMPLATE, { ...TEMPLATE, id: 'new', name: 'classic professional' }, { ...TEMPLATE, id: 'fresh', name: 'Fresh' }];
+    expect(findTemplateCollisions(incoming, [...DEFAULT_TEMPLATES, TEMPLATE]).map(template => template.id)).toEqual(['team-template', 'new']);
+  });
+
+  test('should skip, replace or copy colliding templates', () => {
+    const existing = [...DEFAULT_TEMPLATES, TEMPLATE];
+    const updated = { ...TEMPLATE, description: 'Updated' };
+    const builtIn = { ...CLASSIC_PROFESSIONAL_TEMPLATE, description: 'Changed' };
+
+    const skipped = planTemplateImport([updated, builtIn], existing, [TEMPLATE.id], 'skip');
+    expect(skipped).toEqual({ added: [], replaced: [], skipped: [updated, builtIn] });
+
+    // Built-in templates cannot be replaced, so they are copied
+    const replaced = planTemplateImport([updated, builtIn], existing, [TEMPLATE.id], 'replace');
+    expect(replaced.replaced).toEqual([updated]);
+    expect(replaced.added).toEqual([{ ...builtIn, id: 'classic-professional-2', name: 'Classic Professional (2)' }]);
+
+    const copied = planTemplateImport([updated, updated], existing, [TEMPLATE.id], 'copy');
+    expect(copied.added.map(template => [template.id, template.name])).toEqual([
+      ['team-template-2', 'Team Template (2)'],
+      ['team-template-3', 'Team Template (3)']
+    ]);
+  });
+});
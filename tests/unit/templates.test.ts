@@ -0,0 +1,114 @@
+/**
+ * Unit tests for the CV templates
+ */
+import { describe, test, expect } from '@jest/globals';
+import { CLASSIC_PROFESSIONAL_TEMPLATE, DEFAULT_TEMPLATES, metadataToTemplateStyle, templateStyleToMetadata, validateTemplate } from '../../src/core/templates';
+import { CVMetadata, CVTemplate } from '../../src/core/types';
+
+const TEMPLATE: CVTemplate = {
+  ...CLASSIC_PROFESSIONAL_TEMPLATE,
+  id: 'my-template',
+  name: 'My Template'
+};
+
+describe('Templates', () => {
+  test('should accept the built-in templates', () => {
+    DEFAULT_TEMPLATES.forEach(template => {
+      expect(validateTemplate(template, DEFAULT_TEMPLATES.filter(other => other !== template))).toEqual([]);
+    });
+  });
+
+  test('should require a unique ID and name', () => {
+    expect(validateTemplate({ ...TEMPLATE, id: CLASSIC_PROFESSIONAL_TEMPLATE.id, name: ' classic professional ' }, DEFAULT_TEMPLATES)).toEqual([
+      `Another template already has the ID '${CLASSIC_PROFESSIONAL_TEMPLATE.id}'`,
+      'Another template is already called \'classic professional\''
+    ]);
+    expect(validateTemplate({ ...TEMPLATE, name: ' ', content: '' })).toEqual([
+      'Give the template a name',
+      'Add the template\'s Markdown content'
+    ]);
+  });
+
+  test('should check the style', () => {
+    const errors = validateTemplate({
+      ...TEMPLATE,
+      style: {
+        theme: { primaryColor: '#12', linkColor: 'rgb(0, 0, 0)', fontSize: '11', lineHeight: 'tall' },
+        margins: { top: -1, right: 20, bottom: 20, left: 20 },
+        spacing: 0
+      },
+      previewImage: 'preview.png'
+    });
+
+    expect(errors).toEqual([
+      'Primary color \'#12\' is not a color',
+      'Font size \'11\' should be a size like 11pt',
+      'Line height \'tall\' should be a number like 1.5',
+      'The top margin should be between 0 and 100 mm',
+      'Spacing should be a number above 0',
+      'The preview image should be a web address or a data:image URI'
+    ]);
+  });
+
+  test('should convert a CV\'s styling into a template style', () => {
+    const metadata: CVMetadata = {
+      title: 'CV',
+      lastModified: 0,
+      pageSize: 'A4',
+      margins: { top: 15, right: 20, bottom: 15, left: 20 },
+      themeColor: '#861f41',
+      fontFamily: 'Georgia, serif',
+      fontSize: 10.5,
+      lineHeight: 1.4,
+      customCss: 'h2 { text-transform: uppercase; }'
+    };
+    const style = metadataToTemplateStyle(metadata);
+
+    expect(style).toEqual({
+      theme: {
+        primaryColor: '#861f41',
+        textColor: '#000000',
+        linkColor: '#861f41',
+        backgroundColor: '#ffffff',
+        headingFont: 'Georgia, serif',
+        bodyFont: 'Georgia, serif',
+        fontSize: '10.5pt',
+        lineHeight: '1.4'
+      },
+      margins: { top: 15, right: 20, bottom: 15, left: 20 },
+      spacing: 1.4,
+      customCSS: 'h2 { text-transform: uppercase; }'
+    });
+    expect(style.margins).not.toBe(metadata.margins);
+    expect(validateTemplate({ ...TEMPLATE, style })).toEqual([]);
+
+    // And back again
+    expect(templateStyleToMetadata(style)).toEqual({
+      themeColor: '#861f41',
+      fontFamily: 'Georgia, serif',
+      fontSize: 10.5,
+      lineHeight: 1.4,
+      margins: { top: 15, right: 20, bottom: 15, left: 20 },
+      customCss: 'h2 { text-transform: uppercase; }'
+    });
+  });
+
+  test('should convert a template style into a CV\'s styling', () => {
+    const metadata = templateStyleToMetadata({
+      theme: { primaryColor: '#2d3748', headingFont: 'Inter', fontSize: '16px', lineHeight: 'normal' },
+      margins: CLASSIC_PROFESSIONAL_TEMPLATE.style.margins,
+      spacing: 1.2
+    });
+
+    expect(metadata).toEqual({
+      themeColor: '#2d3748',
+      fontFamily: 'Inter',
+      fontSize: 12,
+      lineHeight: 1.2,
+      margins: CLASSIC_PROFESSIONAL_TEMPLATE.style.margins,
+      customCss: undefined
+    });
+    expect(metadata.margins).not.toBe(CLASSIC_PROFESSIONAL_TEMPLATE.style.margins);
+    expect(templateStyleToMetadata({ ...CLASSIC_PROFESSIONAL_TEMPLATE.style, theme: { primaryColor: '#000', fontSize: '1em' } }).fontSize).toBeUndefined();
+  });
+});
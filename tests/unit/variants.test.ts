@@ -0,0 +1,81 @@
+/**
+ * Unit tests for tailored CV variants
+ */
+import { describe, test, expect } from '@jest/globals';
+import { filterVariantContent, getVariantTags, parseTagList, parseVariantAnnotation, stripVariantAnnotations } from '../../src/core/variants';
+
+const MASTER = [
+  '# Jane Doe',
+  '',
+  '## Experience',
+  '',
+  '### Platform Engineer {.only: backend}',
+  '- Built the billing API',
+  '- Ran the design system {.only: frontend}',
+  '',
+  '### Frontend Lead {.except: backend}',
+  '- Shipped the new checkout',
+  '',
+  '## Publications {.only: research, ml}',
+  '',
+  '### Paper',
+  'Details',
+  '',
+  '## Skills',
+  '- Go, TypeScript'
+].join('\n');
+
+describe('Variants', () => {
+  test('should parse annotations', () => {
+    expect(parseVariantAnnotation('## Skills')).toEqual({ text: '## Skills' });
+    expect(parseVariantAnnotation('## Publications {.only: research, ML}')).toEqual({
+      text: '## Publications',
+      only: ['research', 'ml']
+    });
+    expect(parseVariantAnnotation('- Item {.except: backend frontend} ')).toEqual({
+      text: '- Item',
+      except: ['backend', 'frontend']
+    });
+  });
+
+  test('should parse tag lists', () => {
+    expect(parseTagList('backend, ml')).toEqual(['backend', 'ml']);
+    expect(parseTagList('[Backend, "ML"]')).toEqual(['backend', 'ml']);
+    expect(parseTagList('')).toEqual([]);
+  });
+
+  test('should keep matching sections and entries', () => {
+    const backend = filterVariantContent(MASTER, ['backend']);
+    expect(backend).toContain('### Platform Engineer\n- Built the billing API');
+    expect(backend).not.toContain('design system');
+    expect(backend).not.toContain('Frontend Lead');
+    expect(backend).not.toContain('Publications');
+    expect(backend).not.toContain('Paper');
+    expect(backend).toContain('## Skills');
+  });
+
+  test('should drop a section up to the next heading of the same level', () => {
+    const research = filterVariantContent(MASTER, ['research']);
+    expect(research).toContain('## Publications\n\n### Paper\nDetails');
+    expect(research).not.toContain('Platform Engineer');
+    expect(research).not.toContain('billing');
+    expect(research).toContain('### Frontend Lead');
+  });
+
+  test('should keep everything when stripping annotations', () => {
+    const master = stripVariantAnnotations(MASTER);
+    expect(master).not.toContain('{.');
+    expect(master).toContain('### Platform Engineer');
+    expect(master).toContain('- Ran the design system');
+    expect(master).toContain('## Publications');
+  });
+
+  test('should leave code blocks alone', () => {
+    const markdown = '```\n## Not a heading {.only: x}\n```';
+    expect(filterVariantContent(markdown, ['y'])).toBe(markdown);
+  });
+
+  test('should list tags used in a master', () => {
+    expect(getVariantTags(MASTER)).toEqual(['backend', 'frontend', 'ml', 'research']);
+  });
+});
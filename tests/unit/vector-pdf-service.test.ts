@@ -0,0 +1,168 @@
+/**
+ * Unit tests for the Vector PDF Service
+ */
+import { jest, describe, afterEach, test, expect } from '@jest/globals';
+import { VectorPDFService } from '../../src/services/vector-pdf-service';
+import { PDFExportOptions } from '../../src/core/types';
+
+const OPTIONS: PDFExportOptions = {
+  filename: 'Jane <Doe> & Co.pdf',
+  pageSize: 'A4',
+  orientation: 'portrait',
+  margins: { top: 20, right: 15, bottom: 20, left: 15 },
+  includeHeader: false,
+  includeFooter: false,
+  includePageNumbers: true
+};
+
+/**
+ * Make a fake Electron remote module whose print window records what it is given
+ * @returns The remote module and the print window
+ */
+function createRemote() {
+  const printWindow = {
+    loadFile: jest.fn(async (filePath: string) => undefined),
+    destroy: jest.fn(),
+    webContents: {
+      executeJavaScript: jest.fn(async (code: string) => true),
+      printToPDF: jest.fn(async (options: unknown) => new Uint8Array([37, 80, 68, 70]))
+    }
+  };
+  return { remote: { BrowserWindow: jest.fn(() => printWindow) }, printWindow };
+}
+
+/**
+ * Make a fake module loader for the desktop app, with a file system that records what is written
+ * @param modules The Electron modules it provides
+ * @returns The loader and the files written
+ */
+function createNodeRequire(modules: Record<string, unknown>) {
+  const files = new Map<string, string>();
+  const fs = {
+    promises: {
+      writeFile: jest.fn(async (path: string, data: string) => {
+        files.set(path, data);
+      }),
+      unlink: jest.fn(async (path: string) => {
+        files.delete(path);
+      })
+    }
+  };
+  const loader = jest.fn((module: string) => {
+    const nodeModules: Record<string, unknown> = {
+      ...modules,
+      fs,
+      os: { tmpdir: () => '/tmp' },
+      path: { join: (...paths: string[]) => paths.join('/') }
+    };
+    if (!(module in nodeModules)) {
+      throw new Error(`Cannot find module '${module}'`);
+    }
+    return nodeModules[module];
+  });
+  return { loader, fs, files };
+}
+
+describe('VectorPDFService', () => {
+  const service = new VectorPDFService();
+
+  afterEach(() => {
+    delete (window as any).require;
+    document.head.empty();
+  });
+
+  describe('buildPrintDocument', () => {
+    test('should wrap the CV in a page with its page rule and an escaped title', () => {
+      const element = document.createElement('div');
+      element.className = 'oh-my-cv-export';
+      element.innerHTML = '<h1>Jane Doe</h1>';
+
+      const html = service.buildPrintDocument(element, OPTIONS);
+
+      expect(html.startsWith('<!DOCTYPE html>')).toBe(true);
+      expect(html).toContain('<title>Jane &lt;Doe&gt; &amp; Co</title>');
+      expect(html).toContain('@page');
+      expect(html).toContain('size: 210mm 297mm;');
+      expect(html).toContain('margin: 20mm 15mm 20mm 15mm');
+      expect(html).toContain('<body><div class="oh-my-cv-export"><h1>Jane Doe</h1></div></body>');
+    });
+
+    test('should use a landscape page for landscape exports', () => {
+      const html = service.buildPrintDocument(document.createElement('div'), { ...OPTIONS, orientation: 'landscape' });
+      expect(html).toContain('size: 297mm 210mm;');
+    });
+  });
+
+  describe('collectCVStyles', () => {
+    test('should copy the plugin\'s rules and font faces, leaving other styles out', () => {
+      const styleEl = document.head.createEl('style');
+      styleEl.textContent = `
+        @font-face { font-family: "Inter"; src: url(inter.woff2); }
+        .oh-my-cv-preview h1 { color: red; }
+        .workspace-leaf { color: blue; }
+      `;
+
+      const css = service.collectCVStyles();
+
+      expect(css).toContain('@font-face');
+      expect(css).toContain('.oh-my-cv-preview h1');
+      expect(css).not.toContain('.workspace-leaf');
+    });
+  });
+
+  describe('Electron access', () => {
+    test('should be unavailable without the desktop app\'s module loader', async () => {
+      expect(service.isAvailable()).toBe(false);
+      await expect(service.renderToPDF(document.createElement('div'), OPTIONS)).rejects.toThrow('desktop app');
+    });
+
+    test('should be unavailable when Electron has no remote module', () => {
+      (window as any).require = createNodeRequire({ electron: {} }).loader;
+      expect(service.isAvailable()).toBe(false);
+
+      (window as any).require = createNodeRequire({}).loader;
+      expect(service.isAvailable()).toBe(false);
+    });
+
+    test('should use @electron/remote where Electron no longer has a remote module', () => {
+      const { remote } = createRemote();
+      const { loader } = createNodeRequire({ electron: {}, '@electron/remote': remote });
+      (window as any).require = loader;
+
+      expect(service.isAvailable()).toBe(true);
+      expect(loader).toHaveBeenCalledWith('@electron/remote');
+    });
+
+    test('should print through a hidden window loading a temporary file, and clean both up', async () => {
+      const { remote, printWindow } = createRemote();
+      const { loader, fs, files } = createNodeRequire({ electron: { remote } });
+      (window as any).require = loader;
+      const element = document.createElement('div');
+      element.innerHTML = '<h1>Jane Doe</h1>';
+
+      expect(service.isAvailable()).toBe(true);
+      const data = await service.renderToPDF(element, OPTIONS);
+
+      expect(remote.BrowserWindow).toHaveBeenCalledWith(expect.objectContaining({ show: false }));
+      const filePath = printWindow.loadFile.mock.calls[0][0];
+      expect(filePath).toMatch(/^\/tmp\/oh-my-cv-[\w-]+\.html$/);
+      expect(fs.promises.writeFile).toHaveBeenCalledWith(filePath, expect.stringContaining('<h1>Jane Doe</h1>'));
+      expect(printWindow.webContents.printToPDF).toHaveBeenCalledWith(expect.objectContaining({ preferCSSPageSize: true, landscape: false }));
+      expect(new Uint8Array(data)).toEqual(new Uint8Array([37, 80, 68, 70]));
+      expect(printWindow.destroy).toHaveBeenCalled();
+      expect(fs.promises.unlink).toHaveBeenCalledWith(filePath);
+      expect(files.size).toBe(0);
+    });
+
+    test('should close the print window and delete the file when printing fails', async () => {
+      const { remote, printWindow } = createRemote();
+      printWindow.webContents.printToPDF.mockRejectedValue(new Error('Printing failed'));
+      const { loader, files } = createNodeRequire({ electron: { remote } });
+      (window as any).require = loader;
+
+      await expect(service.renderToPDF(document.createElement('div'), OPTIONS)).rejects.toThrow('Printing failed');
+      expect(printWindow.destroy).toHaveBeenCalled();
+      expect(files.size).toBe(0);
+    });
+  });
+});